@@ -27,8 +27,10 @@ import RevenueForecast from "@/pages/revenue-forecast";
 import IncomeStatement from "@/pages/income-statement";
 import BalanceSheet from "@/pages/balance-sheet";
 import CashFlow from "@/pages/cash-flow";
+import DebtSchedule from "@/pages/debt-schedule";
 import DCFValuation from "@/pages/dcf-valuation";
 import ValuationComparison from "@/pages/valuation-comparison";
+import ModelHistory from "@/pages/model-history";
 import Portfolio from "@/pages/portfolio";
 import MarketDataPage from "@/pages/market-data";
 import AnalysisGuide from "@/pages/analysis-guide";
@@ -54,8 +56,10 @@ function Router() {
       <Route path="/income-statement" component={IncomeStatement} />
       <Route path="/balance-sheet" component={BalanceSheet} />
       <Route path="/cash-flow" component={CashFlow} />
+      <Route path="/debt" component={DebtSchedule} />
       <Route path="/dcf" component={DCFValuation} />
       <Route path="/valuation" component={ValuationComparison} />
+      <Route path="/history" component={ModelHistory} />
       <Route path="/portfolio" component={Portfolio} />
       <Route path="/market-data" component={MarketDataPage} />
       <Route path="/chart" component={CompanyChart} />
@@ -1,5 +1,5 @@
 import { useLocation, Link } from "wouter";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useMutation } from "@tanstack/react-query";
 import {
   LayoutDashboard,
@@ -23,6 +23,11 @@ import {
   RefreshCw,
   Coins,
   Shield,
+  Download,
+  Upload,
+  Copy,
+  History,
+  Landmark,
 } from "lucide-react";
 import {
   Sidebar,
@@ -86,8 +91,10 @@ const modelingItems = [
   { title: "Income Statement", url: "/income-statement", icon: FileSpreadsheet, proFeature: "" },
   { title: "Balance Sheet", url: "/balance-sheet", icon: BarChart3, proFeature: "" },
   { title: "Cash Flow", url: "/cash-flow", icon: Wallet, proFeature: "" },
+  { title: "Debt Schedule", url: "/debt", icon: Landmark, proFeature: "" },
   { title: "DCF Valuation", url: "/dcf", icon: Calculator, proFeature: "sensitivity_table" },
   { title: "Valuation Compare", url: "/valuation", icon: Scale, proFeature: "valuation_comparison" },
+  { title: "Model History", url: "/history", icon: History, proFeature: "" },
 ];
 
 const cryptoItems = [
@@ -108,6 +115,8 @@ export function AppSidebar() {
   const [editOpen, setEditOpen] = useState(false);
   const [deleteOpen, setDeleteOpen] = useState(false);
   const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+  const [duplicateOpen, setDuplicateOpen] = useState(false);
+  const [duplicateName, setDuplicateName] = useState("");
   const [newCompany, setNewCompany] = useState({
     name: "",
     ticker: "",
@@ -243,6 +252,64 @@ export function AppSidebar() {
     },
   });
 
+  const duplicateMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedModel) return;
+      const res = await apiRequest("POST", `/api/models/${selectedModel.id}/duplicate`, { name: duplicateName });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+      setSelectedModelId(data.id);
+      setDuplicateOpen(false);
+      toast({ title: "Company duplicated", description: `${data.name} is ready for analysis.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDownloadBackup = async () => {
+    if (!selectedModel) return;
+    try {
+      const res = await apiRequest("GET", `/api/models/${selectedModel.id}/export`);
+      const blob = await res.blob();
+      const href = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = href;
+      a.download = `${(selectedModel.ticker || selectedModel.name).replace(/[^A-Za-z0-9_-]+/g, "_")}.kozo.json`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(href);
+    } catch (err: any) {
+      toast({ title: "Backup failed", description: err.message, variant: "destructive" });
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error("File is not valid JSON");
+      }
+      const res = await apiRequest("POST", "/api/models/import", bundle);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+      setSelectedModelId(data.id);
+      toast({ title: "Model imported", description: `${data.name} has been added to your companies.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Import failed", description: err.message, variant: "destructive" });
+    },
+  });
+
   const deleteTargetModel = models.find((m) => m.id === deleteTarget);
 
   return (
@@ -320,6 +387,19 @@ export function AppSidebar() {
                     <Pencil className="h-4 w-4 mr-2" />
                     <span className="text-xs">Edit Company</span>
                   </DropdownMenuItem>
+                  <UpgradeGate resource="financial_model">
+                    <DropdownMenuItem
+                      onClick={() => {
+                        setDuplicateName(selectedModel ? `${selectedModel.name} (Copy)` : "");
+                        setDuplicateOpen(true);
+                      }}
+                      disabled={!selectedModel}
+                      data-testid="button-duplicate-company"
+                    >
+                      <Copy className="h-4 w-4 mr-2" />
+                      <span className="text-xs">Duplicate</span>
+                    </DropdownMenuItem>
+                  </UpgradeGate>
                   <UpgradeGate resource="financial_model">
                     <DropdownMenuItem
                       onClick={() => setCreateOpen(true)}
@@ -329,8 +409,39 @@ export function AppSidebar() {
                       <span className="text-xs">New Company</span>
                     </DropdownMenuItem>
                   </UpgradeGate>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={handleDownloadBackup}
+                    disabled={!selectedModel}
+                    data-testid="button-download-backup"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    <span className="text-xs">Download Backup (JSON)</span>
+                  </DropdownMenuItem>
+                  <UpgradeGate resource="financial_model">
+                    <DropdownMenuItem
+                      onClick={() => importInputRef.current?.click()}
+                      disabled={importMutation.isPending}
+                      data-testid="button-import-model"
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      <span className="text-xs">Import Model (JSON)</span>
+                    </DropdownMenuItem>
+                  </UpgradeGate>
                 </DropdownMenuContent>
               </DropdownMenu>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importMutation.mutate(file);
+                  e.target.value = "";
+                }}
+                data-testid="input-import-model"
+              />
             </div>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -536,6 +647,38 @@ export function AppSidebar() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={duplicateOpen} onOpenChange={setDuplicateOpen}>
+        <DialogContent data-testid="dialog-duplicate-company">
+          <DialogHeader>
+            <DialogTitle>Duplicate Company</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="duplicate-name">New Name</Label>
+              <Input
+                id="duplicate-name"
+                value={duplicateName}
+                onChange={(e) => setDuplicateName(e.target.value)}
+                data-testid="input-duplicate-name"
+              />
+              <p className="text-xs text-muted-foreground">Copies revenue, statements, DCF, valuation and assumptions into a new model.</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDuplicateOpen(false)} data-testid="button-cancel-duplicate">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => duplicateMutation.mutate()}
+              disabled={!duplicateName.trim() || duplicateMutation.isPending}
+              data-testid="button-confirm-duplicate"
+            >
+              {duplicateMutation.isPending ? "Duplicating..." : "Duplicate"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={editOpen} onOpenChange={setEditOpen}>
         <DialogContent data-testid="dialog-edit-company">
           <DialogHeader>
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, ArrowRight } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPercent } from "@/lib/calculations";
+import { useToast } from "@/hooks/use-toast";
+import type { CalibrationMethod, CalibrationProposal, CalibrationResult } from "@shared/schema";
+
+const METHOD_LABELS: Record<CalibrationMethod, string> = {
+  median: "Median",
+  average: "Average",
+  last: "Last year",
+};
+
+const LOOKBACK_OPTIONS = [1, 3, 5, 10];
+
+interface CalibrateAssumptionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  modelId: string;
+}
+
+function formatValue(value: number | null, unit: CalibrationProposal["unit"]): string {
+  if (value === null) return "--";
+  return unit === "percent" ? formatPercent(value) : `${value.toFixed(1)} days`;
+}
+
+export function CalibrateAssumptionsDialog({ open, onOpenChange, modelId }: CalibrateAssumptionsDialogProps) {
+  const { toast } = useToast();
+  const [method, setMethod] = useState<CalibrationMethod>("median");
+  const [years, setYears] = useState(3);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const { data, isLoading, error } = useQuery<CalibrationResult>({
+    queryKey: ["/api/models", modelId, "calibration", method, years],
+    queryFn: async () => {
+      const res = await fetch(`/api/models/${modelId}/calibration?method=${method}&years=${years}`, { credentials: "include" });
+      if (!res.ok) throw new Error((await res.json()).message || "Calibration failed");
+      return res.json();
+    },
+    enabled: open,
+    staleTime: 0,
+  });
+
+  // Everything that would change is selected by default; unchanged rows are shown for context.
+  useEffect(() => {
+    if (!data) return;
+    setSelected(new Set(data.proposals.filter(p => p.current === null || Math.abs(p.proposed - p.current) > 1e-9).map(p => p.field)));
+  }, [data]);
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/models/${modelId}/calibration`, { method, years, fields: Array.from(selected) });
+      return res.json();
+    },
+    onSuccess: (result: { applied: CalibrationProposal[] }) => {
+      for (const key of ["assumptions", "income-statement", "balance-sheet", "cash-flow", "dcf", "valuation-comparison", "integrity", "calibration"]) {
+        queryClient.invalidateQueries({ queryKey: ["/api/models", modelId, key] });
+      }
+      toast({ title: "Assumptions calibrated", description: `Applied ${result.applied.length} assumptions from actuals and recalculated.` });
+      onOpenChange(false);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (field: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(field);
+      else next.delete(field);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Calibrate Assumptions from Actuals</DialogTitle>
+          <DialogDescription>
+            Derive projection assumptions from historical cost ratios, tax rate, capex and working capital days, then review the changes before applying them to the base case.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3 flex-wrap">
+          <Select value={method} onValueChange={(v) => setMethod(v as CalibrationMethod)}>
+            <SelectTrigger className="w-36 h-8" data-testid="select-calibration-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(METHOD_LABELS) as CalibrationMethod[]).map(m => (
+                <SelectItem key={m} value={m}>{METHOD_LABELS[m]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(years)} onValueChange={(v) => setYears(parseInt(v))} disabled={method === "last"}>
+            <SelectTrigger className="w-40 h-8" data-testid="select-calibration-years">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOOKBACK_OPTIONS.map(n => (
+                <SelectItem key={n} value={String(n)}>Last {n} {n === 1 ? "year" : "years"}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading && (
+          <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+        )}
+        {error && <p className="text-sm text-destructive">{(error as Error).message}</p>}
+        {data && data.proposals.length === 0 && (
+          <p className="text-sm text-muted-foreground py-4" data-testid="text-no-calibration">
+            No actual years to calibrate from. Import or enter historical statements first.
+          </p>
+        )}
+        {data && data.proposals.length > 0 && (
+          <div className="overflow-y-auto max-h-[360px]">
+            <Table data-testid="table-calibration">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Assumption</TableHead>
+                  <TableHead className="text-right">Current</TableHead>
+                  <TableHead className="w-6" />
+                  <TableHead className="text-right">Proposed</TableHead>
+                  <TableHead className="text-right">Years</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.proposals.map(p => {
+                  const changed = p.current === null || Math.abs(p.proposed - p.current) > 1e-9;
+                  return (
+                    <TableRow key={p.field} data-testid={`row-calibration-${p.field}`}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(p.field)}
+                          onCheckedChange={(checked) => toggle(p.field, !!checked)}
+                          data-testid={`checkbox-calibration-${p.field}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {p.label}
+                        {p.field === "depreciationRate" && (
+                          <div className="text-xs text-muted-foreground">Used with percent-of-PP&E depreciation</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right text-sm text-muted-foreground">{formatValue(p.current, p.unit)}</TableCell>
+                      <TableCell><ArrowRight className="h-3 w-3 text-muted-foreground" /></TableCell>
+                      <TableCell className={`text-right text-sm ${changed ? "font-semibold" : "text-muted-foreground"}`} data-testid={`text-calibration-proposed-${p.field}`}>
+                        {formatValue(p.proposed, p.unit)}
+                      </TableCell>
+                      <TableCell className="text-right text-xs text-muted-foreground">
+                        {p.years.length > 1 ? `${p.years[0]}–${p.years[p.years.length - 1]}` : p.years[0]}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-calibration-cancel">Cancel</Button>
+          <Button
+            onClick={() => applyMutation.mutate()}
+            disabled={selected.size === 0 || applyMutation.isPending}
+            data-testid="button-calibration-apply"
+          >
+            {applyMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Apply {selected.size} &amp; Recalculate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+import { TableCell, TableRow } from "@/components/ui/table";
+import { periodKey } from "@/components/period-toggle";
+import { formatCurrency } from "@/lib/calculations";
+import type { CustomLines } from "@shared/schema";
+
+type CustomLineRow = { year: number; quarter: number | null; customLines: unknown };
+
+interface CustomLineRowsProps {
+  periods: CustomLineRow[];
+  // Columns after the periods (TTM, % of revenue) that the section needs to span.
+  trailingCells?: number;
+}
+
+// Filing lines mapped to custom labels in the SEC import. They're reported figures only, so
+// projected periods show "--" and the lines don't feed any subtotal.
+export function CustomLineRows({ periods, trailingCells = 0 }: CustomLineRowsProps) {
+  const linesOf = (row: CustomLineRow) => (row.customLines as CustomLines | null) || {};
+  const labels = Array.from(new Set(periods.flatMap(p => Object.keys(linesOf(p))))).sort();
+  if (labels.length === 0) return null;
+
+  return (
+    <>
+      <TableRow className="bg-muted/50">
+        <TableCell colSpan={periods.length + 1 + trailingCells} className="font-bold text-sm sticky left-0 bg-muted/50 z-10">CUSTOM LINES</TableCell>
+      </TableRow>
+      {labels.map(label => (
+        <TableRow key={label} data-testid={`row-custom-${label}`}>
+          <TableCell className="sticky left-0 bg-card z-10 pl-8">{label}</TableCell>
+          {periods.map(p => {
+            const val = linesOf(p)[label];
+            return (
+              <TableCell key={periodKey(p)} className="text-right">
+                {val !== undefined ? formatCurrency(val) : <span className="text-muted-foreground">--</span>}
+              </TableCell>
+            );
+          })}
+          {Array.from({ length: trailingCells }, (_, i) => <TableCell key={`trailing-${i}`} />)}
+        </TableRow>
+      ))}
+    </>
+  );
+}
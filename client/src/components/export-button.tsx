@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { UpgradeGate, UpgradePrompt } from "@/components/upgrade-gate";
+import { useToast } from "@/hooks/use-toast";
+import { Download, FileText, FileSpreadsheet, RefreshCw } from "lucide-react";
+
+interface ExportButtonProps {
+  url: string;
+  label?: string;
+}
+
+function filenameFromDisposition(header: string | null, fallback: string): string {
+  const match = header?.match(/filename="?([^"]+)"?/);
+  return match ? match[1] : fallback;
+}
+
+export function ExportButton({ url, label = "Export" }: ExportButtonProps) {
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState(false);
+
+  const handleExport = async (format: "csv" | "xlsx") => {
+    setDownloading(true);
+    try {
+      const separator = url.includes("?") ? "&" : "?";
+      const res = await fetch(`${url}${separator}format=${format}`, { credentials: "include" });
+      if (!res.ok) {
+        const text = await res.text();
+        let message = text || res.statusText;
+        try {
+          message = JSON.parse(text).message || message;
+        } catch {}
+        throw new Error(message);
+      }
+      const blob = await res.blob();
+      const href = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = href;
+      a.download = filenameFromDisposition(res.headers.get("Content-Disposition"), `export.${format}`);
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(href);
+    } catch (err: any) {
+      toast({ title: "Export failed", description: err.message, variant: "destructive" });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <UpgradeGate resource="csv_export" fallback={<UpgradePrompt resource="csv_export" inline />}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={downloading} data-testid="button-export">
+            {downloading ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+            {label}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => handleExport("csv")} data-testid="button-export-csv">
+            <FileText className="h-4 w-4 mr-2" />
+            <span className="text-xs">CSV</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport("xlsx")} data-testid="button-export-xlsx">
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            <span className="text-xs">Excel (.xlsx)</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </UpgradeGate>
+  );
+}
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Crosshair } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatPercent } from "@/lib/calculations";
+import { useToast } from "@/hooks/use-toast";
+import type { GoalSeekInput, GoalSeekOutput, GoalSeekResult } from "@shared/schema";
+
+const INPUT_LABELS: Record<GoalSeekInput, string> = {
+  revenueGrowth: "Revenue growth",
+  targetNetMargin: "Target net margin",
+  wacc: "WACC",
+  longTermGrowth: "Terminal growth",
+  cogsPercent: "COGS % of revenue",
+  salesMarketingPercent: "Sales & marketing % of revenue",
+  rdPercent: "R&D % of revenue",
+  gaPercent: "G&A % of revenue",
+};
+
+const OUTPUT_LABELS: Record<GoalSeekOutput, string> = {
+  targetPrice: "DCF target price",
+  eps: "EPS",
+  fcfMargin: "FCF margin",
+};
+
+// WACC and terminal growth only feed the DCF.
+const DCF_ONLY_INPUTS: GoalSeekInput[] = ["wacc", "longTermGrowth"];
+
+interface GoalSeekDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  modelId: string;
+  years: number[];
+  defaultInput?: GoalSeekInput;
+  defaultOutput?: GoalSeekOutput;
+}
+
+function formatOutput(value: number | null, output: GoalSeekOutput): string {
+  if (value === null) return "--";
+  return output === "fcfMargin" ? formatPercent(value, 2) : `$${value.toFixed(2)}`;
+}
+
+export function GoalSeekDialog({
+  open, onOpenChange, modelId, years, defaultInput = "revenueGrowth", defaultOutput = "targetPrice",
+}: GoalSeekDialogProps) {
+  const { toast } = useToast();
+  const [input, setInput] = useState<GoalSeekInput>(defaultInput);
+  const [output, setOutput] = useState<GoalSeekOutput>(defaultOutput);
+  const [target, setTarget] = useState("");
+  const [year, setYear] = useState<number | null>(null);
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+
+  const lastYear = years[years.length - 1];
+  useEffect(() => {
+    if (!open) return;
+    setInput(defaultInput);
+    setOutput(defaultOutput);
+    setResult(null);
+  }, [open, defaultInput, defaultOutput]);
+
+  const seekMutation = useMutation({
+    mutationFn: async () => {
+      const raw = parseFloat(target);
+      const res = await apiRequest("POST", `/api/models/${modelId}/goal-seek`, {
+        input,
+        output,
+        target: output === "fcfMargin" ? raw / 100 : raw,
+        year: output === "targetPrice" ? undefined : year ?? lastYear,
+      });
+      return res.json();
+    },
+    onSuccess: (data: GoalSeekResult) => setResult(data),
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const changeOutput = (next: GoalSeekOutput) => {
+    setOutput(next);
+    if (next !== "targetPrice" && DCF_ONLY_INPUTS.includes(input)) setInput("revenueGrowth");
+    setResult(null);
+  };
+
+  const availableInputs = (Object.keys(INPUT_LABELS) as GoalSeekInput[])
+    .filter(i => output === "targetPrice" || !DCF_ONLY_INPUTS.includes(i));
+  const targetValid = target.trim() !== "" && !isNaN(parseFloat(target));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Goal Seek</DialogTitle>
+          <DialogDescription>
+            Find the input value that makes a model output hit a target. The model is rerun in memory for each trial; nothing is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-xs text-muted-foreground">Set</label>
+            <Select value={output} onValueChange={(v) => changeOutput(v as GoalSeekOutput)}>
+              <SelectTrigger className="h-8" data-testid="select-goal-seek-output">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(OUTPUT_LABELS) as GoalSeekOutput[]).map(o => (
+                  <SelectItem key={o} value={o}>{OUTPUT_LABELS[o]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground">
+              To {output === "fcfMargin" ? "(%)" : "($)"}
+            </label>
+            <Input
+              type="text"
+              value={target}
+              onChange={(e) => { setTarget(e.target.value); setResult(null); }}
+              className="h-8 text-sm"
+              data-testid="input-goal-seek-target"
+            />
+          </div>
+          {output !== "targetPrice" && (
+            <div>
+              <label className="text-xs text-muted-foreground">In year</label>
+              <Select value={String(year ?? lastYear)} onValueChange={(v) => { setYear(parseInt(v)); setResult(null); }}>
+                <SelectTrigger className="h-8" data-testid="select-goal-seek-year">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map(y => (
+                    <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className={output === "targetPrice" ? "col-span-2" : ""}>
+            <label className="text-xs text-muted-foreground">By changing</label>
+            <Select value={input} onValueChange={(v) => { setInput(v as GoalSeekInput); setResult(null); }}>
+              <SelectTrigger className="h-8" data-testid="select-goal-seek-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {availableInputs.map(i => (
+                  <SelectItem key={i} value={i}>{INPUT_LABELS[i]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {result && (
+          <div className="rounded-md border p-3 space-y-1 text-sm" data-testid="goal-seek-result">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">{INPUT_LABELS[result.input]}</span>
+              <span>
+                {formatPercent(result.baseValue, 2)} &rarr;{" "}
+                <span className="font-semibold" data-testid="text-goal-seek-solved">
+                  {result.solvedValue === null ? "--" : formatPercent(result.solvedValue, 2)}
+                </span>
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                {OUTPUT_LABELS[result.output]}{result.year ? ` (${result.year})` : ""}
+              </span>
+              <span data-testid="text-goal-seek-achieved">
+                {formatOutput(result.baseOutput, result.output)} &rarr; {formatOutput(result.achievedOutput, result.output)}
+              </span>
+            </div>
+            {!result.converged && (
+              <p className="text-xs text-destructive" data-testid="text-goal-seek-not-converged">
+                The target can't be reached with {INPUT_LABELS[result.input].toLowerCase()} between {formatPercent(result.lower)} and {formatPercent(result.upper)}; showing the closest value tried.
+              </p>
+            )}
+            {result.converged && (
+              <p className="text-xs text-muted-foreground">
+                Enter the solved value in the assumptions to keep it.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-goal-seek-close">Close</Button>
+          <Button
+            onClick={() => seekMutation.mutate()}
+            disabled={!targetValid || seekMutation.isPending}
+            data-testid="button-goal-seek-solve"
+          >
+            {seekMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Crosshair className="h-4 w-4 mr-1" />}
+            Solve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
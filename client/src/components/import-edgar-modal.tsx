@@ -26,6 +26,7 @@ interface EdgarParsedData {
   filingDate: string;
   matchedFields: string[];
   unmatchedGaap: string[];
+  fiscalQuarter: number | null;
 }
 
 const STATEMENT_LABELS: Record<string, string> = {
@@ -58,6 +59,11 @@ export function ImportEdgarModal({ open, onOpenChange, statementType, fieldDefs,
         setError("No annual financial data found in this filing. Make sure the URL points to a 10-K or 10-Q filing document.");
         return;
       }
+      // This modal edits annual rows; quarterly figures go through the SEC filing import on the Revenue page.
+      if (data.fiscalQuarter) {
+        setError(`This is a Q${data.fiscalQuarter} 10-Q. Import quarterly filings with "Import SEC Filing" on the Revenue Forecast page.`);
+        return;
+      }
 
       setParsed(data);
     } catch (err: any) {
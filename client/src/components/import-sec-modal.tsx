@@ -7,9 +7,12 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Search, Loader2, AlertCircle, FileText, CheckCircle2, Download, Building2, Calendar, ArrowRight } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, Loader2, AlertCircle, FileText, CheckCircle2, Download, Building2, Calendar, ArrowRight, History } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { TagMappingEditor } from "@/components/tag-mapping-editor";
+import type { RevenueSegment, UnmatchedTag } from "@shared/schema";
 
 interface ImportSecModalProps {
   open: boolean;
@@ -17,6 +20,8 @@ interface ImportSecModalProps {
   modelId: string;
   modelTicker?: string | null;
   modelName: string;
+  // Offered once actuals are in, so projections can start from the company's own ratios.
+  onCalibrate?: () => void;
 }
 
 interface CompanyResult {
@@ -34,12 +39,30 @@ interface Filing {
   filingUrl: string;
 }
 
+interface ParsedStatement {
+  years: number[];
+  matchedFields: string[];
+  data: Record<number, Record<string, number>>;
+  unmatchedTags: UnmatchedTag[];
+  revenueSegments: RevenueSegment[];
+  fiscalQuarter: number | null;
+}
+
 interface ParsedStatements {
-  incomeStatement: { years: number[]; matchedFields: string[]; data: Record<number, Record<string, number>> };
-  balanceSheet: { years: number[]; matchedFields: string[]; data: Record<number, Record<string, number>> };
-  cashFlow: { years: number[]; matchedFields: string[]; data: Record<number, Record<string, number>> };
+  incomeStatement: ParsedStatement;
+  balanceSheet: ParsedStatement;
+  cashFlow: ParsedStatement;
+  source: "companyfacts" | "ixbrl";
 }
 
+type FormFilter = "10-K" | "10-Q" | "10-K,10-Q";
+
+const FORM_FILTER_LABELS: Record<FormFilter, string> = {
+  "10-K": "10-K (annual)",
+  "10-Q": "10-Q (quarterly)",
+  "10-K,10-Q": "10-K and 10-Q",
+};
+
 type Step = "search" | "filings" | "preview" | "importing" | "done";
 
 const formatCurrency = (val: number): string => {
@@ -49,7 +72,7 @@ const formatCurrency = (val: number): string => {
   return `$${val.toFixed(0)}`;
 };
 
-export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, modelName }: ImportSecModalProps) {
+export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, modelName, onCalibrate }: ImportSecModalProps) {
   const { toast } = useToast();
   const [step, setStep] = useState<Step>("search");
   const [ticker, setTicker] = useState(modelTicker || "");
@@ -63,6 +86,20 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
   const [importing, setImporting] = useState(false);
   const [importResult, setImportResult] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  const [importQuarter, setImportQuarter] = useState(1);
+  const [formFilter, setFormFilter] = useState<FormFilter>("10-K");
+  // Full annual history from the XBRL companyfacts API rather than a single filing.
+  const [historyImport, setHistoryImport] = useState(false);
+  const latestAnnualFiling = filings.find(f => f.form === "10-K");
+  const unmappedTagCount = parsedData
+    ? new Set([parsedData.incomeStatement, parsedData.balanceSheet, parsedData.cashFlow]
+      .flatMap(st => st.unmatchedTags.map(t => t.tag))).size
+    : 0;
+  const isQuarterly = selectedFiling?.form === "10-Q";
+  const parsedQuarter = parsedData
+    ? parsedData.incomeStatement.fiscalQuarter ?? parsedData.balanceSheet.fiscalQuarter ?? parsedData.cashFlow.fiscalQuarter
+    : null;
+  const filingLabel = formFilter === "10-K,10-Q" ? "10-K or 10-Q" : formFilter;
 
   const handleSearch = async () => {
     if (!ticker.trim()) return;
@@ -76,7 +113,7 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
       const data: CompanyResult = await res.json();
       setCompany(data);
 
-      const filingsRes = await apiRequest("GET", `/api/sec/filings/${data.cik}`);
+      const filingsRes = await apiRequest("GET", `/api/sec/filings/${data.cik}?forms=${formFilter}`);
       const filingsData: Filing[] = await filingsRes.json();
       setFilings(filingsData);
       setStep("filings");
@@ -89,6 +126,7 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
 
   const handleSelectFiling = async (filing: Filing) => {
     setSelectedFiling(filing);
+    setHistoryImport(false);
     setParsing(true);
     setError(null);
     setParsedData(null);
@@ -98,6 +136,12 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
         filingUrl: filing.filingUrl,
       });
       const data: ParsedStatements = await res.json();
+      const fiscalQuarter = data.incomeStatement.fiscalQuarter ?? data.balanceSheet.fiscalQuarter ?? data.cashFlow.fiscalQuarter;
+      if (filing.form === "10-Q" && !fiscalQuarter) {
+        setError("Could not determine the fiscal quarter this 10-Q reports. Try a different filing.");
+        return;
+      }
+      setImportQuarter(fiscalQuarter || 1);
       setParsedData(data);
       setStep("preview");
     } catch (err: any) {
@@ -107,16 +151,40 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
     }
   };
 
+  const handleSelectHistory = async () => {
+    if (!company) return;
+    setSelectedFiling(null);
+    setHistoryImport(true);
+    setParsing(true);
+    setError(null);
+    setParsedData(null);
+
+    try {
+      const res = await apiRequest("POST", "/api/sec/parse-all-statements", {
+        cik: company.cik,
+        filingUrl: latestAnnualFiling?.filingUrl,
+      });
+      const data: ParsedStatements = await res.json();
+      setImportQuarter(1);
+      setParsedData(data);
+      setStep("preview");
+    } catch (err: any) {
+      setError(err?.message || "Failed to load XBRL financial data. Try a single filing instead.");
+    } finally {
+      setParsing(false);
+    }
+  };
+
   const handleImport = async () => {
-    if (!selectedFiling || !parsedData) return;
+    if ((!selectedFiling && !historyImport) || !parsedData) return;
     setImporting(true);
     setStep("importing");
     setError(null);
 
     try {
-      const res = await apiRequest("POST", `/api/models/${modelId}/import-sec`, {
-        filingUrl: selectedFiling.filingUrl,
-      });
+      const res = await apiRequest("POST", `/api/models/${modelId}/import-sec`, historyImport
+        ? { cik: company?.cik, filingUrl: latestAnnualFiling?.filingUrl }
+        : { filingUrl: selectedFiling?.filingUrl, quarter: isQuarterly ? importQuarter : undefined });
       const result = await res.json();
       setImportResult(result);
       setStep("done");
@@ -127,13 +195,16 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
       queryClient.invalidateQueries({ queryKey: ["/api/models", modelId, "income-statement"] });
       queryClient.invalidateQueries({ queryKey: ["/api/models", modelId, "balance-sheet"] });
       queryClient.invalidateQueries({ queryKey: ["/api/models", modelId, "cash-flow"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/models", modelId, "ttm"] });
       queryClient.invalidateQueries({ queryKey: ["/api/models", modelId, "dcf"] });
       queryClient.invalidateQueries({ queryKey: ["/api/models", modelId, "valuation-comparison"] });
       queryClient.invalidateQueries({ queryKey: ["/api/models", modelId, "assumptions"] });
 
       toast({
         title: "SEC Data Imported",
-        description: `Imported ${result.importedYears?.length || 0} years of financial data. All statements updated.`,
+        description: result.quarter
+          ? `Imported Q${result.quarter} actuals for ${result.importedYears?.join(", ")}. All statements updated.`
+          : `Imported ${result.importedYears?.length || 0} years of financial data. All statements updated.`,
       });
     } catch (err: any) {
       setError(err?.message || "Import failed");
@@ -149,6 +220,7 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
     setCompany(null);
     setFilings([]);
     setSelectedFiling(null);
+    setHistoryImport(false);
     setParsedData(null);
     setImportResult(null);
     setError(null);
@@ -172,7 +244,7 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
             Import SEC Filing Data
           </DialogTitle>
           <DialogDescription>
-            Search by ticker to find 10-K filings and import financial data into {modelName}
+            Search by ticker to find 10-K and 10-Q filings and import financial data into {modelName}
           </DialogDescription>
         </DialogHeader>
 
@@ -194,6 +266,16 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
                 className="flex-1"
                 data-testid="input-sec-ticker"
               />
+              <Select value={formFilter} onValueChange={(v) => setFormFilter(v as FormFilter)}>
+                <SelectTrigger className="w-40" data-testid="select-sec-forms">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FORM_FILTER_LABELS) as FormFilter[]).map(f => (
+                    <SelectItem key={f} value={f}>{FORM_FILTER_LABELS[f]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 onClick={handleSearch}
                 disabled={searching || !ticker.trim()}
@@ -207,7 +289,9 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
               </Button>
             </div>
             <p className="text-xs text-muted-foreground">
-              Searches SEC EDGAR for US-listed company filings. Enter the stock ticker symbol.
+              Searches SEC EDGAR for US-listed company filings. Enter the stock ticker symbol. 10-Q imports
+              become reported quarters; once a fiscal year's 10-K and its first three 10-Qs are in, Q4 is derived
+              as the year less Q1&ndash;Q3.
             </p>
           </div>
         )}
@@ -231,13 +315,42 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
               </CardContent>
             </Card>
 
+            <Card
+              className="hover-elevate cursor-pointer"
+              onClick={handleSelectHistory}
+              data-testid="card-sec-full-history"
+            >
+              <CardContent className="py-3 px-4">
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <div className="flex items-center gap-3">
+                    <History className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <div>
+                      <div className="font-medium text-sm">Full annual history</div>
+                      <div className="text-xs text-muted-foreground">
+                        Every fiscal year filed in XBRL, using the latest reported (restated) figures
+                      </div>
+                    </div>
+                  </div>
+                  {parsing && historyImport ? (
+                    <Badge variant="secondary">
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" /> Loading...
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" className="text-xs">
+                      <ArrowRight className="h-3 w-3 mr-1" /> Select
+                    </Badge>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
             {filings.length === 0 ? (
               <div className="text-center text-muted-foreground py-6">
-                No 10-K filings found for {company.ticker}
+                No {filingLabel} filings found for {company.ticker}
               </div>
             ) : (
               <div className="space-y-2">
-                <p className="text-sm font-medium">Select a 10-K filing to import:</p>
+                <p className="text-sm font-medium">Select a {filingLabel} filing to import:</p>
                 {filings.map((f) => (
                   <Card
                     key={f.accessionNumber}
@@ -278,17 +391,39 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
           </div>
         )}
 
-        {step === "preview" && parsedData && (
+        {step === "preview" && parsedData && company && (
           <div className="space-y-4">
             <div className="flex items-center justify-between gap-2 flex-wrap">
               <div>
                 <div className="font-medium text-sm">
-                  {company?.companyName} &middot; {selectedFiling?.form} ({selectedFiling?.filingDate})
+                  {company?.companyName} &middot; {historyImport
+                    ? parsedData.source === "companyfacts" ? "XBRL company facts" : `${latestAnnualFiling?.form} (${latestAnnualFiling?.filingDate})`
+                    : `${selectedFiling?.form} (${selectedFiling?.filingDate})`}
                 </div>
+                {historyImport && parsedData.source === "ixbrl" && (
+                  <div className="text-xs text-amber-600 dark:text-amber-400" data-testid="text-sec-history-fallback">
+                    XBRL company facts were unavailable; showing the latest 10-K instead.
+                  </div>
+                )}
                 <div className="text-xs text-muted-foreground">
                   Years found: {allYears.join(", ")} &middot; All three financial statements will be imported
                 </div>
               </div>
+              {isQuarterly && parsedQuarter && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Import as fiscal</span>
+                  <Select value={String(importQuarter)} onValueChange={(v) => setImportQuarter(parseInt(v))}>
+                    <SelectTrigger className="w-20 h-8" data-testid="select-sec-quarter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 3].map(q => (
+                        <SelectItem key={q} value={String(q)}>Q{q}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <Button variant="ghost" size="sm" onClick={() => { setStep("filings"); setParsedData(null); }} data-testid="button-sec-back-filings">
                 Back
               </Button>
@@ -305,6 +440,9 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
                 <TabsTrigger value="cash-flow" data-testid="tab-preview-cf">
                   Cash Flow ({parsedData.cashFlow.matchedFields.length})
                 </TabsTrigger>
+                <TabsTrigger value="unmapped" data-testid="tab-preview-unmapped">
+                  Unmapped Tags ({unmappedTagCount})
+                </TabsTrigger>
               </TabsList>
 
               {(["income-statement", "balance-sheet", "cash-flow"] as const).map((stType) => {
@@ -338,12 +476,39 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
                               })}
                             </TableRow>
                           ))}
+                          {stData.revenueSegments.length > 0 && (
+                            <TableRow className="bg-muted/50">
+                              <TableCell colSpan={stYears.length + 1} className="font-medium text-sm sticky left-0 bg-muted/50 z-10">Revenue by segment</TableCell>
+                            </TableRow>
+                          )}
+                          {stData.revenueSegments.map(segment => (
+                            <TableRow key={segment.member} data-testid={`row-preview-segment-${segment.member}`}>
+                              <TableCell className="text-sm sticky left-0 bg-card z-10 pl-6 text-muted-foreground">{segment.label}</TableCell>
+                              {stYears.map(y => (
+                                <TableCell key={y} className="text-right text-sm text-muted-foreground">
+                                  {segment.values[y] !== undefined ? formatCurrency(segment.values[y]) : "--"}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
                         </TableBody>
                       </Table>
                     </div>
                   </TabsContent>
                 );
               })}
+
+              <TabsContent value="unmapped">
+                <TagMappingEditor
+                  cik={company.cik}
+                  years={parsedData.incomeStatement.years}
+                  statements={{
+                    "income-statement": parsedData.incomeStatement,
+                    "balance-sheet": parsedData.balanceSheet,
+                    "cash-flow": parsedData.cashFlow,
+                  }}
+                />
+              </TabsContent>
             </Tabs>
           </div>
         )}
@@ -390,6 +555,12 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
               </Card>
             </div>
 
+            {importResult.revenueSegments?.length > 0 && (
+              <div className="text-xs text-muted-foreground text-center" data-testid="text-sec-revenue-segments">
+                Revenue imported as {importResult.revenueSegments.length} segments: {importResult.revenueSegments.join(", ")}
+              </div>
+            )}
+
             {importResult.yearRangeExpanded && (
               <div className="text-xs text-muted-foreground text-center">
                 Model year range expanded to {importResult.newStartYear}&ndash;{importResult.newEndYear}
@@ -405,6 +576,11 @@ export function ImportSecModal({ open, onOpenChange, modelId, modelTicker, model
               Import All Statements
             </Button>
           )}
+          {step === "done" && onCalibrate && (
+            <Button variant="outline" onClick={() => { handleClose(); onCalibrate(); }} data-testid="button-sec-calibrate">
+              Calibrate Assumptions
+            </Button>
+          )}
           {step === "done" && (
             <Button onClick={handleClose} data-testid="button-sec-done">
               Done
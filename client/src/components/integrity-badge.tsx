@@ -0,0 +1,67 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { formatCurrency } from "@/lib/calculations";
+import type { IntegrityReport, IntegrityStatement } from "@shared/schema";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+
+const STATEMENT_LABELS: Record<IntegrityStatement, string> = {
+  "income-statement": "Income Statement",
+  "balance-sheet": "Balance Sheet",
+  "cash-flow": "Cash Flow",
+};
+
+interface IntegrityBadgeProps {
+  modelId: string;
+  // Limit to one statement's issues; omit for the whole model.
+  statement?: IntegrityStatement;
+}
+
+export function IntegrityBadge({ modelId, statement }: IntegrityBadgeProps) {
+  const { data: report } = useQuery<IntegrityReport>({
+    queryKey: ["/api/models", modelId, "integrity"],
+    staleTime: 0,
+  });
+
+  if (!report) return null;
+  const issues = report.issues.filter(i => !statement || i.statement === statement);
+  if (issues.length === 0) {
+    return statement ? null : (
+      <Badge variant="outline" data-testid="badge-integrity-ok">
+        <span className="flex items-center gap-1"><CheckCircle className="h-3 w-3" /> Statements tie out</span>
+      </Badge>
+    );
+  }
+
+  const errors = issues.filter(i => i.severity === "error").length;
+  const warnings = issues.length - errors;
+  const summary = [errors && `${errors} error${errors > 1 ? "s" : ""}`, warnings && `${warnings} warning${warnings > 1 ? "s" : ""}`]
+    .filter(Boolean).join(", ");
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Badge variant={errors > 0 ? "destructive" : "secondary"} className="cursor-pointer" data-testid="badge-integrity">
+          <span className="flex items-center gap-1"><AlertTriangle className="h-3 w-3" /> {summary}</span>
+        </Badge>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 max-h-80 overflow-y-auto text-xs" data-testid="popover-integrity">
+        <p className="font-medium mb-2">Integrity checks</p>
+        <ul className="space-y-2">
+          {issues.map((issue, idx) => (
+            <li key={`${issue.year}-${issue.field}-${idx}`} className="flex gap-2" data-testid={`integrity-issue-${idx}`}>
+              <span className={`font-mono shrink-0 ${issue.severity === "error" ? "text-red-600 dark:text-red-400" : "text-amber-600 dark:text-amber-400"}`}>
+                {issue.year}{issue.isActual ? "A" : "E"}
+              </span>
+              <span>
+                {!statement && <span className="text-muted-foreground">{STATEMENT_LABELS[issue.statement]}: </span>}
+                {issue.message}
+                {issue.difference !== undefined && <span className="text-muted-foreground"> ({formatCurrency(issue.difference)})</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,80 @@
+import { useMutation } from "@tanstack/react-query";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Switch } from "@/components/ui/switch";
+import { InfoTooltip } from "@/components/info-tooltip";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FinancialModel } from "@shared/schema";
+
+export type StatementPeriod = "annual" | "quarterly";
+
+type PeriodRow = { year: number; quarter: number | null };
+
+export function periodRows<T extends PeriodRow>(rows: T[] | undefined, period: StatementPeriod): T[] {
+  return (rows || [])
+    .filter(r => (period === "quarterly" ? !!r.quarter : !r.quarter))
+    .sort((a, b) => a.year - b.year || (a.quarter || 0) - (b.quarter || 0));
+}
+
+export function periodLabel(row: PeriodRow): string {
+  return row.quarter ? `${row.year} Q${row.quarter}` : String(row.year);
+}
+
+export function periodKey(row: PeriodRow): string {
+  return row.quarter ? `${row.year}-Q${row.quarter}` : String(row.year);
+}
+
+interface PeriodToggleProps {
+  model: FinancialModel;
+  value: StatementPeriod;
+  onChange: (period: StatementPeriod) => void;
+}
+
+export function PeriodToggle({ model, value, onChange }: PeriodToggleProps) {
+  const { toast } = useToast();
+
+  const quarterlyMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      await apiRequest("PATCH", `/api/models/${model.id}`, { quarterlyProjections: enabled });
+      await apiRequest("POST", `/api/models/${model.id}/recalculate`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "income-statement"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "balance-sheet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "cash-flow"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "integrity"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-3">
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={value}
+        onValueChange={(v) => v && onChange(v as StatementPeriod)}
+        data-testid="toggle-statement-period"
+      >
+        <ToggleGroupItem value="annual" data-testid="toggle-period-annual">Annual</ToggleGroupItem>
+        <ToggleGroupItem value="quarterly" data-testid="toggle-period-quarterly">Quarterly</ToggleGroupItem>
+      </ToggleGroup>
+      {value === "quarterly" && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Switch
+            checked={!!model.quarterlyProjections}
+            disabled={quarterlyMutation.isPending}
+            onCheckedChange={(checked) => quarterlyMutation.mutate(checked)}
+            data-testid="switch-quarterly-projections"
+          />
+          Project quarters
+          <InfoTooltip content="Splits each projected year into quarters using the historical quarterly revenue mix. Quarters sum to the annual statements and Q4 ends on the year-end balance sheet. Reported quarters from 10-Q imports are always shown." />
+        </div>
+      )}
+    </div>
+  );
+}
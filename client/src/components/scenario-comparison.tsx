@@ -0,0 +1,407 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { InfoTooltip } from "@/components/info-tooltip";
+import { formatCurrency, formatPercent } from "@/lib/calculations";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  FinancialModel, Scenario, ScenarioResults, Assumptions,
+  IncomeStatementLine, CashFlowLine, DcfValuation, ValuationComparison,
+} from "@shared/schema";
+import { Plus, Pencil, Save, RefreshCw } from "lucide-react";
+
+export const BASE_SCENARIO_ID = "base";
+
+interface ScenarioSelectProps {
+  scenarios: Scenario[];
+  value: string;
+  onChange: (id: string) => void;
+}
+
+export function ScenarioSelect({ scenarios, value, onChange }: ScenarioSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-40" data-testid="select-scenario">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={BASE_SCENARIO_ID}>Base Case</SelectItem>
+        {scenarios.map(s => (
+          <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+const ASSUMPTION_FIELDS: Array<{ key: keyof Assumptions; label: string }> = [
+  { key: "revenueGrowthRate", label: "Revenue Growth" },
+  { key: "cogsPercent", label: "COGS %" },
+  { key: "salesMarketingPercent", label: "S&M %" },
+  { key: "rdPercent", label: "R&D %" },
+  { key: "gaPercent", label: "G&A %" },
+  { key: "usefulLifeYears", label: "Useful Life (years)" },
+  { key: "taxRate", label: "Tax Rate" },
+  { key: "capexPercent", label: "CapEx %" },
+  { key: "dsoDays", label: "DSO (days)" },
+  { key: "dioDays", label: "DIO (days)" },
+  { key: "dpoDays", label: "DPO (days)" },
+];
+
+interface ScenarioColumn {
+  id: string;
+  name: string;
+  color: string;
+  weight: number;
+  revenue: number;
+  netIncome: number;
+  cumulativeFcf: number;
+  targetPrice: number;
+}
+
+interface ScenarioComparisonProps {
+  model: FinancialModel;
+  currentPrice: number;
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+export function ScenarioComparison({ model, currentPrice, selectedId, onSelect }: ScenarioComparisonProps) {
+  const { toast } = useToast();
+  const [weights, setWeights] = useState<Record<string, number>>({});
+  const [editOpen, setEditOpen] = useState(false);
+  const [editedAssumptions, setEditedAssumptions] = useState<Record<string, string>>({});
+
+  const { data: scenarioList = [] } = useQuery<Scenario[]>({
+    queryKey: ["/api/models", model.id, "scenarios"],
+  });
+  const { data: assumptionList = [] } = useQuery<Assumptions[]>({
+    queryKey: ["/api/models", model.id, "assumptions"],
+  });
+  const { data: isData } = useQuery<IncomeStatementLine[]>({
+    queryKey: ["/api/models", model.id, "income-statement"],
+  });
+  const { data: cfData } = useQuery<CashFlowLine[]>({
+    queryKey: ["/api/models", model.id, "cash-flow"],
+  });
+  const { data: dcfData } = useQuery<DcfValuation | null>({
+    queryKey: ["/api/models", model.id, "dcf"],
+  });
+  const { data: valData } = useQuery<ValuationComparison>({
+    queryKey: ["/api/models", model.id, "valuation-comparison"],
+  });
+
+  useEffect(() => {
+    setWeights({});
+  }, [model.id]);
+
+  const invalidateModel = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/models"], exact: true });
+    for (const key of ["scenarios", "assumptions", "income-statement", "balance-sheet", "cash-flow", "dcf", "valuation-comparison"]) {
+      queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, key] });
+    }
+  };
+
+  const saveWeightsMutation = useMutation({
+    mutationFn: async () => {
+      for (const [id, weight] of Object.entries(weights)) {
+        if (id === BASE_SCENARIO_ID) {
+          await apiRequest("PATCH", `/api/models/${model.id}`, { scenarioBaseWeight: weight });
+        } else {
+          await apiRequest("PATCH", `/api/scenarios/${id}`, { weight });
+        }
+      }
+      await apiRequest("POST", `/api/models/${model.id}/recalculate`);
+    },
+    onSuccess: () => {
+      invalidateModel();
+      setWeights({});
+      toast({ title: "Scenario weights saved", description: "Probability-weighted target recalculated." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const addScenarioMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/scenarios", {
+        modelId: model.id,
+        name: `Scenario ${scenarioList.length + 1}`,
+        type: "custom",
+        color: "#a855f7",
+      });
+      const created = await res.json();
+      await apiRequest("POST", `/api/models/${model.id}/recalculate`);
+      return created as Scenario;
+    },
+    onSuccess: (created) => {
+      invalidateModel();
+      onSelect(created.id);
+      toast({ title: "Scenario added", description: "Starts from the base case assumptions." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const saveAssumptionsMutation = useMutation({
+    mutationFn: async () => {
+      const url = selectedId === BASE_SCENARIO_ID
+        ? `/api/models/${model.id}/assumptions`
+        : `/api/scenarios/${selectedId}/assumptions`;
+      // Blank day fields fall back to the latest actual year.
+      const payload = Object.fromEntries(Object.entries(editedAssumptions).map(([k, v]) => [k, v === "" ? null : v]));
+      await apiRequest("PATCH", url, payload);
+      await apiRequest("POST", `/api/models/${model.id}/recalculate`);
+    },
+    onSuccess: () => {
+      invalidateModel();
+      setEditOpen(false);
+      toast({ title: "Scenario updated", description: "Statements and valuation recalculated." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const annualIS = isData?.filter(d => !d.quarter).sort((a, b) => a.year - b.year) || [];
+  const annualCF = cfData?.filter(d => !d.quarter).sort((a, b) => a.year - b.year) || [];
+
+  const columns: ScenarioColumn[] = [
+    {
+      id: BASE_SCENARIO_ID,
+      name: "Base Case",
+      color: "#3b82f6",
+      weight: model.scenarioBaseWeight ?? 1,
+      revenue: annualIS[annualIS.length - 1]?.revenue || 0,
+      netIncome: annualIS[annualIS.length - 1]?.netIncome || 0,
+      cumulativeFcf: annualCF.reduce((s, r) => s + (r.freeCashFlow || 0), 0),
+      targetPrice: dcfData?.targetPricePerShare || 0,
+    },
+    ...scenarioList.map(s => {
+      const results = s.results as ScenarioResults | null;
+      const lastIS = results?.incomeStatement[results.incomeStatement.length - 1];
+      return {
+        id: s.id,
+        name: s.name,
+        color: s.color,
+        weight: s.weight ?? 0,
+        revenue: lastIS?.revenue || 0,
+        netIncome: lastIS?.netIncome || 0,
+        cumulativeFcf: results?.cashFlow.reduce((sum, r) => sum + (r.freeCashFlow || 0), 0) || 0,
+        targetPrice: results?.dcf.targetPricePerShare || 0,
+      };
+    }),
+  ];
+
+  const getWeight = (col: ScenarioColumn) => weights[col.id] ?? col.weight;
+  const totalWeight = columns.reduce((s, c) => s + Math.max(getWeight(c), 0), 0);
+  const weightedTarget = Object.keys(weights).length > 0
+    ? (totalWeight > 0 ? columns.reduce((s, c) => s + Math.max(getWeight(c), 0) * c.targetPrice, 0) / totalWeight : 0)
+    : valData?.weightedTarget || 0;
+  const weightedUpside = currentPrice > 0 ? (weightedTarget - currentPrice) / currentPrice : 0;
+  const lastYear = annualIS[annualIS.length - 1]?.year;
+
+  const selectedAssumptions = selectedId === BASE_SCENARIO_ID
+    ? assumptionList.find(a => !a.scenarioId)
+    : assumptionList.find(a => a.scenarioId === selectedId);
+  const selectedName = columns.find(c => c.id === selectedId)?.name || "Base Case";
+
+  const selectedResults = scenarioList.find(s => s.id === selectedId)?.results as ScenarioResults | null | undefined;
+  const detailRows = selectedResults
+    ? selectedResults.incomeStatement.map(r => ({
+        year: r.year,
+        isActual: r.isActual,
+        revenue: r.revenue || 0,
+        netIncome: r.netIncome || 0,
+        freeCashFlow: selectedResults.cashFlow.find(c => c.year === r.year)?.freeCashFlow || 0,
+      }))
+    : annualIS.map(r => ({
+        year: r.year,
+        isActual: r.isActual,
+        revenue: r.revenue || 0,
+        netIncome: r.netIncome || 0,
+        freeCashFlow: annualCF.find(c => c.year === r.year)?.freeCashFlow || 0,
+      }));
+
+  const openEditor = () => {
+    const values: Record<string, string> = {};
+    for (const f of ASSUMPTION_FIELDS) {
+      values[f.key] = String(selectedAssumptions?.[f.key] ?? "");
+    }
+    setEditedAssumptions(values);
+    setEditOpen(true);
+  };
+
+  return (
+    <Card data-testid="card-scenario-comparison">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-sm font-medium flex items-center gap-1">
+          Scenario Comparison
+          <InfoTooltip content="Each scenario carries its own assumption set and is run through the full Income Statement, Balance Sheet, Cash Flow and DCF. Weights are normalized to compute the probability-weighted target price." />
+        </CardTitle>
+        <div className="flex items-center gap-2 flex-wrap">
+          <ScenarioSelect scenarios={scenarioList} value={selectedId} onChange={onSelect} />
+          <Button variant="outline" size="sm" onClick={openEditor} disabled={!selectedAssumptions} data-testid="button-edit-scenario-assumptions">
+            <Pencil className="h-3.5 w-3.5 mr-1" /> Assumptions
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => addScenarioMutation.mutate()} disabled={addScenarioMutation.isPending} data-testid="button-add-scenario">
+            <Plus className="h-3.5 w-3.5 mr-1" /> Add Scenario
+          </Button>
+          {Object.keys(weights).length > 0 && (
+            <Button size="sm" onClick={() => saveWeightsMutation.mutate()} disabled={saveWeightsMutation.isPending} data-testid="button-save-weights">
+              {saveWeightsMutation.isPending ? <RefreshCw className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1" />}
+              Save Weights
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table data-testid="table-scenario-comparison">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Metric</TableHead>
+              {columns.map(c => (
+                <TableHead
+                  key={c.id}
+                  className={`text-right cursor-pointer ${c.id === selectedId ? "bg-muted/50" : ""}`}
+                  onClick={() => onSelect(c.id)}
+                >
+                  <span className="inline-flex items-center gap-1">
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: c.color }} />
+                    {c.name}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow>
+              <TableCell className="text-xs text-muted-foreground">Weight</TableCell>
+              {columns.map(c => (
+                <TableCell key={c.id} className="text-right">
+                  <Input
+                    type="number"
+                    min={0}
+                    value={Math.round(getWeight(c) * 1000) / 10}
+                    onChange={(e) => {
+                      const v = parseFloat(e.target.value);
+                      setWeights(prev => ({ ...prev, [c.id]: isNaN(v) ? 0 : Math.max(v, 0) / 100 }));
+                    }}
+                    className="h-7 w-20 ml-auto text-right text-xs"
+                    data-testid={`input-weight-${c.id}`}
+                  />
+                </TableCell>
+              ))}
+            </TableRow>
+            <TableRow>
+              <TableCell className="text-xs text-muted-foreground">Revenue {lastYear ?? ""}</TableCell>
+              {columns.map(c => <TableCell key={c.id} className="text-right text-xs">{formatCurrency(c.revenue)}</TableCell>)}
+            </TableRow>
+            <TableRow>
+              <TableCell className="text-xs text-muted-foreground">Net Income {lastYear ?? ""}</TableCell>
+              {columns.map(c => <TableCell key={c.id} className="text-right text-xs">{formatCurrency(c.netIncome)}</TableCell>)}
+            </TableRow>
+            <TableRow>
+              <TableCell className="text-xs text-muted-foreground">Cumulative FCF</TableCell>
+              {columns.map(c => <TableCell key={c.id} className="text-right text-xs">{formatCurrency(c.cumulativeFcf)}</TableCell>)}
+            </TableRow>
+            <TableRow>
+              <TableCell className="text-xs font-medium">DCF Target</TableCell>
+              {columns.map(c => (
+                <TableCell key={c.id} className="text-right text-xs font-medium" data-testid={`text-scenario-target-${c.id}`}>
+                  ${c.targetPrice.toFixed(2)}
+                </TableCell>
+              ))}
+            </TableRow>
+            <TableRow>
+              <TableCell className="text-xs text-muted-foreground">vs. Current</TableCell>
+              {columns.map(c => {
+                const upside = currentPrice > 0 ? (c.targetPrice - currentPrice) / currentPrice : 0;
+                return (
+                  <TableCell key={c.id} className={`text-right text-xs ${upside >= 0 ? "text-green-500" : "text-red-500"}`}>
+                    {currentPrice > 0 ? formatPercent(upside) : "--"}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          </TableBody>
+        </Table>
+        <div className="flex items-center justify-between gap-2 pt-3 border-t mt-3">
+          <span className="text-sm text-muted-foreground">Probability-Weighted Target</span>
+          <div className="flex items-center gap-2">
+            <span className="text-lg font-bold" data-testid="text-weighted-target">${weightedTarget.toFixed(2)}</span>
+            {currentPrice > 0 && (
+              <Badge variant={weightedUpside >= 0 ? "default" : "destructive"}>{formatPercent(weightedUpside)}</Badge>
+            )}
+          </div>
+        </div>
+        {detailRows.length > 0 && (
+          <Table className="mt-3" data-testid="table-scenario-detail">
+            <TableHeader>
+              <TableRow>
+                <TableHead>{selectedName}</TableHead>
+                {detailRows.map(r => (
+                  <TableHead key={r.year} className="text-right text-xs">{r.year}{r.isActual ? "A" : "E"}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell className="text-xs text-muted-foreground">Revenue</TableCell>
+                {detailRows.map(r => <TableCell key={r.year} className="text-right text-xs">{formatCurrency(r.revenue)}</TableCell>)}
+              </TableRow>
+              <TableRow>
+                <TableCell className="text-xs text-muted-foreground">Net Income</TableCell>
+                {detailRows.map(r => <TableCell key={r.year} className="text-right text-xs">{formatCurrency(r.netIncome)}</TableCell>)}
+              </TableRow>
+              <TableRow>
+                <TableCell className="text-xs text-muted-foreground">Free Cash Flow</TableCell>
+                {detailRows.map(r => <TableCell key={r.year} className="text-right text-xs">{formatCurrency(r.freeCashFlow)}</TableCell>)}
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={editOpen} onOpenChange={setEditOpen}>
+        <DialogContent data-testid="dialog-scenario-assumptions">
+          <DialogHeader>
+            <DialogTitle>{selectedName} Assumptions</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3 py-2">
+            {ASSUMPTION_FIELDS.map(f => (
+              <div key={f.key} className="grid gap-1">
+                <Label htmlFor={`scenario-${f.key}`} className="text-xs">{f.label}</Label>
+                <Input
+                  id={`scenario-${f.key}`}
+                  type="number"
+                  step="0.01"
+                  value={editedAssumptions[f.key] ?? ""}
+                  onChange={(e) => setEditedAssumptions(prev => ({ ...prev, [f.key]: e.target.value }))}
+                  data-testid={`input-scenario-${f.key}`}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">Enter rates as decimals (0.25 = 25%) and working capital in days; leave days blank to use the latest actual year. Revenue growth shifts the base case growth path by the difference from the base assumption.</p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditOpen(false)} data-testid="button-cancel-scenario-assumptions">Cancel</Button>
+            <Button onClick={() => saveAssumptionsMutation.mutate()} disabled={saveAssumptionsMutation.isPending} data-testid="button-save-scenario-assumptions">
+              {saveAssumptionsMutation.isPending ? "Saving..." : "Save & Recalculate"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
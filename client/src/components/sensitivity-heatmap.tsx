@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { InfoTooltip } from "@/components/info-tooltip";
+import { UpgradeGate, UpgradePrompt } from "@/components/upgrade-gate";
+import { formatPercent } from "@/lib/calculations";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { DcfValuation, SensitivityDriver, SensitivityGrid } from "@shared/schema";
+import { Grid3x3, RefreshCw } from "lucide-react";
+
+const DRIVERS: Array<{ key: SensitivityDriver; label: string; isPercent: boolean }> = [
+  { key: "wacc", label: "WACC", isPercent: true },
+  { key: "longTermGrowth", label: "Terminal Growth", isPercent: true },
+  { key: "revenueGrowth", label: "Revenue Growth", isPercent: true },
+  { key: "targetNetMargin", label: "Target Net Margin", isPercent: true },
+  { key: "exitMultiple", label: "Exit Multiple", isPercent: false },
+  { key: "beta", label: "Beta", isPercent: false },
+];
+
+const driverDef = (key: SensitivityDriver) => DRIVERS.find(d => d.key === key)!;
+
+function formatDriverValue(key: SensitivityDriver, value: number): string {
+  if (driverDef(key).isPercent) return formatPercent(value);
+  return key === "exitMultiple" ? `${value.toFixed(1)}x` : value.toFixed(2);
+}
+
+// Percent drivers are entered as whole percentages ("8, 9, 10"); an empty list uses the server's default steps.
+function parseValues(key: SensitivityDriver, text: string): number[] | undefined {
+  const values = text.split(",").map(v => parseFloat(v.trim())).filter(v => !isNaN(v));
+  if (values.length === 0) return undefined;
+  return driverDef(key).isPercent ? values.map(v => v / 100) : values;
+}
+
+function heatColor(price: number, reference: number): string {
+  if (reference <= 0) return "transparent";
+  const diff = Math.max(-0.5, Math.min(0.5, (price - reference) / reference));
+  const alpha = 0.1 + Math.abs(diff) * 1.2;
+  return diff >= 0 ? `hsl(142 70% 40% / ${alpha.toFixed(2)})` : `hsl(0 75% 50% / ${alpha.toFixed(2)})`;
+}
+
+interface SensitivityHeatmapProps {
+  modelId: string;
+  dcf: DcfValuation | null | undefined;
+  currentPrice: number;
+}
+
+export function SensitivityHeatmap({ modelId, dcf, currentPrice }: SensitivityHeatmapProps) {
+  const { toast } = useToast();
+  const saved = dcf?.sensitivityData as SensitivityGrid | null | undefined;
+  const grid = saved?.rowDriver ? saved : null;
+  const [rowDriver, setRowDriver] = useState<SensitivityDriver>(grid?.rowDriver ?? "wacc");
+  const [columnDriver, setColumnDriver] = useState<SensitivityDriver>(grid?.columnDriver ?? "revenueGrowth");
+  const [rowText, setRowText] = useState("");
+  const [columnText, setColumnText] = useState("");
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/models/${modelId}/sensitivity`, {
+        rows: { driver: rowDriver, values: parseValues(rowDriver, rowText) },
+        columns: { driver: columnDriver, values: parseValues(columnDriver, columnText) },
+      });
+      return res.json() as Promise<SensitivityGrid>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models", modelId, "dcf"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Sensitivity failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const invalidPair = rowDriver === columnDriver
+    || (new Set([rowDriver, columnDriver]).has("wacc") && new Set([rowDriver, columnDriver]).has("beta"));
+  const reference = currentPrice > 0 ? currentPrice : grid?.baseTargetPrice ?? 0;
+
+  const axisControls = (
+    label: string, driver: SensitivityDriver, setDriver: (d: SensitivityDriver) => void,
+    text: string, setText: (t: string) => void, testId: string,
+  ) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <div className="flex items-center gap-2">
+        <Select value={driver} onValueChange={(v) => setDriver(v as SensitivityDriver)}>
+          <SelectTrigger className="h-8 w-40 text-sm" data-testid={`select-sensitivity-${testId}`}><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {DRIVERS.map(d => <SelectItem key={d.key} value={d.key}>{d.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={driverDef(driver).isPercent ? "e.g. 8, 9, 10 (%)" : "e.g. 8, 10, 12"}
+          className="h-8 w-44 text-sm"
+          data-testid={`input-sensitivity-${testId}-values`}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Card data-testid="card-sensitivity-heatmap">
+      <CardHeader>
+        <CardTitle className="text-sm font-medium flex items-center gap-1">
+          <Grid3x3 className="h-4 w-4" /> Driver Sensitivity Heatmap
+          <InfoTooltip content="Reruns the full projection and DCF on the server for every combination of two drivers. Revenue growth and target margin flow through the statements. Leave the values blank to use five steps around the current input." />
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <UpgradeGate resource="sensitivity_table" fallback={<UpgradePrompt resource="sensitivity_table" />}>
+          <div className="flex items-end gap-4 flex-wrap mb-4">
+            {axisControls("Rows", rowDriver, setRowDriver, rowText, setRowText, "rows")}
+            {axisControls("Columns", columnDriver, setColumnDriver, columnText, setColumnText, "columns")}
+            <Button onClick={() => runMutation.mutate()} disabled={runMutation.isPending || invalidPair} data-testid="button-run-sensitivity">
+              {runMutation.isPending ? <><RefreshCw className="h-4 w-4 mr-1 animate-spin" /> Running...</> : "Run Grid"}
+            </Button>
+          </div>
+          {invalidPair && (
+            <p className="text-xs text-muted-foreground mb-2">Pick two different drivers. WACC and beta can't be combined because beta only affects the price through WACC.</p>
+          )}
+          {grid ? (
+            <>
+              <Table data-testid="table-sensitivity-heatmap">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">{driverDef(grid.rowDriver).label} \ {driverDef(grid.columnDriver).label}</TableHead>
+                    {grid.columnValues.map(c => (
+                      <TableHead key={c} className="text-right text-xs">{formatDriverValue(grid.columnDriver, c)}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {grid.rowValues.map((r, ri) => (
+                    <TableRow key={r} data-testid={`row-heatmap-${ri}`}>
+                      <TableCell className="font-medium text-xs">{formatDriverValue(grid.rowDriver, r)}</TableCell>
+                      {grid.values[ri].map((val, ci) => (
+                        <TableCell
+                          key={ci}
+                          className="text-right text-xs"
+                          style={{ backgroundColor: val !== null ? heatColor(val, reference) : undefined }}
+                          data-testid={`cell-heatmap-${ri}-${ci}`}
+                        >
+                          {val !== null ? `$${val.toFixed(2)}` : "--"}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground mt-2" data-testid="text-heatmap-meta">
+                Base target ${grid.baseTargetPrice.toFixed(2)} · shaded against {currentPrice > 0 ? `current price $${currentPrice.toFixed(2)}` : "base target"} · generated {new Date(grid.generatedAt).toLocaleString()}
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground" data-testid="text-heatmap-empty">No grid generated yet. Choose two drivers and click Run Grid.</p>
+          )}
+        </UpgradeGate>
+      </CardContent>
+    </Card>
+  );
+}
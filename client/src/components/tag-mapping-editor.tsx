@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/calculations";
+import { useToast } from "@/hooks/use-toast";
+import type { GaapTagMapping, IntegrityStatement, UnmatchedTag } from "@shared/schema";
+
+// Mirrors MAPPING_TARGET_FIELDS in server/sec-import.ts.
+const TARGET_FIELDS: Record<IntegrityStatement, Array<{ field: string; label: string }>> = {
+  "income-statement": [
+    { field: "revenue", label: "Revenue" },
+    { field: "cogs", label: "COGS" },
+    { field: "salesMarketing", label: "Sales & Marketing" },
+    { field: "researchDevelopment", label: "R&D" },
+    { field: "generalAdmin", label: "General & Admin" },
+    { field: "depreciation", label: "Depreciation" },
+    { field: "otherIncome", label: "Other Income" },
+    { field: "interestExpense", label: "Interest Expense" },
+    { field: "incomeTax", label: "Income Tax" },
+    { field: "netIncome", label: "Net Income" },
+    { field: "stockCompensation", label: "Stock-Based Compensation" },
+    { field: "intangibleAmortization", label: "Amortization of Acquired Intangibles" },
+    { field: "restructuring", label: "Restructuring" },
+  ],
+  "balance-sheet": [
+    { field: "cash", label: "Cash" },
+    { field: "shortTermInvestments", label: "Short-Term Investments" },
+    { field: "accountsReceivable", label: "Accounts Receivable" },
+    { field: "inventory", label: "Inventory" },
+    { field: "totalCurrentAssets", label: "Total Current Assets" },
+    { field: "equipment", label: "PP&E" },
+    { field: "totalAssets", label: "Total Assets" },
+    { field: "accountsPayable", label: "Accounts Payable" },
+    { field: "shortTermDebt", label: "Short-Term Debt" },
+    { field: "totalCurrentLiabilities", label: "Total Current Liabilities" },
+    { field: "longTermDebt", label: "Long-Term Debt" },
+    { field: "deferredTaxLiability", label: "Deferred Tax Liability" },
+    { field: "totalLiabilities", label: "Total Liabilities" },
+    { field: "retainedEarnings", label: "Retained Earnings" },
+    { field: "commonShares", label: "Common Stock & APIC" },
+    { field: "totalEquity", label: "Total Equity" },
+    { field: "nolBalance", label: "NOL Carryforward" },
+  ],
+  "cash-flow": [
+    { field: "netIncome", label: "Net Income" },
+    { field: "depreciationAdd", label: "D&A Add-back" },
+    { field: "stockCompensationAdd", label: "SBC Add-back" },
+    { field: "deferredTaxes", label: "Deferred Taxes" },
+    { field: "arChange", label: "Change in AR" },
+    { field: "inventoryChange", label: "Change in Inventory" },
+    { field: "apChange", label: "Change in AP" },
+    { field: "operatingCashFlow", label: "Operating Cash Flow" },
+    { field: "capex", label: "Capex" },
+    { field: "investingCashFlow", label: "Investing Cash Flow" },
+    { field: "shortTermDebtChange", label: "Change in Short-Term Debt" },
+    { field: "longTermDebtChange", label: "Change in Long-Term Debt" },
+    { field: "commonSharesChange", label: "Change in Common Stock" },
+    { field: "dividendsPaid", label: "Dividends Paid" },
+    { field: "financingCashFlow", label: "Financing Cash Flow" },
+    { field: "netCashChange", label: "Net Change in Cash" },
+  ],
+};
+
+const STATEMENT_LABELS: Record<IntegrityStatement, string> = {
+  "income-statement": "Income Statement",
+  "balance-sheet": "Balance Sheet",
+  "cash-flow": "Cash Flow",
+};
+
+const STATEMENTS = Object.keys(STATEMENT_LABELS) as IntegrityStatement[];
+
+interface ParsedStatementTags {
+  unmatchedTags: UnmatchedTag[];
+}
+
+interface TagMappingEditorProps {
+  cik: string;
+  years: number[];
+  statements: Record<IntegrityStatement, ParsedStatementTags>;
+}
+
+interface TagRow extends UnmatchedTag {
+  // Where the tag's values were found: instants on the balance sheet, durations on the income statement.
+  statement: IntegrityStatement;
+}
+
+function humanizeTag(tag: string): string {
+  return tag.split(":").pop()!.replace(/([a-z])([A-Z])/g, "$1 $2");
+}
+
+function selectValue(mapping: GaapTagMapping | undefined): string {
+  if (!mapping) return "none";
+  return mapping.field ? `${mapping.statement}:${mapping.field}` : `custom:${mapping.statement}`;
+}
+
+export function TagMappingEditor({ cik, years, statements }: TagMappingEditorProps) {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState("");
+  const [labels, setLabels] = useState<Record<string, string>>({});
+
+  const { data: mappings } = useQuery<GaapTagMapping[]>({
+    queryKey: ["/api/sec/tag-mappings", cik],
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/sec/tag-mappings", cik] });
+
+  const saveMutation = useMutation({
+    mutationFn: (body: { tag: string; statement: IntegrityStatement; field?: string; customLabel?: string }) =>
+      apiRequest("PUT", `/api/sec/tag-mappings/${cik}`, body),
+    onSuccess: invalidate,
+    onError: (err: Error) => toast({ title: "Error", description: err.message, variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/sec/tag-mappings/${id}`),
+    onSuccess: invalidate,
+    onError: (err: Error) => toast({ title: "Error", description: err.message, variant: "destructive" }),
+  });
+
+  const rows: TagRow[] = [];
+  for (const statement of STATEMENTS) {
+    for (const tag of statements[statement].unmatchedTags) {
+      if (!rows.some(r => r.tag === tag.tag)) rows.push({ ...tag, statement });
+    }
+  }
+  const needle = filter.trim().toLowerCase();
+  const visible = rows.filter(r => !needle || r.tag.toLowerCase().includes(needle));
+  const shownYears = years.slice(-3);
+  const mappingFor = (tag: string) => mappings?.find(m => m.tag === tag);
+
+  const handleSelect = (row: TagRow, value: string) => {
+    const existing = mappingFor(row.tag);
+    if (value === "none") {
+      if (existing) deleteMutation.mutate(existing.id);
+      return;
+    }
+    const [kind, rest] = value.split(/:(.*)/);
+    if (kind === "custom") {
+      const customLabel = labels[row.tag] || existing?.customLabel || humanizeTag(row.tag);
+      saveMutation.mutate({ tag: row.tag, statement: rest as IntegrityStatement, customLabel });
+    } else {
+      saveMutation.mutate({ tag: row.tag, statement: kind as IntegrityStatement, field: rest });
+    }
+  };
+
+  const handleLabelBlur = (row: TagRow) => {
+    const existing = mappingFor(row.tag);
+    const customLabel = labels[row.tag]?.trim();
+    if (!existing || existing.field || !customLabel || customLabel === existing.customLabel) return;
+    saveMutation.mutate({ tag: row.tag, statement: existing.statement as IntegrityStatement, customLabel });
+  };
+
+  if (rows.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-4" data-testid="text-no-unmapped-tags">
+        Every monetary tag in this filing maps to a model field.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Filter tags"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="h-8"
+          data-testid="input-tag-filter"
+        />
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          {mappings?.length || 0} mapped &middot; saved for this company and reapplied on every import
+        </span>
+      </div>
+      <div className="overflow-x-auto max-h-[300px] overflow-y-auto">
+        <Table data-testid="table-unmapped-tags">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[220px] sticky left-0 bg-card z-10">Tag</TableHead>
+              {shownYears.map(y => <TableHead key={y} className="text-right min-w-[90px]">{y}</TableHead>)}
+              <TableHead className="min-w-[220px]">Map to</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.map(row => {
+              const mapping = mappingFor(row.tag);
+              const value = selectValue(mapping);
+              return (
+                <TableRow key={row.tag} data-testid={`row-tag-${row.tag}`}>
+                  <TableCell className="text-xs sticky left-0 bg-card z-10">
+                    <div className="flex items-center gap-1">
+                      <span className="font-mono break-all">{row.tag.split(":").pop()}</span>
+                      {!row.tag.startsWith("us-gaap:") && <Badge variant="outline" className="text-[10px]">{row.tag.split(":")[0]}</Badge>}
+                    </div>
+                  </TableCell>
+                  {shownYears.map(y => (
+                    <TableCell key={y} className="text-right text-xs">
+                      {row.values[y] !== undefined ? formatCurrency(row.values[y]) : <span className="text-muted-foreground">--</span>}
+                    </TableCell>
+                  ))}
+                  <TableCell className="space-y-1">
+                    <Select value={value} onValueChange={(v) => handleSelect(row, v)}>
+                      <SelectTrigger className="h-8 text-xs" data-testid={`select-tag-mapping-${row.tag}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not mapped</SelectItem>
+                        {STATEMENTS.map(statement => (
+                          <SelectGroup key={statement}>
+                            <SelectLabel>{STATEMENT_LABELS[statement]}</SelectLabel>
+                            {TARGET_FIELDS[statement].map(t => (
+                              <SelectItem key={t.field} value={`${statement}:${t.field}`}>{t.label}</SelectItem>
+                            ))}
+                            <SelectItem value={`custom:${statement}`}>Custom line</SelectItem>
+                          </SelectGroup>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {mapping && !mapping.field && (
+                      <Input
+                        value={labels[row.tag] ?? mapping.customLabel ?? ""}
+                        onChange={(e) => setLabels(prev => ({ ...prev, [row.tag]: e.target.value }))}
+                        onBlur={() => handleLabelBlur(row)}
+                        maxLength={80}
+                        className="h-7 text-xs"
+                        data-testid={`input-custom-line-${row.tag}`}
+                      />
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
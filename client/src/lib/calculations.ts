@@ -1,3 +1,5 @@
+import { computeDcf, type DcfPeriod, type TerminalValueOptions } from "@shared/valuation";
+
 export function formatCurrency(val: number, decimals = 0): string {
   if (Math.abs(val) >= 1e9) return `$${(val / 1e9).toFixed(1)}B`;
   if (Math.abs(val) >= 1e6) return `$${(val / 1e6).toFixed(1)}M`;
@@ -43,44 +45,52 @@ export function calcWACC(
 }
 
 export function calcDCFTargetPrice(
-  fcfProjections: number[], wacc: number, longTermGrowth: number,
-  totalDebt: number, sharesOutstanding: number
+  periods: DcfPeriod[], wacc: number, longTermGrowth: number,
+  netDebt: number, sharesOutstanding: number,
+  terminal?: TerminalValueOptions
 ): {
   npv: number; terminalValue: number; terminalValueDiscounted: number;
-  targetEquityValue: number; targetPricePerShare: number;
+  enterpriseValue: number; targetEquityValue: number; targetPricePerShare: number;
+  perpetuityTerminalValue: number; exitTerminalValue: number;
+  impliedExitMultiple: number | null; impliedPerpetuityGrowth: number | null;
 } {
-  let npv = 0;
-  for (let i = 0; i < fcfProjections.length; i++) {
-    npv += fcfProjections[i] / Math.pow(1 + wacc, i + 1);
-  }
-
-  const lastFCF = fcfProjections[fcfProjections.length - 1] || 0;
-  const terminalValue = (lastFCF * (1 + longTermGrowth)) / (wacc - longTermGrowth);
-  const terminalValueDiscounted = terminalValue / Math.pow(1 + wacc, fcfProjections.length);
-  const targetEquityValue = npv + terminalValueDiscounted - totalDebt;
-  const targetPricePerShare = sharesOutstanding > 0 ? targetEquityValue / sharesOutstanding : 0;
-
-  return { npv, terminalValue, terminalValueDiscounted, targetEquityValue, targetPricePerShare };
+  const result = computeDcf(periods, wacc, longTermGrowth, netDebt, sharesOutstanding, terminal);
+  return {
+    npv: result.npv,
+    terminalValue: result.tv,
+    terminalValueDiscounted: result.tvDisc,
+    enterpriseValue: result.npv + result.tvDisc,
+    targetEquityValue: result.targetEV,
+    targetPricePerShare: result.targetPrice,
+    perpetuityTerminalValue: result.perpetuityTv,
+    exitTerminalValue: result.exitTv,
+    impliedExitMultiple: result.impliedExitMultiple,
+    impliedPerpetuityGrowth: result.impliedPerpetuityGrowth,
+  };
 }
 
 export function calcSensitivityTable(
-  fcfProjections: number[], baseLTG: number, baseWACC: number,
-  totalDebt: number, sharesOutstanding: number
-): { waccRange: number[]; ltgRange: number[]; values: number[][] } {
+  periods: DcfPeriod[], baseLTG: number, baseWACC: number,
+  netDebt: number, sharesOutstanding: number,
+  terminal?: TerminalValueOptions, axis: "ltg" | "exitMultiple" = "ltg"
+): { waccRange: number[]; columnRange: number[]; values: number[][] } {
   const waccDeltas = [-0.02, -0.01, 0, 0.01, 0.02];
-  const ltgDeltas = [-0.01, -0.005, 0, 0.005, 0.01];
   const waccRange = waccDeltas.map(d => baseWACC + d);
-  const ltgRange = ltgDeltas.map(d => baseLTG + d);
+  const columnRange = axis === "ltg" || !terminal
+    ? [-0.01, -0.005, 0, 0.005, 0.01].map(d => baseLTG + d)
+    : [-2, -1, 0, 1, 2].map(d => Math.max(0, terminal.exitMultiple + d));
 
   const values = waccRange.map(w =>
-    ltgRange.map(g => {
-      if (w <= g) return 0;
-      const result = calcDCFTargetPrice(fcfProjections, w, g, totalDebt, sharesOutstanding);
+    columnRange.map(c => {
+      const g = axis === "ltg" ? c : baseLTG;
+      if (w <= g && terminal?.method !== "exit_multiple") return 0;
+      const opts = axis === "ltg" || !terminal ? terminal : { ...terminal, exitMultiple: c };
+      const result = calcDCFTargetPrice(periods, w, g, netDebt, sharesOutstanding, opts);
       return result.targetPricePerShare;
     })
   );
 
-  return { waccRange, ltgRange, values };
+  return { waccRange, columnRange, values };
 }
 
 export function calcPRValuation(
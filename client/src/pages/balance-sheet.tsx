@@ -5,17 +5,22 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { formatCurrency, formatPercent } from "@/lib/calculations";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { BalanceSheetLine, Assumptions } from "@shared/schema";
+import type { BalanceSheetLine, Assumptions, WorkingCapitalDayKey, WorkingCapitalDaysByYear } from "@shared/schema";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
 import { CheckCircle, AlertCircle, Save, RefreshCw, ArrowDown, ArrowRight, ClipboardPaste, Pencil, Globe } from "lucide-react";
 import { InfoTooltip } from "@/components/info-tooltip";
 import { PasteDataModal } from "@/components/paste-data-modal";
 import { ImportEdgarModal } from "@/components/import-edgar-modal";
+import { ExportButton } from "@/components/export-button";
+import { IntegrityBadge } from "@/components/integrity-badge";
+import { PeriodToggle, periodRows, periodLabel, periodKey, type StatementPeriod } from "@/components/period-toggle";
+import { CustomLineRows } from "@/components/custom-line-rows";
 
 const editableFields: Array<{ key: keyof BalanceSheetLine; label: string; isEditable?: boolean }> = [
   { key: "cash", label: "Cash", isEditable: true },
@@ -28,17 +33,26 @@ const editableFields: Array<{ key: keyof BalanceSheetLine; label: string; isEdit
   { key: "accountsPayable", label: "Accounts Payable", isEditable: true },
   { key: "shortTermDebt", label: "Short-Term Debt", isEditable: true },
   { key: "longTermDebt", label: "Long-Term Debt", isEditable: true },
+  { key: "deferredTaxLiability", label: "Deferred Tax Liability", isEditable: true },
   { key: "retainedEarnings", label: "Retained Earnings", isEditable: true },
   { key: "commonShares", label: "Common Shares", isEditable: true },
 ];
 
+const workingCapitalDayRows: Array<{ key: WorkingCapitalDayKey; label: string; tooltip: string }> = [
+  { key: "dso", label: "DSO (days)", tooltip: "Days sales outstanding: A/R / Revenue x 365" },
+  { key: "dio", label: "DIO (days)", tooltip: "Days inventory outstanding: Inventory / COGS x 365" },
+  { key: "dpo", label: "DPO (days)", tooltip: "Days payables outstanding: A/P / COGS x 365" },
+];
+
 export default function BalanceSheet() {
   const { toast } = useToast();
   const [editMode, setEditMode] = useState(false);
-  const [editedAssumptions, setEditedAssumptions] = useState<Record<string, string>>({});
+  const [editedAssumptions, setEditedAssumptions] = useState<Record<string, string | null>>({});
+  const [editedDays, setEditedDays] = useState<Record<number, Partial<Record<WorkingCapitalDayKey, number | null>>>>({});
   const [editedCells, setEditedCells] = useState<Record<string, Record<string, number>>>({});
   const [showPasteModal, setShowPasteModal] = useState(false);
   const [showEdgarModal, setShowEdgarModal] = useState(false);
+  const [period, setPeriod] = useState<StatementPeriod>("annual");
 
   const { selectedModel: model, isLoading } = useModel();
 
@@ -60,22 +74,43 @@ export default function BalanceSheet() {
     queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "income-statement"] });
     queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "balance-sheet"] });
     queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "cash-flow"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "integrity"] });
     queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "dcf"] });
     queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "valuation-comparison"] });
     queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "assumptions"] });
   }, [model]);
 
+  // Per-year day edits are merged into the saved overrides; a null clears that year's override.
+  const saveAssumptions = async () => {
+    const payload: Record<string, unknown> = { ...editedAssumptions };
+    if (Object.keys(editedDays).length > 0) {
+      const merged: WorkingCapitalDaysByYear = { ...((baseAssumptions?.workingCapitalDays as WorkingCapitalDaysByYear | null) ?? {}) };
+      for (const [year, days] of Object.entries(editedDays)) {
+        const next = { ...merged[year] };
+        for (const [key, value] of Object.entries(days) as Array<[WorkingCapitalDayKey, number | null]>) {
+          if (value === null) delete next[key];
+          else next[key] = value;
+        }
+        if (Object.keys(next).length > 0) merged[year] = next;
+        else delete merged[year];
+      }
+      payload.workingCapitalDays = merged;
+    }
+    if (Object.keys(payload).length > 0) {
+      await apiRequest("PATCH", `/api/models/${model!.id}/assumptions`, payload);
+    }
+  };
+
   const recalcMutation = useMutation({
     mutationFn: async () => {
-      if (Object.keys(editedAssumptions).length > 0) {
-        await apiRequest("PATCH", `/api/models/${model!.id}/assumptions`, editedAssumptions);
-      }
+      await saveAssumptions();
       await apiRequest("POST", `/api/models/${model!.id}/recalculate`);
     },
     onSuccess: () => {
       invalidateAll();
       setEditMode(false);
       setEditedAssumptions({});
+      setEditedDays({});
       toast({ title: "Model recalculated", description: "Balance sheet assumptions updated. Cash Flow, DCF, and Valuation recalculated." });
     },
     onError: (err: Error) => {
@@ -85,9 +120,7 @@ export default function BalanceSheet() {
 
   const saveCellsMutation = useMutation({
     mutationFn: async () => {
-      if (Object.keys(editedAssumptions).length > 0) {
-        await apiRequest("PATCH", `/api/models/${model!.id}/assumptions`, editedAssumptions);
-      }
+      await saveAssumptions();
       const promises: Promise<any>[] = [];
       for (const [yearStr, fields] of Object.entries(editedCells)) {
         const year = parseInt(yearStr);
@@ -105,6 +138,7 @@ export default function BalanceSheet() {
       invalidateAll();
       setEditedCells({});
       setEditedAssumptions({});
+      setEditedDays({});
       setEditMode(false);
       toast({ title: "Actual data saved", description: "Balance sheet actuals saved. Projected years recalculated." });
     },
@@ -148,9 +182,9 @@ export default function BalanceSheet() {
       const stDebt = fields.shortTermDebt ?? 0;
       const totalCL = ap + stDebt;
       payload.totalCurrentLiabilities = totalCL;
-      const ltDebt = fields.longTermDebt ?? 0;
-      payload.totalLongTermLiabilities = ltDebt;
-      payload.totalLiabilities = totalCL + ltDebt;
+      const totalLTL = (fields.longTermDebt ?? 0) + (fields.deferredTaxLiability ?? 0);
+      payload.totalLongTermLiabilities = totalLTL;
+      payload.totalLiabilities = totalCL + totalLTL;
       const re = fields.retainedEarnings ?? 0;
       const cs = fields.commonShares ?? 0;
       payload.totalEquity = re + cs;
@@ -176,23 +210,38 @@ export default function BalanceSheet() {
   if (!model) return <div className="p-4 text-muted-foreground">Select a company from the sidebar to begin.</div>;
 
   const annualData = bsData?.filter(d => !d.quarter).sort((a, b) => a.year - b.year) || [];
+  const tableData = periodRows(bsData, period);
+  // Quarterly balances are derived from the annual ones, so only the annual view is editable.
+  const tableEditMode = editMode && period === "annual";
   const latestData = annualData[annualData.length - 1];
   const isBalanced = latestData
     ? Math.abs((latestData.totalAssets || 0) - (latestData.totalLiabilitiesAndEquity || 0)) < 100
     : false;
 
-  const bsAssumptionFields = [
-    { key: "arPercent", label: "A/R % of Revenue" },
-    { key: "apPercent", label: "A/P % of Revenue" },
-    { key: "capexPercent", label: "CapEx % of Revenue" },
+  const bsDayFields = [
+    { key: "dsoDays", label: "DSO (days)" },
+    { key: "dioDays", label: "DIO (days)" },
+    { key: "dpoDays", label: "DPO (days)" },
   ];
 
   const getAssumptionValue = (key: string): string => {
-    if (editedAssumptions[key] !== undefined) return editedAssumptions[key];
+    if (editedAssumptions[key] != null) return editedAssumptions[key]!;
     if (baseAssumptions) return (baseAssumptions as any)[key] || "0";
     return "0";
   };
 
+  const getDayAssumptionValue = (key: string): string => {
+    if (key in editedAssumptions) return editedAssumptions[key] ?? "";
+    return (baseAssumptions as any)?.[key] ?? "";
+  };
+
+  const savedDayOverrides = (baseAssumptions?.workingCapitalDays as WorkingCapitalDaysByYear | null) ?? {};
+  const getDayOverride = (year: number, key: WorkingCapitalDayKey): number | null | undefined => {
+    const edited = editedDays[year];
+    if (edited && key in edited) return edited[key];
+    return savedDayOverrides[year]?.[key];
+  };
+
   const getCellValue = (year: number, key: string): number | undefined => {
     return editedCells[year]?.[key];
   };
@@ -224,6 +273,7 @@ export default function BalanceSheet() {
     { label: "Short-Term Debt", key: "shortTermDebt" },
     { label: "Total Current Liabilities", key: "totalCurrentLiabilities", isBold: true, isSubtotal: true },
     { label: "Long-Term Debt", key: "longTermDebt" },
+    { label: "Deferred Tax Liability", key: "deferredTaxLiability" },
     { label: "Total Long-Term Liabilities", key: "totalLongTermLiabilities", isBold: true, isSubtotal: true },
     { label: "Total Liabilities", key: "totalLiabilities", isBold: true, isSubtotal: true },
   ];
@@ -247,7 +297,7 @@ export default function BalanceSheet() {
     "Equity": (d.totalEquity || 0) / 1e6,
   }));
 
-  const hasEdits = Object.keys(editedCells).length > 0 || Object.keys(editedAssumptions).length > 0;
+  const hasEdits = Object.keys(editedCells).length > 0 || Object.keys(editedAssumptions).length > 0 || Object.keys(editedDays).length > 0;
 
   const pasteFieldDefs = editableFields.map(f => ({ key: f.key as string, label: f.label }));
   const allYears = annualData.map(d => d.year);
@@ -266,6 +316,8 @@ export default function BalanceSheet() {
         </div>
         <div className="flex items-center gap-2 flex-wrap">
           <Badge variant="outline" data-testid="badge-model-name">{model.name}</Badge>
+          <ExportButton url={`/api/models/${model.id}/export/balance-sheet`} />
+          <IntegrityBadge modelId={model.id} statement="balance-sheet" />
           <Badge variant={isBalanced ? "default" : "destructive"} data-testid="badge-balanced">
             {isBalanced ? (
               <span className="flex items-center gap-1"><CheckCircle className="h-3 w-3" /> Balanced</span>
@@ -275,7 +327,7 @@ export default function BalanceSheet() {
           </Badge>
           {editMode ? (
             <>
-              <Button variant="outline" onClick={() => { setEditMode(false); setEditedAssumptions({}); setEditedCells({}); }} data-testid="button-cancel">Cancel</Button>
+              <Button variant="outline" onClick={() => { setEditMode(false); setEditedAssumptions({}); setEditedCells({}); setEditedDays({}); }} data-testid="button-cancel">Cancel</Button>
               <Button variant="outline" onClick={() => setShowPasteModal(true)} data-testid="button-paste-data">
                 <ClipboardPaste className="h-4 w-4 mr-1" /> Paste Data
               </Button>
@@ -312,28 +364,190 @@ export default function BalanceSheet() {
         <Card className="border-dashed">
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-1">
-              <ArrowRight className="h-4 w-4" /> Working Capital & CapEx Assumptions (for projected years)
+              <ArrowRight className="h-4 w-4" /> Working Capital, Fixed Asset & Capital Return Assumptions (for projected years)
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-3 gap-3">
-              {bsAssumptionFields.map(f => (
+            <div className="grid grid-cols-4 gap-3">
+              {bsDayFields.map(f => (
                 <div key={f.key}>
                   <label className="text-xs text-muted-foreground">{f.label}</label>
                   <Input
                     type="text"
-                    value={(parseFloat(getAssumptionValue(f.key)) * 100).toFixed(1)}
+                    value={getDayAssumptionValue(f.key)}
+                    placeholder="Latest actual"
                     onChange={(e) => {
-                      const v = parseFloat(e.target.value) / 100;
-                      if (!isNaN(v)) setEditedAssumptions(prev => ({ ...prev, [f.key]: v.toString() }));
+                      const raw = e.target.value.trim();
+                      const v = parseFloat(raw);
+                      if (raw === "") setEditedAssumptions(prev => ({ ...prev, [f.key]: null }));
+                      else if (!isNaN(v) && v >= 0) setEditedAssumptions(prev => ({ ...prev, [f.key]: v.toString() }));
                     }}
                     data-testid={`input-assumption-${f.key}`}
                   />
                 </div>
               ))}
+              <div>
+                <label className="text-xs text-muted-foreground">CapEx % of Revenue</label>
+                <Input
+                  type="text"
+                  value={(parseFloat(getAssumptionValue("capexPercent")) * 100).toFixed(1)}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value) / 100;
+                    if (!isNaN(v)) setEditedAssumptions(prev => ({ ...prev, capexPercent: v.toString() }));
+                  }}
+                  data-testid="input-assumption-capexPercent"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-4 gap-3 mt-3">
+              <div>
+                <label className="text-xs text-muted-foreground flex items-center gap-1">
+                  Depreciation Method
+                  <InfoTooltip content="PP&E rolls forward as beginning balance + capex - depreciation. New capex depreciates straight-line over its useful life, or at a fixed rate of the prior year's net balance. PP&E on the latest actual balance sheet runs off separately over the existing asset life." />
+                </label>
+                <Select
+                  value={editedAssumptions.depreciationMethod ?? baseAssumptions?.depreciationMethod ?? "useful_life"}
+                  onValueChange={(v) => setEditedAssumptions(prev => ({ ...prev, depreciationMethod: v }))}
+                >
+                  <SelectTrigger data-testid="select-depreciation-method"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="useful_life">Useful life</SelectItem>
+                    <SelectItem value="percent_of_ppe">% of prior PP&E</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {(editedAssumptions.depreciationMethod ?? baseAssumptions?.depreciationMethod) === "percent_of_ppe" ? (
+                <div>
+                  <label className="text-xs text-muted-foreground">Depreciation % of Prior PP&E</label>
+                  <Input
+                    type="text"
+                    value={(parseFloat(getAssumptionValue("depreciationRate")) * 100).toFixed(1)}
+                    onChange={(e) => {
+                      const v = parseFloat(e.target.value) / 100;
+                      if (!isNaN(v) && v >= 0) setEditedAssumptions(prev => ({ ...prev, depreciationRate: v.toString() }));
+                    }}
+                    data-testid="input-assumption-depreciationRate"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="text-xs text-muted-foreground">Useful Life of New CapEx (years)</label>
+                  <Input
+                    type="text"
+                    value={getAssumptionValue("usefulLifeYears")}
+                    onChange={(e) => {
+                      const v = parseFloat(e.target.value);
+                      if (!isNaN(v) && v > 0) setEditedAssumptions(prev => ({ ...prev, usefulLifeYears: v.toString() }));
+                    }}
+                    data-testid="input-assumption-usefulLifeYears"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="text-xs text-muted-foreground">Existing Asset Life (years)</label>
+                <Input
+                  type="text"
+                  value={getAssumptionValue("existingAssetLifeYears")}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value);
+                    if (!isNaN(v) && v > 0) setEditedAssumptions(prev => ({ ...prev, existingAssetLifeYears: v.toString() }));
+                  }}
+                  data-testid="input-assumption-existingAssetLifeYears"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-4 gap-3 mt-3">
+              <div>
+                <label className="text-xs text-muted-foreground flex items-center gap-1">
+                  Dividends
+                  <InfoTooltip content="Dividends reduce retained earnings and are paid from cash in financing activities, either as a share of positive net income or a fixed amount per share." />
+                </label>
+                <Select
+                  value={editedAssumptions.dividendMethod ?? baseAssumptions?.dividendMethod ?? "payout_ratio"}
+                  onValueChange={(v) => setEditedAssumptions(prev => ({ ...prev, dividendMethod: v }))}
+                >
+                  <SelectTrigger data-testid="select-dividend-method"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="payout_ratio">Payout ratio</SelectItem>
+                    <SelectItem value="per_share">Per share</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {(editedAssumptions.dividendMethod ?? baseAssumptions?.dividendMethod) === "per_share" ? (
+                <div>
+                  <label className="text-xs text-muted-foreground">Dividend per Share ($)</label>
+                  <Input
+                    type="text"
+                    value={getAssumptionValue("dividendPerShare")}
+                    onChange={(e) => {
+                      const v = parseFloat(e.target.value);
+                      if (!isNaN(v) && v >= 0) setEditedAssumptions(prev => ({ ...prev, dividendPerShare: v.toString() }));
+                    }}
+                    data-testid="input-assumption-dividendPerShare"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="text-xs text-muted-foreground">Payout % of Net Income</label>
+                  <Input
+                    type="text"
+                    value={(parseFloat(getAssumptionValue("dividendPayoutRatio")) * 100).toFixed(1)}
+                    onChange={(e) => {
+                      const v = parseFloat(e.target.value) / 100;
+                      if (!isNaN(v) && v >= 0) setEditedAssumptions(prev => ({ ...prev, dividendPayoutRatio: v.toString() }));
+                    }}
+                    data-testid="input-assumption-dividendPayoutRatio"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="text-xs text-muted-foreground flex items-center gap-1">
+                  Annual Buyback ($)
+                  <InfoTooltip content="Repurchases retire shares at the buyback price, lowering the share count behind EPS and per-share value. Leave the price blank to use the current share price." />
+                </label>
+                <Input
+                  type="text"
+                  value={getAssumptionValue("buybackAmount")}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value);
+                    if (!isNaN(v) && v >= 0) setEditedAssumptions(prev => ({ ...prev, buybackAmount: v.toString() }));
+                  }}
+                  data-testid="input-assumption-buybackAmount"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-muted-foreground">Buyback Price ($/share)</label>
+                <Input
+                  type="text"
+                  value={getDayAssumptionValue("buybackPrice")}
+                  placeholder="Current price"
+                  onChange={(e) => {
+                    const raw = e.target.value.trim();
+                    const v = parseFloat(raw);
+                    if (raw === "") setEditedAssumptions(prev => ({ ...prev, buybackPrice: null }));
+                    else if (!isNaN(v) && v > 0) setEditedAssumptions(prev => ({ ...prev, buybackPrice: v.toString() }));
+                  }}
+                  data-testid="input-assumption-buybackPrice"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-muted-foreground flex items-center gap-1">
+                  Interest on Cash %
+                  <InfoTooltip content="Other income is this yield on the average of opening and closing cash for each projected year." />
+                </label>
+                <Input
+                  type="text"
+                  value={(parseFloat(getAssumptionValue("cashInterestRate")) * 100).toFixed(2)}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value) / 100;
+                    if (!isNaN(v) && v >= 0) setEditedAssumptions(prev => ({ ...prev, cashInterestRate: v.toString() }));
+                  }}
+                  data-testid="input-assumption-cashInterestRate"
+                />
+              </div>
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              These assumptions drive projected years. Actual year data (marked below) is preserved as-is during recalculation.
+              These assumptions drive projected years. DSO is keyed off revenue; DIO and DPO off COGS. Leave a day field blank to carry forward the latest actual year, and override individual projected years in the Working Capital Days rows below. Actual year data (marked below) is preserved as-is during recalculation.
             </p>
           </CardContent>
         </Card>
@@ -374,15 +588,23 @@ export default function BalanceSheet() {
         <TabsContent value="table">
           <Card>
             <CardContent className="pt-6 overflow-x-auto">
+              <div className="flex justify-end mb-3">
+                <PeriodToggle model={model} value={period} onChange={setPeriod} />
+              </div>
+              {tableData.length === 0 && (
+                <p className="text-sm text-muted-foreground mb-3" data-testid="text-no-quarters">
+                  No quarterly figures yet. Turn on quarterly projections or import a 10-Q filing.
+                </p>
+              )}
               <Table data-testid="table-balance-sheet">
                 <TableHeader>
                   <TableRow>
                     <TableHead className="min-w-[180px] sticky left-0 bg-card z-10">Line Item</TableHead>
-                    {annualData.map(d => (
-                      <TableHead key={d.year} className="text-right min-w-[120px]">
+                    {tableData.map(d => (
+                      <TableHead key={periodKey(d)} className="text-right min-w-[120px]">
                         <div className="flex flex-col items-end gap-1">
-                          <span>{d.year}</span>
-                          {editMode ? (
+                          <span>{periodLabel(d)}</span>
+                          {tableEditMode ? (
                             <Badge
                               variant={d.isActual ? "default" : "outline"}
                               className="text-[10px] cursor-pointer"
@@ -404,7 +626,7 @@ export default function BalanceSheet() {
                     if (row.isSection) {
                       return (
                         <TableRow key={`section-${row.label}-${idx}`} className="bg-muted/50">
-                          <TableCell colSpan={annualData.length + 1} className="font-bold text-sm sticky left-0 bg-muted/50 z-10">{row.label}</TableCell>
+                          <TableCell colSpan={tableData.length + 1} className="font-bold text-sm sticky left-0 bg-muted/50 z-10">{row.label}</TableCell>
                         </TableRow>
                       );
                     }
@@ -412,16 +634,16 @@ export default function BalanceSheet() {
                     return (
                       <TableRow key={`${row.key}-${idx}`} className={row.isSubtotal ? "border-t-2" : ""} data-testid={`row-${row.key}`}>
                         <TableCell className={`sticky left-0 bg-card z-10 ${row.isBold ? "font-bold" : "pl-8"}`}>{row.label}</TableCell>
-                        {annualData.map(d => {
+                        {tableData.map(d => {
                           const isActual = d.isActual;
-                          const canEditCell = editMode && canEdit && isActual;
+                          const canEditCell = tableEditMode && canEdit && isActual;
                           const editedVal = getCellValue(d.year, row.key);
                           const dbVal = (d[row.key] as number) || 0;
                           const displayVal = editedVal !== undefined ? editedVal : dbVal;
 
                           if (canEditCell) {
                             return (
-                              <TableCell key={d.year} className="text-right p-1">
+                              <TableCell key={periodKey(d)} className="text-right p-1">
                                 <Input
                                   type="number"
                                   value={editedVal !== undefined ? editedVal : dbVal}
@@ -437,7 +659,7 @@ export default function BalanceSheet() {
                           }
 
                           return (
-                            <TableCell key={d.year} className={`text-right ${row.isBold ? "font-bold" : ""} ${isActual ? "bg-muted/20" : ""}`}>
+                            <TableCell key={periodKey(d)} className={`text-right ${row.isBold ? "font-bold" : ""} ${isActual ? "bg-muted/20" : ""}`}>
                               {formatCurrency(displayVal)}
                             </TableCell>
                           );
@@ -447,24 +669,75 @@ export default function BalanceSheet() {
                   })}
                   <TableRow className="border-t-2 bg-muted/30">
                     <TableCell className="font-bold sticky left-0 bg-muted/30 z-10">Total L+E</TableCell>
-                    {annualData.map(d => (
-                      <TableCell key={d.year} className="text-right font-bold">
+                    {tableData.map(d => (
+                      <TableCell key={periodKey(d)} className="text-right font-bold">
                         {formatCurrency(d.totalLiabilitiesAndEquity || 0)}
                       </TableCell>
                     ))}
                   </TableRow>
                   <TableRow>
                     <TableCell className="font-bold sticky left-0 bg-card z-10">Balance Check (A - L&E)</TableCell>
-                    {annualData.map(d => {
+                    {tableData.map(d => {
                       const diff = (d.totalAssets || 0) - (d.totalLiabilitiesAndEquity || 0);
                       const ok = Math.abs(diff) < 100;
                       return (
-                        <TableCell key={d.year} className={`text-right font-bold ${ok ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+                        <TableCell key={periodKey(d)} className={`text-right font-bold ${ok ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
                           {formatCurrency(diff)} {ok ? "\u2713" : "\u2717"}
                         </TableCell>
                       );
                     })}
                   </TableRow>
+                  <CustomLineRows periods={tableData} />
+                  <TableRow className="bg-muted/50">
+                    <TableCell colSpan={tableData.length + 1} className="font-bold text-sm sticky left-0 bg-muted/50 z-10">WORKING CAPITAL DAYS</TableCell>
+                  </TableRow>
+                  {workingCapitalDayRows.map(row => (
+                    <TableRow key={row.key} data-testid={`row-${row.key}`}>
+                      <TableCell className="sticky left-0 bg-card z-10 pl-8">
+                        <span className="flex items-center gap-1">{row.label} <InfoTooltip content={row.tooltip} /></span>
+                      </TableCell>
+                      {tableData.map(d => {
+                        const override = getDayOverride(d.year, row.key);
+                        if (tableEditMode && !d.isActual) {
+                          return (
+                            <TableCell key={periodKey(d)} className="text-right p-1">
+                              <Input
+                                type="number"
+                                value={override ?? ""}
+                                placeholder={d[row.key] != null ? (d[row.key] as number).toFixed(1) : ""}
+                                onChange={(e) => {
+                                  const v = parseFloat(e.target.value);
+                                  const next = e.target.value === "" ? null : v;
+                                  if (next === null || (!isNaN(v) && v >= 0)) {
+                                    setEditedDays(prev => ({ ...prev, [d.year]: { ...prev[d.year], [row.key]: next } }));
+                                  }
+                                }}
+                                className="text-right font-mono text-sm w-full"
+                                data-testid={`input-${row.key}-${d.year}`}
+                              />
+                            </TableCell>
+                          );
+                        }
+                        return (
+                          <TableCell key={periodKey(d)} className={`text-right ${d.isActual ? "bg-muted/20" : ""} ${override != null ? "font-semibold" : ""}`}>
+                            {d[row.key] != null ? (d[row.key] as number).toFixed(1) : "--"}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                  <TableRow data-testid="row-nolBalance">
+                    <TableCell className="sticky left-0 bg-card z-10">
+                      <span className="flex items-center gap-1">
+                        NOL Carryforward <InfoTooltip content="Memo: net operating losses available to offset future taxable income (year end)" />
+                      </span>
+                    </TableCell>
+                    {tableData.map(d => (
+                      <TableCell key={periodKey(d)} className={`text-right font-mono ${d.isActual ? "bg-muted/20" : ""}`}>
+                        {d.nolBalance != null ? formatCurrency(d.nolBalance) : "--"}
+                      </TableCell>
+                    ))}
+                  </TableRow>
                 </TableBody>
               </Table>
             </CardContent>
@@ -10,16 +10,22 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { formatCurrency } from "@/lib/calculations";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { CashFlowLine } from "@shared/schema";
+import type { CashFlowLine, TtmSummary } from "@shared/schema";
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
 import { TrendingUp, TrendingDown, DollarSign, ArrowDown, Save, RefreshCw, ClipboardPaste, Pencil, Globe } from "lucide-react";
 import { InfoTooltip } from "@/components/info-tooltip";
 import { PasteDataModal } from "@/components/paste-data-modal";
 import { ImportEdgarModal } from "@/components/import-edgar-modal";
+import { ExportButton } from "@/components/export-button";
+import { IntegrityBadge } from "@/components/integrity-badge";
+import { PeriodToggle, periodRows, periodLabel, periodKey, type StatementPeriod } from "@/components/period-toggle";
+import { CustomLineRows } from "@/components/custom-line-rows";
 
 const editableFields: Array<{ key: keyof CashFlowLine; label: string }> = [
   { key: "netIncome", label: "Net Income" },
   { key: "depreciationAdd", label: "Depreciation" },
+  { key: "stockCompensationAdd", label: "Stock-Based Compensation" },
+  { key: "deferredTaxes", label: "Deferred Taxes" },
   { key: "arChange", label: "A/R Change" },
   { key: "inventoryChange", label: "Inventory Change" },
   { key: "apChange", label: "A/P Change" },
@@ -29,6 +35,7 @@ const editableFields: Array<{ key: keyof CashFlowLine; label: string }> = [
   { key: "shortTermDebtChange", label: "ST Debt Change" },
   { key: "longTermDebtChange", label: "LT Debt Change" },
   { key: "commonSharesChange", label: "Common Shares Change" },
+  { key: "dividendsPaid", label: "Dividends Paid" },
   { key: "financingCashFlow", label: "Financing Cash Flow" },
   { key: "netCashChange", label: "Net Cash Change" },
   { key: "beginningCash", label: "Beginning Cash" },
@@ -45,18 +52,26 @@ export default function CashFlow() {
   const [editedCells, setEditedCells] = useState<Record<string, Record<string, number>>>({});
   const [showPasteModal, setShowPasteModal] = useState(false);
   const [showEdgarModal, setShowEdgarModal] = useState(false);
+  const [period, setPeriod] = useState<StatementPeriod>("annual");
 
   const { data: cfData } = useQuery<CashFlowLine[]>({
     queryKey: ["/api/models", model?.id, "cash-flow"],
     enabled: !!model,
   });
 
+  const { data: ttm } = useQuery<TtmSummary | null>({
+    queryKey: ["/api/models", model?.id, "ttm"],
+    enabled: !!model,
+    staleTime: 0,
+  });
+
   const invalidateAll = useCallback(() => {
     if (!model) return;
     queryClient.invalidateQueries({ queryKey: ["/api/models"], exact: true });
     queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "income-statement"] });
     queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "balance-sheet"] });
     queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "cash-flow"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "integrity"] });
     queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "dcf"] });
     queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "valuation-comparison"] });
   }, [model]);
@@ -128,11 +143,17 @@ export default function CashFlow() {
   if (!model) return <div className="p-4 text-muted-foreground">Select a company from the sidebar to begin.</div>;
 
   const annualData = cfData?.filter(d => !d.quarter).sort((a, b) => a.year - b.year) || [];
+  const tableData = periodRows(cfData, period);
+  const tableEditMode = editMode && period === "annual";
+  // Cash flow TTM needs all four quarters' statements; 10-Q imports can leave gaps the income statement doesn't have.
+  const ttmFlows = period === "quarterly" ? ttm?.cashFlow : null;
 
   const operatingRows: Array<{ label: string; key: keyof CashFlowLine; isBold?: boolean; isSubtotal?: boolean; isSection?: boolean }> = [
     { label: "OPERATING ACTIVITIES", key: "operatingCashFlow", isSection: true },
     { label: "Net Income", key: "netIncome" },
     { label: "+ Depreciation", key: "depreciationAdd" },
+    { label: "+ Stock-Based Compensation", key: "stockCompensationAdd" },
+    { label: "+ Deferred Taxes", key: "deferredTaxes" },
     { label: "- A/R Change", key: "arChange" },
     { label: "- Inventory Change", key: "inventoryChange" },
     { label: "+ A/P Change", key: "apChange" },
@@ -150,6 +171,7 @@ export default function CashFlow() {
     { label: "ST Debt Change", key: "shortTermDebtChange" },
     { label: "LT Debt Change", key: "longTermDebtChange" },
     { label: "Common Shares Change", key: "commonSharesChange" },
+    { label: "Dividends Paid", key: "dividendsPaid" },
     { label: "Financing Cash Flow", key: "financingCashFlow", isBold: true, isSubtotal: true },
   ];
 
@@ -200,6 +222,8 @@ export default function CashFlow() {
         </div>
         <div className="flex items-center gap-2 flex-wrap">
           <Badge variant="outline" data-testid="badge-model-name">{model.name}</Badge>
+          <ExportButton url={`/api/models/${model.id}/export/cash-flow`} />
+          <IntegrityBadge modelId={model.id} statement="cash-flow" />
           {editMode ? (
             <>
               <Button variant="outline" onClick={() => { setEditMode(false); setEditedCells({}); }} data-testid="button-cancel">Cancel</Button>
@@ -287,15 +311,23 @@ export default function CashFlow() {
         <TabsContent value="table">
           <Card>
             <CardContent className="pt-6 overflow-x-auto">
+              <div className="flex justify-end mb-3">
+                <PeriodToggle model={model} value={period} onChange={setPeriod} />
+              </div>
+              {tableData.length === 0 && (
+                <p className="text-sm text-muted-foreground mb-3" data-testid="text-no-quarters">
+                  No quarterly figures yet. Turn on quarterly projections or import a 10-Q filing.
+                </p>
+              )}
               <Table data-testid="table-cash-flow">
                 <TableHeader>
                   <TableRow>
                     <TableHead className="min-w-[180px] sticky left-0 bg-card z-10">Line Item</TableHead>
-                    {annualData.map(d => (
-                      <TableHead key={d.year} className="text-right min-w-[120px]">
+                    {tableData.map(d => (
+                      <TableHead key={periodKey(d)} className="text-right min-w-[120px]">
                         <div className="flex flex-col items-end gap-1">
-                          <span>{d.year}</span>
-                          {editMode ? (
+                          <span>{periodLabel(d)}</span>
+                          {tableEditMode ? (
                             <Badge
                               variant={d.isActual ? "default" : "outline"}
                               className="text-[10px] cursor-pointer"
@@ -310,6 +342,14 @@ export default function CashFlow() {
                         </div>
                       </TableHead>
                     ))}
+                    {ttmFlows && (
+                      <TableHead className="text-right min-w-[120px]" data-testid="header-ttm">
+                        <span className="flex items-center justify-end gap-1">
+                          TTM {ttm!.asOfYear} Q{ttm!.asOfQuarter}
+                          <InfoTooltip content="Trailing twelve months: the sum of the four latest consecutive reported quarters." />
+                        </span>
+                      </TableHead>
+                    )}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -317,7 +357,7 @@ export default function CashFlow() {
                     if ("isSection" in row && row.isSection) {
                       return (
                         <TableRow key={`section-${row.label}-${idx}`} className="bg-muted/50">
-                          <TableCell colSpan={annualData.length + 1} className="font-bold text-sm sticky left-0 bg-muted/50 z-10">{row.label}</TableCell>
+                          <TableCell colSpan={tableData.length + (ttmFlows ? 2 : 1)} className="font-bold text-sm sticky left-0 bg-muted/50 z-10">{row.label}</TableCell>
                         </TableRow>
                       );
                     }
@@ -327,16 +367,16 @@ export default function CashFlow() {
                     return (
                       <TableRow key={`${row.key}-${idx}`} className={`${row.isSubtotal ? "border-t-2" : ""} ${isHighlight ? "bg-muted/30" : ""}`} data-testid={`row-${row.key}`}>
                         <TableCell className={`sticky left-0 z-10 ${isHighlight ? "bg-muted/30" : "bg-card"} ${row.isBold ? "font-bold" : "pl-8"}`}>{row.label}</TableCell>
-                        {annualData.map(d => {
+                        {tableData.map(d => {
                           const isActual = d.isActual;
-                          const canEditCell = editMode && canEdit && isActual;
+                          const canEditCell = tableEditMode && canEdit && isActual;
                           const editedVal = getCellValue(d.year, row.key);
                           const dbVal = (d[row.key] as number) || 0;
                           const displayVal = editedVal !== undefined ? editedVal : dbVal;
 
                           if (canEditCell) {
                             return (
-                              <TableCell key={d.year} className="text-right p-1">
+                              <TableCell key={periodKey(d)} className="text-right p-1">
                                 <Input
                                   type="number"
                                   value={editedVal !== undefined ? editedVal : dbVal}
@@ -352,14 +392,20 @@ export default function CashFlow() {
                           }
 
                           return (
-                            <TableCell key={d.year} className={`text-right ${row.isBold ? "font-bold" : ""} ${isHighlight ? "text-green-600 dark:text-green-400 font-bold" : ""} ${isActual ? "bg-muted/20" : ""}`}>
+                            <TableCell key={periodKey(d)} className={`text-right ${row.isBold ? "font-bold" : ""} ${isHighlight ? "text-green-600 dark:text-green-400 font-bold" : ""} ${isActual ? "bg-muted/20" : ""}`}>
                               {formatCurrency(displayVal)}
                             </TableCell>
                           );
                         })}
+                        {ttmFlows && (
+                          <TableCell className={`text-right ${row.isBold ? "font-bold" : ""}`} data-testid={`cell-ttm-${row.key}`}>
+                            {ttmFlows[row.key] !== undefined ? formatCurrency(ttmFlows[row.key]) : "--"}
+                          </TableCell>
+                        )}
                       </TableRow>
                     );
                   })}
+                  <CustomLineRows periods={tableData} trailingCells={ttmFlows ? 1 : 0} />
                 </TableBody>
               </Table>
             </CardContent>
@@ -10,6 +10,7 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { TrendingUp, TrendingDown, DollarSign, Briefcase, Activity, CheckCircle2, AlertCircle, Crown } from "lucide-react";
 import { InfoTooltip } from "@/components/info-tooltip";
 import { Link } from "wouter";
+import { IntegrityBadge } from "@/components/integrity-badge";
 
 const COLORS = ["hsl(var(--chart-1))", "hsl(var(--chart-2))", "hsl(var(--chart-3))", "hsl(var(--chart-4))", "hsl(var(--chart-5))"];
 
@@ -87,7 +88,12 @@ export default function Dashboard() {
           <h1 className="text-2xl font-bold" data-testid="text-page-title">Financial Dashboard</h1>
           <p className="text-sm text-muted-foreground">Overview of your financial model and portfolio</p>
         </div>
-        {model && <Badge variant="outline" data-testid="badge-model-name">{model.name}</Badge>}
+        {model && (
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge variant="outline" data-testid="badge-model-name">{model.name}</Badge>
+            <IntegrityBadge modelId={model.id} />
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
@@ -5,14 +5,24 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { formatCurrency, formatPercent, calcCostOfEquity, calcWACC, calcDCFTargetPrice, calcSensitivityTable } from "@/lib/calculations";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { DcfValuation, CashFlowLine } from "@shared/schema";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
-import { TrendingUp, TrendingDown, Target, Save, RefreshCw, ArrowDown, ArrowRight, AlertTriangle, Download, Globe } from "lucide-react";
+import type { DcfValuation, CashFlowLine, IncomeStatementLine, BalanceSheetLine, Scenario, ScenarioResults, EquityBridgeKey, EquityBridgeOverrides } from "@shared/schema";
+import {
+  dcfPeriodsFor, bridgeBalanceSheetRow, equityBridgeFor,
+  type DcfTiming, type TerminalValueMethod, type TerminalValueOptions,
+} from "@shared/valuation";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, Cell } from "recharts";
+import { TrendingUp, TrendingDown, Target, Save, RefreshCw, ArrowDown, ArrowRight, AlertTriangle, Download, Globe, RotateCcw, Crosshair } from "lucide-react";
 import { InfoTooltip } from "@/components/info-tooltip";
+import { ExportButton } from "@/components/export-button";
+import { ScenarioSelect, ScenarioComparison, BASE_SCENARIO_ID } from "@/components/scenario-comparison";
+import { SensitivityHeatmap } from "@/components/sensitivity-heatmap";
+import { GoalSeekDialog } from "@/components/goal-seek-dialog";
 
 interface YahooFundamentals {
   currentPrice: number;
@@ -41,6 +51,13 @@ export default function DcfValuationPage() {
   const { toast } = useToast();
   const [editMode, setEditMode] = useState(false);
   const [editedDcf, setEditedDcf] = useState<Record<string, number>>({});
+  const [editedTiming, setEditedTiming] = useState<Partial<DcfTiming>>({});
+  const [editedMethod, setEditedMethod] = useState<TerminalValueMethod | null>(null);
+  const [sensitivityAxis, setSensitivityAxis] = useState<"ltg" | "exitMultiple">("ltg");
+  const [editedBridge, setEditedBridge] = useState<Partial<Record<EquityBridgeKey, number | null>>>({});
+  const [editedDilutedShares, setEditedDilutedShares] = useState<number | null | undefined>(undefined);
+  const [scenarioId, setScenarioId] = useState(BASE_SCENARIO_ID);
+  const [showGoalSeek, setShowGoalSeek] = useState(false);
 
   const { selectedModel: model, isLoading } = useModel();
 
@@ -54,6 +71,21 @@ export default function DcfValuationPage() {
     enabled: !!model,
   });
 
+  const { data: isLines } = useQuery<IncomeStatementLine[]>({
+    queryKey: ["/api/models", model?.id, "income-statement"],
+    enabled: !!model,
+  });
+
+  const { data: bsLines } = useQuery<BalanceSheetLine[]>({
+    queryKey: ["/api/models", model?.id, "balance-sheet"],
+    enabled: !!model,
+  });
+
+  const { data: scenarioList = [] } = useQuery<Scenario[]>({
+    queryKey: ["/api/models", model?.id, "scenarios"],
+    enabled: !!model,
+  });
+
   const { data: yahooData, isLoading: yahooLoading } = useQuery<YahooFundamentals>({
     queryKey: ["/api/models", model?.id, "yahoo-fundamentals"],
     enabled: !!model?.ticker,
@@ -83,8 +115,15 @@ export default function DcfValuationPage() {
 
   const recalcMutation = useMutation({
     mutationFn: async () => {
-      if (Object.keys(editedDcf).length > 0 && dcfData) {
-        await apiRequest("PATCH", `/api/models/${model!.id}/dcf-params`, editedDcf);
+      const bridgeEdited = Object.keys(editedBridge).length > 0;
+      if ((Object.keys(editedDcf).length > 0 || Object.keys(editedTiming).length > 0 || editedMethod || bridgeEdited || editedDilutedShares !== undefined) && dcfData) {
+        await apiRequest("PATCH", `/api/models/${model!.id}/dcf-params`, {
+          ...editedDcf,
+          ...editedTiming,
+          ...(editedMethod ? { terminalValueMethod: editedMethod } : {}),
+          ...(bridgeEdited ? { equityBridgeOverrides: { ...(dcfData.equityBridgeOverrides as EquityBridgeOverrides | null), ...editedBridge } } : {}),
+          ...(editedDilutedShares !== undefined ? { dilutedShares: editedDilutedShares } : {}),
+        });
       }
       await apiRequest("POST", `/api/models/${model!.id}/recalculate`);
     },
@@ -94,6 +133,10 @@ export default function DcfValuationPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "valuation-comparison"] });
       setEditMode(false);
       setEditedDcf({});
+      setEditedTiming({});
+      setEditedMethod(null);
+      setEditedBridge({});
+      setEditedDilutedShares(undefined);
       toast({ title: "DCF recalculated", description: "WACC parameters updated. Target price and valuation recalculated." });
     },
     onError: (err: Error) => {
@@ -105,7 +148,14 @@ export default function DcfValuationPage() {
   if (!model) return <div className="p-4 text-muted-foreground">Select a company from the sidebar to begin.</div>;
 
   const dcf = dcfData;
-  const annualCF = cfData?.filter(d => !d.quarter).sort((a, b) => a.year - b.year) || [];
+  const selectedScenario = scenarioList.find(s => s.id === scenarioId);
+  const scenarioResults = selectedScenario?.results as ScenarioResults | null | undefined;
+  const annualCF = scenarioResults
+    ? scenarioResults.cashFlow
+    : cfData?.filter(d => !d.quarter).sort((a, b) => a.year - b.year) || [];
+  const annualIS = scenarioResults
+    ? scenarioResults.incomeStatement
+    : isLines?.filter(d => !d.quarter) || [];
 
   const getDcfVal = (key: string): number => {
     if (editedDcf[key] !== undefined) return editedDcf[key];
@@ -115,17 +165,56 @@ export default function DcfValuationPage() {
   const costOfEquity = calcCostOfEquity(getDcfVal("riskFreeRate"), getDcfVal("beta"), getDcfVal("marketReturn"));
   const wacc = calcWACC(costOfEquity, getDcfVal("equityWeight"), getDcfVal("costOfDebt"), getDcfVal("debtWeight"), getDcfVal("taxRate"));
 
-  const fcfProjections = annualCF.map(d => d.freeCashFlow || 0);
-  const dcfResult = fcfProjections.length > 0
-    ? calcDCFTargetPrice(fcfProjections, wacc, getDcfVal("longTermGrowth"), getDcfVal("totalDebt"), dcf?.sharesOutstanding || model.sharesOutstanding || 50000000)
+  const timing: DcfTiming = {
+    valuationDate: editedTiming.valuationDate !== undefined ? editedTiming.valuationDate : dcf?.valuationDate ?? null,
+    midYearConvention: editedTiming.midYearConvention ?? dcf?.midYearConvention ?? false,
+    stubPeriod: editedTiming.stubPeriod ?? dcf?.stubPeriod ?? false,
+  };
+  const dcfPeriods = dcfPeriodsFor(annualCF, timing);
+  const fcfProjections = dcfPeriods.map(p => p.fcf);
+  const finalPeriod = dcfPeriods[dcfPeriods.length - 1];
+  const terminal: TerminalValueOptions = {
+    method: editedMethod ?? (dcf?.terminalValueMethod as TerminalValueMethod | undefined) ?? "perpetuity",
+    exitMultiple: getDcfVal("exitMultiple"),
+    blendWeight: getDcfVal("terminalBlendWeight"),
+    finalEbitda: (finalPeriod && annualIS.find(r => r.year === finalPeriod.year)?.ebitda) || 0,
+  };
+  const axis = terminal.method === "perpetuity" ? "ltg" : sensitivityAxis;
+
+  const bridgeOverrides: EquityBridgeOverrides = { ...(dcf?.equityBridgeOverrides as EquityBridgeOverrides | null) };
+  for (const [key, value] of Object.entries(editedBridge)) {
+    if (value === null) delete bridgeOverrides[key as EquityBridgeKey];
+    else bridgeOverrides[key as EquityBridgeKey] = value;
+  }
+  const bridge = equityBridgeFor(bridgeBalanceSheetRow(bsLines || [], dcfPeriods), bridgeOverrides);
+  // The recalculation stores the basic share count at the valuation date.
+  const basicShares = dcf?.sharesOutstanding || model.sharesOutstanding || 50000000;
+  const dilutedShares = editedDilutedShares !== undefined ? editedDilutedShares : dcf?.dilutedShares ?? null;
+  const shares = dilutedShares || basicShares;
+
+  const dcfResult = dcfPeriods.length > 0
+    ? calcDCFTargetPrice(dcfPeriods, wacc, getDcfVal("longTermGrowth"), bridge.netDebt, shares, terminal)
     : null;
 
-  const sensitivity = fcfProjections.length > 0
-    ? calcSensitivityTable(fcfProjections, getDcfVal("longTermGrowth"), wacc, getDcfVal("totalDebt"), dcf?.sharesOutstanding || model.sharesOutstanding || 50000000)
+  const sensitivity = dcfPeriods.length > 0
+    ? calcSensitivityTable(dcfPeriods, getDcfVal("longTermGrowth"), wacc, bridge.netDebt, shares, terminal, axis)
     : null;
 
+  // Waterfall bars are [low, high] ranges in $M so claims step down from EV to equity value.
+  const bridgeChartData: Array<{ name: string; range: [number, number]; kind: "total" | "add" | "subtract" }> = [];
+  if (dcfResult) {
+    let running = dcfResult.enterpriseValue;
+    bridgeChartData.push({ name: "Enterprise Value", range: [0, running / 1e6], kind: "total" });
+    for (const item of bridge.items.filter(i => i.value !== 0)) {
+      const next = running + item.value;
+      bridgeChartData.push({ name: item.label, range: [Math.min(running, next) / 1e6, Math.max(running, next) / 1e6], kind: item.value > 0 ? "add" : "subtract" });
+      running = next;
+    }
+    bridgeChartData.push({ name: "Equity Value", range: [Math.min(0, running) / 1e6, Math.max(0, running) / 1e6], kind: "total" });
+  }
+
   const currentPrice = getDcfVal("currentSharePrice");
-  const targetPrice = dcfResult?.targetPricePerShare || dcf?.targetPricePerShare || 0;
+  const targetPrice = dcfResult?.targetPricePerShare || (scenarioResults ? scenarioResults.dcf.targetPricePerShare : dcf?.targetPricePerShare) || 0;
   const upside = currentPrice > 0 ? (targetPrice - currentPrice) / currentPrice : 0;
 
   const fcfChartData = annualCF.map(d => ({
@@ -148,8 +237,14 @@ export default function DcfValuationPage() {
 
   const dcfParams = dcfResult ? [
     { label: "NPV of FCFs", value: formatCurrency(dcfResult.npv) },
-    { label: "Terminal Value", value: formatCurrency(dcfResult.terminalValue) },
+    { label: "Terminal Value (Perpetuity)", value: formatCurrency(dcfResult.perpetuityTerminalValue) },
+    { label: "Implied Exit Multiple", value: dcfResult.impliedExitMultiple !== null ? `${dcfResult.impliedExitMultiple.toFixed(1)}x` : "--" },
+    { label: "Terminal Value (Exit Multiple)", value: formatCurrency(dcfResult.exitTerminalValue) },
+    { label: "Implied Perpetuity Growth", value: dcfResult.impliedPerpetuityGrowth !== null ? formatPercent(dcfResult.impliedPerpetuityGrowth) : "--" },
+    { label: "Terminal Value Used", value: formatCurrency(dcfResult.terminalValue) },
     { label: "Discounted Terminal Value", value: formatCurrency(dcfResult.terminalValueDiscounted) },
+    { label: "Enterprise Value", value: formatCurrency(dcfResult.enterpriseValue) },
+    { label: "Net Debt & Other Claims", value: formatCurrency(bridge.netDebt) },
     { label: "Target Equity Value", value: formatCurrency(dcfResult.targetEquityValue) },
     { label: "Target Price Per Share", value: `$${dcfResult.targetPricePerShare.toFixed(2)}` },
   ] : [];
@@ -177,6 +272,8 @@ export default function DcfValuationPage() {
         </div>
         <div className="flex items-center gap-2 flex-wrap">
           <Badge variant="outline" data-testid="badge-model-name">{model.name}</Badge>
+          <ScenarioSelect scenarios={scenarioList} value={selectedScenario ? scenarioId : BASE_SCENARIO_ID} onChange={setScenarioId} />
+          <ExportButton url={`/api/models/${model.id}/export/dcf`} />
           <Badge variant={displayUpside >= 0 ? "default" : "destructive"} data-testid="badge-upside">
             {displayUpside >= 0 ? (
               <span className="flex items-center gap-1"><TrendingUp className="h-3 w-3" /> {formatPercent(displayUpside)} Upside</span>
@@ -196,13 +293,18 @@ export default function DcfValuationPage() {
           )}
           {editMode ? (
             <>
-              <Button variant="outline" onClick={() => { setEditMode(false); setEditedDcf({}); }} data-testid="button-cancel">Cancel</Button>
+              <Button variant="outline" onClick={() => { setEditMode(false); setEditedDcf({}); setEditedTiming({}); setEditedMethod(null); setEditedBridge({}); setEditedDilutedShares(undefined); }} data-testid="button-cancel">Cancel</Button>
               <Button onClick={() => recalcMutation.mutate()} disabled={recalcMutation.isPending} data-testid="button-save-recalculate">
                 {recalcMutation.isPending ? <><RefreshCw className="h-4 w-4 mr-1 animate-spin" /> Recalculating...</> : <><Save className="h-4 w-4 mr-1" /> Save & Recalculate</>}
               </Button>
             </>
           ) : (
-            <Button variant="outline" onClick={() => setEditMode(true)} data-testid="button-edit-dcf">Edit WACC Params</Button>
+            <>
+              <Button variant="outline" onClick={() => setShowGoalSeek(true)} data-testid="button-goal-seek">
+                <Crosshair className="h-4 w-4 mr-1" /> Goal Seek
+              </Button>
+              <Button variant="outline" onClick={() => setEditMode(true)} data-testid="button-edit-dcf">Edit WACC Params</Button>
+            </>
           )}
         </div>
       </div>
@@ -224,7 +326,7 @@ export default function DcfValuationPage() {
         </Card>
         <Card data-testid="card-target-price">
           <CardHeader className="flex flex-row items-center justify-between gap-1 space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium flex items-center gap-1">DCF Target Price <InfoTooltip content="Intrinsic value per share derived from discounted future free cash flows. If above current price, the stock may be undervalued." /></CardTitle>
+            <CardTitle className="text-sm font-medium flex items-center gap-1">DCF Target Price{selectedScenario ? ` (${selectedScenario.name})` : ""} <InfoTooltip content="Intrinsic value per share derived from discounted future free cash flows. If above current price, the stock may be undervalued." /></CardTitle>
             <Target className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -338,6 +440,85 @@ export default function DcfValuationPage() {
                   )}
                 </div>
               ))}
+              <div className="border-t pt-2 mt-2 space-y-2" data-testid="section-dcf-timing">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground flex items-center gap-1">Valuation Date <InfoTooltip content="Cash flows are discounted back to this date. Actual years and projected years ending before it are excluded. Leave blank to value at the start of the first projected year." /></span>
+                  {editMode ? (
+                    <Input
+                      type="date"
+                      value={timing.valuationDate || ""}
+                      onChange={(e) => setEditedTiming(prev => ({ ...prev, valuationDate: e.target.value || null }))}
+                      className="h-7 w-36 text-sm"
+                      data-testid="input-dcf-valuationDate"
+                    />
+                  ) : (
+                    <span className="text-sm font-medium" data-testid="text-dcf-valuation-date">{timing.valuationDate || (dcfPeriods[0] ? `Start of ${dcfPeriods[0].year}` : "--")}</span>
+                  )}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground flex items-center gap-1">Mid-Year Convention <InfoTooltip content="Assumes cash flows arrive evenly through each year, so each period is discounted from its midpoint instead of its end." /></span>
+                  <Switch
+                    checked={!!timing.midYearConvention}
+                    disabled={!editMode}
+                    onCheckedChange={(checked) => setEditedTiming(prev => ({ ...prev, midYearConvention: checked }))}
+                    data-testid="switch-dcf-mid-year"
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground flex items-center gap-1">Stub Period <InfoTooltip content="Counts only the part of the valuation-date year that remains after the valuation date, pro-rating that year's FCF." /></span>
+                  <Switch
+                    checked={!!timing.stubPeriod}
+                    disabled={!editMode}
+                    onCheckedChange={(checked) => setEditedTiming(prev => ({ ...prev, stubPeriod: checked }))}
+                    data-testid="switch-dcf-stub"
+                  />
+                </div>
+              </div>
+              <div className="border-t pt-2 mt-2 space-y-2" data-testid="section-terminal-value">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground flex items-center gap-1">Terminal Value Method <InfoTooltip content="Perpetuity uses Gordon growth on final-year FCF. Exit multiple applies an EV/EBITDA multiple to final-year EBITDA. Blend weights the two." /></span>
+                  {editMode ? (
+                    <Select value={terminal.method} onValueChange={(v) => setEditedMethod(v as TerminalValueMethod)}>
+                      <SelectTrigger className="h-7 w-36 text-sm" data-testid="select-terminal-method"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="perpetuity">Perpetuity Growth</SelectItem>
+                        <SelectItem value="exit_multiple">Exit Multiple</SelectItem>
+                        <SelectItem value="blend">Blend</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-sm font-medium" data-testid="text-terminal-method">
+                      {terminal.method === "exit_multiple" ? "Exit Multiple" : terminal.method === "blend" ? "Blend" : "Perpetuity Growth"}
+                    </span>
+                  )}
+                </div>
+                {[
+                  { label: "Exit Multiple (EV/EBITDA)", key: "exitMultiple", isPercent: false, display: `${getDcfVal("exitMultiple").toFixed(1)}x`, show: true },
+                  { label: "Perpetuity Weight", key: "terminalBlendWeight", isPercent: true, display: formatPercent(getDcfVal("terminalBlendWeight")), show: terminal.method === "blend" },
+                ].filter(p => p.show).map(p => (
+                  <div key={p.key} className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-muted-foreground">{p.label}</span>
+                    {editMode ? (
+                      <Input
+                        type="text"
+                        value={p.isPercent ? (getDcfVal(p.key) * 100).toFixed(0) : getDcfVal(p.key).toFixed(1)}
+                        onChange={(e) => {
+                          const v = parseFloat(e.target.value);
+                          if (!isNaN(v)) setEditedDcf(prev => ({ ...prev, [p.key]: p.isPercent ? Math.min(1, Math.max(0, v / 100)) : Math.max(0, v) }));
+                        }}
+                        className="h-7 w-24 text-sm text-right"
+                        data-testid={`input-dcf-${p.key}`}
+                      />
+                    ) : (
+                      <span className="text-sm font-medium" data-testid={`text-dcf-${p.key}`}>{p.display}</span>
+                    )}
+                  </div>
+                ))}
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground">Final-Year EBITDA{finalPeriod ? ` (${finalPeriod.year})` : ""}</span>
+                  <span className="text-sm font-medium" data-testid="text-final-ebitda">{formatCurrency(terminal.finalEbitda)}</span>
+                </div>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -355,10 +536,138 @@ export default function DcfValuationPage() {
                 </div>
               ))}
             </div>
+            {dcfPeriods.length > 0 && (
+              <Table className="mt-3" data-testid="table-dcf-periods">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Year</TableHead>
+                    <TableHead className="text-right text-xs">FCF</TableHead>
+                    <TableHead className="text-right text-xs">Discount Period</TableHead>
+                    <TableHead className="text-right text-xs">PV</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dcfPeriods.map(p => (
+                    <TableRow key={p.year} data-testid={`row-dcf-period-${p.year}`}>
+                      <TableCell className="text-xs">{p.year}{p.fraction < 1 ? ` (stub ${p.fraction.toFixed(2)}y)` : ""}</TableCell>
+                      <TableCell className="text-right text-xs">{formatCurrency(p.fcf)}</TableCell>
+                      <TableCell className="text-right text-xs">{p.discountPeriod.toFixed(2)}</TableCell>
+                      <TableCell className="text-right text-xs">{formatCurrency(p.fcf / Math.pow(1 + wacc, p.discountPeriod))}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
           </CardContent>
         </Card>
       </div>
 
+      {dcfResult && (
+        <Card data-testid="card-equity-bridge">
+          <CardHeader>
+            <CardTitle className="text-sm font-medium flex items-center gap-1">
+              Enterprise Value to Equity Bridge{bridge.asOfYear ? ` (${bridge.asOfYear} Balance Sheet)` : ""}
+              <InfoTooltip content="Adds cash and short-term investments and subtracts debt, leases and other claims from enterprise value. Balance sheet items come from the latest year before the first discounted period; any item can be overridden in edit mode." />
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground">Enterprise Value</span>
+                  <span className="text-sm font-medium" data-testid="text-bridge-enterprise-value">{formatCurrency(dcfResult.enterpriseValue)}</span>
+                </div>
+                {bridge.items.map(item => (
+                  <div key={item.key} className="flex items-center justify-between gap-2" data-testid={`row-bridge-${item.key}`}>
+                    <span className="text-sm text-muted-foreground flex items-center gap-1">
+                      {item.sign > 0 ? "Plus" : "Less"} {item.label}
+                      {item.source === "override" && <Badge variant="outline" className="text-[10px]">Override</Badge>}
+                    </span>
+                    {editMode ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          type="text"
+                          value={(Math.abs(item.value) / 1e6).toFixed(1)}
+                          onChange={(e) => {
+                            const v = parseFloat(e.target.value);
+                            if (!isNaN(v)) setEditedBridge(prev => ({ ...prev, [item.key]: Math.max(0, v) * 1e6 }));
+                          }}
+                          className="h-7 w-24 text-sm text-right"
+                          data-testid={`input-bridge-${item.key}`}
+                        />
+                        <span className="text-xs text-muted-foreground">M</span>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          disabled={item.source !== "override"}
+                          onClick={() => setEditedBridge(prev => ({ ...prev, [item.key]: null }))}
+                          data-testid={`button-reset-bridge-${item.key}`}
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <span className="text-sm font-medium" data-testid={`text-bridge-${item.key}`}>{formatCurrency(Math.abs(item.value))}</span>
+                    )}
+                  </div>
+                ))}
+                <div className="flex items-center justify-between gap-2 border-t pt-2">
+                  <span className="text-sm font-medium">Equity Value</span>
+                  <span className="text-sm font-bold" data-testid="text-bridge-equity-value">{formatCurrency(dcfResult.targetEquityValue)}</span>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground flex items-center gap-1">
+                    Diluted Shares <InfoTooltip content="Share count used for the per-share target. Leave blank to use basic shares outstanding; enter a diluted count to include options, RSUs and convertibles." />
+                  </span>
+                  {editMode ? (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="text"
+                        placeholder={(basicShares / 1e6).toFixed(2)}
+                        value={dilutedShares ? (dilutedShares / 1e6).toFixed(2) : ""}
+                        onChange={(e) => {
+                          const v = parseFloat(e.target.value);
+                          setEditedDilutedShares(!isNaN(v) && v > 0 ? v * 1e6 : null);
+                        }}
+                        className="h-7 w-24 text-sm text-right"
+                        data-testid="input-diluted-shares"
+                      />
+                      <span className="text-xs text-muted-foreground">M</span>
+                    </div>
+                  ) : (
+                    <span className="text-sm font-medium" data-testid="text-diluted-shares">
+                      {(shares / 1e6).toFixed(2)}M{dilutedShares ? "" : " (basic)"}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground">Target Price Per Share</span>
+                  <span className="text-sm font-bold" data-testid="text-bridge-target-price">${dcfResult.targetPricePerShare.toFixed(2)}</span>
+                </div>
+              </div>
+              <div className="h-64" data-testid="chart-equity-bridge">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={bridgeChartData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="name" className="text-xs" interval={0} tick={{ fontSize: 10 }} />
+                    <YAxis className="text-xs" />
+                    <Tooltip contentStyle={{ backgroundColor: "hsl(var(--card))", border: "1px solid hsl(var(--border))", borderRadius: "6px", color: "hsl(var(--card-foreground))" }} itemStyle={{ color: "hsl(var(--card-foreground))" }} labelStyle={{ color: "hsl(var(--card-foreground))" }} formatter={(v: [number, number]) => `$${(v[1] - v[0]).toFixed(1)}M`} />
+                    <Bar dataKey="range" name="$M" radius={[2, 2, 0, 0]}>
+                      {bridgeChartData.map(d => (
+                        <Cell key={d.name} fill={d.kind === "total" ? "hsl(var(--chart-1))" : d.kind === "add" ? "hsl(var(--chart-2))" : "hsl(var(--destructive))"} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <ScenarioComparison model={model} currentPrice={displayPrice} selectedId={selectedScenario ? scenarioId : BASE_SCENARIO_ID} onSelect={setScenarioId} />
+
       <Card data-testid="card-fcf-chart">
         <CardHeader><CardTitle className="text-sm font-medium flex items-center gap-1">FCF Projections ($M) <InfoTooltip content="Historical free cash flow used as the basis for the DCF model. Future projections use the Forecast Forward feature with growth decay." /></CardTitle></CardHeader>
         <CardContent>
@@ -379,13 +688,24 @@ export default function DcfValuationPage() {
 
       {sensitivity && (
         <Card data-testid="card-sensitivity">
-          <CardHeader><CardTitle className="text-sm font-medium flex items-center gap-1">Sensitivity Analysis: WACC vs Long-Term Growth <InfoTooltip content="5x5 grid showing how the target price changes as WACC and long-term growth assumptions vary. The center cell reflects your current inputs." /></CardTitle></CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+            <CardTitle className="text-sm font-medium flex items-center gap-1">
+              Sensitivity Analysis: WACC vs {axis === "ltg" ? "Long-Term Growth" : "Exit Multiple"}
+              <InfoTooltip content="5x5 grid showing how the target price changes as WACC and the terminal value driver vary. The center cell reflects your current inputs." />
+            </CardTitle>
+            <div className="flex items-center gap-1">
+              <Button size="sm" variant={axis === "ltg" ? "default" : "outline"} onClick={() => setSensitivityAxis("ltg")} data-testid="button-sensitivity-ltg">LTG</Button>
+              <Button size="sm" variant={axis === "exitMultiple" ? "default" : "outline"} onClick={() => setSensitivityAxis("exitMultiple")} disabled={terminal.method === "perpetuity"} data-testid="button-sensitivity-exit-multiple">Exit Multiple</Button>
+            </div>
+          </CardHeader>
           <CardContent>
             <Table data-testid="table-sensitivity">
               <TableHeader>
                 <TableRow>
-                  <TableHead>WACC \ LTG</TableHead>
-                  {sensitivity.ltgRange.map(g => <TableHead key={g} className="text-right text-xs">{formatPercent(g)}</TableHead>)}
+                  <TableHead>WACC \ {axis === "ltg" ? "LTG" : "Multiple"}</TableHead>
+                  {sensitivity.columnRange.map(c => (
+                    <TableHead key={c} className="text-right text-xs">{axis === "ltg" ? formatPercent(c) : `${c.toFixed(1)}x`}</TableHead>
+                  ))}
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -407,6 +727,15 @@ export default function DcfValuationPage() {
           </CardContent>
         </Card>
       )}
+
+      <SensitivityHeatmap modelId={model.id} dcf={dcf} currentPrice={displayPrice} />
+      <GoalSeekDialog
+        open={showGoalSeek}
+        onOpenChange={setShowGoalSeek}
+        modelId={model.id}
+        years={Array.from({ length: model.endYear - model.startYear + 1 }, (_, i) => model.startYear + i)}
+        defaultInput="wacc"
+      />
     </div>
   );
 }
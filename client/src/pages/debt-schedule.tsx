@@ -0,0 +1,337 @@
+import { useState, useCallback } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useModel } from "@/lib/model-context";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatCurrency } from "@/lib/calculations";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { InfoTooltip } from "@/components/info-tooltip";
+import type { DebtTranche, DebtScheduleRow } from "@shared/schema";
+import { Plus, Trash2, Save, RefreshCw } from "lucide-react";
+
+type TrancheEdits = Partial<Pick<DebtTranche, "name" | "classification" | "balance" | "interestRate" | "amortizationRate" | "maturityYear">>;
+
+export default function DebtSchedule() {
+  const { toast } = useToast();
+  const { selectedModel: model, isLoading } = useModel();
+  const [editedTranches, setEditedTranches] = useState<Record<string, TrancheEdits>>({});
+  const [editedSettings, setEditedSettings] = useState<{ minimumCash?: number; revolverCapacity?: number; revolverRate?: number }>({});
+
+  const { data: tranches } = useQuery<DebtTranche[]>({
+    queryKey: ["/api/models", model?.id, "debt-tranches"],
+    enabled: !!model,
+  });
+
+  const { data: schedule } = useQuery<DebtScheduleRow[]>({
+    queryKey: ["/api/models", model?.id, "debt-schedule"],
+    enabled: !!model,
+  });
+
+  const invalidateAll = useCallback(() => {
+    if (!model) return;
+    queryClient.invalidateQueries({ queryKey: ["/api/models"], exact: true });
+    queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "debt-tranches"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "debt-schedule"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "income-statement"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "balance-sheet"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "cash-flow"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "integrity"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/models", model.id, "dcf"] });
+  }, [model]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (Object.keys(editedSettings).length > 0) {
+        await apiRequest("PATCH", `/api/models/${model!.id}`, editedSettings);
+      }
+      for (const [id, fields] of Object.entries(editedTranches)) {
+        await apiRequest("PATCH", `/api/debt-tranches/${id}`, fields);
+      }
+      await apiRequest("POST", `/api/models/${model!.id}/recalculate`);
+    },
+    onSuccess: () => {
+      invalidateAll();
+      setEditedTranches({});
+      setEditedSettings({});
+      toast({ title: "Debt schedule saved", description: "Interest expense and debt balances recalculated." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/debt-tranches", {
+        modelId: model!.id,
+        name: `Tranche ${(tranches?.length ?? 0) + 1}`,
+        sortOrder: tranches?.length ?? 0,
+      });
+      await apiRequest("POST", `/api/models/${model!.id}/recalculate`);
+    },
+    onSuccess: invalidateAll,
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/debt-tranches/${id}`);
+      await apiRequest("POST", `/api/models/${model!.id}/recalculate`);
+    },
+    onSuccess: (_data, id) => {
+      setEditedTranches(prev => {
+        const { [id]: _removed, ...rest } = prev;
+        return rest;
+      });
+      invalidateAll();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) return <div className="p-4 text-muted-foreground">Loading...</div>;
+  if (!model) return <div className="p-4 text-muted-foreground">Select a company from the sidebar to begin.</div>;
+
+  const hasEdits = Object.keys(editedTranches).length > 0 || Object.keys(editedSettings).length > 0;
+
+  const trancheValue = <K extends keyof TrancheEdits>(t: DebtTranche, key: K): DebtTranche[K] =>
+    (editedTranches[t.id]?.[key] ?? t[key]) as DebtTranche[K];
+
+  const editTranche = (id: string, fields: TrancheEdits) => {
+    setEditedTranches(prev => ({ ...prev, [id]: { ...prev[id], ...fields } }));
+  };
+
+  const settingValue = (key: "minimumCash" | "revolverCapacity" | "revolverRate") =>
+    editedSettings[key] ?? model[key] ?? 0;
+
+  const rows = schedule || [];
+  const years = Array.from(new Set(rows.map(r => r.year))).sort((a, b) => a - b);
+  const facilities = Array.from(new Map(rows.map(r => [r.trancheId ?? "revolver", r.name])).entries());
+  const rowFor = (facility: string, year: number) =>
+    rows.find(r => (r.trancheId ?? "revolver") === facility && r.year === year);
+  const yearTotal = (year: number, key: "closing" | "interest") =>
+    rows.filter(r => r.year === year).reduce((sum, r) => sum + r[key], 0);
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">Debt Schedule</h1>
+          <p className="text-sm text-muted-foreground">Debt tranches, revolver and projected interest expense</p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <Badge variant="outline" data-testid="badge-model-name">{model.name}</Badge>
+          <Button onClick={() => saveMutation.mutate()} disabled={!hasEdits || saveMutation.isPending} data-testid="button-save-recalculate">
+            {saveMutation.isPending ? (
+              <><RefreshCw className="h-4 w-4 mr-1 animate-spin" /> Saving...</>
+            ) : (
+              <><Save className="h-4 w-4 mr-1" /> Save & Recalculate</>
+            )}
+          </Button>
+        </div>
+      </div>
+
+      <Card data-testid="card-revolver-settings">
+        <CardHeader>
+          <CardTitle className="text-sm font-medium flex items-center gap-1">
+            Revolver
+            <InfoTooltip content="When projected cash would fall below the minimum balance, the revolver draws up to its capacity. Surplus cash repays it first. Interest on the average revolver balance is solved iteratively because it feeds back into net income and cash." />
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Minimum Cash ($M)</Label>
+            <Input
+              type="number"
+              value={settingValue("minimumCash") / 1e6}
+              onChange={(e) => setEditedSettings(prev => ({ ...prev, minimumCash: (parseFloat(e.target.value) || 0) * 1e6 }))}
+              data-testid="input-minimum-cash"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Revolver Capacity ($M)</Label>
+            <Input
+              type="number"
+              value={settingValue("revolverCapacity") / 1e6}
+              onChange={(e) => setEditedSettings(prev => ({ ...prev, revolverCapacity: (parseFloat(e.target.value) || 0) * 1e6 }))}
+              data-testid="input-revolver-capacity"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Revolver Rate (%)</Label>
+            <Input
+              type="number"
+              step="0.1"
+              value={+(settingValue("revolverRate") * 100).toFixed(4)}
+              onChange={(e) => setEditedSettings(prev => ({ ...prev, revolverRate: (parseFloat(e.target.value) || 0) / 100 }))}
+              data-testid="input-revolver-rate"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-debt-tranches">
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <CardTitle className="text-sm font-medium flex items-center gap-1">
+            Tranches
+            <InfoTooltip content="Balances are as of the last actual year. Amortization is the share of the opening balance repaid each year; any remaining balance is repaid in the maturity year. With no tranches, the last actual debt balances are carried flat with no interest." />
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => addMutation.mutate()} disabled={addMutation.isPending} data-testid="button-add-tranche">
+            <Plus className="h-4 w-4 mr-1" /> Add Tranche
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {tranches && tranches.length > 0 ? (
+            <Table data-testid="table-debt-tranches">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Classification</TableHead>
+                  <TableHead className="text-right">Balance ($M)</TableHead>
+                  <TableHead className="text-right">Rate (%)</TableHead>
+                  <TableHead className="text-right">Amortization (%)</TableHead>
+                  <TableHead className="text-right">Maturity</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tranches.map(t => (
+                  <TableRow key={t.id} data-testid={`row-tranche-${t.id}`}>
+                    <TableCell>
+                      <Input
+                        value={trancheValue(t, "name")}
+                        onChange={(e) => editTranche(t.id, { name: e.target.value })}
+                        className="h-8 w-40 text-sm"
+                        data-testid={`input-tranche-name-${t.id}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select value={trancheValue(t, "classification")} onValueChange={(v) => editTranche(t.id, { classification: v })}>
+                        <SelectTrigger className="h-8 w-32 text-sm" data-testid={`select-tranche-classification-${t.id}`}><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="short_term">Short-term</SelectItem>
+                          <SelectItem value="long_term">Long-term</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        value={trancheValue(t, "balance") / 1e6}
+                        onChange={(e) => editTranche(t.id, { balance: (parseFloat(e.target.value) || 0) * 1e6 })}
+                        className="h-8 w-28 text-sm text-right ml-auto"
+                        data-testid={`input-tranche-balance-${t.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        step="0.1"
+                        value={+(trancheValue(t, "interestRate") * 100).toFixed(4)}
+                        onChange={(e) => editTranche(t.id, { interestRate: (parseFloat(e.target.value) || 0) / 100 })}
+                        className="h-8 w-20 text-sm text-right ml-auto"
+                        data-testid={`input-tranche-rate-${t.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        step="1"
+                        value={+(trancheValue(t, "amortizationRate") * 100).toFixed(4)}
+                        onChange={(e) => editTranche(t.id, { amortizationRate: (parseFloat(e.target.value) || 0) / 100 })}
+                        className="h-8 w-20 text-sm text-right ml-auto"
+                        data-testid={`input-tranche-amortization-${t.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        value={trancheValue(t, "maturityYear") ?? ""}
+                        placeholder="None"
+                        onChange={(e) => editTranche(t.id, { maturityYear: e.target.value ? parseInt(e.target.value) : null })}
+                        className="h-8 w-24 text-sm text-right ml-auto"
+                        data-testid={`input-tranche-maturity-${t.id}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(t.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-tranche-${t.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-tranches">
+              No tranches yet. Projected debt is carried flat from the last actual balance sheet.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-debt-schedule">
+        <CardHeader>
+          <CardTitle className="text-sm font-medium">Projected Schedule</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {years.length > 0 ? (
+            <Table data-testid="table-debt-schedule">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="sticky left-0 bg-card z-10 min-w-[180px]">Facility</TableHead>
+                  {years.map(y => <TableHead key={y} className="text-right">{y}E</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {facilities.map(([facility, name]) => (
+                  <TableRow key={facility} data-testid={`row-schedule-${facility}`}>
+                    <TableCell className="sticky left-0 bg-card z-10 pl-8">{name}</TableCell>
+                    {years.map(y => {
+                      const r = rowFor(facility, y);
+                      return (
+                        <TableCell key={y} className="text-right text-sm">
+                          {r ? formatCurrency(r.closing) : "--"}
+                          {r && (r.drawdown > 0 || r.repayment > 0) && (
+                            <div className="text-xs text-muted-foreground">
+                              {r.drawdown > 0 ? `+${formatCurrency(r.drawdown)}` : `-${formatCurrency(r.repayment)}`}
+                            </div>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+                <TableRow className="border-t-2" data-testid="row-schedule-total-debt">
+                  <TableCell className="sticky left-0 bg-card z-10 font-bold">Total Debt</TableCell>
+                  {years.map(y => <TableCell key={y} className="text-right text-sm font-bold">{formatCurrency(yearTotal(y, "closing"))}</TableCell>)}
+                </TableRow>
+                <TableRow data-testid="row-schedule-interest">
+                  <TableCell className="sticky left-0 bg-card z-10 font-bold">Interest Expense</TableCell>
+                  {years.map(y => <TableCell key={y} className="text-right text-sm font-bold">{formatCurrency(yearTotal(y, "interest"))}</TableCell>)}
+                </TableRow>
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-schedule">No projected years to schedule.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -10,17 +10,24 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { formatCurrency, formatPercent } from "@/lib/calculations";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { IncomeStatementLine, Assumptions } from "@shared/schema";
+import type { IncomeStatementLine, Assumptions, TtmSummary } from "@shared/schema";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, LineChart, Line } from "recharts";
-import { TrendingUp, TrendingDown, Save, RefreshCw, ArrowRight, ArrowDown, AlertTriangle, Globe } from "lucide-react";
+import { TrendingUp, TrendingDown, Save, RefreshCw, ArrowRight, ArrowDown, AlertTriangle, Globe, SlidersHorizontal } from "lucide-react";
 import { InfoTooltip } from "@/components/info-tooltip";
 import { ImportEdgarModal } from "@/components/import-edgar-modal";
+import { ExportButton } from "@/components/export-button";
+import { IntegrityBadge } from "@/components/integrity-badge";
+import { PeriodToggle, periodRows, periodLabel, periodKey, type StatementPeriod } from "@/components/period-toggle";
+import { CustomLineRows } from "@/components/custom-line-rows";
+import { CalibrateAssumptionsDialog } from "@/components/calibrate-assumptions-dialog";
 
 export default function IncomeStatement() {
   const { toast } = useToast();
   const [editMode, setEditMode] = useState(false);
-  const [editedAssumptions, setEditedAssumptions] = useState<Record<string, string>>({});
+  const [editedAssumptions, setEditedAssumptions] = useState<Record<string, string | null>>({});
   const [showEdgarModal, setShowEdgarModal] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [period, setPeriod] = useState<StatementPeriod>("annual");
 
   const { selectedModel: model, isLoading } = useModel();
 
@@ -34,6 +41,12 @@ export default function IncomeStatement() {
     enabled: !!model,
   });
 
+  const { data: ttm } = useQuery<TtmSummary | null>({
+    queryKey: ["/api/models", model?.id, "ttm"],
+    enabled: !!model,
+    staleTime: 0,
+  });
+
   const baseAssumptions = assumptionsData?.find(a => !a.scenarioId);
 
   const recalcMutation = useMutation({
@@ -48,6 +61,7 @@ export default function IncomeStatement() {
       queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "income-statement"] });
       queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "balance-sheet"] });
       queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "cash-flow"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "integrity"] });
       queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "dcf"] });
       queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "valuation-comparison"] });
       queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "assumptions"] });
@@ -64,6 +78,8 @@ export default function IncomeStatement() {
   if (!model) return <div className="p-4 text-muted-foreground">Select a company from the sidebar to begin.</div>;
 
   const annualData = incomeData?.filter(d => !d.quarter).sort((a, b) => a.year - b.year) || [];
+  const tableData = periodRows(incomeData, period);
+  const ttmColumn = period === "quarterly" ? ttm : null;
 
   const allYears = annualData.map(d => d.year);
 
@@ -72,6 +88,8 @@ export default function IncomeStatement() {
     { key: "cogs", label: "COGS" },
     { key: "grossProfit", label: "Gross Profit" },
     { key: "sgaExpense", label: "SG&A Expense" },
+    { key: "smExpense", label: "Sales & Marketing" },
+    { key: "gaExpense", label: "G&A Expense" },
     { key: "rdExpense", label: "R&D Expense" },
     { key: "operatingIncome", label: "Operating Income" },
     { key: "interestExpense", label: "Interest Expense" },
@@ -89,7 +107,15 @@ export default function IncomeStatement() {
       if (fields.totalRevenue !== undefined) mapped.revenue = fields.totalRevenue;
       if (fields.cogs !== undefined) mapped.cogs = Math.abs(fields.cogs);
       if (fields.grossProfit !== undefined) mapped.grossProfit = fields.grossProfit;
-      if (fields.sgaExpense !== undefined) mapped.salesMarketing = Math.abs(fields.sgaExpense);
+      if (fields.smExpense !== undefined) mapped.salesMarketing = Math.abs(fields.smExpense);
+      if (fields.gaExpense !== undefined) mapped.generalAdmin = Math.abs(fields.gaExpense);
+      // Combined SG&A fills whichever half wasn't reported separately.
+      if (fields.sgaExpense !== undefined) {
+        const sga = Math.abs(fields.sgaExpense);
+        if (mapped.salesMarketing === undefined && mapped.generalAdmin === undefined) mapped.salesMarketing = sga;
+        else if (mapped.salesMarketing === undefined) mapped.salesMarketing = Math.max(0, sga - mapped.generalAdmin);
+        else if (mapped.generalAdmin === undefined) mapped.generalAdmin = Math.max(0, sga - mapped.salesMarketing);
+      }
       if (fields.rdExpense !== undefined) mapped.rd = Math.abs(fields.rdExpense);
       if (fields.operatingIncome !== undefined) mapped.operatingIncome = fields.operatingIncome;
       if (fields.interestExpense !== undefined) mapped.interestExpense = Math.abs(fields.interestExpense);
@@ -110,6 +136,7 @@ export default function IncomeStatement() {
         queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "income-statement"] });
         queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "balance-sheet"] });
         queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "cash-flow"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "integrity"] });
         queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "dcf"] });
         queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "valuation-comparison"] });
         toast({ title: "SEC filing data imported", description: `Imported income statement data for ${Object.keys(data).length} year(s). Model recalculated.` });
@@ -125,7 +152,6 @@ export default function IncomeStatement() {
     parseFloat(String(baseAssumptions.salesMarketingPercent || "0")) === 0 &&
     parseFloat(String(baseAssumptions.rdPercent || "0")) === 0 &&
     parseFloat(String(baseAssumptions.gaPercent || "0")) === 0 &&
-    parseFloat(String(baseAssumptions.depreciationPercent || "0")) === 0 &&
     parseFloat(String(baseAssumptions.taxRate || "0")) === 0
   );
   const hasIncomeWarnings = hasNoRevenue || hasDefaultAssumptions;
@@ -135,16 +161,34 @@ export default function IncomeStatement() {
     { key: "salesMarketingPercent", label: "Sales & Marketing %", dbKey: "salesMarketingPercent" },
     { key: "rdPercent", label: "R&D %", dbKey: "rdPercent" },
     { key: "gaPercent", label: "G&A %", dbKey: "gaPercent" },
-    { key: "depreciationPercent", label: "Depreciation %", dbKey: "depreciationPercent" },
     { key: "taxRate", label: "Tax Rate", dbKey: "taxRate" },
   ];
 
   const getAssumptionValue = (key: string): string => {
-    if (editedAssumptions[key] !== undefined) return editedAssumptions[key];
+    if (editedAssumptions[key] != null) return editedAssumptions[key]!;
     if (baseAssumptions) return (baseAssumptions as any)[key] || "0";
     return "0";
   };
 
+  // Blank SBC and amortization percents carry forward the latest actual year's share of revenue.
+  const addBackFields = [
+    { key: "sbcPercent", label: "SBC %", optional: true },
+    { key: "intangibleAmortizationPercent", label: "Intangible Amort. %", optional: true },
+    { key: "restructuringPercent", label: "Restructuring %", optional: false },
+  ];
+
+  // Blank cash tax rate pays cash taxes at the book rate.
+  const taxFields = [
+    { key: "cashTaxRate", label: "Cash Tax Rate %", optional: true },
+    { key: "nolAnnualLimit", label: "NOL Annual Limit %", optional: false },
+  ];
+
+  const getAddBackValue = (key: string, optional: boolean): string => {
+    const raw = key in editedAssumptions ? editedAssumptions[key] : (baseAssumptions as any)?.[key];
+    if (raw === null || raw === undefined || raw === "") return optional ? "" : "0.0";
+    return (parseFloat(raw) * 100).toFixed(1);
+  };
+
   const rows: Array<{
     label: string; key: keyof IncomeStatementLine;
     percentKey?: keyof IncomeStatementLine; isBold?: boolean; isSubtotal?: boolean;
@@ -159,11 +203,21 @@ export default function IncomeStatement() {
     { label: "Total Expenses", key: "totalExpenses", isBold: true, isSubtotal: true },
     { label: "Operating Income", key: "operatingIncome", isBold: true },
     { label: "EBITDA", key: "ebitda", isBold: true },
+    { label: "Interest Expense", key: "interestExpense" },
     { label: "Other Income", key: "otherIncome" },
     { label: "Pre-Tax Income", key: "preTaxIncome", isBold: true },
     { label: "Income Tax", key: "incomeTax", percentKey: "taxRate" },
     { label: "Net Income", key: "netIncome", isBold: true, isSubtotal: true },
     { label: "EPS", key: "eps" },
+  ];
+
+  // GAAP to non-GAAP: the add-backs are already inside the expense lines above.
+  const nonGaapRows: typeof rows = [
+    { label: "Stock-Based Compensation", key: "stockCompensation" },
+    { label: "Amortization of Acquired Intangibles", key: "intangibleAmortization" },
+    { label: "Restructuring", key: "restructuring" },
+    { label: "Tax Effect of Adjustments", key: "nonGaapTaxEffect" },
+    { label: "Non-GAAP Net Income", key: "nonGaapNetIncome", isBold: true, isSubtotal: true },
     { label: "Non-GAAP EPS", key: "nonGaapEps" },
   ];
 
@@ -192,6 +246,31 @@ export default function IncomeStatement() {
   const latestData = annualData[annualData.length - 1];
   const latestRevenueGrowth = annualData.length >= 2 ? calcYoY(annualData, annualData.length - 1, "revenue") : null;
 
+  const renderRow = (row: (typeof rows)[number]) => (
+    <TableRow key={row.label} className={row.isSubtotal ? "border-t-2" : ""} data-testid={`row-${row.key}`}>
+      <TableCell className={`sticky left-0 bg-card z-10 ${row.isBold ? "font-bold" : "pl-8"}`}>{row.label}</TableCell>
+      {tableData.map(d => (
+        <TableCell key={periodKey(d)} className={`text-right ${row.isBold ? "font-bold" : ""}`}>
+          {row.key === "eps" || row.key === "nonGaapEps"
+            ? `$${((d[row.key] as number) || 0).toFixed(2)}`
+            : formatCurrency((d[row.key] as number) || 0)}
+        </TableCell>
+      ))}
+      {ttmColumn && (
+        <TableCell className={`text-right ${row.isBold ? "font-bold" : ""}`} data-testid={`cell-ttm-${row.key}`}>
+          {ttmColumn.incomeStatement[row.key] !== undefined ? formatCurrency(ttmColumn.incomeStatement[row.key]) : "--"}
+        </TableCell>
+      )}
+      <TableCell className="text-right text-muted-foreground">
+        {row.percentKey && latestData
+          ? formatPercent((latestData[row.percentKey] as number) || 0)
+          : latestData?.revenue && row.key !== "eps" && row.key !== "nonGaapEps" && row.key !== "revenue"
+            ? formatPercent(((latestData[row.key] as number) || 0) / (latestData.revenue || 1))
+            : "--"}
+      </TableCell>
+    </TableRow>
+  );
+
   return (
     <div className="p-4 space-y-4">
       <div className="flex items-center justify-between gap-2 flex-wrap">
@@ -206,6 +285,11 @@ export default function IncomeStatement() {
         </div>
         <div className="flex items-center gap-2 flex-wrap">
           <Badge variant="outline" data-testid="badge-model-name">{model.name}</Badge>
+          <ExportButton url={`/api/models/${model.id}/export/income-statement`} />
+          <IntegrityBadge modelId={model.id} statement="income-statement" />
+          <Button variant="outline" onClick={() => setShowCalibration(true)} data-testid="button-calibrate-assumptions">
+            <SlidersHorizontal className="h-4 w-4 mr-1" /> Calibrate
+          </Button>
           <Button variant="outline" onClick={() => setShowEdgarModal(true)} data-testid="button-import-edgar">
             <Globe className="h-4 w-4 mr-1" /> SEC Filing
           </Button>
@@ -251,7 +335,7 @@ export default function IncomeStatement() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
               {assumptionFields.map(f => (
                 <div key={f.key}>
                   <label className="text-xs text-muted-foreground">{f.label}</label>
@@ -268,8 +352,70 @@ export default function IncomeStatement() {
                 </div>
               ))}
             </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3 mt-3">
+              {addBackFields.map(f => (
+                <div key={f.key}>
+                  <label className="text-xs text-muted-foreground">{f.label}</label>
+                  <Input
+                    type="text"
+                    value={getAddBackValue(f.key, f.optional)}
+                    placeholder={f.optional ? "Latest actual" : undefined}
+                    onChange={(e) => {
+                      const raw = e.target.value.trim();
+                      const v = parseFloat(raw) / 100;
+                      if (raw === "" && f.optional) setEditedAssumptions(prev => ({ ...prev, [f.key]: null }));
+                      else if (!isNaN(v) && v >= 0) setEditedAssumptions(prev => ({ ...prev, [f.key]: v.toString() }));
+                    }}
+                    className="h-8 text-sm"
+                    data-testid={`input-assumption-${f.key}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3 mt-3">
+              {taxFields.map(f => (
+                <div key={f.key}>
+                  <label className="text-xs text-muted-foreground">{f.label}</label>
+                  <Input
+                    type="text"
+                    value={getAddBackValue(f.key, f.optional)}
+                    placeholder={f.optional ? "Book rate" : undefined}
+                    onChange={(e) => {
+                      const raw = e.target.value.trim();
+                      const v = parseFloat(raw) / 100;
+                      if (raw === "" && f.optional) setEditedAssumptions(prev => ({ ...prev, [f.key]: null }));
+                      else if (!isNaN(v) && v >= 0 && v <= 1) setEditedAssumptions(prev => ({ ...prev, [f.key]: v.toString() }));
+                    }}
+                    className="h-8 text-sm"
+                    data-testid={`input-assumption-${f.key}`}
+                  />
+                </div>
+              ))}
+              <div>
+                <label className="text-xs text-muted-foreground">Opening NOL ($)</label>
+                <Input
+                  type="text"
+                  value={"openingNol" in editedAssumptions ? editedAssumptions.openingNol ?? "" : baseAssumptions?.openingNol ?? ""}
+                  placeholder="Latest reported"
+                  onChange={(e) => {
+                    const raw = e.target.value.trim();
+                    const v = parseFloat(raw);
+                    if (raw === "") setEditedAssumptions(prev => ({ ...prev, openingNol: null }));
+                    else if (!isNaN(v) && v >= 0) setEditedAssumptions(prev => ({ ...prev, openingNol: v.toString() }));
+                  }}
+                  className="h-8 text-sm"
+                  data-testid="input-assumption-openingNol"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Net operating loss carryforwards offset up to the annual limit of each year's pre-tax income, for both book and cash taxes. The gap between book and cash taxes builds the deferred tax liability and is added back in operating cash flow.
+            </p>
+            <p className="text-xs text-muted-foreground mt-2">
+              SBC, acquired-intangible amortization and restructuring are included in the cost lines above; they are added back, net of tax, for non-GAAP EPS, and SBC is a non-cash add-back in operating cash flow.
+            </p>
             <p className="text-xs text-muted-foreground mt-2">
-              Changes cascade: Revenue x Assumptions = P&L, which feeds Balance Sheet, Cash Flow, DCF, and Valuation.
+              Changes cascade: Revenue x Assumptions = P&L, which feeds Balance Sheet, Cash Flow, DCF, and Valuation. Depreciation comes from the PP&E roll-forward on the Balance Sheet page.
             </p>
           </CardContent>
         </Card>
@@ -326,34 +472,37 @@ export default function IncomeStatement() {
         <TabsContent value="table">
           <Card>
             <CardContent className="pt-6 overflow-x-auto">
+              <div className="flex justify-end mb-3">
+                <PeriodToggle model={model} value={period} onChange={setPeriod} />
+              </div>
+              {tableData.length === 0 && (
+                <p className="text-sm text-muted-foreground mb-3" data-testid="text-no-quarters">
+                  No quarterly figures yet. Turn on quarterly projections or import a 10-Q filing.
+                </p>
+              )}
               <Table data-testid="table-income-statement">
                 <TableHeader>
                   <TableRow>
                     <TableHead className="sticky left-0 bg-card z-10 min-w-[180px]">Line Item</TableHead>
-                    {annualData.map(d => <TableHead key={d.year} className="text-right">{d.year}</TableHead>)}
+                    {tableData.map(d => <TableHead key={periodKey(d)} className="text-right">{periodLabel(d)}</TableHead>)}
+                    {ttmColumn && (
+                      <TableHead className="text-right" data-testid="header-ttm">
+                        <span className="flex items-center justify-end gap-1">
+                          TTM {ttmColumn.asOfYear} Q{ttmColumn.asOfQuarter}
+                          <InfoTooltip content="Trailing twelve months: the sum of the four latest consecutive reported quarters." />
+                        </span>
+                      </TableHead>
+                    )}
                     <TableHead className="text-right">% of Rev</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {rows.map(row => (
-                    <TableRow key={row.label} className={row.isSubtotal ? "border-t-2" : ""} data-testid={`row-${row.key}`}>
-                      <TableCell className={`sticky left-0 bg-card z-10 ${row.isBold ? "font-bold" : "pl-8"}`}>{row.label}</TableCell>
-                      {annualData.map(d => (
-                        <TableCell key={d.year} className={`text-right ${row.isBold ? "font-bold" : ""}`}>
-                          {row.key === "eps" || row.key === "nonGaapEps"
-                            ? `$${((d[row.key] as number) || 0).toFixed(2)}`
-                            : formatCurrency((d[row.key] as number) || 0)}
-                        </TableCell>
-                      ))}
-                      <TableCell className="text-right text-muted-foreground">
-                        {row.percentKey && latestData
-                          ? formatPercent((latestData[row.percentKey] as number) || 0)
-                          : latestData?.revenue && row.key !== "eps" && row.key !== "nonGaapEps" && row.key !== "revenue"
-                            ? formatPercent(((latestData[row.key] as number) || 0) / (latestData.revenue || 1))
-                            : "--"}
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                  {rows.map(renderRow)}
+                  <TableRow className="bg-muted/50">
+                    <TableCell colSpan={tableData.length + (ttmColumn ? 3 : 2)} className="font-bold text-sm sticky left-0 bg-muted/50 z-10">NON-GAAP RECONCILIATION</TableCell>
+                  </TableRow>
+                  {nonGaapRows.map(renderRow)}
+                  <CustomLineRows periods={tableData} trailingCells={ttmColumn ? 2 : 1} />
                 </TableBody>
               </Table>
             </CardContent>
@@ -413,6 +562,7 @@ export default function IncomeStatement() {
         years={allYears}
         onImport={handleEdgarImport}
       />
+      <CalibrateAssumptionsDialog open={showCalibration} onOpenChange={setShowCalibration} modelId={model.id} />
     </div>
   );
 }
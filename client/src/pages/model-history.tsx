@@ -0,0 +1,338 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useModel } from "@/lib/model-context";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { formatCurrency, formatPercent } from "@/lib/calculations";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { InfoTooltip } from "@/components/info-tooltip";
+import { Camera, RotateCcw, Trash2, ArrowRight } from "lucide-react";
+
+interface SnapshotSummary {
+  id: string;
+  name: string;
+  createdAt: string | null;
+  targetPrice: number;
+  weightedTarget: number;
+  wacc: number;
+  lastRevenue: number;
+}
+
+interface YearChange {
+  year: number;
+  from: number | null;
+  to: number | null;
+  change: number | null;
+}
+
+interface MetricChange {
+  key: string;
+  label: string;
+  format: "currency" | "percent" | "price";
+  from: number;
+  to: number;
+  change: number;
+}
+
+interface SnapshotDiff {
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  revenue: YearChange[];
+  grossMargin: YearChange[];
+  operatingMargin: YearChange[];
+  netMargin: YearChange[];
+  freeCashFlow: YearChange[];
+  metrics: MetricChange[];
+}
+
+function formatValue(val: number | null, format: MetricChange["format"]): string {
+  if (val === null) return "--";
+  if (format === "percent") return formatPercent(val);
+  if (format === "price") return `$${val.toFixed(2)}`;
+  return formatCurrency(val);
+}
+
+function formatChange(val: number | null, format: MetricChange["format"]): string {
+  if (val === null) return "--";
+  const sign = val > 0 ? "+" : val < 0 ? "-" : "";
+  if (format === "percent") return `${sign}${(Math.abs(val) * 100).toFixed(1)} pp`;
+  return `${sign}${formatValue(Math.abs(val), format)}`;
+}
+
+function changeClass(val: number | null): string {
+  if (val === null || val === 0) return "text-muted-foreground";
+  return val > 0 ? "text-green-500" : "text-red-500";
+}
+
+function formatDate(val: string | null): string {
+  return val ? new Date(val).toLocaleString() : "--";
+}
+
+export default function ModelHistoryPage() {
+  const { toast } = useToast();
+  const { selectedModel: model, isLoading } = useModel();
+  const [snapshotName, setSnapshotName] = useState("");
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+  const [restoreTarget, setRestoreTarget] = useState<SnapshotSummary | null>(null);
+
+  const { data: snapshots = [] } = useQuery<SnapshotSummary[]>({
+    queryKey: ["/api/models", model?.id, "snapshots"],
+    enabled: !!model,
+  });
+
+  useEffect(() => {
+    setFromId(snapshots[1]?.id || "");
+    setToId(snapshots[0]?.id || "");
+  }, [snapshots]);
+
+  const { data: diff } = useQuery<SnapshotDiff>({
+    queryKey: [`/api/models/${model?.id}/snapshots/diff?from=${fromId}&to=${toId}`],
+    enabled: !!model && !!fromId && !!toId && fromId !== toId,
+  });
+
+  const snapshotMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/models/${model!.id}/snapshots`, { name: snapshotName });
+      return res.json();
+    },
+    onSuccess: (data: SnapshotSummary) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "snapshots"] });
+      setSnapshotName("");
+      toast({ title: "Snapshot saved", description: `${data.name} captured at $${data.targetPrice.toFixed(2)} target.` });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/models/${model!.id}/snapshots/${id}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+      setRestoreTarget(null);
+      toast({ title: "Snapshot restored", description: "Model inputs were replaced and all statements recalculated." });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Restore failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/models/${model!.id}/snapshots/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models", model!.id, "snapshots"] });
+      toast({ title: "Snapshot deleted" });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) return <div className="p-4 text-muted-foreground">Loading...</div>;
+  if (!model) return <div className="p-4 text-muted-foreground">Select a company from the sidebar to begin.</div>;
+
+  const yearRows: Array<{ label: string; rows: YearChange[]; format: MetricChange["format"] }> = diff ? [
+    { label: "Revenue", rows: diff.revenue, format: "currency" },
+    { label: "Gross Margin", rows: diff.grossMargin, format: "percent" },
+    { label: "Operating Margin", rows: diff.operatingMargin, format: "percent" },
+    { label: "Net Margin", rows: diff.netMargin, format: "percent" },
+    { label: "Free Cash Flow", rows: diff.freeCashFlow, format: "currency" },
+  ] : [];
+  const diffYears = diff?.revenue.map(r => r.year) || [];
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">Model History</h1>
+          <p className="text-sm text-muted-foreground">Snapshots of the computed model and how the thesis evolved</p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <Badge variant="outline" data-testid="badge-model-name">{model.name}</Badge>
+          <Input
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            placeholder="e.g. Q3 IC meeting"
+            className="w-48"
+            data-testid="input-snapshot-name"
+          />
+          <Button onClick={() => snapshotMutation.mutate()} disabled={snapshotMutation.isPending} data-testid="button-save-snapshot">
+            <Camera className="h-4 w-4 mr-1" />
+            {snapshotMutation.isPending ? "Saving..." : "Save Snapshot"}
+          </Button>
+        </div>
+      </div>
+
+      <Card data-testid="card-snapshots">
+        <CardHeader>
+          <CardTitle className="text-sm font-medium flex items-center gap-1">Snapshots <InfoTooltip content="Each snapshot stores the full recalculated model plus its inputs. Restoring replaces the current revenue, statements, assumptions, scenarios and DCF inputs with the snapshot's." /></CardTitle>
+        </CardHeader>
+        <CardContent>
+          {snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No snapshots yet. Save one to start tracking how this model changes.</p>
+          ) : (
+            <Table data-testid="table-snapshots">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead className="text-right">Final-Year Revenue</TableHead>
+                  <TableHead className="text-right">WACC</TableHead>
+                  <TableHead className="text-right">DCF Target</TableHead>
+                  <TableHead className="text-right">Weighted Target</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {snapshots.map(s => (
+                  <TableRow key={s.id} data-testid={`row-snapshot-${s.id}`}>
+                    <TableCell className="font-medium">{s.name}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{formatDate(s.createdAt)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(s.lastRevenue)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(s.wacc)}</TableCell>
+                    <TableCell className="text-right">${s.targetPrice.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${s.weightedTarget.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-1">
+                        <Button variant="outline" size="sm" onClick={() => setRestoreTarget(s)} data-testid={`button-restore-${s.id}`}>
+                          <RotateCcw className="h-3.5 w-3.5 mr-1" /> Restore
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Delete snapshot"
+                          onClick={() => deleteMutation.mutate(s.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-snapshot-${s.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {snapshots.length >= 2 && (
+        <Card data-testid="card-snapshot-diff">
+          <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 flex-wrap">
+            <CardTitle className="text-sm font-medium">Compare Snapshots</CardTitle>
+            <div className="flex items-center gap-2">
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger className="w-48" data-testid="select-diff-from"><SelectValue placeholder="From" /></SelectTrigger>
+                <SelectContent>
+                  {snapshots.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="w-48" data-testid="select-diff-to"><SelectValue placeholder="To" /></SelectTrigger>
+                <SelectContent>
+                  {snapshots.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {fromId === toId ? (
+              <p className="text-sm text-muted-foreground">Pick two different snapshots to compare.</p>
+            ) : diff && (
+              <>
+                <Table data-testid="table-diff-metrics">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Valuation</TableHead>
+                      <TableHead className="text-right">{diff.from.name}</TableHead>
+                      <TableHead className="text-right">{diff.to.name}</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diff.metrics.map(m => (
+                      <TableRow key={m.key} data-testid={`row-diff-${m.key}`}>
+                        <TableCell className="text-xs">{m.label}</TableCell>
+                        <TableCell className="text-right text-xs">{formatValue(m.from, m.format)}</TableCell>
+                        <TableCell className="text-right text-xs">{formatValue(m.to, m.format)}</TableCell>
+                        <TableCell className={`text-right text-xs font-medium ${changeClass(m.change)}`}>{formatChange(m.change, m.format)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <Table data-testid="table-diff-years">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>By Year</TableHead>
+                      {diffYears.map(y => <TableHead key={y} className="text-right text-xs">{y}</TableHead>)}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {yearRows.map(section => (
+                      <TableRow key={section.label}>
+                        <TableCell className="text-xs">{section.label}</TableCell>
+                        {diffYears.map(y => {
+                          const row = section.rows.find(r => r.year === y);
+                          return (
+                            <TableCell key={y} className="text-right text-xs">
+                              <div>{formatValue(row?.to ?? null, section.format)}</div>
+                              <div className={changeClass(row?.change ?? null)}>{formatChange(row?.change ?? null, section.format)}</div>
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={!!restoreTarget} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent data-testid="dialog-restore-snapshot">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Snapshot</AlertDialogTitle>
+            <AlertDialogDescription>
+              Replace the current inputs of {model.name} with "{restoreTarget?.name}"? Save a snapshot first if you want to keep the current version.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-restore">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoreTarget && restoreMutation.mutate(restoreTarget.id)}
+              disabled={restoreMutation.isPending}
+              data-testid="button-confirm-restore"
+            >
+              {restoreMutation.isPending ? "Restoring..." : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
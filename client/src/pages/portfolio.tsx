@@ -19,6 +19,7 @@ import { TrendingUp, TrendingDown, AlertTriangle, Shield, Activity, Plus, Pencil
 import { InfoTooltip } from "@/components/info-tooltip";
 import { useToast } from "@/hooks/use-toast";
 import { UpgradeGate } from "@/components/upgrade-gate";
+import { ExportButton } from "@/components/export-button";
 
 const COLORS = ["hsl(var(--chart-1))", "hsl(var(--chart-2))", "hsl(var(--chart-3))", "hsl(var(--chart-4))", "hsl(var(--chart-5))", "#f97316", "#06b6d4", "#8b5cf6"];
 
@@ -387,6 +388,7 @@ export default function Portfolio() {
             )}
             {refreshMutation.isPending ? "Refreshing..." : "Refresh Prices"}
           </Button>
+          <ExportButton url="/api/portfolio/export" />
           <UpgradeGate resource="portfolio_position">
             <Button onClick={openCreate} data-testid="button-add-position">
               <Plus className="h-4 w-4 mr-1" />
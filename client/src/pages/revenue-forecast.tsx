@@ -14,9 +14,12 @@ import { useToast } from "@/hooks/use-toast";
 import type { RevenueLineItem, RevenuePeriod } from "@shared/schema";
 import { BarChart, Bar, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
 import { Label } from "@/components/ui/label";
-import { TrendingUp, TrendingDown, DollarSign, Save, RefreshCw, ArrowRight, Plus, Trash2, Pencil, Sparkles, Settings2, ChevronDown, ChevronUp, AlertTriangle, Rocket, TrendingUp as InvestIcon, FileText } from "lucide-react";
+import { TrendingUp, TrendingDown, DollarSign, Save, RefreshCw, ArrowRight, Plus, Trash2, Pencil, Sparkles, Settings2, ChevronDown, ChevronUp, AlertTriangle, Rocket, TrendingUp as InvestIcon, FileText, Crosshair } from "lucide-react";
 import { InfoTooltip } from "@/components/info-tooltip";
 import { ImportSecModal } from "@/components/import-sec-modal";
+import { CalibrateAssumptionsDialog } from "@/components/calibrate-assumptions-dialog";
+import { GoalSeekDialog } from "@/components/goal-seek-dialog";
+import { ExportButton } from "@/components/export-button";
 
 const COLORS = ["hsl(var(--chart-1))", "hsl(var(--chart-2))", "hsl(var(--chart-3))", "hsl(var(--chart-4))", "hsl(var(--chart-5))"];
 
@@ -85,6 +88,8 @@ export default function RevenueForecast() {
   const [pendingAnnualEdits, setPendingAnnualEdits] = useState<Record<string, number>>({});
   const [showProjectionSettings, setShowProjectionSettings] = useState(false);
   const [showSecImport, setShowSecImport] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showGoalSeek, setShowGoalSeek] = useState(false);
   const [projectionSettings, setProjectionSettings] = useState<{
     growthDecayRate: number;
     targetNetMargin: number | null;
@@ -675,6 +680,7 @@ export default function RevenueForecast() {
             </Button>
           )}
           <Badge variant="outline" data-testid="badge-model-name">{model.name}</Badge>
+          <ExportButton url={`/api/models/${model.id}/export/revenue`} />
           {editMode ? (
             <>
               <Button
@@ -715,6 +721,9 @@ export default function RevenueForecast() {
                   </Button>
                 </>
               )}
+              <Button variant="outline" onClick={() => setShowGoalSeek(true)} data-testid="button-goal-seek">
+                <Crosshair className="h-4 w-4 mr-1" /> Goal Seek
+              </Button>
               <Button variant="outline" onClick={() => setEditMode(true)} data-testid="button-edit-revenue">
                 <Pencil className="h-4 w-4 mr-1" /> Edit Revenue
               </Button>
@@ -1443,7 +1452,10 @@ export default function RevenueForecast() {
         modelId={model.id}
         modelTicker={model.ticker}
         modelName={model.name}
+        onCalibrate={() => setShowCalibration(true)}
       />
+      <CalibrateAssumptionsDialog open={showCalibration} onOpenChange={setShowCalibration} modelId={model.id} />
+      <GoalSeekDialog open={showGoalSeek} onOpenChange={setShowGoalSeek} modelId={model.id} years={years} />
     </div>
   );
 }
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useModel } from "@/lib/model-context";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,6 +11,8 @@ import { TrendingUp, TrendingDown, Target, ArrowDown, AlertTriangle, Globe } fro
 import { InfoTooltip } from "@/components/info-tooltip";
 import { UpgradeGate } from "@/components/upgrade-gate";
 import { useSubscription } from "@/hooks/use-subscription";
+import { ExportButton } from "@/components/export-button";
+import { ScenarioComparison, BASE_SCENARIO_ID } from "@/components/scenario-comparison";
 
 interface YahooFundamentals {
   currentPrice: number;
@@ -31,6 +34,7 @@ interface YahooFundamentals {
 export default function ValuationComparisonPage() {
   const { selectedModel: model, isLoading } = useModel();
   const { data: sub } = useSubscription();
+  const [scenarioId, setScenarioId] = useState(BASE_SCENARIO_ID);
 
   const { data: valData } = useQuery<ValuationComparison>({
     queryKey: ["/api/models", model?.id, "valuation-comparison"],
@@ -51,6 +55,7 @@ export default function ValuationComparisonPage() {
   const val = valData;
   const currentPrice = val?.currentSharePrice || 0;
   const averageTarget = val?.averageTarget || 0;
+  const weightedTarget = val?.weightedTarget || 0;
   const percentToTarget = val?.percentToTarget || (currentPrice > 0 ? (averageTarget - currentPrice) / currentPrice : 0);
 
   const methods = val ? [
@@ -73,10 +78,11 @@ export default function ValuationComparisonPage() {
       bearTarget: val.peBearTarget || 0,
     },
     {
+      // DCF cases are the scenarios' own runs, not multiples of the base.
       name: "DCF",
-      bullMultiple: `${(model.scenarioBullMultiplier ?? 1.2).toFixed(1)}x`,
-      baseMultiple: `${(model.scenarioBaseMultiplier ?? 1.0).toFixed(1)}x`,
-      bearMultiple: `${(model.scenarioBearMultiplier ?? 0.8).toFixed(1)}x`,
+      bullMultiple: "--",
+      baseMultiple: "--",
+      bearMultiple: "--",
       bullTarget: val.dcfBullTarget || 0,
       baseTarget: val.dcfBaseTarget || 0,
       bearTarget: val.dcfBearTarget || 0,
@@ -110,6 +116,7 @@ export default function ValuationComparisonPage() {
         </div>
         <div className="flex items-center gap-2 flex-wrap">
           <Badge variant="outline" data-testid="badge-model-name">{model.name}</Badge>
+          <ExportButton url={`/api/models/${model.id}/export/valuation`} />
           <Badge variant={percentToTarget >= 0 ? "default" : "destructive"} data-testid="badge-percent-to-target">
             {percentToTarget >= 0 ? (
               <span className="flex items-center gap-1"><TrendingUp className="h-3 w-3" /> {formatPercent(percentToTarget)} to Target</span>
@@ -162,7 +169,7 @@ export default function ValuationComparisonPage() {
         </Card>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
         <Card data-testid="card-current-price">
           <CardHeader className="flex flex-row items-center justify-between gap-1 space-y-0 pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-1">Current Price <InfoTooltip content="Current market share price used as the anchor for all valuation method comparisons." /></CardTitle>
@@ -180,6 +187,14 @@ export default function ValuationComparisonPage() {
             <div className="text-2xl font-bold" data-testid="text-average-target">${averageTarget.toFixed(2)}</div>
           </CardContent>
         </Card>
+        <Card data-testid="card-weighted-target">
+          <CardHeader className="flex flex-row items-center justify-between gap-1 space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-1">Probability-Weighted DCF <InfoTooltip content="DCF target prices of the base case and each scenario, weighted by the scenario weights you assign below." /></CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-weighted-target">${weightedTarget.toFixed(2)}</div>
+          </CardContent>
+        </Card>
         <Card data-testid="card-upside">
           <CardHeader className="flex flex-row items-center justify-between gap-1 space-y-0 pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-1">% to Target <InfoTooltip content="Percentage difference between the current price and the average target. Positive means potential upside; negative means the stock may be overvalued." /></CardTitle>
@@ -263,6 +278,8 @@ export default function ValuationComparisonPage() {
         ))}
       </div>
 
+      <ScenarioComparison model={model} currentPrice={currentPrice} selectedId={scenarioId} onSelect={setScenarioId} />
+
       {val?.valuationData && (val.valuationData as any)?.scenarioRevenues && (
         <Card data-testid="card-scenario-revenues">
           <CardHeader>
@@ -0,0 +1,220 @@
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`  FAIL: ${message}`);
+    process.exitCode = 1;
+  } else {
+    console.log(`  PASS: ${message}`);
+  }
+}
+
+console.log("\n=== Tenant Authorization Integration Suite ===\n");
+
+if (!process.env.DATABASE_URL) {
+  console.log("  SKIP: DATABASE_URL is not set; this suite needs a database with the current schema pushed.");
+  process.exit(0);
+}
+
+const { storage } = await import("./storage");
+const { registerRoutes } = await import("./routes");
+
+const suffix = Date.now().toString(36);
+const USER_A = `authz-test-a-${suffix}`;
+const USER_B = `authz-test-b-${suffix}`;
+
+// Stands in for the session login: the x-test-user header becomes the authenticated user.
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  const sub = req.header("x-test-user");
+  (req as any).user = sub ? { claims: { sub }, expires_at: Math.floor(Date.now() / 1000) + 3600 } : undefined;
+  (req as any).isAuthenticated = () => !!sub;
+  next();
+});
+const server: Server = createServer(app);
+await registerRoutes(server, app);
+await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+async function call(user: string | null, method: string, path: string, body?: unknown) {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (user) headers["x-test-user"] = user;
+  const res = await fetch(`${baseUrl}${path}`, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+  const text = await res.text();
+  let json: any = null;
+  try { json = JSON.parse(text); } catch {}
+  return { status: res.status, json };
+}
+
+const denied = (status: number) => status === 404 || status === 403;
+
+// User B's data, created directly through storage.
+const modelB = await storage.createModel({ name: "Tenant B Co", startYear: 2024, endYear: 2026, userId: USER_B });
+const lineItemB = await storage.createRevenueLineItem({ modelId: modelB.id, name: "Subscriptions", sortOrder: 0 });
+const periodB = await storage.createRevenuePeriod({ modelId: modelB.id, lineItemId: lineItemB.id, year: 2024, quarter: 1, amount: 1000, isActual: true });
+const scenarioB = await storage.createScenario({ modelId: modelB.id, name: "Bull", type: "bull" });
+const assumptionsB = await storage.createAssumptions({ modelId: modelB.id });
+const actualB = await storage.createActual({ modelId: modelB.id, period: "2024" });
+const reportB = await storage.createReport({ modelId: modelB.id, name: "IC memo" });
+const positionB = await storage.createPortfolioPosition({ ticker: "BBB", companyName: "B Holdings", userId: USER_B });
+const lotB = await storage.createPortfolioLot({ positionId: positionB.id, sharesHeld: 10, purchasePrice: 5, purchaseDate: null, notes: null });
+const projectB = await storage.createCryptoProject({ coingeckoId: "tenant-b-token", name: "B Token", symbol: "BTK", userId: USER_B });
+const scheduleB = await storage.createTokenSupplySchedule({ projectId: projectB.id, eventType: "unlock", label: "Team", amount: 100 });
+const incentiveB = await storage.createTokenIncentive({ projectId: projectB.id, role: "Staker", contribution: "Security", rewardType: "Emission", rewardSource: "Inflation" });
+const allocationB = await storage.createTokenAllocation({ projectId: projectB.id, category: "Team", percentage: 20 });
+const roundB = await storage.createFundraisingRound({ projectId: projectB.id, roundType: "Seed" });
+
+// User A owns a model of their own, used as the target of cross-tenant writes.
+const modelA = await storage.createModel({ name: "Tenant A Co", startYear: 2024, endYear: 2026, userId: USER_A });
+
+try {
+  console.log("--- Test 1: Owner can read their own data ---");
+  {
+    const own = await call(USER_B, "GET", `/api/models/${modelB.id}/revenue-periods`);
+    assert(own.status === 200 && own.json.length === 1, "B reads B's revenue periods");
+    const lots = await call(USER_B, "GET", `/api/portfolio/${positionB.id}/lots`);
+    assert(lots.status === 200 && lots.json.length === 1, "B reads B's portfolio lots");
+  }
+
+  console.log("\n--- Test 2: Unauthenticated requests are rejected ---");
+  {
+    const res = await call(null, "GET", `/api/models/${modelB.id}/revenue-periods`);
+    assert(res.status === 401, `anonymous read returns 401 (got ${res.status})`);
+  }
+
+  console.log("\n--- Test 3: A cannot read B's model children ---");
+  for (const section of ["revenue-line-items", "revenue-periods", "income-statement", "balance-sheet", "cash-flow", "dcf", "valuation-comparison", "scenarios", "assumptions", "actuals", "reports", "snapshots"]) {
+    const res = await call(USER_A, "GET", `/api/models/${modelB.id}/${section}`);
+    assert(denied(res.status), `GET /api/models/:B/${section} denied (got ${res.status})`);
+  }
+
+  console.log("\n--- Test 4: A cannot mutate B's model children by id ---");
+  {
+    const checks: Array<[string, string, unknown]> = [
+      ["PATCH", `/api/revenue-line-items/${lineItemB.id}`, { name: "Hijacked" }],
+      ["PATCH", `/api/revenue-periods/${periodB.id}`, { amount: 0 }],
+      ["PATCH", `/api/scenarios/${scenarioB.id}`, { name: "Hijacked" }],
+      ["PATCH", `/api/scenarios/${scenarioB.id}/assumptions`, { revenueGrowthRate: "0.99" }],
+      ["PATCH", `/api/assumptions/${assumptionsB.id}`, { revenueGrowthRate: "0.99" }],
+      ["PATCH", `/api/models/${modelB.id}/assumptions`, { revenueGrowthRate: "0.99" }],
+      ["PATCH", `/api/models/${modelB.id}/income-statement/2024`, { revenue: 1 }],
+      ["POST", `/api/models/${modelB.id}/recalculate`, undefined],
+      ["DELETE", `/api/models/${modelB.id}/income-statement`, undefined],
+      ["DELETE", `/api/actuals/${actualB.id}`, undefined],
+      ["DELETE", `/api/reports/${reportB.id}`, undefined],
+      ["DELETE", `/api/scenarios/${scenarioB.id}`, undefined],
+      ["DELETE", `/api/revenue-line-items/${lineItemB.id}`, undefined],
+    ];
+    for (const [method, path, body] of checks) {
+      const res = await call(USER_A, method, path, body);
+      assert(denied(res.status), `${method} ${path.replace(/[0-9a-f-]{36}/g, ":id")} denied (got ${res.status})`);
+    }
+
+    const periods = await storage.getRevenuePeriods(modelB.id);
+    assert(periods.length === 1 && periods[0].amount === 1000, "B's revenue period is unchanged");
+    const items = await storage.getRevenueLineItems(modelB.id);
+    assert(items.length === 1 && items[0].name === "Subscriptions", "B's line item is unchanged");
+    const scenario = await storage.getScenario(scenarioB.id);
+    assert(scenario?.name === "Bull", "B's scenario is unchanged");
+    const reportList = await storage.getReports(modelB.id);
+    assert(reportList.length === 1, "B's report still exists");
+    const actualList = await storage.getActuals(modelB.id);
+    assert(actualList.length === 1, "B's actual still exists");
+  }
+
+  console.log("\n--- Test 5: A cannot write into B's model via the request body ---");
+  {
+    const checks: Array<[string, unknown]> = [
+      ["/api/revenue-line-items", { modelId: modelB.id, name: "Injected" }],
+      ["/api/revenue-periods", { modelId: modelB.id, lineItemId: lineItemB.id, year: 2025, quarter: 1, amount: 5 }],
+      ["/api/revenue-periods/bulk", [{ modelId: modelA.id, lineItemId: lineItemB.id, year: 2025, amount: 1 }, { modelId: modelB.id, lineItemId: lineItemB.id, year: 2025, amount: 5 }]],
+      ["/api/income-statement", { modelId: modelB.id, year: 2025, revenue: 5 }],
+      ["/api/balance-sheet/bulk", [{ modelId: modelB.id, year: 2025, cash: 5 }]],
+      ["/api/cash-flow", { modelId: modelB.id, year: 2025, netIncome: 5 }],
+      ["/api/dcf", { modelId: modelB.id }],
+      ["/api/scenarios", { modelId: modelB.id, name: "Injected" }],
+      ["/api/assumptions", { modelId: modelB.id }],
+      ["/api/actuals", { modelId: modelB.id, period: "2025" }],
+      ["/api/reports", { modelId: modelB.id, name: "Injected" }],
+    ];
+    for (const [path, body] of checks) {
+      const res = await call(USER_A, "POST", path, body);
+      assert(denied(res.status), `POST ${path} with B's modelId denied (got ${res.status})`);
+    }
+    const items = await storage.getRevenueLineItems(modelB.id);
+    assert(items.length === 1, "no line item was added to B's model");
+    const isLines = await storage.getIncomeStatementLines(modelB.id);
+    assert(isLines.length === 0, "no income statement line was added to B's model");
+  }
+
+  console.log("\n--- Test 6: Updates cannot re-parent A's rows into B's model ---");
+  {
+    const created = await call(USER_A, "POST", "/api/revenue-line-items", { modelId: modelA.id, name: "Own item" });
+    assert(created.status === 200, "A creates a line item in A's model");
+    await call(USER_A, "PATCH", `/api/revenue-line-items/${created.json.id}`, { modelId: modelB.id });
+    const items = await storage.getRevenueLineItems(modelB.id);
+    assert(items.length === 1, "PATCH with B's modelId does not move the row into B's model");
+  }
+
+  console.log("\n--- Test 7: Portfolio lots are scoped to their owner ---");
+  {
+    const all = await call(USER_A, "GET", "/api/portfolio/lots");
+    assert(all.status === 200 && !all.json.some((l: any) => l.id === lotB.id), "GET /api/portfolio/lots excludes B's lots");
+    const list = await call(USER_A, "GET", `/api/portfolio/${positionB.id}/lots`);
+    assert(denied(list.status), `A cannot list B's position lots (got ${list.status})`);
+    const add = await call(USER_A, "POST", `/api/portfolio/${positionB.id}/lots`, { sharesHeld: 1, purchasePrice: 1 });
+    assert(denied(add.status), `A cannot add a lot to B's position (got ${add.status})`);
+    const patch = await call(USER_A, "PATCH", `/api/portfolio/lots/${lotB.id}`, { sharesHeld: 0 });
+    assert(denied(patch.status), `A cannot edit B's lot (got ${patch.status})`);
+    const del = await call(USER_A, "DELETE", `/api/portfolio/lots/${lotB.id}`);
+    assert(denied(del.status), `A cannot delete B's lot (got ${del.status})`);
+    const lots = await storage.getPortfolioLots(positionB.id);
+    assert(lots.length === 1 && lots[0].sharesHeld === 10, "B's lot is unchanged");
+  }
+
+  console.log("\n--- Test 8: A cannot touch B's crypto project children ---");
+  {
+    const checks: Array<[string, string, unknown]> = [
+      ["GET", `/api/crypto/projects/${projectB.id}/supply-schedules`, undefined],
+      ["GET", `/api/crypto/projects/${projectB.id}/incentives`, undefined],
+      ["GET", `/api/crypto/projects/${projectB.id}/protocol-metrics`, undefined],
+      ["GET", `/api/crypto/projects/${projectB.id}/allocations`, undefined],
+      ["POST", "/api/crypto/supply-schedules", { projectId: projectB.id, eventType: "unlock", label: "Injected" }],
+      ["POST", "/api/crypto/incentives", { projectId: projectB.id, role: "x", contribution: "x", rewardType: "x", rewardSource: "x" }],
+      ["PATCH", `/api/crypto/supply-schedules/${scheduleB.id}`, { amount: 0 }],
+      ["PATCH", `/api/crypto/incentives/${incentiveB.id}`, { role: "Hijacked" }],
+      ["PATCH", `/api/crypto/allocations/${allocationB.id}`, { percentage: 99 }],
+      ["PATCH", `/api/crypto/fundraising/${roundB.id}`, { roundType: "Hijacked" }],
+      ["DELETE", `/api/crypto/supply-schedules/${scheduleB.id}`, undefined],
+      ["DELETE", `/api/crypto/incentives/${incentiveB.id}`, undefined],
+      ["DELETE", `/api/crypto/allocations/${allocationB.id}`, undefined],
+      ["DELETE", `/api/crypto/fundraising/${roundB.id}`, undefined],
+    ];
+    for (const [method, path, body] of checks) {
+      const res = await call(USER_A, method, path, body);
+      assert(denied(res.status), `${method} ${path.replace(/[0-9a-f-]{36}/g, ":id")} denied (got ${res.status})`);
+    }
+    const [schedules, incentives, allocations, rounds] = await Promise.all([
+      storage.getTokenSupplySchedules(projectB.id),
+      storage.getTokenIncentives(projectB.id),
+      storage.getTokenAllocations(projectB.id),
+      storage.getFundraisingRounds(projectB.id),
+    ]);
+    assert(schedules.length === 1 && schedules[0].amount === 100, "B's supply schedule is unchanged");
+    assert(incentives.length === 1 && incentives[0].role === "Staker", "B's incentive is unchanged");
+    assert(allocations.length === 1 && allocations[0].percentage === 20, "B's allocation is unchanged");
+    assert(rounds.length === 1 && rounds[0].roundType === "Seed", "B's fundraising round is unchanged");
+  }
+} finally {
+  await storage.deleteModel(modelA.id, USER_A);
+  await storage.deleteModel(modelB.id, USER_B);
+  await storage.deletePortfolioPosition(positionB.id, USER_B);
+  await storage.deleteCryptoProject(projectB.id, USER_B);
+  await new Promise<void>(resolve => server.close(() => resolve()));
+}
+
+console.log("\n=== Done ===\n");
+process.exit();
@@ -0,0 +1,79 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage, type OwnedResource } from "./storage";
+
+const RESOURCE_LABELS: Record<OwnedResource, string> = {
+  model: "Model",
+  revenueLineItem: "Revenue line item",
+  revenuePeriod: "Revenue period",
+  scenario: "Scenario",
+  assumptions: "Assumptions",
+  actual: "Actual",
+  report: "Report",
+  debtTranche: "Debt tranche",
+  portfolioPosition: "Position",
+  portfolioLot: "Lot",
+  cryptoProject: "Project",
+  supplySchedule: "Supply schedule",
+  incentive: "Incentive",
+  allocation: "Allocation",
+  fundraisingRound: "Fundraising round",
+};
+
+function currentUserId(req: Request): string | undefined {
+  return (req as any).user?.claims?.sub;
+}
+
+async function ownsResource(userId: string, resource: OwnedResource, id: unknown): Promise<boolean> {
+  if (typeof id !== "string" || !id) return false;
+  const owner = await storage.getResourceOwner(resource, id);
+  return owner === userId;
+}
+
+function notFound(res: Response, resource: OwnedResource) {
+  return res.status(404).json({ message: `${RESOURCE_LABELS[resource]} not found` });
+}
+
+// Rows owned by other users answer 404, same as rows that don't exist.
+export function requireOwnership(resource: OwnedResource, param = "id") {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const userId = currentUserId(req);
+    if (!userId) return res.status(401).json({ message: "Unauthorized" });
+    if (!(await ownsResource(userId, resource, req.params[param]))) return notFound(res, resource);
+    next();
+  };
+}
+
+export function ownershipParam(resource: OwnedResource) {
+  return async (req: Request, res: Response, next: NextFunction, value: string) => {
+    const userId = currentUserId(req);
+    if (!userId) return res.status(401).json({ message: "Unauthorized" });
+    if (!(await ownsResource(userId, resource, value))) return notFound(res, resource);
+    next();
+  };
+}
+
+// For create and bulk endpoints that name the parent in the body; accepts a single object or an array.
+export function requireBodyOwnership(resource: OwnedResource, field: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const userId = currentUserId(req);
+    if (!userId) return res.status(401).json({ message: "Unauthorized" });
+    const items = Array.isArray(req.body) ? req.body : [req.body];
+    const ids = new Set<unknown>();
+    for (const item of items) {
+      if (!item || typeof item !== "object" || !item[field]) {
+        return res.status(400).json({ message: `${field} is required` });
+      }
+      ids.add(item[field]);
+    }
+    for (const id of Array.from(ids)) {
+      if (!(await ownsResource(userId, resource, id))) return notFound(res, resource);
+    }
+    next();
+  };
+}
+
+// Strips keys that would re-parent a row, so an update can't move it under another user's model or project.
+export function withoutOwnerKeys(body: Record<string, any>): Record<string, any> {
+  const { id, userId, modelId, projectId, positionId, ...rest } = body || {};
+  return rest;
+}
@@ -0,0 +1,129 @@
+import { storage } from "./storage";
+import { workingCapitalDaysOf } from "./recalculation-engine";
+import type {
+  Assumptions, IncomeStatementLine, BalanceSheetLine, CashFlowLine,
+  CalibrationMethod, CalibrationProposal, CalibrationResult,
+} from "@shared/schema";
+
+export const CALIBRATION_METHODS: CalibrationMethod[] = ["average", "median", "last"];
+export const DEFAULT_LOOKBACK_YEARS = 3;
+
+interface ActualYear {
+  year: number;
+  is?: IncomeStatementLine;
+  bs?: BalanceSheetLine;
+  priorBs?: BalanceSheetLine;
+  cf?: CashFlowLine;
+}
+
+interface RatioDef {
+  field: keyof Assumptions;
+  label: string;
+  unit: "percent" | "days";
+  // null when the year can't produce a meaningful ratio (no revenue, a pre-tax loss, ...).
+  ratio: (y: ActualYear) => number | null;
+}
+
+const workingCapitalDays = (y: ActualYear) => y.bs && y.is
+  ? workingCapitalDaysOf(y.bs, { revenue: y.is.revenue || 0, cogs: y.is.cogs || 0 })
+  : { dso: null, dio: null, dpo: null };
+
+const share = (part: number | null | undefined, whole: number | null | undefined): number | null =>
+  whole && whole > 0 ? (part || 0) / whole : null;
+
+const RATIOS: RatioDef[] = [
+  { field: "cogsPercent", label: "COGS % of revenue", unit: "percent", ratio: y => share(y.is?.cogs, y.is?.revenue) },
+  { field: "salesMarketingPercent", label: "Sales & marketing % of revenue", unit: "percent", ratio: y => share(y.is?.salesMarketing, y.is?.revenue) },
+  { field: "rdPercent", label: "R&D % of revenue", unit: "percent", ratio: y => share(y.is?.researchDevelopment, y.is?.revenue) },
+  { field: "gaPercent", label: "G&A % of revenue", unit: "percent", ratio: y => share(y.is?.generalAdmin, y.is?.revenue) },
+  { field: "sbcPercent", label: "SBC % of revenue", unit: "percent", ratio: y => share(y.is?.stockCompensation, y.is?.revenue) },
+  {
+    field: "intangibleAmortizationPercent", label: "Intangible amortization % of revenue", unit: "percent",
+    ratio: y => share(y.is?.intangibleAmortization, y.is?.revenue),
+  },
+  {
+    field: "taxRate", label: "Effective tax rate", unit: "percent",
+    ratio: y => (y.is?.preTaxIncome || 0) > 0 ? Math.min(Math.max((y.is!.incomeTax || 0) / y.is!.preTaxIncome!, 0), 1) : null,
+  },
+  // Cash flow capex is an outflow (negative); the assumption is a positive share of revenue.
+  { field: "capexPercent", label: "Capex % of revenue", unit: "percent", ratio: y => y.cf ? share(Math.abs(y.cf.capex || 0), y.is?.revenue) : null },
+  {
+    field: "depreciationRate", label: "D&A % of prior net PP&E", unit: "percent",
+    ratio: y => y.priorBs && y.is ? share(y.is.depreciation, y.priorBs.equipment) : null,
+  },
+  { field: "dsoDays", label: "Receivable days (DSO)", unit: "days", ratio: y => workingCapitalDays(y).dso },
+  { field: "dioDays", label: "Inventory days (DIO)", unit: "days", ratio: y => workingCapitalDays(y).dio },
+  { field: "dpoDays", label: "Payable days (DPO)", unit: "days", ratio: y => workingCapitalDays(y).dpo },
+];
+
+function summarize(values: number[], method: CalibrationMethod): number {
+  if (method === "last" || values.length === 1) return values[values.length - 1];
+  if (method === "average") return values.reduce((s, v) => s + v, 0) / values.length;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function rounded(value: number, unit: "percent" | "days"): number {
+  return unit === "percent" ? Math.round(value * 10000) / 10000 : Math.round(value * 10) / 10;
+}
+
+// Ratios over the latest `lookbackYears` annual actuals; each ratio uses the years it can be
+// computed for, and is left out when there are none.
+export function calibrateAssumptions(
+  isRows: IncomeStatementLine[],
+  bsRows: BalanceSheetLine[],
+  cfRows: CashFlowLine[],
+  current: Assumptions | undefined,
+  method: CalibrationMethod = "median",
+  lookbackYears = DEFAULT_LOOKBACK_YEARS,
+): CalibrationResult {
+  const annualActual = <T extends { isActual: boolean; quarter: number | null; year: number }>(rows: T[]) =>
+    rows.filter(r => r.isActual && !r.quarter);
+  const isActuals = annualActual(isRows);
+  const bsActuals = annualActual(bsRows);
+  const cfActuals = annualActual(cfRows);
+
+  const years = Array.from(new Set(isActuals.map(r => r.year))).sort((a, b) => a - b).slice(-lookbackYears);
+  const actualYears: ActualYear[] = years.map(year => ({
+    year,
+    is: isActuals.find(r => r.year === year),
+    bs: bsActuals.find(r => r.year === year),
+    priorBs: bsActuals.find(r => r.year === year - 1),
+    cf: cfActuals.find(r => r.year === year),
+  }));
+
+  const proposals: CalibrationProposal[] = [];
+  for (const def of RATIOS) {
+    const observed = actualYears
+      .map(y => ({ year: y.year, value: def.ratio(y) }))
+      .filter((o): o is { year: number; value: number } => o.value !== null && isFinite(o.value));
+    if (observed.length === 0) continue;
+    const used = method === "last" ? observed.slice(-1) : observed;
+    const currentValue = current?.[def.field];
+    proposals.push({
+      field: def.field,
+      label: def.label,
+      unit: def.unit,
+      current: currentValue === null || currentValue === undefined ? null : Number(currentValue),
+      proposed: rounded(summarize(used.map(o => o.value), method), def.unit),
+      years: used.map(o => o.year),
+    });
+  }
+
+  return { method, lookbackYears, proposals };
+}
+
+export async function calibrateModelAssumptions(
+  modelId: string,
+  method?: CalibrationMethod,
+  lookbackYears?: number,
+): Promise<CalibrationResult> {
+  const [isRows, bsRows, cfRows, assumptionRows] = await Promise.all([
+    storage.getIncomeStatementLines(modelId),
+    storage.getBalanceSheetLines(modelId),
+    storage.getCashFlowLines(modelId),
+    storage.getAssumptions(modelId),
+  ]);
+  return calibrateAssumptions(isRows, bsRows, cfRows, assumptionRows.find(a => !a.scenarioId), method, lookbackYears);
+}
@@ -1,4 +1,5 @@
 import * as cheerio from "cheerio";
+import type { RevenueSegment, UnmatchedTag } from "@shared/schema";
 
 const SEC_USER_AGENT = "Kozo Financial App admin@kozo-app.com";
 
@@ -10,6 +11,7 @@ interface ContextPeriod {
 
 interface ParsedValue {
   name: string;
+  qualifiedName: string;
   value: number;
   contextRef: string;
   unitRef: string;
@@ -25,6 +27,88 @@ export interface EdgarParsedData {
   filingDate: string;
   matchedFields: string[];
   unmatchedGaap: string[];
+  // Every unmapped monetary tag with its values, prefixed (us-gaap:, or the company's extension
+  // prefix), largest latest value first. Feeds the user's tag mappings.
+  unmatchedTags: UnmatchedTag[];
+  // Set for 10-Q filings. `data` then holds the quarter's three-month values (quarter-end
+  // balances for the balance sheet) and `ytdData` the fiscal year-to-date values, both keyed
+  // by fiscal year: the current year and the prior-year comparative.
+  fiscalQuarter: number | null;
+  ytdData: Record<number, Record<string, number>>;
+  // Income statement only: revenue by member of the first segment axis whose members add up
+  // to total revenue, keyed by year like `data`. Empty when the filing has no such breakdown.
+  revenueSegments: RevenueSegment[];
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+// Fiscal periods end on varying weekdays; contexts within this many days of a period end match it.
+const PERIOD_END_SLACK_DAYS = 10;
+
+// Axes that break revenue into segments, in order of preference. ProductOrServiceAxis moved
+// from us-gaap to srt in 2018; older filings use the us-gaap name.
+const REVENUE_SEGMENT_AXES = [
+  "us-gaap:StatementBusinessSegmentsAxis",
+  "srt:ProductOrServiceAxis",
+  "us-gaap:ProductOrServiceAxis",
+];
+// Segment members must add up to total revenue within this fraction (eliminations, rounding).
+const SEGMENT_RECONCILE_TOLERANCE = 0.01;
+
+interface SegmentMember {
+  axis: string;
+  member: string;
+}
+
+function parseDocumentDate(raw: string): Date | null {
+  const text = raw.trim();
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00Z` : `${text} UTC`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function sortUnmatchedTags(valuesByTag: Record<string, Record<number, number>>): UnmatchedTag[] {
+  const latest = (values: Record<number, number>) => {
+    const years = Object.keys(values).map(Number);
+    return years.length > 0 ? Math.abs(values[Math.max(...years)]) : 0;
+  };
+  return Object.entries(valuesByTag)
+    .map(([tag, values]) => ({ tag, values }))
+    .sort((a, b) => latest(b.values) - latest(a.values) || a.tag.localeCompare(b.tag));
+}
+
+// us-gaap:ServiceMember -> "Service", aapl:IPhoneMember -> "IPhone", acme:CloudAndAIMember -> "Cloud And AI".
+export function segmentLabel(member: string): string {
+  return member.split(":").pop()!
+    .replace(/Member$/, "")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]{2,})([A-Z][a-z]{2,})/g, "$1 $2")
+    .trim();
+}
+
+// Picks the first axis whose members sum to total revenue in every year both report.
+export function selectRevenueSegments(
+  valuesByMember: Record<string, Record<string, Record<number, number>>>,
+  totals: Record<number, number | undefined>,
+): RevenueSegment[] {
+  for (const axis of REVENUE_SEGMENT_AXES) {
+    const members = Object.entries(valuesByMember[axis] || {});
+    if (members.length < 2) continue;
+    const years = Object.keys(totals).map(Number).filter(y => totals[y] && members.some(([, values]) => values[y] !== undefined));
+    if (years.length === 0) continue;
+    const reconciles = years.every(y => {
+      const sum = members.reduce((s, [, values]) => s + (values[y] || 0), 0);
+      return Math.abs(sum - totals[y]!) <= Math.abs(totals[y]!) * SEGMENT_RECONCILE_TOLERANCE;
+    });
+    if (!reconciles) continue;
+    const latest = Math.max(...years);
+    return members
+      .map(([member, values]) => ({ axis, member, label: segmentLabel(member), values }))
+      .sort((a, b) => (b.values[latest] || 0) - (a.values[latest] || 0) || a.label.localeCompare(b.label));
+  }
+  return [];
+}
+
+function nearDate(date: Date, target: Date): boolean {
+  return Math.abs(date.getTime() - target.getTime()) <= PERIOD_END_SLACK_DAYS * DAY_MS;
 }
 
 const INCOME_STATEMENT_MAP: Record<string, string> = {
@@ -38,7 +122,9 @@ const INCOME_STATEMENT_MAP: Record<string, string> = {
   "CostOfGoodsAndServiceExcludingDepreciationDepletionAndAmortization": "cogs",
   "GrossProfit": "grossProfit",
   "SellingGeneralAndAdministrativeExpense": "sgaExpense",
-  "GeneralAndAdministrativeExpense": "sgaExpense",
+  "SellingAndMarketingExpense": "smExpense",
+  "SellingExpense": "smExpense",
+  "GeneralAndAdministrativeExpense": "gaExpense",
   "ResearchAndDevelopmentExpense": "rdExpense",
   "ResearchAndDevelopmentExpenseExcludingAcquiredInProcessCost": "rdExpense",
   "OperatingIncomeLoss": "operatingIncome",
@@ -55,6 +141,9 @@ const INCOME_STATEMENT_MAP: Record<string, string> = {
   "DepreciationAndAmortization": "depreciation",
   "DepreciationDepletionAndAmortization": "depreciation",
   "RestructuringCharges": "restructuring",
+  "ShareBasedCompensation": "stockCompensation",
+  "AllocatedShareBasedCompensationExpense": "stockCompensation",
+  "AmortizationOfIntangibleAssets": "intangibleAmortization",
 };
 
 const BALANCE_SHEET_MAP: Record<string, string> = {
@@ -88,6 +177,8 @@ const BALANCE_SHEET_MAP: Record<string, string> = {
   "StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest": "totalEquity",
   "LiabilitiesAndStockholdersEquity": "totalLiabilitiesAndEquity",
   "TreasuryStockValue": "treasuryStock",
+  "DeferredIncomeTaxLiabilitiesNet": "deferredTaxLiability",
+  "OperatingLossCarryforwards": "nolBalance",
 };
 
 const CASH_FLOW_MAP: Record<string, string> = {
@@ -96,6 +187,9 @@ const CASH_FLOW_MAP: Record<string, string> = {
   "Depreciation": "depreciationAdd",
   "DepreciationAndAmortization": "depreciationAdd",
   "AdjustmentForAmortization": "depreciationAdd",
+  "ShareBasedCompensation": "stockCompensationAdd",
+  "DeferredIncomeTaxExpenseBenefit": "deferredTaxes",
+  "DeferredIncomeTaxesAndTaxCredits": "deferredTaxes",
   "IncreaseDecreaseInAccountsReceivable": "arChange",
   "IncreaseDecreaseInInventories": "inventoryChange",
   "IncreaseDecreaseInAccountsPayable": "apChange",
@@ -109,6 +203,8 @@ const CASH_FLOW_MAP: Record<string, string> = {
   "RepaymentsOfLongTermDebt": "longTermDebtChange",
   "ProceedsFromIssuanceOfCommonStock": "commonSharesChange",
   "PaymentsForRepurchaseOfCommonStock": "commonSharesChange",
+  "PaymentsOfDividends": "dividendsPaid",
+  "PaymentsOfDividendsCommonStock": "dividendsPaid",
   "NetCashProvidedByUsedInFinancingActivities": "financingCashFlow",
   "NetCashProvidedByUsedInFinancingActivitiesContinuingOperations": "financingCashFlow",
   "CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalentsPeriodIncreaseDecreaseIncludingExchangeRateEffect": "netCashChange",
@@ -116,7 +212,7 @@ const CASH_FLOW_MAP: Record<string, string> = {
   "CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalents": "endingCash",
 };
 
-function getStatementMap(statementType: string): Record<string, string> {
+export function getStatementMap(statementType: string): Record<string, string> {
   switch (statementType) {
     case "income-statement": return INCOME_STATEMENT_MAP;
     case "balance-sheet": return BALANCE_SHEET_MAP;
@@ -159,16 +255,24 @@ export async function fetchAndParseEdgar(url: string, requestedType?: string): P
   const html = await response.text();
   const $ = cheerio.load(html);
 
+  // Dimensioned contexts are kept alongside the plain ones so their periods map to years the
+  // same way; their values only feed revenue segments, never the statement totals.
   const contexts: Record<string, ContextPeriod> = {};
   const segmentContextIds = new Set<string>();
+  const segmentMembers: Record<string, SegmentMember> = {};
   $("xbrli\\:context, context").each((_i, el) => {
     const id = $(el).attr("id");
     if (!id) return;
 
-    const hasSegment = $(el).find("xbrldi\\:explicitMember, xbrldi\\:explicitMember, explicitMember").length > 0;
-    if (hasSegment) {
+    const explicitMembers = $(el).find("xbrldi\\:explicitMember, explicitMember");
+    if (explicitMembers.length > 0) {
       segmentContextIds.add(id);
-      return;
+      // Multi-axis contexts (segment by geography, ...) are cross-sections, not a segment total.
+      if (explicitMembers.length === 1) {
+        const axis = explicitMembers.first().attr("dimension") || "";
+        const member = explicitMembers.first().text().trim();
+        if (REVENUE_SEGMENT_AXES.includes(axis) && member) segmentMembers[id] = { axis, member };
+      }
     }
 
     const startDate = $(el).find("xbrli\\:startDate, startDate").text();
@@ -182,8 +286,42 @@ export async function fetchAndParseEdgar(url: string, requestedType?: string): P
     }
   });
 
+  const deiText = (name: string) => $(`ix\\:nonNumeric[name='dei:${name}'], ix\\:nonnumeric[name='dei:${name}']`).first().text().trim();
+  const documentType = deiText("DocumentType");
+  const quarterMatch = deiText("DocumentFiscalPeriodFocus").match(/^Q([1-3])$/i);
+  const periodEndDate = parseDocumentDate(deiText("DocumentPeriodEndDate"));
+  const fiscalQuarter = documentType.startsWith("10-Q") && quarterMatch && periodEndDate ? parseInt(quarterMatch[1]) : null;
+  const fiscalYearFocus = parseInt(deiText("DocumentFiscalYearFocus")) || periodEndDate?.getUTCFullYear() || 0;
+
   const annualContexts: Record<string, number> = {};
   const instantContexts: Record<string, number> = {};
+  const quarterContexts: Record<string, number> = {};
+  const quarterInstantContexts: Record<string, number> = {};
+  const ytdContexts: Record<string, number> = {};
+
+  // Maps a 10-Q context ending at this period end, or a year earlier, to its fiscal year.
+  const quarterFiscalYear = (endText: string): number | null => {
+    const end = parseDocumentDate(endText);
+    if (!end || !periodEndDate) return null;
+    if (nearDate(end, periodEndDate)) return fiscalYearFocus;
+    const priorYearEnd = new Date(periodEndDate);
+    priorYearEnd.setUTCFullYear(priorYearEnd.getUTCFullYear() - 1);
+    return nearDate(end, priorYearEnd) ? fiscalYearFocus - 1 : null;
+  };
+
+  if (fiscalQuarter) {
+    for (const [ctxId, period] of Object.entries(contexts)) {
+      const fiscalYear = quarterFiscalYear(period.instant || period.endDate);
+      if (fiscalYear === null) continue;
+      if (period.instant) {
+        quarterInstantContexts[ctxId] = fiscalYear;
+        continue;
+      }
+      const diffDays = (new Date(period.endDate).getTime() - new Date(period.startDate).getTime()) / DAY_MS;
+      if (diffDays > 80 && diffDays < 100) quarterContexts[ctxId] = fiscalYear;
+      if (Math.abs(diffDays - fiscalQuarter * 91) < 20) ytdContexts[ctxId] = fiscalYear;
+    }
+  }
 
   for (const [ctxId, period] of Object.entries(contexts)) {
     if (period.instant) {
@@ -225,7 +363,7 @@ export async function fetchAndParseEdgar(url: string, requestedType?: string): P
     numVal = numVal * Math.pow(10, scale);
 
     const shortName = name.replace(/^(us-gaap:|dei:|mrk:)/i, "");
-    values.push({ name: shortName, value: numVal, contextRef, unitRef, decimals, scale });
+    values.push({ name: shortName, qualifiedName: name, value: numVal, contextRef, unitRef, decimals, scale });
   });
 
   const gaapNames = Array.from(new Set(values.map(v => v.name)));
@@ -233,31 +371,51 @@ export async function fetchAndParseEdgar(url: string, requestedType?: string): P
   const fieldMap = getStatementMap(statementType);
 
   const useInstant = statementType === "balance-sheet";
-  const contextMap = useInstant
-    ? { ...annualContexts, ...instantContexts }
-    : annualContexts;
+  const contextMap = fiscalQuarter
+    ? (useInstant ? quarterInstantContexts : quarterContexts)
+    : useInstant ? { ...annualContexts, ...instantContexts } : annualContexts;
 
   const data: Record<number, Record<string, number>> = {};
+  const ytdData: Record<number, Record<string, number>> = {};
   const matchedFieldsSet = new Set<string>();
   const unmatchedGaapSet = new Set<string>();
+  const unmatchedValues: Record<string, Record<number, number>> = {};
+  const segmentValues: Record<string, Record<string, Record<number, number>>> = {};
 
   for (const val of values) {
     const year = contextMap[val.contextRef];
-    if (!year) continue;
+    const ytdYear = useInstant ? undefined : ytdContexts[val.contextRef];
+    if (!year && !ytdYear) continue;
 
     const appField = fieldMap[val.name];
+    if (segmentContextIds.has(val.contextRef)) {
+      const segment = segmentMembers[val.contextRef];
+      if (segment && year && appField === "totalRevenue" && statementType === "income-statement") {
+        const byMember = segmentValues[segment.axis] || (segmentValues[segment.axis] = {});
+        const byYear = byMember[segment.member] || (byMember[segment.member] = {});
+        if (byYear[year] === undefined) byYear[year] = val.value;
+      }
+      continue;
+    }
+
     if (appField) {
-      if (!data[year]) data[year] = {};
-      if (data[year][appField] === undefined) {
-        data[year][appField] = val.value;
+      for (const [target, targetYear] of [[data, year], [ytdData, ytdYear]] as const) {
+        if (!targetYear) continue;
+        if (!target[targetYear]) target[targetYear] = {};
+        if (target[targetYear][appField] === undefined) {
+          target[targetYear][appField] = val.value;
+        }
       }
       matchedFieldsSet.add(appField);
     } else if (val.unitRef === "usd" || val.unitRef?.toLowerCase().includes("usd")) {
       unmatchedGaapSet.add(val.name);
+      const tag = val.qualifiedName.includes(":") ? val.qualifiedName : `us-gaap:${val.qualifiedName}`;
+      if (!unmatchedValues[tag]) unmatchedValues[tag] = {};
+      if (year && unmatchedValues[tag][year] === undefined) unmatchedValues[tag][year] = val.value;
     }
   }
 
-  const years = Object.keys(data).map(Number).sort();
+  const years = Array.from(new Set([...Object.keys(data), ...Object.keys(ytdData)].map(Number))).sort();
 
   let companyName = "";
   const entityName = $("dei\\:EntityRegistrantName, ix\\:nonFraction[name='dei:EntityRegistrantName'], ix\\:nonNumeric[name='dei:EntityRegistrantName']").first().text().trim();
@@ -275,5 +433,9 @@ export async function fetchAndParseEdgar(url: string, requestedType?: string): P
     filingDate,
     matchedFields: Array.from(matchedFieldsSet),
     unmatchedGaap: Array.from(unmatchedGaapSet).slice(0, 30),
+    unmatchedTags: sortUnmatchedTags(unmatchedValues),
+    fiscalQuarter,
+    ytdData,
+    revenueSegments: selectRevenueSegments(segmentValues, Object.fromEntries(years.map(y => [y, data[y]?.totalRevenue]))),
   };
 }
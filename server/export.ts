@@ -0,0 +1,394 @@
+import ExcelJS from "exceljs";
+import { storage } from "./storage";
+import { finalYearEbitda } from "./recalculation-engine";
+import {
+  dcfPeriodsFor, bridgeBalanceSheetRow, equityBridgeFor, computeDcf,
+  type DcfPeriod, type EquityBridgeItem, type TerminalValueOptions, type TerminalValueMethod,
+} from "@shared/valuation";
+import type {
+  FinancialModel, IncomeStatementLine, BalanceSheetLine, CashFlowLine,
+  DcfValuation, PortfolioPosition, EquityBridgeOverrides, SensitivityGrid,
+} from "@shared/schema";
+
+export type ExportFormat = "csv" | "xlsx";
+export type ModelExportSection =
+  | "revenue" | "income-statement" | "balance-sheet" | "cash-flow"
+  | "dcf" | "valuation" | "all";
+
+export const MODEL_EXPORT_SECTIONS: ModelExportSection[] = [
+  "revenue", "income-statement", "balance-sheet", "cash-flow", "dcf", "valuation", "all",
+];
+
+type Cell = string | number | null;
+
+export interface ExportSheet {
+  name: string;
+  rows: Cell[][];
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+const IS_ROWS: Array<[string, keyof IncomeStatementLine]> = [
+  ["Revenue", "revenue"],
+  ["COGS", "cogs"],
+  ["Gross Profit", "grossProfit"],
+  ["Sales & Marketing", "salesMarketing"],
+  ["Research & Development", "researchDevelopment"],
+  ["General & Administrative", "generalAdmin"],
+  ["Depreciation", "depreciation"],
+  ["Total Expenses", "totalExpenses"],
+  ["Operating Income", "operatingIncome"],
+  ["EBITDA", "ebitda"],
+  ["Interest Expense", "interestExpense"],
+  ["Other Income", "otherIncome"],
+  ["Pre-Tax Income", "preTaxIncome"],
+  ["Income Tax", "incomeTax"],
+  ["Net Income", "netIncome"],
+  ["Shares Outstanding", "sharesOutstanding"],
+  ["EPS", "eps"],
+  ["Stock-Based Compensation", "stockCompensation"],
+  ["Amortization of Acquired Intangibles", "intangibleAmortization"],
+  ["Restructuring", "restructuring"],
+  ["Tax Effect of Adjustments", "nonGaapTaxEffect"],
+  ["Non-GAAP Net Income", "nonGaapNetIncome"],
+  ["Non-GAAP EPS", "nonGaapEps"],
+];
+
+const BS_ROWS: Array<[string, keyof BalanceSheetLine]> = [
+  ["Cash", "cash"],
+  ["Short-Term Investments", "shortTermInvestments"],
+  ["Accounts Receivable", "accountsReceivable"],
+  ["Inventory", "inventory"],
+  ["Total Current Assets", "totalCurrentAssets"],
+  ["Equipment", "equipment"],
+  ["Accumulated Depreciation", "depreciationAccum"],
+  ["CapEx", "capex"],
+  ["Total Long-Term Assets", "totalLongTermAssets"],
+  ["Total Assets", "totalAssets"],
+  ["Accounts Payable", "accountsPayable"],
+  ["Short-Term Debt", "shortTermDebt"],
+  ["Total Current Liabilities", "totalCurrentLiabilities"],
+  ["Long-Term Debt", "longTermDebt"],
+  ["Deferred Tax Liability", "deferredTaxLiability"],
+  ["Total Long-Term Liabilities", "totalLongTermLiabilities"],
+  ["Total Liabilities", "totalLiabilities"],
+  ["Retained Earnings", "retainedEarnings"],
+  ["Common Shares", "commonShares"],
+  ["Total Equity", "totalEquity"],
+  ["Total Liabilities & Equity", "totalLiabilitiesAndEquity"],
+  ["DSO (days)", "dso"],
+  ["DIO (days)", "dio"],
+  ["DPO (days)", "dpo"],
+  ["NOL Carryforward", "nolBalance"],
+];
+
+const CF_ROWS: Array<[string, keyof CashFlowLine]> = [
+  ["Net Income", "netIncome"],
+  ["Depreciation", "depreciationAdd"],
+  ["Stock-Based Compensation", "stockCompensationAdd"],
+  ["Deferred Taxes", "deferredTaxes"],
+  ["A/R Change", "arChange"],
+  ["Inventory Change", "inventoryChange"],
+  ["A/P Change", "apChange"],
+  ["Operating Cash Flow", "operatingCashFlow"],
+  ["CapEx", "capex"],
+  ["Investing Cash Flow", "investingCashFlow"],
+  ["ST Debt Change", "shortTermDebtChange"],
+  ["LT Debt Change", "longTermDebtChange"],
+  ["Common Shares Change", "commonSharesChange"],
+  ["Dividends Paid", "dividendsPaid"],
+  ["Financing Cash Flow", "financingCashFlow"],
+  ["Net Cash Change", "netCashChange"],
+  ["Beginning Cash", "beginningCash"],
+  ["Ending Cash", "endingCash"],
+  ["Free Cash Flow", "freeCashFlow"],
+];
+
+const DCF_ROWS: Array<[string, keyof DcfValuation]> = [
+  ["Risk-Free Rate", "riskFreeRate"],
+  ["Beta", "beta"],
+  ["Market Return", "marketReturn"],
+  ["Cost of Equity", "costOfEquity"],
+  ["Cost of Debt", "costOfDebt"],
+  ["Tax Rate", "taxRate"],
+  ["Equity Weight", "equityWeight"],
+  ["Debt Weight", "debtWeight"],
+  ["WACC", "wacc"],
+  ["Long-Term Growth", "longTermGrowth"],
+  ["Total Debt", "totalDebt"],
+  ["Shares Outstanding", "sharesOutstanding"],
+  ["NPV of FCFs", "npv"],
+  ["Terminal Value", "terminalValue"],
+  ["Discounted Terminal Value", "terminalValueDiscounted"],
+  ["Enterprise Value", "targetValue"],
+  ["Target Equity Value", "targetEquityValue"],
+  ["Target Price Per Share", "targetPricePerShare"],
+  ["Current Share Price", "currentSharePrice"],
+];
+
+const BRIDGE_SOURCES: Record<EquityBridgeItem["source"], string> = {
+  override: "Override",
+  balance_sheet: "Balance Sheet",
+  default: "",
+};
+
+const POSITION_COLUMNS: Array<[string, keyof PortfolioPosition]> = [
+  ["Ticker", "ticker"],
+  ["Company", "companyName"],
+  ["Sector", "sector"],
+  ["Industry", "industry"],
+  ["Type", "positionType"],
+  ["Shares", "sharesHeld"],
+  ["Avg Cost", "purchasePrice"],
+  ["Current Price", "currentPrice"],
+  ["Position Value", "positionValue"],
+  ["Gain/Loss $", "gainLossDollar"],
+  ["Gain/Loss %", "gainLossPercent"],
+  ["Daily Change %", "dailyChangePercent"],
+  ["Market Cap", "marketCap"],
+  ["P/E", "peRatio"],
+  ["EPS", "eps"],
+  ["Beta", "beta"],
+  ["Dividend Yield", "dividendYield"],
+  ["52W Low", "week52Low"],
+  ["52W High", "week52High"],
+  ["MA 50", "ma50"],
+  ["MA 200", "ma200"],
+  ["Stop Loss", "stopLoss"],
+  ["Catalyst", "catalyst"],
+  ["Comments", "comments"],
+];
+
+function statementSheet<T extends { year: number; quarter: number | null; isActual: boolean }>(
+  name: string, lines: T[], rowDefs: Array<[string, keyof T]>,
+): ExportSheet {
+  const annual = lines.filter(l => !l.quarter).sort((a, b) => a.year - b.year);
+  const header: Cell[] = ["Line Item", ...annual.map(l => `${l.year}${l.isActual ? "A" : "E"}`)];
+  const rows: Cell[][] = [header];
+  for (const [label, key] of rowDefs) {
+    rows.push([label, ...annual.map(l => (l[key] as number | null) ?? 0)]);
+  }
+  return { name, rows };
+}
+
+async function buildRevenueSheet(model: FinancialModel): Promise<ExportSheet> {
+  const lineItems = (await storage.getRevenueLineItems(model.id)).sort((a, b) => a.sortOrder - b.sortOrder);
+  const periods = await storage.getRevenuePeriods(model.id);
+  const years = Array.from({ length: model.endYear - model.startYear + 1 }, (_, i) => model.startYear + i);
+
+  const header: Cell[] = ["Line Item"];
+  for (const yr of years) {
+    header.push(`${yr} Q1`, `${yr} Q2`, `${yr} Q3`, `${yr} Q4`, `${yr} FY`);
+  }
+  const rows: Cell[][] = [header];
+  const totals: number[] = new Array(header.length - 1).fill(0);
+
+  for (const li of lineItems) {
+    const row: Cell[] = [li.name];
+    let col = 0;
+    for (const yr of years) {
+      let fy = 0;
+      const annual = periods.find(p => p.lineItemId === li.id && p.year === yr && !p.quarter);
+      for (let q = 1; q <= 4; q++) {
+        const amt = periods.find(p => p.lineItemId === li.id && p.year === yr && p.quarter === q)?.amount || 0;
+        fy += amt;
+        row.push(amt);
+        totals[col++] += amt;
+      }
+      if (fy === 0 && annual) fy = annual.amount || 0;
+      row.push(fy);
+      totals[col++] += fy;
+    }
+    rows.push(row);
+  }
+  rows.push(["Total Revenue", ...totals]);
+  return { name: "Revenue", rows };
+}
+
+function sensitivityGrid(
+  periods: DcfPeriod[], wacc: number, ltg: number, netDebt: number, shares: number,
+  terminal: TerminalValueOptions, axis: "ltg" | "exitMultiple",
+): Cell[][] {
+  const waccRange = [-0.02, -0.01, 0, 0.01, 0.02].map(d => wacc + d);
+  const columns = axis === "ltg"
+    ? [-0.01, -0.005, 0, 0.005, 0.01].map(d => ltg + d)
+    : [-2, -1, 0, 1, 2].map(d => Math.max(0, terminal.exitMultiple + d));
+  const price = (w: number, c: number) => {
+    const g = axis === "ltg" ? c : ltg;
+    if (shares <= 0 || periods.length === 0) return 0;
+    if (w <= g && terminal.method !== "exit_multiple") return 0;
+    const opts = axis === "ltg" ? terminal : { ...terminal, exitMultiple: c };
+    return Math.round(computeDcf(periods, w, g, netDebt, shares, opts).targetPrice * 100) / 100;
+  };
+  const header = axis === "ltg" ? "WACC \\ LTG" : "WACC \\ Exit Multiple";
+  const rows: Cell[][] = [[header, ...columns.map(c => Math.round(c * 10000) / 10000)]];
+  for (const w of waccRange) {
+    rows.push([Math.round(w * 10000) / 10000, ...columns.map(c => price(w, c))]);
+  }
+  return rows;
+}
+
+async function buildDcfSheets(model: FinancialModel): Promise<ExportSheet[]> {
+  const dcf = await storage.getDcfValuation(model.id);
+  const cf = (await storage.getCashFlowLines(model.id)).filter(l => !l.quarter).sort((a, b) => a.year - b.year);
+  const isLines = (await storage.getIncomeStatementLines(model.id)).filter(l => !l.quarter);
+  const bsLines = await storage.getBalanceSheetLines(model.id);
+  const rows: Cell[][] = [["Parameter", "Value"]];
+  for (const [label, key] of DCF_ROWS) {
+    rows.push([label, (dcf?.[key] as number | null | undefined) ?? 0]);
+  }
+  rows.push(["Valuation Date", dcf?.valuationDate ?? ""]);
+  rows.push(["Mid-Year Convention", dcf?.midYearConvention ? "Yes" : "No"]);
+  rows.push(["Stub Period", dcf?.stubPeriod ? "Yes" : "No"]);
+  rows.push(["Terminal Value Method", dcf?.terminalValueMethod ?? "perpetuity"]);
+  rows.push(["Exit Multiple (EV/EBITDA)", dcf?.exitMultiple ?? 0]);
+  rows.push(["Perpetuity Blend Weight", dcf?.terminalBlendWeight ?? 0]);
+
+  const periods = dcfPeriodsFor(cf, {
+    valuationDate: dcf?.valuationDate ?? null,
+    midYearConvention: dcf?.midYearConvention ?? false,
+    stubPeriod: dcf?.stubPeriod ?? false,
+  });
+  const shares = dcf?.dilutedShares || dcf?.sharesOutstanding || model.sharesOutstanding || 0;
+  const bridge = equityBridgeFor(bridgeBalanceSheetRow(bsLines, periods), dcf?.equityBridgeOverrides as EquityBridgeOverrides | null);
+  rows.push([]);
+  rows.push([`Equity Bridge${bridge.asOfYear ? ` (${bridge.asOfYear} balance sheet)` : ""}`, "Value", "Source"]);
+  rows.push(["Enterprise Value", dcf?.targetValue ?? 0]);
+  for (const item of bridge.items) {
+    rows.push([item.label, item.value, BRIDGE_SOURCES[item.source]]);
+  }
+  rows.push(["Equity Value", dcf?.targetEquityValue ?? 0]);
+  rows.push(["Diluted Shares", shares, dcf?.dilutedShares ? "Override" : "Shares Outstanding"]);
+  rows.push([]);
+  rows.push(["Year", "Free Cash Flow"]);
+  for (const l of cf) rows.push([l.year, l.freeCashFlow ?? 0]);
+
+  const terminal: TerminalValueOptions = {
+    method: (dcf?.terminalValueMethod as TerminalValueMethod) ?? "perpetuity",
+    exitMultiple: dcf?.exitMultiple ?? 10,
+    blendWeight: dcf?.terminalBlendWeight ?? 0.5,
+    finalEbitda: finalYearEbitda(periods, isLines),
+  };
+  const args = [periods, dcf?.wacc || 0, dcf?.longTermGrowth || 0, bridge.netDebt, shares, terminal] as const;
+  const sheets: ExportSheet[] = [{ name: "DCF", rows }, { name: "Sensitivity", rows: sensitivityGrid(...args, "ltg") }];
+  if (terminal.method !== "perpetuity") {
+    sheets.push({ name: "Sensitivity (Exit Multiple)", rows: sensitivityGrid(...args, "exitMultiple") });
+  }
+  const grid = dcf?.sensitivityData as SensitivityGrid | null | undefined;
+  if (grid?.rowDriver) {
+    sheets.push({
+      name: "Sensitivity (Drivers)",
+      rows: [
+        [`${grid.rowDriver} \\ ${grid.columnDriver}`, ...grid.columnValues],
+        ...grid.rowValues.map((r, i) => [r, ...grid.values[i]]),
+      ],
+    });
+  }
+  return sheets;
+}
+
+async function buildValuationSheet(model: FinancialModel): Promise<ExportSheet> {
+  const val = await storage.getValuationComparison(model.id);
+  const rows: Cell[][] = [
+    ["Method", "Bull Multiple", "Base Multiple", "Bear Multiple", "Bull Target", "Base Target", "Bear Target"],
+    ["Price / Revenue", val?.prBullMultiple ?? 0, val?.prBaseMultiple ?? 0, val?.prBearMultiple ?? 0,
+      val?.prBullTarget ?? 0, val?.prBaseTarget ?? 0, val?.prBearTarget ?? 0],
+    ["PEG", val?.peBullPeg ?? 0, val?.peBasePeg ?? 0, val?.peBearPeg ?? 0,
+      val?.peBullTarget ?? 0, val?.peBaseTarget ?? 0, val?.peBearTarget ?? 0],
+    ["DCF", null, null, null, val?.dcfBullTarget ?? 0, val?.dcfBaseTarget ?? 0, val?.dcfBearTarget ?? 0],
+    [],
+    ["Current Share Price", val?.currentSharePrice ?? 0],
+    ["Average Target", val?.averageTarget ?? 0],
+    ["% to Target", val?.percentToTarget ?? 0],
+  ];
+  return { name: "Valuation", rows };
+}
+
+export async function buildModelExportSheets(model: FinancialModel, section: ModelExportSection): Promise<ExportSheet[]> {
+  const sheets: ExportSheet[] = [];
+  if (section === "revenue" || section === "all") {
+    sheets.push(await buildRevenueSheet(model));
+  }
+  if (section === "income-statement" || section === "all") {
+    sheets.push(statementSheet("Income Statement", await storage.getIncomeStatementLines(model.id), IS_ROWS));
+  }
+  if (section === "balance-sheet" || section === "all") {
+    sheets.push(statementSheet("Balance Sheet", await storage.getBalanceSheetLines(model.id), BS_ROWS));
+  }
+  if (section === "cash-flow" || section === "all") {
+    sheets.push(statementSheet("Cash Flow", await storage.getCashFlowLines(model.id), CF_ROWS));
+  }
+  if (section === "dcf" || section === "all") {
+    sheets.push(...await buildDcfSheets(model));
+  }
+  if (section === "valuation" || section === "all") {
+    sheets.push(await buildValuationSheet(model));
+  }
+  return sheets;
+}
+
+export async function buildPortfolioExportSheets(userId: string): Promise<ExportSheet[]> {
+  const positions = await storage.getPortfolioPositions(userId);
+  const positionRows: Cell[][] = [POSITION_COLUMNS.map(([label]) => label)];
+  const lotRows: Cell[][] = [["Ticker", "Shares", "Purchase Price", "Cost Basis", "Purchase Date", "Notes"]];
+
+  for (const p of positions) {
+    positionRows.push(POSITION_COLUMNS.map(([, key]) => (p[key] as Cell | undefined) ?? null));
+    const lots = await storage.getPortfolioLots(p.id);
+    for (const lot of lots) {
+      lotRows.push([
+        p.ticker, lot.sharesHeld, lot.purchasePrice,
+        Math.round(lot.sharesHeld * lot.purchasePrice * 100) / 100,
+        lot.purchaseDate, lot.notes,
+      ]);
+    }
+  }
+  return [{ name: "Positions", rows: positionRows }, { name: "Lots", rows: lotRows }];
+}
+
+// Text that a spreadsheet would read as a formula is prefixed with a quote. Numbers are left
+// alone so negative values stay numeric.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: Cell): string {
+  if (value === null || value === undefined) return "";
+  const s = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function sheetsToCsv(sheets: ExportSheet[]): string {
+  const blocks = sheets.map(sheet => {
+    const lines = sheet.rows.map(r => r.map(csvCell).join(","));
+    return sheets.length > 1 ? [csvCell(sheet.name), ...lines].join("\r\n") : lines.join("\r\n");
+  });
+  return blocks.join("\r\n\r\n") + "\r\n";
+}
+
+export async function sheetsToXlsx(sheets: ExportSheet[]): Promise<Buffer> {
+  const wb = new ExcelJS.Workbook();
+  for (const sheet of sheets) {
+    const ws = wb.addWorksheet(sheet.name.slice(0, 31));
+    ws.addRows(sheet.rows);
+  }
+  return Buffer.from(await wb.xlsx.writeBuffer());
+}
+
+export async function toExportFile(sheets: ExportSheet[], baseName: string, format: ExportFormat): Promise<ExportFile> {
+  const safeName = baseName.replace(/[^a-zA-Z0-9_-]+/g, "_").replace(/^_+|_+$/g, "") || "export";
+  if (format === "xlsx") {
+    return {
+      filename: `${safeName}.xlsx`,
+      contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      body: await sheetsToXlsx(sheets),
+    };
+  }
+  return {
+    filename: `${safeName}.csv`,
+    contentType: "text/csv; charset=utf-8",
+    body: sheetsToCsv(sheets),
+  };
+}
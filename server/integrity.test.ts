@@ -0,0 +1,111 @@
+import { readFileSync } from "fs";
+import { checkStatements, balanceSheetTotals } from "./integrity";
+import { recalculateSnapshot, type ModelSnapshot } from "./recalculation-engine";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`  FAIL: ${message}`);
+    process.exitCode = 1;
+  } else {
+    console.log(`  PASS: ${message}`);
+  }
+}
+
+function fixture<T>(name: string): T {
+  return JSON.parse(readFileSync(new URL(`../test/data/${name}`, import.meta.url), "utf8")) as T;
+}
+
+// Two years that tie out: 2024 earns 10k on revenue of 100k, spends 5k on capex and builds 2k of inventory.
+// Breaks below are well over the $100 rounding tolerance.
+const isRows = [
+  { year: 2023, isActual: true, revenue: 90000, cogs: 50000, depreciation: 3000, interestExpense: 1000, netIncome: 8000 },
+  { year: 2024, isActual: false, revenue: 100000, cogs: 55000, depreciation: 4000, interestExpense: 1000, netIncome: 10000 },
+];
+const bsRows = [
+  {
+    year: 2023, isActual: true, cash: 500000, accountsReceivable: 200000, inventory: 100000, equipment: 400000, capex: 0,
+    accountsPayable: 150000, shortTermDebt: 0, longTermDebt: 250000, totalAssets: 1200000, totalLiabilitiesAndEquity: 1200000,
+  },
+  {
+    year: 2024, isActual: false, cash: 507000, accountsReceivable: 200000, inventory: 102000, equipment: 405000, capex: 5000,
+    accountsPayable: 150000, shortTermDebt: 0, longTermDebt: 250000, totalAssets: 1210000, totalLiabilitiesAndEquity: 1210000,
+  },
+];
+const cfRows = [
+  {
+    year: 2024, isActual: false, netIncome: 10000, depreciationAdd: 4000, operatingCashFlow: 12000, capex: -5000,
+    investingCashFlow: -5000, financingCashFlow: 0, netCashChange: 7000, beginningCash: 500000, endingCash: 507000,
+  },
+];
+
+const issuesFor = (overrides: { is?: object; bs?: object; cf?: object }) => checkStatements(
+  isRows.map(r => r.year === 2024 ? { ...r, ...overrides.is } : r),
+  bsRows.map(r => r.year === 2024 ? { ...r, ...overrides.bs } : r),
+  cfRows.map(r => ({ ...r, ...overrides.cf })),
+);
+
+console.log("\n=== Statement Integrity Test Suite ===\n");
+
+console.log("--- Test 1: Clean statements ---");
+{
+  const issues = checkStatements(isRows, bsRows, cfRows);
+  assert(issues.length === 0, `No issues on statements that tie out (got ${issues.length})`);
+}
+
+console.log("\n--- Test 2: Balance sheet imbalance ---");
+{
+  const issues = issuesFor({ bs: { totalAssets: 1215000 } });
+  const imbalance = issues.find(i => i.kind === "imbalance");
+  assert(imbalance?.severity === "error" && imbalance.year === 2024, "Assets above liabilities and equity is an error");
+  assert(imbalance?.difference === 5000, `Difference is reported (got ${imbalance?.difference})`);
+}
+
+console.log("\n--- Test 3: Cash tie-out ---");
+{
+  const issues = issuesFor({ cf: { endingCash: 512000 } });
+  const messages = issues.filter(i => i.kind === "tie_out").map(i => i.message);
+  assert(messages.some(m => m.includes("beginning cash plus net change")), "Ending cash off the roll-forward is flagged");
+  assert(messages.some(m => m.includes("balance sheet cash")), "Ending cash off balance sheet cash is flagged");
+
+  const opening = issuesFor({ cf: { beginningCash: 490000, endingCash: 497000 } });
+  assert(opening.some(i => i.field === "beginningCash" && i.severity === "error"), "Beginning cash off the prior balance sheet is flagged");
+
+  const unreported = issuesFor({ cf: { beginningCash: 0, endingCash: 0 } });
+  assert(!unreported.some(i => i.statement === "cash-flow" && i.kind === "tie_out"), "Rows without cash balances aren't tied out");
+}
+
+console.log("\n--- Test 4: Sign warnings ---");
+{
+  const capex = issuesFor({ cf: { capex: 5000, investingCashFlow: 5000, netCashChange: 17000, endingCash: 517000 }, bs: { cash: 517000 } });
+  const capexIssue = capex.find(i => i.field === "capex" && i.statement === "cash-flow");
+  assert(capexIssue?.kind === "sign" && capexIssue.severity === "warning", "Positive cash flow capex is a sign warning");
+
+  const inventory = issuesFor({ bs: { inventory: -2000 } });
+  const inventoryIssue = inventory.find(i => i.field === "inventory");
+  assert(inventoryIssue?.kind === "sign" && inventoryIssue.difference === -2000, "Negative inventory is a sign warning");
+  assert(!inventory.some(i => i.severity === "error"), "Sign warnings aren't errors");
+}
+
+console.log("\n--- Test 5: Recalculated models tie out ---");
+for (const name of ["mature", "startup"]) {
+  const result = recalculateSnapshot(fixture<ModelSnapshot>(`recalculation-${name}.snapshot.json`), new Date("2026-01-01T00:00:00.000Z"));
+  const errors = checkStatements(result.incomeStatement, result.balanceSheet, result.cashFlow).filter(i => i.severity === "error");
+  for (const e of errors) console.error(`    ${e.year} ${e.field}: ${e.message} (${e.difference})`);
+  assert(errors.length === 0, `${name}: no integrity errors after a recalculation (got ${errors.length})`);
+}
+
+console.log("\n--- Test 6: Edited balance sheet totals ---");
+{
+  const fields = {
+    cash: 100000, shortTermInvestments: 0, accountsReceivable: 50000, inventory: 50000,
+    equipment: 300000, depreciationAccum: 100000, capex: 0,
+    accountsPayable: 40000, shortTermDebt: 0, longTermDebt: 200000, deferredTaxLiability: 60000,
+    retainedEarnings: 60000, commonShares: 40000,
+  };
+  const totals = balanceSheetTotals(fields);
+  assert(totals.totalLongTermLiabilities === 260000, `Deferred tax counts as a long-term liability (got ${totals.totalLongTermLiabilities})`);
+  const issues = checkStatements([], [{ year: 2024, isActual: true, ...fields, ...totals }], []);
+  assert(!issues.some(i => i.kind === "imbalance"), "A row edited with a deferred tax balance still balances");
+}
+
+console.log("\n=== All tests complete ===\n");
@@ -0,0 +1,148 @@
+import { storage } from "./storage";
+import type {
+  IncomeStatementLine, BalanceSheetLine, CashFlowLine,
+  IntegrityIssue, IntegrityReport, IntegrityStatement,
+} from "@shared/schema";
+
+// Matches the balance check on the statement pages; projections round each line item.
+const TOLERANCE = 100;
+
+type StatementRow<T> = Partial<T> & { year: number; isActual: boolean; quarter?: number | null };
+
+const NON_NEGATIVE_FIELDS: Array<{ statement: IntegrityStatement; field: string; label: string }> = [
+  { statement: "income-statement", field: "revenue", label: "Revenue" },
+  { statement: "income-statement", field: "cogs", label: "COGS" },
+  { statement: "income-statement", field: "depreciation", label: "Depreciation" },
+  { statement: "income-statement", field: "interestExpense", label: "Interest expense" },
+  { statement: "balance-sheet", field: "cash", label: "Cash" },
+  { statement: "balance-sheet", field: "accountsReceivable", label: "Accounts receivable" },
+  { statement: "balance-sheet", field: "inventory", label: "Inventory" },
+  { statement: "balance-sheet", field: "equipment", label: "Equipment" },
+  { statement: "balance-sheet", field: "capex", label: "Balance sheet capex" },
+  { statement: "balance-sheet", field: "accountsPayable", label: "Accounts payable" },
+  { statement: "balance-sheet", field: "shortTermDebt", label: "Short-term debt" },
+  { statement: "balance-sheet", field: "longTermDebt", label: "Long-term debt" },
+];
+
+const num = (v: unknown) => (typeof v === "number" && isFinite(v) ? v : 0);
+
+function annual<T>(rows: StatementRow<T>[]): Map<number, StatementRow<T>> {
+  return new Map(rows.filter(r => !r.quarter).map(r => [r.year, r]));
+}
+
+export function checkStatements(
+  isRows: StatementRow<IncomeStatementLine>[],
+  bsRows: StatementRow<BalanceSheetLine>[],
+  cfRows: StatementRow<CashFlowLine>[],
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const is = annual(isRows);
+  const bs = annual(bsRows);
+  const cf = annual(cfRows);
+  const years = Array.from(new Set<number>([
+    ...isRows.filter(r => !r.quarter).map(r => r.year),
+    ...bsRows.filter(r => !r.quarter).map(r => r.year),
+    ...cfRows.filter(r => !r.quarter).map(r => r.year),
+  ])).sort((a, b) => a - b);
+
+  const mismatch = (
+    year: number, isActual: boolean, statement: IntegrityStatement, kind: "imbalance" | "tie_out",
+    field: string, expected: number, actual: number, message: string,
+  ) => {
+    const difference = actual - expected;
+    if (Math.abs(difference) > TOLERANCE) {
+      issues.push({ year, isActual, statement, kind, severity: "error", field, message, difference });
+    }
+  };
+
+  for (const year of years) {
+    const isRow = is.get(year);
+    const bsRow = bs.get(year);
+    const cfRow = cf.get(year);
+    const prevBs = bs.get(year - 1);
+
+    if (bsRow) {
+      mismatch(year, bsRow.isActual, "balance-sheet", "imbalance", "totalAssets",
+        num(bsRow.totalLiabilitiesAndEquity), num(bsRow.totalAssets),
+        "Total assets don't equal total liabilities and equity");
+    }
+
+    if (cfRow) {
+      mismatch(year, cfRow.isActual, "cash-flow", "tie_out", "netCashChange",
+        num(cfRow.operatingCashFlow) + num(cfRow.investingCashFlow) + num(cfRow.financingCashFlow), num(cfRow.netCashChange),
+        "Net change in cash doesn't equal operating + investing + financing cash flow");
+      if (isRow) {
+        mismatch(year, cfRow.isActual, "cash-flow", "tie_out", "netIncome",
+          num(isRow.netIncome), num(cfRow.netIncome), "Cash flow net income doesn't match the income statement");
+        mismatch(year, cfRow.isActual, "cash-flow", "tie_out", "depreciationAdd",
+          num(isRow.depreciation), num(cfRow.depreciationAdd), "Depreciation add-back doesn't match income statement depreciation");
+      }
+
+      // Imported cash flows often omit the cash balances; only tie out rows that report them.
+      const reportsCash = num(cfRow.beginningCash) !== 0 || num(cfRow.endingCash) !== 0;
+      if (reportsCash) {
+        mismatch(year, cfRow.isActual, "cash-flow", "tie_out", "endingCash",
+          num(cfRow.beginningCash) + num(cfRow.netCashChange), num(cfRow.endingCash),
+          "Ending cash doesn't equal beginning cash plus net change in cash");
+        if (bsRow) {
+          mismatch(year, cfRow.isActual, "cash-flow", "tie_out", "endingCash",
+            num(bsRow.cash), num(cfRow.endingCash), "Ending cash doesn't tie to balance sheet cash");
+        }
+        if (prevBs) {
+          mismatch(year, cfRow.isActual, "cash-flow", "tie_out", "beginningCash",
+            num(prevBs.cash), num(cfRow.beginningCash), "Beginning cash doesn't tie to prior-year balance sheet cash");
+        }
+      }
+
+      if (num(cfRow.capex) > 0) {
+        issues.push({
+          year, isActual: cfRow.isActual, statement: "cash-flow", kind: "sign", severity: "warning", field: "capex",
+          message: "Capex should be a cash outflow (negative) on the cash flow statement", difference: num(cfRow.capex),
+        });
+      }
+    }
+
+    for (const { statement, field, label } of NON_NEGATIVE_FIELDS) {
+      const row = statement === "income-statement" ? isRow : bsRow;
+      if (!row) continue;
+      const value = num((row as Record<string, unknown>)[field]);
+      if (value < 0) {
+        issues.push({
+          year, isActual: row.isActual, statement, kind: "sign", severity: "warning", field,
+          message: `${label} is negative`, difference: value,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Subtotals for an edited balance sheet row, summed the same way as the statement page and the engine.
+export function balanceSheetTotals(fields: Record<string, number>) {
+  const totalCurrentAssets = fields.cash + fields.shortTermInvestments + fields.accountsReceivable + fields.inventory;
+  const totalLongTermAssets = fields.equipment - fields.depreciationAccum + fields.capex;
+  const totalCurrentLiabilities = fields.accountsPayable + fields.shortTermDebt;
+  const totalLongTermLiabilities = fields.longTermDebt + fields.deferredTaxLiability;
+  const totalLiabilities = totalCurrentLiabilities + totalLongTermLiabilities;
+  const totalEquity = fields.retainedEarnings + fields.commonShares;
+  return {
+    totalCurrentAssets: Math.round(totalCurrentAssets),
+    totalLongTermAssets: Math.round(totalLongTermAssets),
+    totalAssets: Math.round(totalCurrentAssets + totalLongTermAssets),
+    totalCurrentLiabilities: Math.round(totalCurrentLiabilities),
+    totalLongTermLiabilities: Math.round(totalLongTermLiabilities),
+    totalLiabilities: Math.round(totalLiabilities),
+    totalEquity: Math.round(totalEquity),
+    totalLiabilitiesAndEquity: Math.round(totalLiabilities + totalEquity),
+  };
+}
+
+export async function checkModelIntegrity(modelId: string): Promise<IntegrityReport> {
+  const [isRows, bsRows, cfRows] = await Promise.all([
+    storage.getIncomeStatementLines(modelId),
+    storage.getBalanceSheetLines(modelId),
+    storage.getCashFlowLines(modelId),
+  ]);
+  return { checkedAt: new Date().toISOString(), issues: checkStatements(isRows, bsRows, cfRows) };
+}
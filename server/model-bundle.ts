@@ -0,0 +1,170 @@
+import { z } from "zod";
+import { eq, and } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { recalculateModel } from "./recalculate";
+import {
+  financialModels, revenueLineItems, revenuePeriods, incomeStatementLines, balanceSheetLines, cashFlowLines,
+  dcfValuations, valuationComparisons, scenarios, assumptions, debtTranches,
+  insertFinancialModelSchema, insertRevenueLineItemSchema, insertRevenuePeriodSchema,
+  insertIncomeStatementLineSchema, insertBalanceSheetLineSchema, insertCashFlowLineSchema,
+  insertDcfValuationSchema, insertValuationComparisonSchema, insertScenarioSchema,
+  insertAssumptionsSchema, insertDebtTrancheSchema,
+  type FinancialModel,
+} from "@shared/schema";
+
+export const MODEL_BUNDLE_FORMAT = "kozo.model";
+// Version 2 added debt tranches and the assumption and statement fields that came after them.
+// Version 1 bundles still import: fields they lack take the schema defaults.
+export const MODEL_BUNDLE_VERSION = 2;
+
+export const modelBundleSchema = z.object({
+  format: z.literal(MODEL_BUNDLE_FORMAT),
+  version: z.union([z.literal(1), z.literal(MODEL_BUNDLE_VERSION)]),
+  exportedAt: z.string(),
+  model: insertFinancialModelSchema.omit({ userId: true }),
+  revenueLineItems: z.array(insertRevenueLineItemSchema.omit({ modelId: true }).extend({ id: z.string() })),
+  revenuePeriods: z.array(insertRevenuePeriodSchema.omit({ modelId: true })),
+  incomeStatement: z.array(insertIncomeStatementLineSchema.omit({ modelId: true })),
+  balanceSheet: z.array(insertBalanceSheetLineSchema.omit({ modelId: true })),
+  cashFlow: z.array(insertCashFlowLineSchema.omit({ modelId: true })),
+  dcf: insertDcfValuationSchema.omit({ modelId: true }).nullable(),
+  valuationComparison: insertValuationComparisonSchema.omit({ modelId: true }).nullable(),
+  scenarios: z.array(insertScenarioSchema.omit({ modelId: true, results: true }).extend({ id: z.string() })),
+  assumptions: z.array(insertAssumptionsSchema.omit({ modelId: true })),
+  debtTranches: z.array(insertDebtTrancheSchema.omit({ modelId: true })).default([]),
+});
+
+export type ModelBundle = z.infer<typeof modelBundleSchema>;
+type ModelBundleJson = NonNullable<ModelBundle["dcf"]>["sensitivityData"];
+
+function strip<T extends { id: string; modelId: string }>(row: T): Omit<T, "id" | "modelId"> {
+  const { id, modelId, ...rest } = row;
+  return rest;
+}
+
+export async function buildModelBundle(model: FinancialModel): Promise<ModelBundle> {
+  const [lineItems, periods, isLines, bsLines, cfLines, dcf, valuation, scenarios, assumptionRows, tranches] = await Promise.all([
+    storage.getRevenueLineItems(model.id),
+    storage.getRevenuePeriods(model.id),
+    storage.getIncomeStatementLines(model.id),
+    storage.getBalanceSheetLines(model.id),
+    storage.getCashFlowLines(model.id),
+    storage.getDcfValuation(model.id),
+    storage.getValuationComparison(model.id),
+    storage.getScenarios(model.id),
+    storage.getAssumptions(model.id),
+    storage.getDebtTranches(model.id),
+  ]);
+
+  const { id, userId, createdAt, ...modelData } = model;
+
+  return {
+    format: MODEL_BUNDLE_FORMAT,
+    version: MODEL_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    model: { ...modelData, sharesOutstanding: modelData.sharesOutstanding ?? undefined },
+    revenueLineItems: lineItems.map(({ modelId, ...rest }) => rest),
+    revenuePeriods: periods.map(strip),
+    incomeStatement: isLines.map(row => ({ ...strip(row), customLines: row.customLines as ModelBundleJson })),
+    balanceSheet: bsLines.map(row => ({ ...strip(row), customLines: row.customLines as ModelBundleJson })),
+    cashFlow: cfLines.map(row => ({ ...strip(row), customLines: row.customLines as ModelBundleJson })),
+    dcf: dcf ? { ...strip(dcf), sensitivityData: dcf.sensitivityData as ModelBundleJson, equityBridgeOverrides: dcf.equityBridgeOverrides as ModelBundleJson } : null,
+    valuationComparison: valuation ? { ...strip(valuation), valuationData: valuation.valuationData as ModelBundleJson } : null,
+    scenarios: scenarios.map(({ modelId, results, ...rest }) => rest),
+    assumptions: assumptionRows.map(row => ({ ...strip(row), workingCapitalDays: row.workingCapitalDays as ModelBundleJson })),
+    debtTranches: tranches.map(strip),
+  };
+}
+
+// Either the database or an open transaction.
+type Executor = Pick<typeof db, "insert" | "update" | "delete">;
+
+async function clearModelData(exec: Executor, modelId: string) {
+  await exec.delete(revenuePeriods).where(eq(revenuePeriods.modelId, modelId));
+  await exec.delete(revenueLineItems).where(eq(revenueLineItems.modelId, modelId));
+  await exec.delete(incomeStatementLines).where(eq(incomeStatementLines.modelId, modelId));
+  await exec.delete(balanceSheetLines).where(eq(balanceSheetLines.modelId, modelId));
+  await exec.delete(cashFlowLines).where(eq(cashFlowLines.modelId, modelId));
+  await exec.delete(dcfValuations).where(eq(dcfValuations.modelId, modelId));
+  await exec.delete(valuationComparisons).where(eq(valuationComparisons.modelId, modelId));
+  await exec.delete(assumptions).where(eq(assumptions.modelId, modelId));
+  await exec.delete(scenarios).where(eq(scenarios.modelId, modelId));
+  await exec.delete(debtTranches).where(eq(debtTranches.modelId, modelId));
+}
+
+// Writes into a model with no data of its own, so every row is an insert.
+async function writeBundleData(exec: Executor, modelId: string, bundle: ModelBundle) {
+  const lineItemIds = new Map<string, string>();
+  for (const item of bundle.revenueLineItems) {
+    const [created] = await exec.insert(revenueLineItems).values({ modelId, name: item.name, sortOrder: item.sortOrder }).returning();
+    lineItemIds.set(item.id, created.id);
+  }
+  for (const period of bundle.revenuePeriods) {
+    const lineItemId = lineItemIds.get(period.lineItemId);
+    if (!lineItemId) throw new Error(`Revenue period references unknown line item ${period.lineItemId}`);
+    await exec.insert(revenuePeriods).values({ ...period, lineItemId, modelId });
+  }
+
+  const scenarioIds = new Map<string, string>();
+  for (const scenario of bundle.scenarios) {
+    const { id, ...data } = scenario;
+    const [created] = await exec.insert(scenarios).values({ ...data, modelId }).returning();
+    scenarioIds.set(id, created.id);
+  }
+  for (const row of bundle.assumptions) {
+    let scenarioId: string | null = null;
+    if (row.scenarioId) {
+      scenarioId = scenarioIds.get(row.scenarioId) ?? null;
+      if (!scenarioId) throw new Error(`Assumptions reference unknown scenario ${row.scenarioId}`);
+    }
+    await exec.insert(assumptions).values({ ...row, scenarioId, modelId });
+  }
+  if (bundle.debtTranches.length > 0) {
+    await exec.insert(debtTranches).values(bundle.debtTranches.map(tranche => ({ ...tranche, modelId })));
+  }
+
+  if (bundle.incomeStatement.length > 0) {
+    await exec.insert(incomeStatementLines).values(bundle.incomeStatement.map(line => ({ ...line, modelId })));
+  }
+  if (bundle.balanceSheet.length > 0) {
+    await exec.insert(balanceSheetLines).values(bundle.balanceSheet.map(line => ({ ...line, modelId })));
+  }
+  if (bundle.cashFlow.length > 0) {
+    await exec.insert(cashFlowLines).values(bundle.cashFlow.map(line => ({ ...line, modelId })));
+  }
+  if (bundle.dcf) {
+    await exec.insert(dcfValuations).values({ ...bundle.dcf, modelId });
+  }
+  if (bundle.valuationComparison) {
+    await exec.insert(valuationComparisons).values({ ...bundle.valuationComparison, modelId });
+  }
+}
+
+export async function importModelBundle(bundle: ModelBundle, userId: string): Promise<FinancialModel> {
+  const model = await db.transaction(async (tx) => {
+    const [created] = await tx.insert(financialModels).values({ ...bundle.model, userId }).returning();
+    await writeBundleData(tx, created.id, bundle);
+    return created;
+  });
+  await recalculateModel(model.id);
+  return model;
+}
+
+export async function restoreModelBundle(model: FinancialModel, bundle: ModelBundle, userId: string): Promise<FinancialModel> {
+  const restored = await db.transaction(async (tx) => {
+    await clearModelData(tx, model.id);
+    await writeBundleData(tx, model.id, bundle);
+    const [updated] = await tx.update(financialModels).set(bundle.model)
+      .where(and(eq(financialModels.id, model.id), eq(financialModels.userId, userId))).returning();
+    return updated;
+  });
+  await recalculateModel(model.id);
+  return restored;
+}
+
+export async function duplicateModel(model: FinancialModel, userId: string, name?: string): Promise<FinancialModel> {
+  const bundle = await buildModelBundle(model);
+  bundle.model.name = name?.trim() || `${model.name} (Copy)`;
+  return importModelBundle(bundle, userId);
+}
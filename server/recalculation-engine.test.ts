@@ -0,0 +1,192 @@
+import { readFileSync, writeFileSync } from "fs";
+import {
+  recalculateSnapshot, debtScheduleFor, sensitivityGridFor, goalSeekFor,
+  type ModelSnapshot, type Recalculation,
+} from "./recalculation-engine";
+import { computeDcf } from "@shared/valuation";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`  FAIL: ${message}`);
+    process.exitCode = 1;
+  } else {
+    console.log(`  PASS: ${message}`);
+  }
+}
+
+function approxEqual(a: number, b: number, tolerance = 0.0001): boolean {
+  return Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(b));
+}
+
+const dataFile = (name: string) => new URL(`../test/data/${name}`, import.meta.url);
+
+function fixture<T>(name: string): T {
+  return JSON.parse(readFileSync(dataFile(name), "utf8")) as T;
+}
+
+// Scenario results carry a timestamp; pin it so golden files are stable.
+const NOW = new Date("2026-01-01T00:00:00.000Z");
+
+// The figures a reviewer checks after a change to the engine. Run with UPDATE_GOLDEN=1 to
+// regenerate the golden files, then review the diff.
+function summarize(result: Recalculation) {
+  return {
+    incomeStatement: result.incomeStatement.map(r => ({
+      year: r.year, isActual: r.isActual, revenue: r.revenue, grossProfit: r.grossProfit, operatingIncome: r.operatingIncome,
+      interestExpense: r.interestExpense, otherIncome: r.otherIncome, incomeTax: r.incomeTax, netIncome: r.netIncome,
+      eps: r.eps, nonGaapEps: r.nonGaapEps,
+    })),
+    balanceSheet: result.balanceSheet.map(r => ({
+      year: r.year, cash: r.cash, totalAssets: r.totalAssets, shortTermDebt: r.shortTermDebt, longTermDebt: r.longTermDebt,
+      deferredTaxLiability: r.deferredTaxLiability, totalEquity: r.totalEquity, nolBalance: r.nolBalance ?? null,
+    })),
+    cashFlow: result.cashFlow.map(r => ({
+      year: r.year, operatingCashFlow: r.operatingCashFlow, capex: r.capex, financingCashFlow: r.financingCashFlow,
+      freeCashFlow: r.freeCashFlow, endingCash: r.endingCash,
+    })),
+    quarters: result.quarters.isRows.map(r => ({ year: r.year, quarter: r.quarter, revenue: r.revenue, netIncome: r.netIncome })),
+    debtSchedule: result.debtSchedule.map(r => ({ year: r.year, name: r.name, closing: r.closing, interest: r.interest })),
+    dcf: result.dcf,
+    valuation: result.valuation,
+    scenarios: result.scenarios.map(({ scenario, results }) => ({ id: scenario.id, dcf: results.dcf })),
+  };
+}
+
+// Every number in `actual` must match `expected` at the same path.
+function goldenMismatches(actual: unknown, expected: unknown, path = ""): string[] {
+  if (typeof expected === "number" && typeof actual === "number") {
+    return approxEqual(actual, expected) ? [] : [`${path}: expected ${expected}, got ${actual}`];
+  }
+  if (expected && typeof expected === "object" && actual && typeof actual === "object") {
+    const keys = Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)]));
+    return keys.flatMap(k => goldenMismatches((actual as any)[k], (expected as any)[k], path ? `${path}.${k}` : k));
+  }
+  return actual === expected ? [] : [`${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+}
+
+const mature = fixture<ModelSnapshot>("recalculation-mature.snapshot.json");
+const startup = fixture<ModelSnapshot>("recalculation-startup.snapshot.json");
+const matureResult = recalculateSnapshot(mature, NOW);
+const startupResult = recalculateSnapshot(startup, NOW);
+
+console.log("\n=== Recalculation Engine Test Suite ===\n");
+
+console.log("--- Test 1: Golden fixtures ---");
+for (const [name, result] of [["mature", matureResult], ["startup", startupResult]] as const) {
+  const goldenName = `recalculation-${name}.golden.json`;
+  const summary = JSON.parse(JSON.stringify(summarize(result)));
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(dataFile(goldenName), JSON.stringify(summary, null, 2) + "\n");
+    console.log(`  Updated ${goldenName}`);
+    continue;
+  }
+  const mismatches = goldenMismatches(summary, fixture(goldenName));
+  for (const m of mismatches.slice(0, 10)) console.error(`    ${m}`);
+  assert(mismatches.length === 0, `${name}: output matches ${goldenName} (${mismatches.length} differences)`);
+}
+
+console.log("\n--- Test 2: Pure and deterministic ---");
+{
+  const before = JSON.stringify(mature);
+  const again = recalculateSnapshot(mature, NOW);
+  assert(JSON.stringify(mature) === before, "Snapshot is not mutated");
+  assert(JSON.stringify(again) === JSON.stringify(matureResult), "Same snapshot gives the same result");
+}
+
+console.log("\n--- Test 3: Statements tie out ---");
+for (const [name, result] of [["mature", matureResult], ["startup", startupResult]] as const) {
+  const balanceSheets = [...result.balanceSheet, ...result.quarters.bsRows];
+  const unbalanced = balanceSheets.filter(r => Math.abs((r.totalAssets || 0) - (r.totalLiabilitiesAndEquity || 0)) > 1);
+  assert(unbalanced.length === 0, `${name}: every balance sheet balances (${unbalanced.length} off)`);
+  const cashBreaks = result.cashFlow.filter(cf => {
+    const prevBs = result.balanceSheet.find(r => r.year === cf.year - 1);
+    return !cf.isActual && prevBs && Math.abs((cf.beginningCash || 0) - (prevBs.cash || 0)) > 1;
+  });
+  assert(cashBreaks.length === 0, `${name}: projected cash flow starts from the prior balance sheet's cash`);
+  // Each cash flow line is rounded separately, so allow a few dollars.
+  const endingBreaks = [...result.cashFlow, ...result.quarters.cfRows].filter(cf => {
+    const bs = balanceSheets.find(r => r.year === cf.year && (r.quarter ?? null) === (cf.quarter ?? null));
+    return !bs || Math.abs((cf.endingCash || 0) - (bs.cash || 0)) > 5;
+  });
+  assert(endingBreaks.length === 0, `${name}: every cash flow ends at its balance sheet's cash (${endingBreaks.length} off)`);
+}
+
+console.log("\n--- Test 4: Reported years pass through ---");
+{
+  const reported = mature.incomeStatement.find(r => r.year === 2023)!;
+  const projected = matureResult.incomeStatement.find(r => r.year === 2023)!;
+  assert(projected.isActual && projected.netIncome === reported.netIncome, "2023 actual net income is kept as reported");
+  assert(matureResult.incomeStatement.filter(r => !r.isActual).map(r => r.year).join() === "2024,2025,2026,2027", "2024-2027 are projected");
+
+  const reportedBs = mature.balanceSheet.find(r => r.year === 2023)!;
+  const is2024 = matureResult.incomeStatement.find(r => r.year === 2024)!;
+  const bs2024 = matureResult.balanceSheet.find(r => r.year === 2024)!;
+  const cf2024 = matureResult.cashFlow.find(r => r.year === 2024)!;
+  const expectedShares = (reportedBs.commonShares || 0) + is2024.stockCompensation + (cf2024.commonSharesChange || 0);
+  assert(Math.abs((bs2024.commonShares || 0) - expectedShares) <= 1, `2024 common stock rolls forward from the reported 2023 balance (${bs2024.commonShares})`);
+  const expectedRe = (reportedBs.retainedEarnings || 0) + is2024.netIncome + (cf2024.dividendsPaid || 0);
+  assert(Math.abs((bs2024.retainedEarnings || 0) - expectedRe) <= 1, `2024 retained earnings roll forward from the reported 2023 balance (${bs2024.retainedEarnings})`);
+}
+
+console.log("\n--- Test 5: NOL and deferred taxes ---");
+{
+  const projectedBs = matureResult.balanceSheet.filter(r => !r.isActual);
+  const nol = projectedBs.map(r => r.nolBalance ?? 0);
+  assert(nol[0] < 30000000 && nol.every((v, i) => i === 0 || v <= nol[i - 1]), `Opening $30M NOL is used down (${nol.join(", ")})`);
+  const dtl = projectedBs.map(r => r.deferredTaxLiability || 0);
+  assert(dtl.every((v, i) => i === 0 ? v > 0 : v > dtl[i - 1]), "Cash tax below book tax builds the deferred tax liability");
+}
+
+console.log("\n--- Test 6: Scenarios ---");
+{
+  const price = (id: string) => matureResult.scenarios.find(s => s.scenario.id === id)!.results.dcf.targetPricePerShare;
+  const base = matureResult.dcf.targetPricePerShare;
+  assert(price("s-bull") > base && base > price("s-bear"), `Bull ${price("s-bull")} > base ${base} > bear ${price("s-bear")}`);
+}
+
+console.log("\n--- Test 7: Quarterly projections ---");
+{
+  const quarterRows = startupResult.quarters.isRows;
+  assert(quarterRows.length === 20, `4 quarters for each of 5 years (got ${quarterRows.length})`);
+  const annual2025 = startupResult.incomeStatement.find(r => r.year === 2025)!.revenue;
+  const quarterly2025 = quarterRows.filter(r => r.year === 2025).reduce((s, r) => s + r.revenue, 0);
+  assert(approxEqual(quarterly2025, annual2025), "2025 quarters add up to the annual revenue");
+  const q4 = quarterRows.find(r => r.year === 2025 && r.quarter === 4)!.revenue;
+  assert(q4 === 3500000, "Entered quarterly revenue keeps its seasonality");
+}
+
+console.log("\n--- Test 8: What-if runs ---");
+{
+  assert(JSON.stringify(debtScheduleFor(mature)) === JSON.stringify(matureResult.debtSchedule), "Debt schedule preview matches the full run");
+
+  const grid = sensitivityGridFor(mature, { driver: "wacc" }, { driver: "longTermGrowth" });
+  assert(approxEqual(grid.baseTargetPrice, matureResult.dcf.targetPricePerShare, 0.001), "Sensitivity base price equals the DCF target price");
+  assert(grid.values[2][2] === grid.baseTargetPrice, "Centre cell of the default grid is the base case");
+
+  const target = Math.round(matureResult.dcf.targetPricePerShare * 1.1 * 100) / 100;
+  const seek = goalSeekFor(mature, { input: "wacc", output: "targetPrice", target });
+  assert(seek.converged && Math.abs(seek.achievedOutput! - target) <= 0.005, `WACC solved for $${target} (got ${seek.achievedOutput})`);
+  assert(seek.solvedValue! < seek.baseValue, "A higher target price needs a lower WACC");
+
+  const eps = goalSeekFor(mature, { input: "cogsPercent", output: "eps", target: 2.9, year: 2027 });
+  const check = recalculateSnapshot({
+    ...mature,
+    assumptions: mature.assumptions.map(a => a.scenarioId ? a : { ...a, cogsPercent: String(eps.solvedValue) }),
+  }, NOW).incomeStatement.find(r => r.year === 2027)!.eps;
+  assert(eps.converged && Math.abs(check - 2.9) <= 0.005, `COGS % solved for $2.90 2027 EPS reproduces in a full run (got ${check})`);
+
+  const unreachable = goalSeekFor(startup, { input: "gaPercent", output: "fcfMargin", target: 5, year: 2029 });
+  assert(!unreachable.converged && unreachable.solvedValue !== null, "Unreachable target reports the closest value tried");
+}
+
+console.log("\n--- Test 9: Terminal value guard ---");
+{
+  const periods = [{ year: 2026, fcf: 1000, fraction: 1, periodEnd: 1, discountPeriod: 1 }];
+  const terminal = { method: "blend" as const, exitMultiple: 10, blendWeight: 0.5, finalEbitda: 2000 };
+  const result = computeDcf(periods, 0.03, 0.04, 0, 100, terminal);
+  assert(result.perpetuityTv === 0 && isFinite(result.targetPrice), "WACC below long-term growth gives no perpetuity value");
+  assert(result.impliedExitMultiple === null, "No implied exit multiple without a perpetuity value");
+  assert(result.tv === 10000, `Blend falls back on the exit value alone (got ${result.tv})`);
+}
+
+console.log("\n=== All tests complete ===\n");
@@ -0,0 +1,1642 @@
+import {
+  type FinancialModel, type RevenueLineItem, type RevenuePeriod, type Assumptions, type Scenario, type ScenarioResults,
+  type IncomeStatementLine, type BalanceSheetLine, type CashFlowLine, type DcfValuation, type ValuationComparison,
+  type SensitivityDriver, type SensitivityGrid, type GoalSeekInput, type GoalSeekOutput, type GoalSeekResult,
+  type DebtTranche, type DebtScheduleRow,
+  type WorkingCapitalDayKey, type WorkingCapitalDaysByYear, type DepreciationMethod, type DividendMethod,
+  type EquityBridgeOverrides,
+} from "@shared/schema";
+import {
+  dcfPeriodsFor, bridgeBalanceSheetRow, equityBridgeFor, valuationShareCount, computeDcf,
+  type DcfTiming, type DcfPeriod, type TerminalValueMethod, type TerminalValueOptions,
+} from "@shared/valuation";
+
+interface ProjectionDrivers {
+  revenueGrowthRate: number;
+  cogsPercent: number;
+  smPercent: number;
+  rdPercent: number;
+  gaPercent: number;
+  taxRate: number;
+  arPercent: number;
+  apPercent: number;
+  dsoDays: number | null;
+  dioDays: number | null;
+  dpoDays: number | null;
+  workingCapitalDays: WorkingCapitalDaysByYear;
+  capexPercent: number;
+  depreciationMethod: DepreciationMethod;
+  usefulLifeYears: number;
+  depreciationRate: number;
+  existingAssetLifeYears: number;
+  initialCash: number;
+  dividendMethod: DividendMethod;
+  dividendPayoutRatio: number;
+  dividendPerShare: number;
+  buybackAmount: number;
+  buybackPrice: number | null;
+  cashInterestRate: number;
+  sbcPercent: number | null;
+  intangibleAmortizationPercent: number | null;
+  restructuringPercent: number;
+  openingNol: number | null;
+  nolAnnualLimit: number;
+  cashTaxRate: number | null;
+}
+
+function optionalNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = parseFloat(value);
+  return isNaN(n) ? null : n;
+}
+
+function driversFromAssumptions(a: Assumptions | undefined): ProjectionDrivers {
+  return {
+    revenueGrowthRate: a ? parseFloat(a.revenueGrowthRate) : 0.10,
+    cogsPercent: a ? parseFloat(a.cogsPercent) : 0.28,
+    smPercent: a ? parseFloat(a.salesMarketingPercent) : 0.22,
+    rdPercent: a ? parseFloat(a.rdPercent) : 0.18,
+    gaPercent: a ? parseFloat(a.gaPercent) : 0.08,
+    taxRate: a ? parseFloat(a.taxRate) : 0.25,
+    arPercent: a ? parseFloat(a.arPercent) : 0.12,
+    apPercent: a ? parseFloat(a.apPercent) : 0.08,
+    dsoDays: optionalNumber(a?.dsoDays),
+    dioDays: optionalNumber(a?.dioDays),
+    dpoDays: optionalNumber(a?.dpoDays),
+    workingCapitalDays: (a?.workingCapitalDays as WorkingCapitalDaysByYear | null) ?? {},
+    capexPercent: a ? parseFloat(a.capexPercent) : 0.04,
+    depreciationMethod: a?.depreciationMethod === "percent_of_ppe" ? "percent_of_ppe" : "useful_life",
+    usefulLifeYears: a ? parseFloat(a.usefulLifeYears) : 7,
+    depreciationRate: a ? parseFloat(a.depreciationRate) : 0.15,
+    existingAssetLifeYears: a ? parseFloat(a.existingAssetLifeYears) : 5,
+    initialCash: a ? parseFloat(a.initialCash) : 50000000,
+    dividendMethod: a?.dividendMethod === "per_share" ? "per_share" : "payout_ratio",
+    dividendPayoutRatio: a ? parseFloat(a.dividendPayoutRatio) : 0,
+    dividendPerShare: a ? parseFloat(a.dividendPerShare) : 0,
+    buybackAmount: a ? parseFloat(a.buybackAmount) : 0,
+    buybackPrice: optionalNumber(a?.buybackPrice),
+    cashInterestRate: a ? parseFloat(a.cashInterestRate) : 0.02,
+    sbcPercent: optionalNumber(a?.sbcPercent),
+    intangibleAmortizationPercent: optionalNumber(a?.intangibleAmortizationPercent),
+    restructuringPercent: a ? parseFloat(a.restructuringPercent) : 0,
+    openingNol: optionalNumber(a?.openingNol),
+    nolAnnualLimit: a ? parseFloat(a.nolAnnualLimit) : 0.8,
+    cashTaxRate: optionalNumber(a?.cashTaxRate),
+  };
+}
+
+// Depreciation isn't a revenue driver any more, so capex intensity stands in for steady-state D&A.
+// Other income is interest on cash, which isn't a share of revenue, so it's left out.
+function assumptionNetMargin(drivers: ProjectionDrivers): number {
+  const totalCostPct = drivers.cogsPercent + drivers.smPercent + drivers.rdPercent + drivers.gaPercent + drivers.capexPercent;
+  const preTaxMargin = 1 - totalCostPct;
+  return preTaxMargin * (1 - drivers.taxRate);
+}
+
+interface ProjectionContext {
+  modelId: string;
+  model: FinancialModel;
+  years: number[];
+  sharesOut: number;
+  // Buybacks without an assumed price retire shares at the current share price.
+  sharePrice: number;
+  existingIS: IncomeStatementLine[];
+  existingBS: BalanceSheetLine[];
+  existingCF: CashFlowLine[];
+  actualISYears: Set<number>;
+  actualBSYears: Set<number>;
+  actualCFYears: Set<number>;
+  debtTranches: DebtTranche[];
+  // Reported quarters (10-Q imports); existingIS/BS/CF hold annual rows only.
+  actualQuarterIS: IncomeStatementLine[];
+  actualQuarterBS: BalanceSheetLine[];
+  actualQuarterCF: CashFlowLine[];
+  // Total revenue by quarter for years whose revenue is entered quarterly.
+  quarterlyRevenue: Record<number, number[]>;
+  historicalSeasonality: number[] | null;
+}
+
+const MAX_INTEREST_ITERATIONS = 50;
+
+// Without tranches, projected years carry the latest actual debt balances flat at no interest.
+function trancheScheduleFor(ctx: ProjectionContext, projectedYears: number[]): DebtScheduleRow[] {
+  let tranches = ctx.debtTranches.map(t => ({
+    id: t.id as string | null, name: t.name, classification: t.classification as DebtScheduleRow["classification"],
+    balance: t.balance, interestRate: t.interestRate, amortizationRate: t.amortizationRate, maturityYear: t.maturityYear,
+  }));
+  if (tranches.length === 0) {
+    const lastActual = ctx.existingBS.filter(r => r.isActual && !r.quarter).sort((a, b) => b.year - a.year)[0];
+    tranches = [
+      { id: null, name: "Short-term debt (carried)", classification: "short_term" as const, balance: lastActual?.shortTermDebt || 0, interestRate: 0, amortizationRate: 0, maturityYear: null },
+      { id: null, name: "Long-term debt (carried)", classification: "long_term" as const, balance: lastActual?.longTermDebt || 0, interestRate: 0, amortizationRate: 0, maturityYear: null },
+    ].filter(t => t.balance > 0);
+  }
+
+  const rows: DebtScheduleRow[] = [];
+  for (const t of tranches) {
+    let balance = t.balance;
+    const scheduled = t.balance * t.amortizationRate;
+    for (const yr of projectedYears) {
+      const opening = balance;
+      const matured = t.maturityYear !== null && yr >= t.maturityYear;
+      const repayment = matured ? opening : Math.min(opening, scheduled);
+      balance = opening - repayment;
+      rows.push({
+        year: yr, trancheId: t.id, name: t.name, classification: t.classification,
+        opening, drawdown: 0, repayment, closing: balance,
+        interest: t.interestRate * (opening + balance) / 2,
+      });
+    }
+  }
+  return rows;
+}
+
+const DAYS_PER_YEAR = 365;
+
+// Used only when there is no DIO input and no actual year to seed from.
+const FALLBACK_INVENTORY_PERCENT = 0.03;
+
+type WorkingCapitalDays = Record<WorkingCapitalDayKey, number | null>;
+
+function daysOf(balance: number, flow: number): number | null {
+  return flow > 0 ? (balance / flow) * DAYS_PER_YEAR : null;
+}
+
+// DSO is keyed off revenue; DIO and DPO off COGS.
+export function workingCapitalDaysOf(
+  bs: { accountsReceivable: number | null; inventory: number | null; accountsPayable: number | null },
+  is: { revenue: number; cogs: number } | undefined,
+): WorkingCapitalDays {
+  return {
+    dso: daysOf(bs.accountsReceivable || 0, is?.revenue || 0),
+    dio: daysOf(bs.inventory || 0, is?.cogs || 0),
+    dpo: daysOf(bs.accountsPayable || 0, is?.cogs || 0),
+  };
+}
+
+function closingBalance(rows: DebtScheduleRow[], classification: DebtScheduleRow["classification"]): number {
+  return rows.filter(r => r.classification === classification).reduce((sum, r) => sum + r.closing, 0);
+}
+
+function openingBalance(rows: DebtScheduleRow[], classification: DebtScheduleRow["classification"]): number {
+  return rows.filter(r => r.classification === classification).reduce((sum, r) => sum + r.opening, 0);
+}
+
+function interestPerYear(rows: DebtScheduleRow[]): Record<number, number> {
+  const result: Record<number, number> = {};
+  for (const r of rows) result[r.year] = (result[r.year] || 0) + r.interest;
+  return result;
+}
+
+// Placeholder opening PP&E when the model has no actual balance sheet.
+const DEFAULT_OPENING_PPE = 15000000;
+
+interface FixedAssetRow {
+  capex: number;
+  existingDepreciation: number;
+  newDepreciation: number;
+  depreciation: number;
+  grossPpe: number;
+  accumulatedDepreciation: number;
+}
+
+// Beginning PP&E + capex - depreciation = ending PP&E, for every projected balance sheet year.
+// Net PP&E at the latest actual year runs off straight-line over existingAssetLifeYears; new capex
+// depreciates straight-line from the year it's spent, or at depreciationRate of its prior net balance.
+function fixedAssetScheduleFor(
+  ctx: ProjectionContext, drivers: ProjectionDrivers, annualRevenues: Record<number, number>,
+): Record<number, FixedAssetRow> {
+  const usefulLife = Math.max(1, drivers.usefulLifeYears || 1);
+  const existingLife = Math.max(1, drivers.existingAssetLifeYears || 1);
+  const schedule: Record<number, FixedAssetRow> = {};
+
+  let grossPpe = DEFAULT_OPENING_PPE;
+  let accumulated = 0;
+  let existingBase = grossPpe;
+  let existingRemaining = grossPpe;
+  let newAssetsNet = 0;
+  let vintages: Array<{ cost: number; remaining: number }> = [];
+
+  for (const yr of ctx.years) {
+    if (ctx.actualBSYears.has(yr)) {
+      const actual = ctx.existingBS.find(r => r.year === yr)!;
+      grossPpe = actual.equipment || 0;
+      accumulated = actual.depreciationAccum || 0;
+      existingBase = existingRemaining = Math.max(0, grossPpe - accumulated);
+      newAssetsNet = 0;
+      vintages = [];
+      continue;
+    }
+
+    const capex = (annualRevenues[yr] || 0) * drivers.capexPercent;
+    const existingDepreciation = Math.min(existingRemaining, existingBase / existingLife);
+    existingRemaining -= existingDepreciation;
+
+    let newDepreciation = 0;
+    if (drivers.depreciationMethod === "percent_of_ppe") {
+      newDepreciation = newAssetsNet * drivers.depreciationRate;
+      newAssetsNet += capex - newDepreciation;
+    } else {
+      vintages.push({ cost: capex, remaining: capex });
+      for (const v of vintages) {
+        const d = Math.min(v.remaining, v.cost / usefulLife);
+        v.remaining -= d;
+        newDepreciation += d;
+      }
+    }
+
+    const depreciation = existingDepreciation + newDepreciation;
+    grossPpe += capex;
+    accumulated += depreciation;
+    schedule[yr] = { capex, existingDepreciation, newDepreciation, depreciation, grossPpe, accumulatedDepreciation: accumulated };
+  }
+  return schedule;
+}
+
+type ISRow = {
+  modelId: string; year: number; isActual: boolean;
+  revenue: number; cogs: number; grossProfit: number;
+  salesMarketing: number; researchDevelopment: number; generalAdmin: number;
+  depreciation: number; totalExpenses: number; operatingIncome: number;
+  ebitda: number; otherIncome: number; interestExpense: number; preTaxIncome: number;
+  incomeTax: number; netIncome: number;
+  stockCompensation: number; intangibleAmortization: number; restructuring: number;
+  nonGaapTaxEffect: number; nonGaapNetIncome: number; sharesOutstanding: number;
+  eps: number; nonGaapEps: number;
+  cogsPercent: number; smPercent: number; rdPercent: number;
+  gaPercent: number; depreciationPercent: number; taxRate: number;
+};
+
+type CashFlowIncome = Pick<ISRow, "netIncome" | "depreciation" | "stockCompensation" | "interestExpense" | "preTaxIncome" | "taxRate">;
+
+type NonGaapInputs = Pick<ISRow, "netIncome" | "preTaxIncome" | "incomeTax" | "stockCompensation" | "intangibleAmortization" | "restructuring">;
+
+// GAAP to non-GAAP net income: the add-backs are tax-effected at the period's effective rate.
+export function nonGaapBridge(is: NonGaapInputs): { nonGaapTaxEffect: number; nonGaapNetIncome: number } {
+  const addBacks = is.stockCompensation + is.intangibleAmortization + is.restructuring;
+  const effectiveTaxRate = is.preTaxIncome > 0 ? is.incomeTax / is.preTaxIncome : 0;
+  const nonGaapTaxEffect = -addBacks * effectiveTaxRate;
+  return { nonGaapTaxEffect, nonGaapNetIncome: is.netIncome + addBacks + nonGaapTaxEffect };
+}
+
+interface CapitalReturns {
+  dividends: number;
+  buybacks: number;
+}
+
+interface ShareCount {
+  average: number;
+  closing: number;
+  buyback: number;
+}
+
+const NO_CAPITAL_RETURNS: CapitalReturns = { dividends: 0, buybacks: 0 };
+
+export interface TaxYear {
+  bookTax: number;
+  cashTax: number;
+  nolUsed: number;
+  nolClosing: number;
+}
+
+// Losses add to the NOL balance and profits use it up to nolLimit of taxable income. Book and
+// cash tax apply their own rates to what's left; neither books a benefit on a loss.
+export function taxForYear(preTax: number, nolOpening: number, bookRate: number, cashRate: number, nolLimit: number): TaxYear {
+  const opening = Math.max(0, nolOpening);
+  const nolUsed = preTax > 0 ? Math.min(opening, preTax * Math.min(Math.max(nolLimit, 0), 1)) : 0;
+  const taxable = Math.max(0, preTax - nolUsed);
+  return {
+    bookTax: taxable * bookRate,
+    cashTax: taxable * cashRate,
+    nolUsed,
+    nolClosing: opening - nolUsed + Math.max(0, -preTax),
+  };
+}
+
+// Without an opening balance sheet there are no working capital or debt movements to report, and
+// beginning cash is whatever the closing balance sheet implies.
+function projectedCashFlow(
+  is: CashFlowIncome | undefined, bs: Record<string, any> | undefined, prevBs: Record<string, any> | undefined,
+  capitalReturns: CapitalReturns = NO_CAPITAL_RETURNS,
+) {
+  const change = (field: string) => prevBs ? (bs?.[field] || 0) - (prevBs[field] || 0) : 0;
+  const netInc = is?.netIncome || 0;
+  const depAdd = is?.depreciation || 0;
+  const sbcAdd = is?.stockCompensation || 0;
+  const deferredTax = change("deferredTaxLiability");
+  const arChg = change("accountsReceivable");
+  const invChg = change("inventory");
+  const apChg = change("accountsPayable");
+  const opCF = netInc + depAdd + sbcAdd + deferredTax - arChg - invChg + apChg;
+  const capexVal = -(bs?.capex || 0);
+  const invCF = capexVal - change("shortTermInvestments");
+  const stDebtChg = change("shortTermDebt");
+  const ltDebtChg = change("longTermDebt");
+  const shareChg = -capitalReturns.buybacks;
+  const dividendsPaid = -capitalReturns.dividends;
+  const finCF = stDebtChg + ltDebtChg + shareChg + dividendsPaid;
+  const netCashChg = opCF + invCF + finCF;
+  const beginCash = prevBs ? (prevBs.cash || 0) : (bs?.cash || 0) - netCashChg;
+  const endCash = beginCash + netCashChg;
+  // Unlevered FCF: add back after-tax interest so the DCF isn't charged for financing twice.
+  const afterTaxInterest = (is?.interestExpense || 0) * (1 - ((is?.preTaxIncome || 0) > 0 ? is!.taxRate : 0));
+  const fcf = opCF + capexVal + afterTaxInterest;
+
+  return {
+    netIncome: Math.round(netInc),
+    depreciationAdd: Math.round(depAdd),
+    stockCompensationAdd: Math.round(sbcAdd),
+    deferredTaxes: Math.round(deferredTax),
+    arChange: Math.round(arChg),
+    inventoryChange: Math.round(invChg),
+    apChange: Math.round(apChg),
+    operatingCashFlow: Math.round(opCF),
+    capex: Math.round(capexVal),
+    investingCashFlow: Math.round(invCF),
+    shortTermDebtChange: Math.round(stDebtChg),
+    longTermDebtChange: Math.round(ltDebtChg),
+    commonSharesChange: Math.round(shareChg),
+    dividendsPaid: Math.round(dividendsPaid),
+    financingCashFlow: Math.round(finCF),
+    netCashChange: Math.round(netCashChg),
+    beginningCash: Math.round(beginCash),
+    endingCash: Math.round(endCash),
+    freeCashFlow: Math.round(fcf),
+  };
+}
+
+function projectStatements(ctx: ProjectionContext, drivers: ProjectionDrivers, annualRevenues: Record<number, number>) {
+  const { modelId, model, years, sharesOut, existingIS, existingBS, existingCF, actualISYears, actualBSYears, actualCFYears } = ctx;
+  const { taxRate, arPercent, apPercent, capexPercent, initialCash } = drivers;
+  const baseCogs = drivers.cogsPercent;
+  const baseSm = drivers.smPercent;
+  const baseRd = drivers.rdPercent;
+  const baseGa = drivers.gaPercent;
+
+  const targetNetMargin = model.targetNetMargin;
+  const totalYears = years.length;
+
+  const currentNetMarginFromAssumptions = assumptionNetMargin(drivers);
+
+  const getCostPercentsForYear = (yearIdx: number) => {
+    if (targetNetMargin === null || targetNetMargin === undefined || totalYears <= 1) {
+      return { cogsPercent: baseCogs, smPercent: baseSm, rdPercent: baseRd, gaPercent: baseGa };
+    }
+
+    const progress = yearIdx / (totalYears - 1);
+    const currentMargin = currentNetMarginFromAssumptions;
+    const marginGap = targetNetMargin - currentMargin;
+
+    if (Math.abs(marginGap) < 0.001) {
+      return { cogsPercent: baseCogs, smPercent: baseSm, rdPercent: baseRd, gaPercent: baseGa };
+    }
+
+    const adjustableCosts = [
+      { key: "cogsPercent", base: baseCogs, weight: 0.3 },
+      { key: "smPercent", base: baseSm, weight: 0.35 },
+      { key: "rdPercent", base: baseRd, weight: 0.2 },
+      { key: "gaPercent", base: baseGa, weight: 0.15 },
+    ];
+
+    const totalCostReductionNeeded = -marginGap / (1 - taxRate);
+    const result: Record<string, number> = {};
+
+    for (const cost of adjustableCosts) {
+      const adjustment = totalCostReductionNeeded * cost.weight * progress;
+      result[cost.key] = Math.max(0.01, cost.base + adjustment);
+    }
+
+    return {
+      cogsPercent: result.cogsPercent,
+      smPercent: result.smPercent,
+      rdPercent: result.rdPercent,
+      gaPercent: result.gaPercent,
+    };
+  };
+
+  const fixedAssets = fixedAssetScheduleFor(ctx, drivers, annualRevenues);
+
+  // Buybacks retire budget / price shares each projected year; EPS uses the year's average count.
+  const buybackPrice = drivers.buybackPrice ?? ctx.sharePrice;
+  const shareCounts: Record<number, ShareCount> = {};
+  let sharesClosing = sharesOut;
+  for (const yr of years.filter(y => !actualISYears.has(y))) {
+    const opening = sharesClosing;
+    const buyback = buybackPrice > 0 ? Math.min(Math.max(0, drivers.buybackAmount), opening * buybackPrice) : 0;
+    sharesClosing = opening - (buybackPrice > 0 ? buyback / buybackPrice : 0);
+    shareCounts[yr] = { average: (opening + sharesClosing) / 2, closing: sharesClosing, buyback };
+  }
+
+  // SBC and amortization without an assumption keep the latest actual year's share of revenue.
+  const latestActualIS = existingIS
+    .filter(r => actualISYears.has(r.year) && (r.revenue || 0) > 0)
+    .sort((a, b) => b.year - a.year)[0];
+  const actualShare = (field: "stockCompensation" | "intangibleAmortization") =>
+    latestActualIS ? (latestActualIS[field] || 0) / latestActualIS.revenue! : 0;
+  const sbcPercent = drivers.sbcPercent ?? actualShare("stockCompensation");
+  const amortizationPercent = drivers.intangibleAmortizationPercent ?? actualShare("intangibleAmortization");
+
+  const dividendsFor = (yr: number, netIncome: number) => drivers.dividendMethod === "per_share"
+    ? drivers.dividendPerShare * (shareCounts[yr]?.average ?? sharesOut)
+    : Math.max(0, netIncome) * drivers.dividendPayoutRatio;
+
+  // The NOL carried into the first projected year is the manual input, else the latest reported balance.
+  const latestReportedNol = existingBS
+    .filter(r => actualBSYears.has(r.year) && r.nolBalance !== null)
+    .sort((a, b) => b.year - a.year)[0]?.nolBalance;
+  const openingNol = drivers.openingNol ?? latestReportedNol ?? 0;
+  const cashTaxRate = drivers.cashTaxRate ?? taxRate;
+
+  const buildIncomeStatement = (interestByYear: Record<number, number>, cashInterestByYear: Record<number, number>) => {
+    const rows: ISRow[] = [];
+    const taxes: Record<number, TaxYear> = {};
+    let nol = openingNol;
+    for (const yr of years) {
+      const yearIdx = yr - model.startYear;
+
+      if (actualISYears.has(yr)) {
+        const actual = existingIS.find(r => r.year === yr)!;
+        rows.push({
+          modelId, year: yr, isActual: true,
+          revenue: actual.revenue || 0,
+          cogs: actual.cogs || 0,
+          grossProfit: actual.grossProfit || 0,
+          salesMarketing: actual.salesMarketing || 0,
+          researchDevelopment: actual.researchDevelopment || 0,
+          generalAdmin: actual.generalAdmin || 0,
+          depreciation: actual.depreciation || 0,
+          totalExpenses: actual.totalExpenses || 0,
+          operatingIncome: actual.operatingIncome || 0,
+          ebitda: actual.ebitda || 0,
+          otherIncome: actual.otherIncome || 0,
+          interestExpense: actual.interestExpense || 0,
+          preTaxIncome: actual.preTaxIncome || 0,
+          incomeTax: actual.incomeTax || 0,
+          netIncome: actual.netIncome || 0,
+          stockCompensation: actual.stockCompensation || 0,
+          intangibleAmortization: actual.intangibleAmortization || 0,
+          restructuring: actual.restructuring || 0,
+          nonGaapTaxEffect: actual.nonGaapTaxEffect || 0,
+          nonGaapNetIncome: actual.nonGaapNetIncome || 0,
+          sharesOutstanding: actual.sharesOutstanding || sharesOut,
+          eps: actual.eps || 0,
+          nonGaapEps: actual.nonGaapEps || 0,
+          cogsPercent: actual.cogsPercent || 0,
+          smPercent: actual.smPercent || 0,
+          rdPercent: actual.rdPercent || 0,
+          gaPercent: actual.gaPercent || 0,
+          depreciationPercent: actual.depreciationPercent || 0,
+          taxRate: actual.taxRate || 0,
+        });
+        continue;
+      }
+
+      const totalRev = annualRevenues[yr];
+      const { cogsPercent, smPercent, rdPercent, gaPercent } = getCostPercentsForYear(yearIdx);
+      const cogs = totalRev * cogsPercent;
+      const gp = totalRev - cogs;
+      const sm = totalRev * smPercent;
+      const rd = totalRev * rdPercent;
+      const ga = totalRev * gaPercent;
+      const dep = fixedAssets[yr]?.depreciation ?? totalRev * capexPercent;
+      const totalExp = sm + rd + ga + dep;
+      const opIncome = gp - totalExp;
+      const ebitda = opIncome + dep;
+      const otherInc = cashInterestByYear[yr] || 0;
+      const interest = interestByYear[yr] || 0;
+      const preTax = opIncome + otherInc - interest;
+      const taxYear = taxForYear(preTax, nol, taxRate, cashTaxRate, drivers.nolAnnualLimit);
+      taxes[yr] = taxYear;
+      nol = taxYear.nolClosing;
+      const tax = taxYear.bookTax;
+      const netInc = preTax - tax;
+      const shares = shareCounts[yr]?.average ?? sharesOut;
+      const eps = shares > 0 ? netInc / shares : 0;
+      const addBacks = {
+        stockCompensation: totalRev * sbcPercent,
+        intangibleAmortization: totalRev * amortizationPercent,
+        restructuring: totalRev * drivers.restructuringPercent,
+      };
+      const { nonGaapTaxEffect, nonGaapNetIncome } = nonGaapBridge({ netIncome: netInc, preTaxIncome: preTax, incomeTax: tax, ...addBacks });
+      const nonGaapEps = shares > 0 ? nonGaapNetIncome / shares : 0;
+
+      rows.push({
+        modelId, year: yr, isActual: false,
+        revenue: Math.round(totalRev),
+        cogs: Math.round(cogs),
+        grossProfit: Math.round(gp),
+        salesMarketing: Math.round(sm),
+        researchDevelopment: Math.round(rd),
+        generalAdmin: Math.round(ga),
+        depreciation: Math.round(dep),
+        totalExpenses: Math.round(totalExp),
+        operatingIncome: Math.round(opIncome),
+        ebitda: Math.round(ebitda),
+        otherIncome: Math.round(otherInc),
+        interestExpense: Math.round(interest),
+        preTaxIncome: Math.round(preTax),
+        incomeTax: Math.round(tax),
+        netIncome: Math.round(netInc),
+        stockCompensation: Math.round(addBacks.stockCompensation),
+        intangibleAmortization: Math.round(addBacks.intangibleAmortization),
+        restructuring: Math.round(addBacks.restructuring),
+        nonGaapTaxEffect: Math.round(nonGaapTaxEffect),
+        nonGaapNetIncome: Math.round(nonGaapNetIncome),
+        sharesOutstanding: Math.round(shares),
+        eps: Math.round(eps * 100) / 100,
+        nonGaapEps: Math.round(nonGaapEps * 100) / 100,
+        cogsPercent, smPercent, rdPercent, gaPercent,
+        depreciationPercent: totalRev ? dep / totalRev : 0, taxRate,
+      });
+    }
+    return { rows, taxes };
+  };
+
+  const minimumCash = model.minimumCash ?? 0;
+  const revolverCapacity = model.revolverCapacity ?? 0;
+  const revolverRate = model.revolverRate ?? 0.07;
+  const trancheSchedule = trancheScheduleFor(ctx, years.filter(yr => !actualBSYears.has(yr)));
+
+  // A model that starts without a reported balance sheet opens with its initial cash, the default
+  // PP&E and its existing debt, with common stock funding the difference.
+  const openingBalanceSheet = actualBSYears.has(years[0]) ? undefined : (() => {
+    const firstTranches = trancheSchedule.filter(r => r.year === years[0]);
+    const shortTermDebt = openingBalance(firstTranches, "short_term");
+    const longTermDebt = openingBalance(firstTranches, "long_term");
+    const totalAssets = initialCash + DEFAULT_OPENING_PPE;
+    return {
+      modelId, year: years[0] - 1, isActual: false,
+      cash: initialCash, shortTermInvestments: 0, accountsReceivable: 0, inventory: 0,
+      totalCurrentAssets: initialCash, equipment: DEFAULT_OPENING_PPE, depreciationAccum: 0, capex: 0,
+      totalLongTermAssets: DEFAULT_OPENING_PPE, totalAssets,
+      accountsPayable: 0, shortTermDebt, totalCurrentLiabilities: shortTermDebt,
+      longTermDebt, deferredTaxLiability: 0, totalLongTermLiabilities: longTermDebt, totalLiabilities: shortTermDebt + longTermDebt,
+      retainedEarnings: 0, commonShares: totalAssets - shortTermDebt - longTermDebt,
+      totalEquity: totalAssets - shortTermDebt - longTermDebt, totalLiabilitiesAndEquity: totalAssets,
+    };
+  })();
+
+  const buildBalanceSheet = (isRows: ISRow[], taxes: Record<number, TaxYear>) => {
+    // Projected days fall back to the most recent actual year that has them.
+    const seedDays: WorkingCapitalDays = { dso: null, dio: null, dpo: null };
+    for (const yr of years.filter(y => actualBSYears.has(y))) {
+      const actualDays = workingCapitalDaysOf(existingBS.find(r => r.year === yr)!, isRows[yr - model.startYear]);
+      for (const key of ["dso", "dio", "dpo"] as const) {
+        if (actualDays[key] !== null) seedDays[key] = actualDays[key];
+      }
+    }
+
+    const rows: Array<Record<string, any>> = [];
+    const revolverRows: DebtScheduleRow[] = [];
+    const capitalReturns: Record<number, CapitalReturns> = {};
+    let retainedEarnings = openingBalanceSheet?.retainedEarnings ?? 0;
+    let commonShares = openingBalanceSheet?.commonShares ?? 0;
+    let deferredTaxLiability = 0;
+    let shortTermInvestments = 0;
+    let revolverBalance = 0;
+
+    for (const yr of years) {
+      const yearIdx = yr - model.startYear;
+      const netInc = isRows[yearIdx]?.netIncome || 0;
+      retainedEarnings += netInc;
+
+      if (actualBSYears.has(yr)) {
+        const actual = existingBS.find(r => r.year === yr)!;
+        // Projections roll forward from the reported equity and balances.
+        retainedEarnings = actual.retainedEarnings || 0;
+        commonShares = actual.commonShares || 0;
+        deferredTaxLiability = actual.deferredTaxLiability || 0;
+        shortTermInvestments = actual.shortTermInvestments || 0;
+        rows.push({
+          modelId, year: yr, isActual: true,
+          ...workingCapitalDaysOf(actual, isRows[yearIdx]),
+          cash: actual.cash || 0,
+          shortTermInvestments,
+          accountsReceivable: actual.accountsReceivable || 0,
+          inventory: actual.inventory || 0,
+          totalCurrentAssets: actual.totalCurrentAssets || 0,
+          equipment: actual.equipment || 0,
+          depreciationAccum: actual.depreciationAccum || 0,
+          capex: actual.capex || 0,
+          totalLongTermAssets: actual.totalLongTermAssets || 0,
+          totalAssets: actual.totalAssets || 0,
+          accountsPayable: actual.accountsPayable || 0,
+          shortTermDebt: actual.shortTermDebt || 0,
+          totalCurrentLiabilities: actual.totalCurrentLiabilities || 0,
+          longTermDebt: actual.longTermDebt || 0,
+          deferredTaxLiability,
+          totalLongTermLiabilities: actual.totalLongTermLiabilities || 0,
+          totalLiabilities: actual.totalLiabilities || 0,
+          retainedEarnings,
+          commonShares,
+          totalEquity: actual.totalEquity || 0,
+          totalLiabilitiesAndEquity: actual.totalLiabilitiesAndEquity || 0,
+          arPercent: actual.arPercent, inventoryPercent: actual.inventoryPercent,
+          apPercent: actual.apPercent, capexPercent: actual.capexPercent,
+          nolBalance: actual.nolBalance,
+        });
+        continue;
+      }
+
+      // Dividends come out of retained earnings; repurchased shares are retired against common
+      // stock, and SBC, a non-cash expense, is credited to it.
+      const returns = { dividends: dividendsFor(yr, netInc), buybacks: shareCounts[yr]?.buyback || 0 };
+      capitalReturns[yr] = returns;
+      retainedEarnings -= returns.dividends;
+      commonShares += (isRows[yearIdx]?.stockCompensation || 0) - returns.buybacks;
+      // Book tax expensed above cash tax paid is owed later.
+      const taxYear = taxes[yr];
+      if (taxYear) deferredTaxLiability += taxYear.bookTax - taxYear.cashTax;
+
+      const totalRev = annualRevenues[yr];
+      const cogs = isRows[yearIdx]?.cogs || 0;
+      const override = drivers.workingCapitalDays[yr] ?? {};
+      const dso = override.dso ?? drivers.dsoDays ?? seedDays.dso;
+      const dio = override.dio ?? drivers.dioDays ?? seedDays.dio;
+      const dpo = override.dpo ?? drivers.dpoDays ?? seedDays.dpo;
+      const ar = dso !== null ? totalRev * dso / DAYS_PER_YEAR : totalRev * arPercent;
+      const inv = dio !== null ? cogs * dio / DAYS_PER_YEAR : totalRev * FALLBACK_INVENTORY_PERCENT;
+      // Short-term investments are held at the last reported balance.
+      const stInv = shortTermInvestments;
+      const ppe = fixedAssets[yr];
+      const equip = ppe.grossPpe;
+      const depAccum = ppe.accumulatedDepreciation;
+      const capex = ppe.capex;
+      const totalLTA = equip - depAccum;
+
+      const ap = dpo !== null ? cogs * dpo / DAYS_PER_YEAR : totalRev * apPercent;
+      const trancheRows = trancheSchedule.filter(r => r.year === yr);
+      const shortTermTranches = closingBalance(trancheRows, "short_term");
+      const ltDebt = closingBalance(trancheRows, "long_term");
+      const totalEquity = commonShares + retainedEarnings;
+      const nonCashCurrentAssets = stInv + ar + inv;
+
+      // The revolver draws to restore minimum cash and is repaid from any excess.
+      const revolverOpening = revolverBalance;
+      const cashBeforeRevolver = ap + shortTermTranches + revolverOpening + ltDebt + deferredTaxLiability + totalEquity - nonCashCurrentAssets - totalLTA;
+      const drawdown = cashBeforeRevolver < minimumCash
+        ? Math.max(0, Math.min(minimumCash - cashBeforeRevolver, revolverCapacity - revolverOpening))
+        : 0;
+      const repayment = cashBeforeRevolver > minimumCash ? Math.min(revolverOpening, cashBeforeRevolver - minimumCash) : 0;
+      revolverBalance = revolverOpening + drawdown - repayment;
+      if (revolverCapacity > 0 || revolverOpening > 0) {
+        revolverRows.push({
+          year: yr, trancheId: null, name: "Revolver", classification: "short_term",
+          opening: revolverOpening, drawdown, repayment, closing: revolverBalance,
+          interest: revolverRate * (revolverOpening + revolverBalance) / 2,
+        });
+      }
+
+      const stDebt = shortTermTranches + revolverBalance;
+      const totalCL = ap + stDebt;
+      const totalLTL = ltDebt + deferredTaxLiability;
+      const totalLiab = totalCL + totalLTL;
+      const totalLE = totalLiab + totalEquity;
+      const cash = totalLE - nonCashCurrentAssets - totalLTA;
+
+      const totalCA = cash + nonCashCurrentAssets;
+      const totalAssets = totalCA + totalLTA;
+
+      rows.push({
+        modelId, year: yr, isActual: false,
+        cash: Math.round(cash),
+        shortTermInvestments: Math.round(stInv),
+        accountsReceivable: Math.round(ar),
+        inventory: Math.round(inv),
+        totalCurrentAssets: Math.round(totalCA),
+        equipment: Math.round(equip),
+        depreciationAccum: Math.round(depAccum),
+        capex: Math.round(capex),
+        totalLongTermAssets: Math.round(totalLTA),
+        totalAssets: Math.round(totalAssets),
+        accountsPayable: Math.round(ap),
+        shortTermDebt: Math.round(stDebt),
+        totalCurrentLiabilities: Math.round(totalCL),
+        longTermDebt: Math.round(ltDebt),
+        deferredTaxLiability: Math.round(deferredTaxLiability),
+        totalLongTermLiabilities: Math.round(totalLTL),
+        totalLiabilities: Math.round(totalLiab),
+        retainedEarnings: Math.round(retainedEarnings),
+        commonShares: Math.round(commonShares),
+        totalEquity: Math.round(totalEquity),
+        totalLiabilitiesAndEquity: Math.round(totalLE),
+        arPercent: totalRev ? ar / totalRev : 0,
+        inventoryPercent: totalRev ? inv / totalRev : 0,
+        apPercent: totalRev ? ap / totalRev : 0,
+        capexPercent,
+        ...workingCapitalDaysOf({ accountsReceivable: ar, inventory: inv, accountsPayable: ap }, { revenue: totalRev, cogs }),
+        nolBalance: taxYear ? Math.round(taxYear.nolClosing) : null,
+      });
+    }
+    return { rows, revolverRows, capitalReturns };
+  };
+
+  // Interest income on the average of opening and closing cash; a negative balance earns nothing.
+  const cashInterestFor = (bsRows: Array<Record<string, any>>): Record<number, number> => {
+    const result: Record<number, number> = {};
+    bsRows.forEach((row, i) => {
+      if (row.isActual) return;
+      const opening = i > 0 ? bsRows[i - 1].cash || 0 : openingBalanceSheet?.cash ?? 0;
+      result[row.year] = drivers.cashInterestRate * Math.max(0, (opening + row.cash) / 2);
+    });
+    return result;
+  };
+
+  // Revolver interest and interest on cash both depend on cash, which depends on net income
+  // after them, so rebuild the IS and BS until average-balance interest settles.
+  const trancheInterest = interestPerYear(trancheSchedule);
+  const settled = (a: Record<number, number>, b: Record<number, number>) => years.every(yr => Math.abs((a[yr] || 0) - (b[yr] || 0)) < 1);
+  let revolverInterest: Record<number, number> = {};
+  let cashInterest: Record<number, number> = {};
+  let income = buildIncomeStatement(trancheInterest, cashInterest);
+  let balanceSheet = buildBalanceSheet(income.rows, income.taxes);
+  for (let i = 0; i < MAX_INTEREST_ITERATIONS; i++) {
+    const next = interestPerYear(balanceSheet.revolverRows);
+    const nextCash = cashInterestFor(balanceSheet.rows);
+    const converged = settled(next, revolverInterest) && settled(nextCash, cashInterest);
+    revolverInterest = next;
+    cashInterest = nextCash;
+    if (converged) break;
+    income = buildIncomeStatement(Object.fromEntries(years.map(yr => [yr, (trancheInterest[yr] || 0) + (revolverInterest[yr] || 0)])), cashInterest);
+    balanceSheet = buildBalanceSheet(income.rows, income.taxes);
+  }
+  const isData = income.rows;
+  const { capitalReturns } = balanceSheet;
+  const bsData = balanceSheet.rows;
+  const debtSchedule = [...trancheSchedule, ...balanceSheet.revolverRows].sort((a, b) => a.year - b.year);
+
+  const cfData: Array<Record<string, any>> = [];
+  for (const yr of years) {
+    const yearIdx = yr - model.startYear;
+
+    if (actualCFYears.has(yr)) {
+      const actual = existingCF.find(r => r.year === yr)!;
+      cfData.push({
+        modelId, year: yr, isActual: true,
+        netIncome: actual.netIncome || 0,
+        depreciationAdd: actual.depreciationAdd || 0,
+        stockCompensationAdd: actual.stockCompensationAdd || 0,
+        deferredTaxes: actual.deferredTaxes || 0,
+        arChange: actual.arChange || 0,
+        inventoryChange: actual.inventoryChange || 0,
+        apChange: actual.apChange || 0,
+        operatingCashFlow: actual.operatingCashFlow || 0,
+        capex: actual.capex || 0,
+        investingCashFlow: actual.investingCashFlow || 0,
+        shortTermDebtChange: actual.shortTermDebtChange || 0,
+        longTermDebtChange: actual.longTermDebtChange || 0,
+        commonSharesChange: actual.commonSharesChange || 0,
+        dividendsPaid: actual.dividendsPaid || 0,
+        financingCashFlow: actual.financingCashFlow || 0,
+        netCashChange: actual.netCashChange || 0,
+        beginningCash: actual.beginningCash || 0,
+        endingCash: actual.endingCash || 0,
+        freeCashFlow: actual.freeCashFlow || 0,
+      });
+      continue;
+    }
+
+    cfData.push({
+      modelId, year: yr, isActual: false,
+      ...projectedCashFlow(isData[yearIdx], bsData[yearIdx], yearIdx > 0 ? bsData[yearIdx - 1] : openingBalanceSheet, capitalReturns[yr]),
+    });
+  }
+
+  return { isData, bsData, cfData, debtSchedule, capitalReturns, shareCounts, openingBalanceSheet };
+}
+
+const QUARTERS = [1, 2, 3, 4];
+
+function quarterShares(amounts: number[] | undefined): number[] | null {
+  if (!amounts || amounts.length !== 4 || amounts.some(a => a < 0)) return null;
+  const total = amounts.reduce((sum, a) => sum + a, 0);
+  return total > 0 ? amounts.map(a => a / total) : null;
+}
+
+function isEvenSplit(mix: number[]): boolean {
+  return mix.every(share => Math.abs(share - 0.25) <= 0.0001);
+}
+
+// A projected year's own quarterly revenue sets its mix, unless it's just the annual
+// figure split evenly; then the average historical mix applies.
+function seasonalityFor(ctx: ProjectionContext, yr: number): number[] {
+  const own = quarterShares(ctx.quarterlyRevenue[yr]);
+  if (own && !isEvenSplit(own)) return own;
+  return ctx.historicalSeasonality ?? [0.25, 0.25, 0.25, 0.25];
+}
+
+type QuarterIncome = CashFlowIncome & { revenue: number; cogs: number };
+
+function reportedQuarterIncome(r: IncomeStatementLine): QuarterIncome {
+  return {
+    revenue: r.revenue || 0, cogs: r.cogs || 0, netIncome: r.netIncome || 0, depreciation: r.depreciation || 0,
+    stockCompensation: r.stockCompensation || 0, interestExpense: r.interestExpense || 0, preTaxIncome: r.preTaxIncome || 0, taxRate: r.taxRate || 0,
+  };
+}
+
+// Quarters split each projected year rather than running a projection of their own, so
+// Q1-Q4 flows sum to the annual statements and the Q4 balance sheet is the year-end one.
+// Reported quarters are kept and later quarters roll forward from them.
+function projectQuarters(
+  ctx: ProjectionContext,
+  projection: {
+    isData: ISRow[]; bsData: Array<Record<string, any>>; capitalReturns: Record<number, CapitalReturns>;
+    openingBalanceSheet: Record<string, any> | undefined;
+  },
+) {
+  const { modelId, years, actualISYears, actualBSYears, actualCFYears } = ctx;
+  const isRows: Array<ISRow & { quarter: number }> = [];
+  const bsRows: Array<Record<string, any>> = [];
+  const cfRows: Array<Record<string, any>> = [];
+  const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+  for (const yr of years) {
+    if (actualISYears.has(yr) || actualBSYears.has(yr) || actualCFYears.has(yr)) continue;
+    const annualIS = projection.isData.find(r => r.year === yr);
+    const annualBS = projection.bsData.find(r => r.year === yr);
+    const opening = projection.bsData.find(r => r.year === yr - 1) ?? projection.openingBalanceSheet;
+    if (!annualIS || !annualBS || !opening) continue;
+    const shares = seasonalityFor(ctx, yr);
+    // Interim tax uses the annual effective rate, so a loss quarter in a profitable year books a benefit.
+    const effectiveTaxRate = annualIS.preTaxIncome > 0 ? annualIS.incomeTax / annualIS.preTaxIncome : 0;
+    // Dividends and buybacks are paid evenly through the year.
+    const annualReturns = projection.capitalReturns[yr] ?? NO_CAPITAL_RETURNS;
+    const quarterReturns = { dividends: annualReturns.dividends / 4, buybacks: annualReturns.buybacks / 4 };
+
+    const quarterCapex = (annualBS.equipment - (opening.equipment || 0)) / 4;
+    let prevBS: Record<string, any> = opening;
+    let retainedEarnings: number = opening.retainedEarnings || 0;
+
+    for (const q of QUARTERS) {
+      const share = shares[q - 1];
+      const reportedIS = ctx.actualQuarterIS.find(r => r.year === yr && r.quarter === q);
+      const reportedBS = ctx.actualQuarterBS.find(r => r.year === yr && r.quarter === q);
+      const reportedCF = ctx.actualQuarterCF.find(r => r.year === yr && r.quarter === q);
+
+      let income: QuarterIncome;
+      if (reportedIS) {
+        income = reportedQuarterIncome(reportedIS);
+      } else {
+        const rev = annualIS.revenue * share;
+        const cogs = annualIS.cogs * share;
+        const gp = rev - cogs;
+        const sm = annualIS.salesMarketing * share;
+        const rd = annualIS.researchDevelopment * share;
+        const ga = annualIS.generalAdmin * share;
+        const dep = annualIS.depreciation / 4;
+        const totalExp = sm + rd + ga + dep;
+        const opIncome = gp - totalExp;
+        const otherInc = annualIS.otherIncome * share;
+        const interest = annualIS.interestExpense / 4;
+        const preTax = opIncome + otherInc - interest;
+        const tax = preTax * effectiveTaxRate;
+        const netInc = preTax - tax;
+        const eps = annualIS.sharesOutstanding > 0 ? netInc / annualIS.sharesOutstanding : 0;
+        // Add-backs accrue evenly, like depreciation, so the SBC credit matches common stock's quarterly path.
+        const addBacks = {
+          stockCompensation: annualIS.stockCompensation / 4,
+          intangibleAmortization: annualIS.intangibleAmortization / 4,
+          restructuring: annualIS.restructuring / 4,
+        };
+        const { nonGaapTaxEffect, nonGaapNetIncome } = nonGaapBridge({ netIncome: netInc, preTaxIncome: preTax, incomeTax: tax, ...addBacks });
+        const nonGaapEps = annualIS.sharesOutstanding > 0 ? nonGaapNetIncome / annualIS.sharesOutstanding : 0;
+        isRows.push({
+          ...annualIS, quarter: q,
+          revenue: Math.round(rev),
+          cogs: Math.round(cogs),
+          grossProfit: Math.round(gp),
+          salesMarketing: Math.round(sm),
+          researchDevelopment: Math.round(rd),
+          generalAdmin: Math.round(ga),
+          depreciation: Math.round(dep),
+          totalExpenses: Math.round(totalExp),
+          operatingIncome: Math.round(opIncome),
+          ebitda: Math.round(opIncome + dep),
+          otherIncome: Math.round(otherInc),
+          interestExpense: Math.round(interest),
+          preTaxIncome: Math.round(preTax),
+          incomeTax: Math.round(tax),
+          netIncome: Math.round(netInc),
+          stockCompensation: Math.round(addBacks.stockCompensation),
+          intangibleAmortization: Math.round(addBacks.intangibleAmortization),
+          restructuring: Math.round(addBacks.restructuring),
+          nonGaapTaxEffect: Math.round(nonGaapTaxEffect),
+          nonGaapNetIncome: Math.round(nonGaapNetIncome),
+          eps: Math.round(eps * 100) / 100,
+          nonGaapEps: Math.round(nonGaapEps * 100) / 100,
+          depreciationPercent: rev ? dep / rev : 0,
+        });
+        income = {
+          revenue: rev, cogs, netIncome: netInc, depreciation: dep, stockCompensation: addBacks.stockCompensation,
+          interestExpense: interest, preTaxIncome: preTax, taxRate: annualIS.taxRate,
+        };
+      }
+
+      let bs: Record<string, any>;
+      if (reportedBS) {
+        bs = reportedBS;
+        retainedEarnings = reportedBS.retainedEarnings || 0;
+      } else if (q === 4) {
+        bs = { ...annualBS, quarter: 4, capex: Math.round(quarterCapex) };
+        bsRows.push(bs);
+      } else {
+        const t = q / 4;
+        retainedEarnings += income.netIncome - quarterReturns.dividends;
+        // Working capital days apply to annualized quarterly flows.
+        const workingCapital = (days: number | null, flow: number, field: string) =>
+          days !== null && days !== undefined ? flow * 4 * days / DAYS_PER_YEAR : lerp(opening[field] || 0, annualBS[field] || 0, t);
+        const ar = workingCapital(annualBS.dso, income.revenue, "accountsReceivable");
+        const inv = workingCapital(annualBS.dio, income.cogs, "inventory");
+        const ap = workingCapital(annualBS.dpo, income.cogs, "accountsPayable");
+        const stInv = lerp(opening.shortTermInvestments || 0, annualBS.shortTermInvestments, t);
+        const equip = lerp(opening.equipment || 0, annualBS.equipment, t);
+        const depAccum = lerp(opening.depreciationAccum || 0, annualBS.depreciationAccum, t);
+        const stDebt = lerp(opening.shortTermDebt || 0, annualBS.shortTermDebt, t);
+        const ltDebt = lerp(opening.longTermDebt || 0, annualBS.longTermDebt, t);
+        const deferredTaxLiability = lerp(opening.deferredTaxLiability || 0, annualBS.deferredTaxLiability || 0, t);
+        const commonShares = lerp(opening.commonShares || 0, annualBS.commonShares, t);
+
+        const totalLTA = equip - depAccum;
+        const nonCashCurrentAssets = stInv + ar + inv;
+        const totalCL = ap + stDebt;
+        const totalLTL = ltDebt + deferredTaxLiability;
+        const totalLiab = totalCL + totalLTL;
+        const totalEquity = commonShares + retainedEarnings;
+        const totalLE = totalLiab + totalEquity;
+        const cash = totalLE - nonCashCurrentAssets - totalLTA;
+        const totalCA = cash + nonCashCurrentAssets;
+        const annualizedRevenue = income.revenue * 4;
+
+        bs = {
+          modelId, year: yr, quarter: q, isActual: false,
+          cash: Math.round(cash),
+          shortTermInvestments: Math.round(stInv),
+          accountsReceivable: Math.round(ar),
+          inventory: Math.round(inv),
+          totalCurrentAssets: Math.round(totalCA),
+          equipment: Math.round(equip),
+          depreciationAccum: Math.round(depAccum),
+          capex: Math.round(quarterCapex),
+          totalLongTermAssets: Math.round(totalLTA),
+          totalAssets: Math.round(totalCA + totalLTA),
+          accountsPayable: Math.round(ap),
+          shortTermDebt: Math.round(stDebt),
+          totalCurrentLiabilities: Math.round(totalCL),
+          longTermDebt: Math.round(ltDebt),
+          deferredTaxLiability: Math.round(deferredTaxLiability),
+          totalLongTermLiabilities: Math.round(totalLTL),
+          totalLiabilities: Math.round(totalLiab),
+          retainedEarnings: Math.round(retainedEarnings),
+          commonShares: Math.round(commonShares),
+          totalEquity: Math.round(totalEquity),
+          totalLiabilitiesAndEquity: Math.round(totalLE),
+          arPercent: annualizedRevenue ? ar / annualizedRevenue : 0,
+          inventoryPercent: annualizedRevenue ? inv / annualizedRevenue : 0,
+          apPercent: annualizedRevenue ? ap / annualizedRevenue : 0,
+          capexPercent: annualBS.capexPercent,
+          ...workingCapitalDaysOf({ accountsReceivable: ar, inventory: inv, accountsPayable: ap }, { revenue: annualizedRevenue, cogs: income.cogs * 4 }),
+        };
+        bsRows.push(bs);
+      }
+
+      if (!reportedCF) {
+        cfRows.push({ modelId, year: yr, quarter: q, isActual: false, ...projectedCashFlow(income, bs, prevBS, quarterReturns) });
+      }
+      prevBS = bs;
+    }
+  }
+  return { isRows, bsRows, cfRows };
+}
+
+export function finalYearEbitda(periods: DcfPeriod[], isRows: Array<Record<string, any>>): number {
+  const last = periods[periods.length - 1];
+  if (!last) return 0;
+  return isRows.find(r => r.year === last.year)?.ebitda || 0;
+}
+
+// Scenario revenue follows the base case year-over-year path, shifted by the
+// difference between the scenario's and the base case's growth assumption.
+function scenarioRevenuesFor(
+  baseRevenues: Record<number, number>, years: number[], actualYears: Set<number>, growthDelta: number,
+): Record<number, number> {
+  const result: Record<number, number> = {};
+  for (let i = 0; i < years.length; i++) {
+    const yr = years[i];
+    const prevYr = years[i - 1];
+    const prevBase = i > 0 ? baseRevenues[prevYr] || 0 : 0;
+    if (i === 0 || actualYears.has(yr) || prevBase <= 0) {
+      result[yr] = baseRevenues[yr] || 0;
+      continue;
+    }
+    const growth = (baseRevenues[yr] || 0) / prevBase - 1 + growthDelta;
+    result[yr] = Math.max(0, Math.round(result[prevYr] * (1 + growth)));
+  }
+  return result;
+}
+
+function isBullScenario(s: Scenario) {
+  return s.type === "optimistic" || s.type === "bull";
+}
+
+function isBearScenario(s: Scenario) {
+  return s.type === "pessimistic" || s.type === "bear";
+}
+
+// Everything a recalculation reads for one model, as stored. The engine sorts actual from
+// projected and annual from quarterly rows itself.
+export interface ModelSnapshot {
+  model: FinancialModel;
+  lineItems: RevenueLineItem[];
+  periods: RevenuePeriod[];
+  assumptions: Assumptions[];
+  scenarios: Scenario[];
+  incomeStatement: IncomeStatementLine[];
+  balanceSheet: BalanceSheetLine[];
+  cashFlow: CashFlowLine[];
+  dcf?: DcfValuation;
+  valuation?: ValuationComparison;
+  debtTranches: DebtTranche[];
+}
+
+function projectionInputsFor(snapshot: ModelSnapshot) {
+  const { model, lineItems, periods, dcf } = snapshot;
+  const modelId = model.id;
+  const assumptionsList = snapshot.assumptions;
+  const scenarioList = snapshot.scenarios;
+  const baseAssumptions = assumptionsList.find(a => !a.scenarioId) || assumptionsList[0];
+
+  const allIS = snapshot.incomeStatement;
+  const allBS = snapshot.balanceSheet;
+  const allCF = snapshot.cashFlow;
+  const existingIS = allIS.filter(r => !r.quarter);
+  const existingBS = allBS.filter(r => !r.quarter);
+  const existingCF = allCF.filter(r => !r.quarter);
+  const actualQuarterIS = allIS.filter(r => r.quarter && r.isActual);
+
+  const actualISYears = new Set(existingIS.filter(r => r.isActual).map(r => r.year));
+  const actualBSYears = new Set(existingBS.filter(r => r.isActual).map(r => r.year));
+  const actualCFYears = new Set(existingCF.filter(r => r.isActual).map(r => r.year));
+
+  const tranches = [...snapshot.debtTranches].sort((a, b) => a.sortOrder - b.sortOrder);
+
+  const years = Array.from({ length: model.endYear - model.startYear + 1 }, (_, i) => model.startYear + i);
+  const sharesOut = model.sharesOutstanding || 50000000;
+
+  const quarterlyRevenue: Record<number, number[]> = {};
+  for (const yr of years) {
+    const quarterPeriods = periods.filter(p => p.year === yr && p.quarter);
+    if (QUARTERS.every(q => quarterPeriods.some(p => p.quarter === q))) {
+      quarterlyRevenue[yr] = QUARTERS.map(q => quarterPeriods.filter(p => p.quarter === q).reduce((s, p) => s + (p.amount || 0), 0));
+    }
+  }
+
+  // Reported quarterly income statements take precedence over actual quarterly revenue entries.
+  const historicalMixes: number[][] = [];
+  for (const yr of years) {
+    const reported = QUARTERS.map(q => actualQuarterIS.find(r => r.year === yr && r.quarter === q)?.revenue);
+    const fromStatements = reported.every(v => typeof v === "number") ? quarterShares(reported as number[]) : null;
+    const hasActualRevenue = actualISYears.has(yr) || periods.some(p => p.year === yr && p.quarter && p.isActual);
+    const mix = fromStatements ?? (hasActualRevenue ? quarterShares(quarterlyRevenue[yr]) : null);
+    // Older imports spread the annual figure evenly, which says nothing about seasonality.
+    if (mix && !isEvenSplit(mix)) historicalMixes.push(mix);
+  }
+  const historicalSeasonality = historicalMixes.length > 0
+    ? QUARTERS.map((_, i) => historicalMixes.reduce((sum, mix) => sum + mix[i], 0) / historicalMixes.length)
+    : null;
+
+  const ctx: ProjectionContext = {
+    modelId, model, years, sharesOut,
+    sharePrice: dcfSettingsFor(dcf).currentSharePrice,
+    existingIS, existingBS, existingCF,
+    actualISYears, actualBSYears, actualCFYears,
+    debtTranches: tranches,
+    actualQuarterIS,
+    actualQuarterBS: allBS.filter(r => r.quarter && r.isActual),
+    actualQuarterCF: allCF.filter(r => r.quarter && r.isActual),
+    quarterlyRevenue,
+    historicalSeasonality,
+  };
+  const baseDrivers = driversFromAssumptions(baseAssumptions);
+
+  const getAnnualRevenue = (year: number): number => {
+    let total = 0;
+    for (const li of lineItems) {
+      const quarterlyPeriods = periods.filter(p => p.lineItemId === li.id && p.year === year && p.quarter);
+      if (quarterlyPeriods.length > 0) {
+        total += quarterlyPeriods.reduce((s, p) => s + (p.amount || 0), 0);
+      } else {
+        const annualPeriod = periods.find(p => p.lineItemId === li.id && p.year === year && !p.quarter);
+        total += annualPeriod?.amount || 0;
+      }
+    }
+    return total;
+  };
+
+  const annualRevenues: Record<number, number> = {};
+  for (const yr of years) {
+    annualRevenues[yr] = getAnnualRevenue(yr);
+  }
+
+  return {
+    model, ctx, years, sharesOut, assumptionsList, scenarioList, baseDrivers, annualRevenues,
+    actualISYears, actualBSYears, actualCFYears,
+  };
+}
+
+
+interface DcfSettings {
+  riskFreeRate: number;
+  beta: number;
+  marketReturn: number;
+  costOfDebt: number;
+  taxRate: number;
+  equityWeight: number;
+  debtWeight: number;
+  longTermGrowth: number;
+  currentSharePrice: number;
+  timing: DcfTiming;
+  terminalMethod: TerminalValueMethod;
+  exitMultiple: number;
+  blendWeight: number;
+}
+
+function dcfSettingsFor(dcf: DcfValuation | undefined): DcfSettings {
+  return {
+    riskFreeRate: dcf?.riskFreeRate ?? 0.043,
+    beta: dcf?.beta ?? 1.25,
+    marketReturn: dcf?.marketReturn ?? 0.10,
+    costOfDebt: dcf?.costOfDebt ?? 0.055,
+    taxRate: dcf?.taxRate ?? 0.25,
+    equityWeight: dcf?.equityWeight ?? 0.70,
+    debtWeight: dcf?.debtWeight ?? 0.30,
+    longTermGrowth: dcf?.longTermGrowth ?? 0.025,
+    currentSharePrice: dcf?.currentSharePrice ?? 45,
+    timing: {
+      valuationDate: dcf?.valuationDate ?? null,
+      midYearConvention: dcf?.midYearConvention ?? false,
+      stubPeriod: dcf?.stubPeriod ?? false,
+    },
+    terminalMethod: (dcf?.terminalValueMethod as TerminalValueMethod) ?? "perpetuity",
+    exitMultiple: dcf?.exitMultiple ?? 10,
+    blendWeight: dcf?.terminalBlendWeight ?? 0.5,
+  };
+}
+
+function waccFor(s: DcfSettings) {
+  const costOfEquity = s.riskFreeRate + s.beta * (s.marketReturn - s.riskFreeRate);
+  const wacc = costOfEquity * s.equityWeight + s.costOfDebt * (1 - s.taxRate) * s.debtWeight;
+  return { costOfEquity, wacc };
+}
+
+function terminalOptionsFor(s: DcfSettings, periods: DcfPeriod[], isRows: Array<Record<string, any>>): TerminalValueOptions {
+  return {
+    method: s.terminalMethod,
+    exitMultiple: s.exitMultiple,
+    blendWeight: s.blendWeight,
+    finalEbitda: finalYearEbitda(periods, isRows),
+  };
+}
+
+
+// Projects the statements and values the model without touching the database; the caller
+// decides what to persist.
+export function recalculateSnapshot(snapshot: ModelSnapshot, now = new Date()) {
+  const {
+    model, ctx, years, sharesOut, assumptionsList, scenarioList, baseDrivers, annualRevenues,
+    actualISYears,
+  } = projectionInputsFor(snapshot);
+  const modelId = model.id;
+
+  const { isData, bsData, cfData, debtSchedule, capitalReturns, shareCounts, openingBalanceSheet } = projectStatements(ctx, baseDrivers, annualRevenues);
+
+  const quarters = model.quarterlyProjections
+    ? projectQuarters(ctx, { isData, bsData, capitalReturns, openingBalanceSheet })
+    : { isRows: [], bsRows: [], cfRows: [] };
+
+  const existingDcf = snapshot.dcf;
+  const settings = dcfSettingsFor(existingDcf);
+  const { timing, riskFreeRate, beta, marketReturn, costOfDebt, equityWeight, debtWeight, longTermGrowth, currentSharePrice } = settings;
+  const dcfTaxRate = settings.taxRate;
+  const { costOfEquity, wacc } = waccFor(settings);
+  const terminalFor = (periods: DcfPeriod[], isRows: Array<Record<string, any>>) => terminalOptionsFor(settings, periods, isRows);
+
+  const basePeriods = dcfPeriodsFor(cfData, timing);
+  const bridgeRow = bridgeBalanceSheetRow(bsData, basePeriods);
+  const bridge = equityBridgeFor(bridgeRow, existingDcf?.equityBridgeOverrides as EquityBridgeOverrides | null);
+  const basicShares = valuationShareCount(shareCounts, bridgeRow, sharesOut);
+  const dcfShares = existingDcf?.dilutedShares || basicShares;
+  const { npv, tv, tvDisc, targetEV, targetPrice } = computeDcf(basePeriods, wacc, longTermGrowth, bridge.netDebt, dcfShares, terminalFor(basePeriods, isData));
+
+  const dcfPayload = {
+    modelId,
+    riskFreeRate, beta, marketReturn, costOfDebt,
+    taxRate: dcfTaxRate, equityWeight, debtWeight, longTermGrowth,
+    currentSharePrice, totalDebt: Math.round(bridge.totalDebt), sharesOutstanding: Math.round(basicShares),
+    costOfEquity: Math.round(costOfEquity * 10000) / 10000,
+    wacc: Math.round(wacc * 10000) / 10000,
+    npv: Math.round(npv),
+    terminalValue: Math.round(tv),
+    terminalValueDiscounted: Math.round(tvDisc),
+    targetEquityValue: Math.round(targetEV),
+    targetValue: Math.round(npv + tvDisc),
+    targetPricePerShare: Math.round(targetPrice * 100) / 100,
+  };
+
+  const scenarioOutputs: Array<{ scenario: Scenario; results: ScenarioResults }> = [];
+  for (const scenario of scenarioList) {
+    const scenarioAssumptions = assumptionsList.find(a => a.scenarioId === scenario.id);
+    const drivers = scenarioAssumptions ? driversFromAssumptions(scenarioAssumptions) : baseDrivers;
+    const revenue = scenarioRevenuesFor(annualRevenues, years, actualISYears, drivers.revenueGrowthRate - baseDrivers.revenueGrowthRate);
+    const projection = projectStatements(ctx, drivers, revenue);
+    const scenarioPeriods = dcfPeriodsFor(projection.cfData, timing);
+    const scenarioShares = existingDcf?.dilutedShares || valuationShareCount(projection.shareCounts, bridgeRow, sharesOut);
+    const scenarioDcf = computeDcf(scenarioPeriods, wacc, longTermGrowth, bridge.netDebt, scenarioShares, terminalFor(scenarioPeriods, projection.isData));
+
+    const results: ScenarioResults = {
+      revenue,
+      incomeStatement: projection.isData.map(r => ({
+        year: r.year, isActual: r.isActual, revenue: r.revenue, grossProfit: r.grossProfit,
+        operatingIncome: r.operatingIncome, ebitda: r.ebitda, netIncome: r.netIncome, eps: r.eps,
+      })),
+      balanceSheet: projection.bsData.map(r => ({
+        year: r.year, isActual: r.isActual, cash: r.cash, totalAssets: r.totalAssets,
+        totalLiabilities: r.totalLiabilities, totalEquity: r.totalEquity,
+      })),
+      cashFlow: projection.cfData.map(r => ({
+        year: r.year, isActual: r.isActual, operatingCashFlow: r.operatingCashFlow,
+        capex: r.capex, freeCashFlow: r.freeCashFlow, endingCash: r.endingCash,
+      })),
+      dcf: {
+        npv: Math.round(scenarioDcf.npv),
+        terminalValue: Math.round(scenarioDcf.tv),
+        terminalValueDiscounted: Math.round(scenarioDcf.tvDisc),
+        targetEquityValue: Math.round(scenarioDcf.targetEV),
+        targetPricePerShare: Math.round(scenarioDcf.targetPrice * 100) / 100,
+      },
+      calculatedAt: now.toISOString(),
+    };
+    scenarioOutputs.push({ scenario, results });
+  }
+
+  const existingVal = snapshot.valuation;
+  const lastRevenue = annualRevenues[years[years.length - 1]] || 0;
+
+  const nonZeroEpsData = isData.filter(d => d.eps !== 0);
+  const lastEPS = nonZeroEpsData.length > 0 ? nonZeroEpsData[nonZeroEpsData.length - 1].eps : (isData[isData.length - 1]?.eps || 0);
+
+  let earningsGrowth = 0.25;
+  if (nonZeroEpsData.length >= 2) {
+    const prev = nonZeroEpsData[nonZeroEpsData.length - 2].eps;
+    const curr = nonZeroEpsData[nonZeroEpsData.length - 1].eps;
+    if (Math.abs(prev) > 0.001) {
+      earningsGrowth = (curr - prev) / Math.abs(prev);
+    }
+  } else if (isData.length >= 2) {
+    const prev = isData[isData.length - 2]?.eps;
+    if (prev && Math.abs(prev) > 0.001) {
+      earningsGrowth = (lastEPS - prev) / Math.abs(prev);
+    }
+  }
+
+  const prBullMult = existingVal?.prBullMultiple ?? 10;
+  const prBaseMult = existingVal?.prBaseMultiple ?? 7.5;
+  const prBearMult = existingVal?.prBearMultiple ?? 5;
+  const peBullPeg = existingVal?.peBullPeg ?? 2;
+  const peBasePeg = existingVal?.peBasePeg ?? 1.5;
+  const peBearPeg = existingVal?.peBearPeg ?? 1;
+
+  const rps = sharesOut > 0 ? lastRevenue / sharesOut : 0;
+  const growthPct = Math.max(earningsGrowth * 100, 1);
+
+  const peTargetPrice = (eps: number, growth: number, peg: number) => {
+    if (Math.abs(eps) < 0.001) return 0;
+    return Math.round(eps * growth * peg * 100) / 100;
+  };
+
+  const bullMult = model.scenarioBullMultiplier ?? 1.2;
+  const bearMult = model.scenarioBearMultiplier ?? 0.8;
+
+  const bullScenario = scenarioOutputs.find(o => isBullScenario(o.scenario));
+  const bearScenario = scenarioOutputs.find(o => isBearScenario(o.scenario));
+
+  const scenarioRevenues: Record<string, Record<number, number>> = { bull: {}, base: {}, bear: {} };
+  for (let i = 1; i < years.length; i++) {
+    const yr = years[i];
+    const prevRev = annualRevenues[years[i - 1]] || 0;
+    const curRev = annualRevenues[yr] || 0;
+    if (prevRev > 0 && curRev > 0) {
+      const yoyGrowth = (curRev - prevRev) / prevRev;
+      scenarioRevenues.bull[yr] = bullScenario ? bullScenario.results.revenue[yr] : Math.round(prevRev * (1 + yoyGrowth * bullMult));
+      scenarioRevenues.base[yr] = Math.round(curRev);
+      scenarioRevenues.bear[yr] = bearScenario ? bearScenario.results.revenue[yr] : Math.round(prevRev * (1 + yoyGrowth * bearMult));
+    }
+  }
+
+  const baseTargetPrice = Math.round(targetPrice * 100) / 100;
+  const scenarioTargets = [
+    { id: "base", name: "Base Case", type: "base", color: "#3b82f6", weight: model.scenarioBaseWeight ?? 1, targetPrice: baseTargetPrice },
+    ...scenarioOutputs.map(({ scenario, results }) => ({
+      id: scenario.id, name: scenario.name, type: scenario.type, color: scenario.color,
+      weight: scenario.weight ?? 0, targetPrice: results.dcf.targetPricePerShare,
+    })),
+  ];
+  const totalWeight = scenarioTargets.reduce((s, t) => s + Math.max(t.weight, 0), 0);
+  const weightedTarget = totalWeight > 0
+    ? scenarioTargets.reduce((s, t) => s + Math.max(t.weight, 0) * t.targetPrice, 0) / totalWeight
+    : baseTargetPrice;
+
+  const valPayload = {
+    modelId,
+    currentSharePrice,
+    prBullMultiple: prBullMult, prBaseMultiple: prBaseMult, prBearMultiple: prBearMult,
+    peBullPeg, peBasePeg, peBearPeg,
+    prBullTarget: Math.round(rps * prBullMult * 100) / 100,
+    prBaseTarget: Math.round(rps * prBaseMult * 100) / 100,
+    prBearTarget: Math.round(rps * prBearMult * 100) / 100,
+    peBullTarget: peTargetPrice(lastEPS, growthPct, peBullPeg),
+    peBaseTarget: peTargetPrice(lastEPS, growthPct, peBasePeg),
+    peBearTarget: peTargetPrice(lastEPS, growthPct, peBearPeg),
+    // Bull and bear DCF targets come from the scenarios' own runs; without one, the case is the base case.
+    dcfBullTarget: bullScenario?.results.dcf.targetPricePerShare ?? baseTargetPrice,
+    dcfBaseTarget: baseTargetPrice,
+    dcfBearTarget: bearScenario?.results.dcf.targetPricePerShare ?? baseTargetPrice,
+    averageTarget: 0,
+    weightedTarget: Math.round(weightedTarget * 100) / 100,
+    percentToTarget: 0,
+  };
+
+  const allTargets = [
+    valPayload.prBullTarget, valPayload.prBaseTarget, valPayload.prBearTarget,
+    valPayload.peBullTarget, valPayload.peBaseTarget, valPayload.peBearTarget,
+    valPayload.dcfBullTarget, valPayload.dcfBaseTarget, valPayload.dcfBearTarget,
+  ];
+  valPayload.averageTarget = Math.round(allTargets.reduce((s, v) => s + v, 0) / allTargets.length * 100) / 100;
+  valPayload.percentToTarget = currentSharePrice > 0
+    ? Math.round((valPayload.averageTarget - currentSharePrice) / currentSharePrice * 10000) / 10000
+    : 0;
+
+  const existingValData = (existingVal?.valuationData as Record<string, any>) || {};
+
+  return {
+    years,
+    revenue: annualRevenues,
+    incomeStatement: isData,
+    balanceSheet: bsData,
+    cashFlow: cfData,
+    quarters,
+    debtSchedule,
+    dcf: dcfPayload,
+    equityBridge: bridge,
+    valuation: valPayload,
+    valuationData: { ...existingValData, scenarioRevenues, scenarioTargets },
+    scenarios: scenarioOutputs,
+  };
+}
+
+export type Recalculation = ReturnType<typeof recalculateSnapshot>;
+
+
+
+export function debtScheduleFor(snapshot: ModelSnapshot): DebtScheduleRow[] {
+  const { ctx, baseDrivers, annualRevenues } = projectionInputsFor(snapshot);
+  return projectStatements(ctx, baseDrivers, annualRevenues).debtSchedule;
+}
+
+export const SENSITIVITY_DRIVERS: SensitivityDriver[] = [
+  "wacc", "longTermGrowth", "revenueGrowth", "targetNetMargin", "exitMultiple", "beta",
+];
+
+export const MAX_SENSITIVITY_STEPS = 15;
+
+// Default grid steps around the base value when the caller doesn't supply values.
+const DEFAULT_SENSITIVITY_STEPS: Record<SensitivityDriver, number[]> = {
+  wacc: [-0.02, -0.01, 0, 0.01, 0.02],
+  longTermGrowth: [-0.01, -0.005, 0, 0.005, 0.01],
+  revenueGrowth: [-0.05, -0.025, 0, 0.025, 0.05],
+  targetNetMargin: [-0.05, -0.025, 0, 0.025, 0.05],
+  exitMultiple: [-2, -1, 0, 1, 2],
+  beta: [-0.2, -0.1, 0, 0.1, 0.2],
+};
+
+export interface SensitivityAxis {
+  driver: SensitivityDriver;
+  values?: number[];
+}
+
+// What-if reruns hold the base case's equity bridge and share count fixed while drivers move.
+function whatIfInputsFor(snapshot: ModelSnapshot) {
+  const inputs = projectionInputsFor(snapshot);
+  const existingDcf = snapshot.dcf;
+  const settings = dcfSettingsFor(existingDcf);
+  const baseProjection = projectStatements(inputs.ctx, inputs.baseDrivers, inputs.annualRevenues);
+  const basePeriods = dcfPeriodsFor(baseProjection.cfData, settings.timing);
+  const bridgeRow = bridgeBalanceSheetRow(baseProjection.bsData, basePeriods);
+  const bridge = equityBridgeFor(bridgeRow, existingDcf?.equityBridgeOverrides as EquityBridgeOverrides | null);
+  const shares = existingDcf?.dilutedShares || valuationShareCount(baseProjection.shareCounts, bridgeRow, inputs.sharesOut);
+  return { ...inputs, existingDcf, settings, baseProjection, bridge, shares };
+}
+
+// Reruns projections and the DCF for every cell, so revenue growth and margin
+// flow through the statements rather than scaling FCF directly.
+export function sensitivityGridFor(snapshot: ModelSnapshot, rows: SensitivityAxis, columns: SensitivityAxis): SensitivityGrid {
+  const {
+    ctx, years, baseDrivers, annualRevenues, actualISYears, baseProjection, bridge, shares,
+    settings: baseSettings,
+  } = whatIfInputsFor(snapshot);
+
+  const baseValues: Record<SensitivityDriver, number> = {
+    wacc: waccFor(baseSettings).wacc,
+    longTermGrowth: baseSettings.longTermGrowth,
+    revenueGrowth: baseDrivers.revenueGrowthRate,
+    targetNetMargin: ctx.model.targetNetMargin ?? assumptionNetMargin(baseDrivers),
+    exitMultiple: baseSettings.exitMultiple,
+    beta: baseSettings.beta,
+  };
+  const axisValues = (axis: SensitivityAxis) => axis.values?.length
+    ? axis.values
+    : DEFAULT_SENSITIVITY_STEPS[axis.driver].map(d => Math.round((baseValues[axis.driver] + d) * 10000) / 10000);
+
+  const priceAt = (point: Partial<Record<SensitivityDriver, number>>): number | null => {
+    const settings: DcfSettings = {
+      ...baseSettings,
+      beta: point.beta ?? baseSettings.beta,
+      longTermGrowth: point.longTermGrowth ?? baseSettings.longTermGrowth,
+      exitMultiple: point.exitMultiple ?? baseSettings.exitMultiple,
+    };
+    const wacc = point.wacc ?? waccFor(settings).wacc;
+    if (wacc <= settings.longTermGrowth && settings.terminalMethod !== "exit_multiple") return null;
+
+    let projection = baseProjection;
+    if (point.revenueGrowth !== undefined || point.targetNetMargin !== undefined) {
+      const pointCtx = point.targetNetMargin !== undefined
+        ? { ...ctx, model: { ...ctx.model, targetNetMargin: point.targetNetMargin } }
+        : ctx;
+      const revenue = point.revenueGrowth !== undefined
+        ? scenarioRevenuesFor(annualRevenues, years, actualISYears, point.revenueGrowth - baseDrivers.revenueGrowthRate)
+        : annualRevenues;
+      projection = projectStatements(pointCtx, baseDrivers, revenue);
+    }
+    const periods = dcfPeriodsFor(projection.cfData, settings.timing);
+    if (periods.length === 0) return null;
+    const result = computeDcf(periods, wacc, settings.longTermGrowth, bridge.netDebt, shares, terminalOptionsFor(settings, periods, projection.isData));
+    return Math.round(result.targetPrice * 100) / 100;
+  };
+
+  const rowValues = axisValues(rows);
+  const columnValues = axisValues(columns);
+  return {
+    rowDriver: rows.driver,
+    columnDriver: columns.driver,
+    rowValues,
+    columnValues,
+    values: rowValues.map(r => columnValues.map(c => priceAt({ [rows.driver]: r, [columns.driver]: c }))),
+    baseValues,
+    baseTargetPrice: priceAt({}) ?? 0,
+    currentSharePrice: baseSettings.currentSharePrice,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+export const GOAL_SEEK_INPUTS: GoalSeekInput[] = [
+  "revenueGrowth", "targetNetMargin", "wacc", "longTermGrowth", "cogsPercent", "salesMarketingPercent", "rdPercent", "gaPercent",
+];
+
+export const GOAL_SEEK_OUTPUTS: GoalSeekOutput[] = ["targetPrice", "eps", "fcfMargin"];
+
+// Search ranges used when the caller doesn't bound the input.
+const GOAL_SEEK_RANGES: Record<GoalSeekInput, [number, number]> = {
+  revenueGrowth: [-0.5, 1],
+  targetNetMargin: [-0.5, 0.6],
+  wacc: [0.01, 0.3],
+  longTermGrowth: [-0.05, 0.1],
+  cogsPercent: [0, 1],
+  salesMarketingPercent: [0, 1],
+  rdPercent: [0, 1],
+  gaPercent: [0, 1],
+};
+
+const GOAL_SEEK_COST_DRIVERS: Partial<Record<GoalSeekInput, "cogsPercent" | "smPercent" | "rdPercent" | "gaPercent">> = {
+  cogsPercent: "cogsPercent",
+  salesMarketingPercent: "smPercent",
+  rdPercent: "rdPercent",
+  gaPercent: "gaPercent",
+};
+
+// EPS is rounded to cents, so it can only be hit to within half a cent.
+const GOAL_SEEK_TOLERANCE: Record<GoalSeekOutput, number> = { targetPrice: 0.005, eps: 0.005, fcfMargin: 0.00005 };
+const GOAL_SEEK_SCAN_STEPS = 20;
+const MAX_GOAL_SEEK_ITERATIONS = 60;
+
+export interface GoalSeekRequest {
+  input: GoalSeekInput;
+  output: GoalSeekOutput;
+  target: number;
+  // EPS and FCF margin are read from this year; defaults to the model's last year.
+  year?: number;
+  lower?: number;
+  upper?: number;
+}
+
+// Scans the search range for the crossing nearest the current value, then bisects it. Every
+// step reruns the projections in memory, the same way as the sensitivity grid.
+export function goalSeekFor(snapshot: ModelSnapshot, request: GoalSeekRequest): GoalSeekResult {
+  const { ctx, years, baseDrivers, annualRevenues, actualISYears, settings, baseProjection, bridge, shares } = whatIfInputsFor(snapshot);
+  const { input, output, target } = request;
+  const year = output === "targetPrice" ? null : request.year ?? years[years.length - 1];
+  const lower = request.lower ?? GOAL_SEEK_RANGES[input][0];
+  const upper = request.upper ?? GOAL_SEEK_RANGES[input][1];
+  const costDriver = GOAL_SEEK_COST_DRIVERS[input];
+
+  const baseValues: Record<GoalSeekInput, number> = {
+    revenueGrowth: baseDrivers.revenueGrowthRate,
+    targetNetMargin: ctx.model.targetNetMargin ?? assumptionNetMargin(baseDrivers),
+    wacc: waccFor(settings).wacc,
+    longTermGrowth: settings.longTermGrowth,
+    cogsPercent: baseDrivers.cogsPercent,
+    salesMarketingPercent: baseDrivers.smPercent,
+    rdPercent: baseDrivers.rdPercent,
+    gaPercent: baseDrivers.gaPercent,
+  };
+  const baseValue = baseValues[input];
+
+  let evaluations = 0;
+  const outputAt = (value: number): number | null => {
+    evaluations++;
+    let projection = baseProjection;
+    if (input === "revenueGrowth") {
+      const revenue = scenarioRevenuesFor(annualRevenues, years, actualISYears, value - baseDrivers.revenueGrowthRate);
+      projection = projectStatements(ctx, baseDrivers, revenue);
+    } else if (input === "targetNetMargin") {
+      projection = projectStatements({ ...ctx, model: { ...ctx.model, targetNetMargin: value } }, baseDrivers, annualRevenues);
+    } else if (costDriver) {
+      projection = projectStatements(ctx, { ...baseDrivers, [costDriver]: value }, annualRevenues);
+    }
+
+    if (output === "eps") return projection.isData.find(r => r.year === year)?.eps ?? null;
+    if (output === "fcfMargin") {
+      const revenue = projection.isData.find(r => r.year === year)?.revenue || 0;
+      const cf = projection.cfData.find(r => r.year === year);
+      return cf && revenue > 0 ? (cf.freeCashFlow || 0) / revenue : null;
+    }
+    const wacc = input === "wacc" ? value : waccFor(settings).wacc;
+    const growth = input === "longTermGrowth" ? value : settings.longTermGrowth;
+    if (wacc <= growth && settings.terminalMethod !== "exit_multiple") return null;
+    const periods = dcfPeriodsFor(projection.cfData, settings.timing);
+    if (periods.length === 0) return null;
+    return computeDcf(periods, wacc, growth, bridge.netDebt, shares, terminalOptionsFor(settings, periods, projection.isData)).targetPrice;
+  };
+  const tolerance = GOAL_SEEK_TOLERANCE[output];
+  const gapAt = (value: number) => {
+    const out = outputAt(value);
+    return out === null || !isFinite(out) ? null : out - target;
+  };
+
+  // Undefined points (WACC at or below terminal growth, no revenue) break the scan into segments.
+  const samples: Array<{ x: number; gap: number | null }> = [];
+  for (let i = 0; i <= GOAL_SEEK_SCAN_STEPS; i++) {
+    const x = lower + (upper - lower) * i / GOAL_SEEK_SCAN_STEPS;
+    samples.push({ x, gap: gapAt(x) });
+  }
+  let bracket: [number, number, number] | null = null;
+  for (let i = 1; i < samples.length; i++) {
+    const a = samples[i - 1], b = samples[i];
+    if (a.gap === null || b.gap === null || Math.sign(a.gap) === Math.sign(b.gap)) continue;
+    if (!bracket || Math.abs((a.x + b.x) / 2 - baseValue) < Math.abs((bracket[0] + bracket[1]) / 2 - baseValue)) {
+      bracket = [a.x, b.x, a.gap];
+    }
+  }
+
+  let solved: { x: number; gap: number } | null = null;
+  if (bracket) {
+    let [lo, hi, gapLo] = bracket;
+    for (let i = 0; i < MAX_GOAL_SEEK_ITERATIONS; i++) {
+      const mid = (lo + hi) / 2;
+      const gapMid = gapAt(mid);
+      if (gapMid === null) break;
+      solved = { x: mid, gap: gapMid };
+      if (Math.abs(gapMid) <= tolerance || hi - lo < 1e-9) break;
+      if (Math.sign(gapMid) === Math.sign(gapLo)) {
+        lo = mid;
+        gapLo = gapMid;
+      } else {
+        hi = mid;
+      }
+    }
+  }
+  // Without a crossing, report the closest value tried so the caller can see how far off it is.
+  for (const sample of samples) {
+    if (sample.gap !== null && (!solved || Math.abs(sample.gap) < Math.abs(solved.gap))) {
+      solved = { x: sample.x, gap: sample.gap };
+    }
+  }
+
+  const baseOutput = outputAt(baseValue);
+  return {
+    input, output, year, target, lower, upper, baseValue,
+    baseOutput: baseOutput === null ? null : Math.round(baseOutput * 10000) / 10000,
+    solvedValue: solved ? Math.round(solved.x * 1000000) / 1000000 : null,
+    achievedOutput: solved ? Math.round((solved.gap + target) * 10000) / 10000 : null,
+    converged: !!solved && Math.abs(solved.gap) <= tolerance,
+    evaluations,
+  };
+}
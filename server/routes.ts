@@ -1,14 +1,21 @@
 import type { Express, Request, Response } from "express";
 import { Server } from "http";
 import { storage } from "./storage";
-import { recalculateModel, forecastForward } from "./recalculate";
+import { recalculateModel, forecastForward, generateSensitivityGrid, previewDebtSchedule, goalSeek } from "./recalculate";
+import { SENSITIVITY_DRIVERS, MAX_SENSITIVITY_STEPS, GOAL_SEEK_INPUTS, GOAL_SEEK_OUTPUTS } from "./recalculation-engine";
 import { fetchLiveIndices, fetchFredIndicators, fetchPortfolioQuotes, fetchSingleIndexQuote, fetchSingleFredSeries, fetchCompanyFundamentals } from "./live-data";
 import { fetchAndParseEdgar } from "./edgar-parser";
-import { searchCompanyByTicker, getCompanyFilings, fetchAndParseAllStatements } from "./sec-search";
+import {
+  searchCompanyByTicker, getCompanyFilings, fetchAndParseAllStatements, fetchHistoricalStatements, FILING_FORMS,
+} from "./sec-search";
+import {
+  incomeStatementFromEdgar, balanceSheetFromEdgar, cashFlowFromEdgar, subtractFlows, CF_FLOW_FIELDS,
+  reconcileQuarterlyActuals, importRevenueLines, modelTrailingTwelveMonths, mappedValues, customLinesOrNull, MAPPING_TARGET_FIELDS,
+} from "./sec-import";
 import { streamCopilotToResponse } from "./copilot";
 import { db } from "./db";
 import { eq, and, sql, count } from "drizzle-orm";
-import { revenuePeriods, users, financialModels, portfolioPositions, cryptoProjects, subscriptions, macroIndicators, marketIndices } from "@shared/schema";
+import { revenuePeriods, users, financialModels, portfolioPositions, cryptoProjects, subscriptions, macroIndicators, marketIndices, EQUITY_BRIDGE_ITEMS } from "@shared/schema";
 import { isAuthenticated } from "./replit_integrations/auth";
 import {
   insertFinancialModelSchema, insertRevenueLineItemSchema,
@@ -17,10 +24,11 @@ import {
   insertDcfValuationSchema, insertValuationComparisonSchema,
   insertPortfolioPositionSchema, insertPortfolioLotSchema, insertMacroIndicatorSchema,
   insertMarketIndexSchema, insertPortfolioRedFlagSchema,
-  insertScenarioSchema, insertAssumptionsSchema,
+  insertScenarioSchema, insertAssumptionsSchema, insertDebtTrancheSchema,
   insertActualsSchema, insertReportSchema,
   insertCryptoProjectSchema, insertTokenSupplyScheduleSchema,
   insertTokenIncentiveSchema,
+  type InsertDcfValuation, type InsertDebtTranche, type InsertAssumptions, type CalibrationMethod,
 } from "@shared/schema";
 import {
   searchCoins, searchCoinByContract, looksLikeContractAddress, getCoinMarketData, getMultipleCoinMarketData, mapCoinGeckoToProject,
@@ -32,6 +40,12 @@ import { getTokenEmissions, getBatchTokenEmissions, TOKEN_CATEGORIES, getTokenCa
 import { getUserPlanInfo, checkLimit, incrementAiCalls, incrementPdfParses, type LimitCheckResult } from "./plan-limits";
 import { getUncachableStripeClient, getStripePublishableKey } from "./stripeClient";
 import { getOrCreateSubscription, updateSubscriptionPlan, cancelSubscription } from "./plan-limits";
+import { buildModelExportSheets, buildPortfolioExportSheets, toExportFile, MODEL_EXPORT_SECTIONS, type ExportFormat, type ModelExportSection } from "./export";
+import { buildModelBundle, importModelBundle, duplicateModel, modelBundleSchema } from "./model-bundle";
+import { createSnapshot, diffSnapshots, isSnapshot, restoreSnapshot, summarizeSnapshot } from "./snapshots";
+import { requireOwnership, requireBodyOwnership, ownershipParam, withoutOwnerKeys } from "./authorization";
+import { checkModelIntegrity, balanceSheetTotals } from "./integrity";
+import { calibrateModelAssumptions, CALIBRATION_METHODS, DEFAULT_LOOKBACK_YEARS } from "./calibration";
 
 type Params = Record<string, string>;
 
@@ -44,12 +58,41 @@ function formatNum(n: number | null | undefined): string {
   return n.toLocaleString();
 }
 
+function debtTrancheError(data: Partial<InsertDebtTranche>): string | null {
+  if (data.classification !== undefined && !["short_term", "long_term"].includes(data.classification)) {
+    return "classification must be 'short_term' or 'long_term'";
+  }
+  for (const field of ["balance", "interestRate", "amortizationRate"] as const) {
+    if (data[field] != null && data[field]! < 0) return `${field} must be non-negative`;
+  }
+  if (data.amortizationRate != null && data.amortizationRate > 1) return "amortizationRate must be at most 1";
+  return null;
+}
+
+function calibrationParams(method: unknown, years: unknown): { method: CalibrationMethod; lookbackYears: number } | { error: string } {
+  const lookbackYears = years === undefined || years === "" ? DEFAULT_LOOKBACK_YEARS : Number(years);
+  if (method !== undefined && !CALIBRATION_METHODS.includes(method as CalibrationMethod)) {
+    return { error: `method must be one of ${CALIBRATION_METHODS.join(", ")}` };
+  }
+  if (!Number.isInteger(lookbackYears) || lookbackYears < 1 || lookbackYears > 20) {
+    return { error: "years must be a whole number from 1 to 20" };
+  }
+  return { method: (method ?? "median") as CalibrationMethod, lookbackYears };
+}
+
+// SEC pads CIKs to ten digits in some places and not others; mappings are stored unpadded.
+function normalizeCik(cik: string): string {
+  return /^\d{1,10}$/.test(cik) ? String(parseInt(cik, 10)) : "";
+}
+
 export async function registerRoutes(server: Server, app: Express) {
   const publicPaths = ["/api/login", "/api/logout", "/api/callback", "/api/auth/user"];
   app.use("/api", (req, res, next) => {
     if (publicPaths.some(p => req.path === p || req.originalUrl === p)) return next();
     isAuthenticated(req, res, next);
   });
+  app.param("modelId", ownershipParam("model"));
+  app.param("positionId", ownershipParam("portfolioPosition"));
 
   app.get("/api/models", async (req: Request, res: Response) => {
     const userId = (req as any).user?.claims?.sub as string;
@@ -77,6 +120,50 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(model);
   });
 
+  app.post("/api/models/import", async (req: Request<Params>, res: Response) => {
+    try {
+      const userId = (req as any).user?.claims?.sub as string;
+      if (!userId) return res.status(401).json({ message: "Unauthorized" });
+      const limit = await checkLimit(userId, "financial_model");
+      if (!limit.allowed) return res.status(403).json({ message: limit.reason, requiredPlan: limit.requiredPlan, current: limit.current, limit: limit.limit });
+      const parsed = modelBundleSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ message: `Invalid model bundle: ${parsed.error.message}` });
+      const model = await importModelBundle(parsed.data, userId);
+      res.json(model);
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Import failed" });
+    }
+  });
+
+  app.get("/api/models/:id/export", async (req: Request<Params>, res: Response) => {
+    const userId = (req as any).user?.claims?.sub as string;
+    if (!userId) return res.status(401).json({ message: "Unauthorized" });
+    const model = await storage.getModel(req.params.id, userId);
+    if (!model) return res.status(404).json({ message: "Model not found" });
+    const bundle = await buildModelBundle(model);
+    const baseName = (model.ticker || model.name).replace(/[^A-Za-z0-9_-]+/g, "_");
+    res.setHeader("Content-Disposition", `attachment; filename="${baseName}.kozo.json"`);
+    res.json(bundle);
+  });
+
+  app.post("/api/models/:id/duplicate", async (req: Request<Params>, res: Response) => {
+    try {
+      const userId = (req as any).user?.claims?.sub as string;
+      if (!userId) return res.status(401).json({ message: "Unauthorized" });
+      const limit = await checkLimit(userId, "financial_model");
+      if (!limit.allowed) return res.status(403).json({ message: limit.reason, requiredPlan: limit.requiredPlan, current: limit.current, limit: limit.limit });
+      const source = await storage.getModel(req.params.id, userId);
+      if (!source) return res.status(404).json({ message: "Model not found" });
+      if (req.body?.name !== undefined && typeof req.body.name !== "string") {
+        return res.status(400).json({ message: "name must be a string" });
+      }
+      const model = await duplicateModel(source, userId, req.body?.name);
+      res.json(model);
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Duplicate failed" });
+    }
+  });
+
   app.patch("/api/models/:id", async (req: Request<Params>, res: Response) => {
     const userId = (req as any).user?.claims?.sub as string;
     if (!userId) return res.status(401).json({ message: "Unauthorized" });
@@ -84,7 +171,8 @@ export async function registerRoutes(server: Server, app: Express) {
     const numericFields = [
       "growthDecayRate", "targetNetMargin",
       "scenarioBullMultiplier", "scenarioBaseMultiplier", "scenarioBearMultiplier",
-      "sharesOutstanding", "startYear", "endYear",
+      "scenarioBaseWeight", "sharesOutstanding", "startYear", "endYear",
+      "minimumCash", "revolverCapacity", "revolverRate",
     ] as const;
     for (const field of numericFields) {
       if (field in body) {
@@ -102,12 +190,15 @@ export async function registerRoutes(server: Server, app: Express) {
     if (body.modelMode && !["ipo", "invest"].includes(body.modelMode)) {
       return res.status(400).json({ message: "modelMode must be 'ipo' or 'invest'" });
     }
-    const model = await storage.updateModel(req.params.id, userId, body);
+    if ("quarterlyProjections" in body && typeof body.quarterlyProjections !== "boolean") {
+      return res.status(400).json({ message: "quarterlyProjections must be true or false" });
+    }
+    const model = await storage.updateModel(req.params.id, userId, withoutOwnerKeys(body));
     if (!model) return res.status(404).json({ message: "Model not found" });
     res.json(model);
   });
 
-  app.patch("/api/models/:id/update-years", async (req: Request<Params>, res: Response) => {
+  app.patch("/api/models/:id/update-years", requireOwnership("model"), async (req: Request<Params>, res: Response) => {
     const userId = (req as any).user?.claims?.sub as string;
     if (!userId) return res.status(401).json({ message: "Unauthorized" });
     const { yearMapping, startYear, endYear } = req.body;
@@ -149,23 +240,23 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(items);
   });
 
-  app.post("/api/revenue-line-items", async (req: Request<Params>, res: Response) => {
+  app.post("/api/revenue-line-items", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const parsed = insertRevenueLineItemSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
     const item = await storage.createRevenueLineItem(parsed.data);
     res.json(item);
   });
 
-  app.patch("/api/revenue-line-items/:id", async (req: Request<Params>, res: Response) => {
+  app.patch("/api/revenue-line-items/:id", requireOwnership("revenueLineItem"), async (req: Request<Params>, res: Response) => {
     const { name, sortOrder } = req.body;
     if (name !== undefined && (typeof name !== "string" || name.trim().length === 0)) {
       return res.status(400).json({ message: "Name must be a non-empty string" });
     }
-    const item = await storage.updateRevenueLineItem(req.params.id, req.body);
+    const item = await storage.updateRevenueLineItem(req.params.id, withoutOwnerKeys(req.body));
     res.json(item);
   });
 
-  app.delete("/api/revenue-line-items/:id", async (req: Request<Params>, res: Response) => {
+  app.delete("/api/revenue-line-items/:id", requireOwnership("revenueLineItem"), async (req: Request<Params>, res: Response) => {
     await storage.deleteRevenueLineItem(req.params.id);
     res.json({ success: true });
   });
@@ -200,20 +291,93 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(periods);
   });
 
-  app.post("/api/revenue-periods", async (req: Request<Params>, res: Response) => {
+  app.post("/api/revenue-periods", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const parsed = insertRevenuePeriodSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
     const period = await storage.createRevenuePeriod(parsed.data);
     res.json(period);
   });
 
-  app.post("/api/revenue-periods/bulk", async (req: Request<Params>, res: Response) => {
+  app.post("/api/revenue-periods/bulk", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const periods = await storage.upsertRevenuePeriods(req.body);
     res.json(periods);
   });
 
-  app.patch("/api/revenue-periods/:id", async (req: Request<Params>, res: Response) => {
-    const period = await storage.updateRevenuePeriod(req.params.id, req.body);
+  app.get("/api/models/:modelId/snapshots", async (req: Request<Params>, res: Response) => {
+    const userId = (req as any).user?.claims?.sub as string;
+    if (!userId) return res.status(401).json({ message: "Unauthorized" });
+    const model = await storage.getModel(req.params.modelId, userId);
+    if (!model) return res.status(404).json({ message: "Model not found" });
+    const reportList = await storage.getReports(model.id);
+    const snapshots = reportList
+      .filter(isSnapshot)
+      .map(summarizeSnapshot)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+    res.json(snapshots);
+  });
+
+  app.post("/api/models/:modelId/snapshots", async (req: Request<Params>, res: Response) => {
+    try {
+      const userId = (req as any).user?.claims?.sub as string;
+      if (!userId) return res.status(401).json({ message: "Unauthorized" });
+      const model = await storage.getModel(req.params.modelId, userId);
+      if (!model) return res.status(404).json({ message: "Model not found" });
+      const name = typeof req.body?.name === "string" && req.body.name.trim()
+        ? req.body.name.trim()
+        : `Snapshot ${new Date().toISOString().slice(0, 16).replace("T", " ")}`;
+      const report = await createSnapshot(model, name);
+      res.json(summarizeSnapshot(report));
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Snapshot failed" });
+    }
+  });
+
+  app.get("/api/models/:modelId/snapshots/diff", async (req: Request<Params>, res: Response) => {
+    try {
+      const userId = (req as any).user?.claims?.sub as string;
+      if (!userId) return res.status(401).json({ message: "Unauthorized" });
+      const model = await storage.getModel(req.params.modelId, userId);
+      if (!model) return res.status(404).json({ message: "Model not found" });
+      const { from, to } = req.query as { from?: string; to?: string };
+      if (!from || !to) return res.status(400).json({ message: "from and to snapshot ids are required" });
+      const [fromReport, toReport] = await Promise.all([storage.getReport(from), storage.getReport(to)]);
+      if (!fromReport || fromReport.modelId !== model.id || !toReport || toReport.modelId !== model.id) {
+        return res.status(404).json({ message: "Snapshot not found" });
+      }
+      res.json(diffSnapshots(fromReport, toReport));
+    } catch (err: any) {
+      res.status(400).json({ message: err.message || "Diff failed" });
+    }
+  });
+
+  app.post("/api/models/:modelId/snapshots/:id/restore", async (req: Request<Params>, res: Response) => {
+    try {
+      const userId = (req as any).user?.claims?.sub as string;
+      if (!userId) return res.status(401).json({ message: "Unauthorized" });
+      const model = await storage.getModel(req.params.modelId, userId);
+      if (!model) return res.status(404).json({ message: "Model not found" });
+      const report = await storage.getReport(req.params.id);
+      if (!report || report.modelId !== model.id) return res.status(404).json({ message: "Snapshot not found" });
+      const restored = await restoreSnapshot(model, report, userId);
+      res.json(restored);
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Restore failed" });
+    }
+  });
+
+  app.delete("/api/models/:modelId/snapshots/:id", async (req: Request<Params>, res: Response) => {
+    const userId = (req as any).user?.claims?.sub as string;
+    if (!userId) return res.status(401).json({ message: "Unauthorized" });
+    const model = await storage.getModel(req.params.modelId, userId);
+    if (!model) return res.status(404).json({ message: "Model not found" });
+    const report = await storage.getReport(req.params.id);
+    if (!report || report.modelId !== model.id) return res.status(404).json({ message: "Snapshot not found" });
+    await storage.deleteReport(report.id);
+    res.json({ success: true });
+  });
+
+  app.patch("/api/revenue-periods/:id", requireOwnership("revenuePeriod"), async (req: Request<Params>, res: Response) => {
+    const period = await storage.updateRevenuePeriod(req.params.id, withoutOwnerKeys(req.body));
     res.json(period);
   });
 
@@ -222,12 +386,12 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(lines);
   });
 
-  app.post("/api/income-statement", async (req: Request<Params>, res: Response) => {
+  app.post("/api/income-statement", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const line = await storage.upsertIncomeStatementLine(req.body);
     res.json(line);
   });
 
-  app.post("/api/income-statement/bulk", async (req: Request<Params>, res: Response) => {
+  app.post("/api/income-statement/bulk", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const results = [];
     for (const item of req.body) {
       const line = await storage.upsertIncomeStatementLine(item);
@@ -246,12 +410,12 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(lines);
   });
 
-  app.post("/api/balance-sheet", async (req: Request<Params>, res: Response) => {
+  app.post("/api/balance-sheet", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const line = await storage.upsertBalanceSheetLine(req.body);
     res.json(line);
   });
 
-  app.post("/api/balance-sheet/bulk", async (req: Request<Params>, res: Response) => {
+  app.post("/api/balance-sheet/bulk", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const results = [];
     for (const item of req.body) {
       const line = await storage.upsertBalanceSheetLine(item);
@@ -263,37 +427,20 @@ export async function registerRoutes(server: Server, app: Express) {
   app.patch("/api/models/:modelId/balance-sheet/:year", async (req: Request<Params>, res: Response) => {
     const { modelId, year } = req.params;
     const yearNum = parseInt(year);
-    const data = { ...req.body };
+    const data = withoutOwnerKeys(req.body);
 
-    const existing = (await storage.getBalanceSheetLines(modelId)).find(l => l.year === yearNum);
+    const existing = (await storage.getBalanceSheetLines(modelId)).find(l => l.year === yearNum && !l.quarter);
     const merged: Record<string, number> = {};
     const numKeys = [
       "cash", "shortTermInvestments", "accountsReceivable", "inventory",
       "equipment", "depreciationAccum", "capex",
-      "accountsPayable", "shortTermDebt", "longTermDebt",
+      "accountsPayable", "shortTermDebt", "longTermDebt", "deferredTaxLiability",
       "retainedEarnings", "commonShares",
     ];
     for (const k of numKeys) {
       merged[k] = data[k] !== undefined ? Number(data[k]) : (existing as any)?.[k] || 0;
     }
-
-    const totalCA = merged.cash + merged.shortTermInvestments + merged.accountsReceivable + merged.inventory;
-    const totalLTA = merged.equipment - merged.depreciationAccum + merged.capex;
-    const totalAssets = totalCA + totalLTA;
-    const totalCL = merged.accountsPayable + merged.shortTermDebt;
-    const totalLTL = merged.longTermDebt;
-    const totalLiab = totalCL + totalLTL;
-    const totalEquity = merged.retainedEarnings + merged.commonShares;
-    const totalLE = totalLiab + totalEquity;
-
-    data.totalCurrentAssets = Math.round(totalCA);
-    data.totalLongTermAssets = Math.round(totalLTA);
-    data.totalAssets = Math.round(totalAssets);
-    data.totalCurrentLiabilities = Math.round(totalCL);
-    data.totalLongTermLiabilities = Math.round(totalLTL);
-    data.totalLiabilities = Math.round(totalLiab);
-    data.totalEquity = Math.round(totalEquity);
-    data.totalLiabilitiesAndEquity = Math.round(totalLE);
+    Object.assign(data, balanceSheetTotals(merged));
 
     const line = await storage.updateBalanceSheetLineByYear(modelId, yearNum, data);
     res.json(line);
@@ -304,12 +451,12 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(lines);
   });
 
-  app.post("/api/cash-flow", async (req: Request<Params>, res: Response) => {
+  app.post("/api/cash-flow", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const line = await storage.upsertCashFlowLine(req.body);
     res.json(line);
   });
 
-  app.post("/api/cash-flow/bulk", async (req: Request<Params>, res: Response) => {
+  app.post("/api/cash-flow/bulk", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const results = [];
     for (const item of req.body) {
       const line = await storage.upsertCashFlowLine(item);
@@ -320,13 +467,13 @@ export async function registerRoutes(server: Server, app: Express) {
 
   app.patch("/api/models/:modelId/cash-flow/:year", async (req: Request<Params>, res: Response) => {
     const { modelId, year } = req.params;
-    const line = await storage.updateCashFlowLineByYear(modelId, parseInt(year), req.body);
+    const line = await storage.updateCashFlowLineByYear(modelId, parseInt(year), withoutOwnerKeys(req.body));
     res.json(line);
   });
 
   app.patch("/api/models/:modelId/income-statement/:year", async (req: Request<Params>, res: Response) => {
     const { modelId, year } = req.params;
-    const line = await storage.updateIncomeStatementLineByYear(modelId, parseInt(year), req.body);
+    const line = await storage.updateIncomeStatementLineByYear(modelId, parseInt(year), withoutOwnerKeys(req.body));
     res.json(line);
   });
 
@@ -335,7 +482,7 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(val || null);
   });
 
-  app.post("/api/dcf", async (req: Request<Params>, res: Response) => {
+  app.post("/api/dcf", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const val = await storage.upsertDcfValuation(req.body);
     res.json(val);
   });
@@ -345,7 +492,7 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(val || null);
   });
 
-  app.post("/api/valuation-comparison", async (req: Request<Params>, res: Response) => {
+  app.post("/api/valuation-comparison", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const userId = (req as any).user?.claims?.sub as string;
     if (userId) {
       const limit = await checkLimit(userId, "valuation_comparison");
@@ -355,6 +502,33 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(val);
   });
 
+  app.get("/api/models/:modelId/export/:section", async (req: Request<Params>, res: Response) => {
+    try {
+      const userId = (req as any).user?.claims?.sub as string;
+      if (!userId) return res.status(401).json({ message: "Unauthorized" });
+      const limit = await checkLimit(userId, "csv_export");
+      if (!limit.allowed) return res.status(403).json({ message: limit.reason, requiredPlan: limit.requiredPlan });
+      const section = req.params.section as ModelExportSection;
+      if (!MODEL_EXPORT_SECTIONS.includes(section)) {
+        return res.status(400).json({ message: `section must be one of ${MODEL_EXPORT_SECTIONS.join(", ")}` });
+      }
+      const format = (req.query.format || "csv") as ExportFormat;
+      if (format !== "csv" && format !== "xlsx") {
+        return res.status(400).json({ message: "format must be 'csv' or 'xlsx'" });
+      }
+      const model = await storage.getModel(req.params.modelId, userId);
+      if (!model) return res.status(404).json({ message: "Model not found" });
+
+      const sheets = await buildModelExportSheets(model, section);
+      const file = await toExportFile(sheets, `${model.ticker || model.name}_${section}`, format);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Export failed" });
+    }
+  });
+
   app.get("/api/portfolio", async (req: Request, res: Response) => {
     const userId = (req as any).user?.claims?.sub as string;
     if (!userId) return res.status(401).json({ message: "Unauthorized" });
@@ -383,7 +557,7 @@ export async function registerRoutes(server: Server, app: Express) {
   app.patch("/api/portfolio/:id", async (req: Request<Params>, res: Response) => {
     const userId = (req as any).user?.claims?.sub as string;
     if (!userId) return res.status(401).json({ message: "Unauthorized" });
-    const pos = await storage.updatePortfolioPosition(req.params.id, userId, req.body);
+    const pos = await storage.updatePortfolioPosition(req.params.id, userId, withoutOwnerKeys(req.body));
     if (!pos) return res.status(404).json({ message: "Position not found" });
     res.json(pos);
   });
@@ -395,8 +569,30 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json({ success: true });
   });
 
-  app.get("/api/portfolio/lots", async (_req: Request, res: Response) => {
-    const lots = await storage.getAllPortfolioLots();
+  app.get("/api/portfolio/export", async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.claims?.sub as string;
+      if (!userId) return res.status(401).json({ message: "Unauthorized" });
+      const limit = await checkLimit(userId, "csv_export");
+      if (!limit.allowed) return res.status(403).json({ message: limit.reason, requiredPlan: limit.requiredPlan });
+      const format = (req.query.format || "csv") as ExportFormat;
+      if (format !== "csv" && format !== "xlsx") {
+        return res.status(400).json({ message: "format must be 'csv' or 'xlsx'" });
+      }
+      const sheets = await buildPortfolioExportSheets(userId);
+      const file = await toExportFile(sheets, "portfolio", format);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Export failed" });
+    }
+  });
+
+  app.get("/api/portfolio/lots", async (req: Request, res: Response) => {
+    const userId = (req as any).user?.claims?.sub as string;
+    if (!userId) return res.status(401).json({ message: "Unauthorized" });
+    const lots = await storage.getAllPortfolioLots(userId);
     res.json(lots);
   });
 
@@ -416,15 +612,14 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json({ lot, position });
   });
 
-  app.patch("/api/portfolio/lots/:lotId", async (req: Request<Params>, res: Response) => {
-    const lot = await storage.updatePortfolioLot(req.params.lotId as string, req.body);
+  app.patch("/api/portfolio/lots/:lotId", requireOwnership("portfolioLot", "lotId"), async (req: Request<Params>, res: Response) => {
+    const lot = await storage.updatePortfolioLot(req.params.lotId as string, withoutOwnerKeys(req.body));
     const position = await storage.recomputePositionFromLots(lot.positionId);
     res.json({ lot, position });
   });
 
-  app.delete("/api/portfolio/lots/:lotId", async (req: Request<Params>, res: Response) => {
-    const allLots = await storage.getAllPortfolioLots();
-    const targetLot = allLots.find(l => l.id === req.params.lotId);
+  app.delete("/api/portfolio/lots/:lotId", requireOwnership("portfolioLot", "lotId"), async (req: Request<Params>, res: Response) => {
+    const targetLot = await storage.getPortfolioLot(req.params.lotId as string);
     if (!targetLot) return res.status(404).json({ message: "Lot not found" });
     const positionId = targetLot.positionId;
     await storage.deletePortfolioLot(req.params.lotId as string);
@@ -673,32 +868,105 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(s);
   });
 
-  app.post("/api/scenarios", async (req: Request<Params>, res: Response) => {
+  app.post("/api/scenarios", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const parsed = insertScenarioSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
     const s = await storage.createScenario(parsed.data);
+    const allAssumptions = await storage.getAssumptions(s.modelId);
+    const base = allAssumptions.find(a => !a.scenarioId);
+    if (base) {
+      const { id, scenarioId, ...baseData } = base;
+      await storage.createAssumptions({ ...baseData, scenarioId: s.id, workingCapitalDays: baseData.workingCapitalDays as InsertAssumptions["workingCapitalDays"] });
+    }
     res.json(s);
   });
 
-  app.delete("/api/scenarios/:id", async (req: Request<Params>, res: Response) => {
+  app.patch("/api/scenarios/:id", requireOwnership("scenario"), async (req: Request<Params>, res: Response) => {
+    const parsed = insertScenarioSchema.omit({ modelId: true, results: true }).partial().safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
+    if (parsed.data.weight != null && parsed.data.weight < 0) {
+      return res.status(400).json({ message: "weight must be non-negative" });
+    }
+    const s = await storage.updateScenario(req.params.id, parsed.data);
+    if (!s) return res.status(404).json({ message: "Scenario not found" });
+    res.json(s);
+  });
+
+  app.patch("/api/scenarios/:id/assumptions", requireOwnership("scenario"), async (req: Request<Params>, res: Response) => {
+    const scenario = await storage.getScenario(req.params.id);
+    if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+    const body = insertAssumptionsSchema.omit({ modelId: true, scenarioId: true }).partial().safeParse(req.body);
+    if (!body.success) return res.status(400).json({ message: body.error.message });
+    const allAssumptions = await storage.getAssumptions(scenario.modelId);
+    const existing = allAssumptions.find(a => a.scenarioId === scenario.id);
+    if (existing) {
+      const updated = await storage.updateAssumptions(existing.id, body.data);
+      res.json(updated);
+    } else {
+      const parsed = insertAssumptionsSchema.safeParse({ ...body.data, modelId: scenario.modelId, scenarioId: scenario.id });
+      if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
+      const created = await storage.createAssumptions(parsed.data);
+      res.json(created);
+    }
+  });
+
+  app.delete("/api/scenarios/:id", requireOwnership("scenario"), async (req: Request<Params>, res: Response) => {
     await storage.deleteScenario(req.params.id);
     res.json({ success: true });
   });
 
+  app.get("/api/models/:modelId/debt-tranches", async (req: Request<Params>, res: Response) => {
+    const tranches = await storage.getDebtTranches(req.params.modelId);
+    res.json(tranches);
+  });
+
+  app.post("/api/debt-tranches", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
+    const parsed = insertDebtTrancheSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
+    const invalid = debtTrancheError(parsed.data);
+    if (invalid) return res.status(400).json({ message: invalid });
+    const tranche = await storage.createDebtTranche(parsed.data);
+    res.json(tranche);
+  });
+
+  app.patch("/api/debt-tranches/:id", requireOwnership("debtTranche"), async (req: Request<Params>, res: Response) => {
+    const parsed = insertDebtTrancheSchema.omit({ modelId: true }).partial().safeParse(withoutOwnerKeys(req.body));
+    if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
+    const invalid = debtTrancheError(parsed.data);
+    if (invalid) return res.status(400).json({ message: invalid });
+    const tranche = await storage.updateDebtTranche(req.params.id, parsed.data);
+    if (!tranche) return res.status(404).json({ message: "Debt tranche not found" });
+    res.json(tranche);
+  });
+
+  app.delete("/api/debt-tranches/:id", requireOwnership("debtTranche"), async (req: Request<Params>, res: Response) => {
+    await storage.deleteDebtTranche(req.params.id);
+    res.json({ success: true });
+  });
+
+  app.get("/api/models/:modelId/debt-schedule", async (req: Request<Params>, res: Response) => {
+    try {
+      const schedule = await previewDebtSchedule(req.params.modelId);
+      res.json(schedule);
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Debt schedule failed" });
+    }
+  });
+
   app.get("/api/models/:modelId/assumptions", async (req: Request<Params>, res: Response) => {
     const a = await storage.getAssumptions(req.params.modelId);
     res.json(a);
   });
 
-  app.post("/api/assumptions", async (req: Request<Params>, res: Response) => {
+  app.post("/api/assumptions", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const parsed = insertAssumptionsSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
     const a = await storage.createAssumptions(parsed.data);
     res.json(a);
   });
 
-  app.patch("/api/assumptions/:id", async (req: Request<Params>, res: Response) => {
-    const a = await storage.updateAssumptions(req.params.id, req.body);
+  app.patch("/api/assumptions/:id", requireOwnership("assumptions"), async (req: Request<Params>, res: Response) => {
+    const a = await storage.updateAssumptions(req.params.id, withoutOwnerKeys(req.body));
     res.json(a);
   });
 
@@ -707,14 +975,14 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(a);
   });
 
-  app.post("/api/actuals", async (req: Request<Params>, res: Response) => {
+  app.post("/api/actuals", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const parsed = insertActualsSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
     const a = await storage.createActual(parsed.data);
     res.json(a);
   });
 
-  app.delete("/api/actuals/:id", async (req: Request<Params>, res: Response) => {
+  app.delete("/api/actuals/:id", requireOwnership("actual"), async (req: Request<Params>, res: Response) => {
     await storage.deleteActual(req.params.id);
     res.json({ success: true });
   });
@@ -724,27 +992,53 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(r);
   });
 
-  app.post("/api/reports", async (req: Request<Params>, res: Response) => {
+  app.post("/api/reports", requireBodyOwnership("model", "modelId"), async (req: Request<Params>, res: Response) => {
     const parsed = insertReportSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
     const r = await storage.createReport(parsed.data);
     res.json(r);
   });
 
-  app.delete("/api/reports/:id", async (req: Request<Params>, res: Response) => {
+  app.delete("/api/reports/:id", requireOwnership("report"), async (req: Request<Params>, res: Response) => {
     await storage.deleteReport(req.params.id);
     res.json({ success: true });
   });
 
-  app.patch("/api/revenue-periods/:id", async (req: Request<Params>, res: Response) => {
-    const updated = await storage.updateRevenuePeriod(req.params.id, req.body);
-    res.json(updated);
-  });
-
   app.patch("/api/models/:modelId/dcf-params", async (req: Request<Params>, res: Response) => {
+    const { valuationDate, midYearConvention, stubPeriod } = req.body;
+    if (valuationDate != null && (typeof valuationDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(valuationDate) || isNaN(Date.parse(valuationDate)))) {
+      return res.status(400).json({ message: "valuationDate must be a YYYY-MM-DD date" });
+    }
+    if ((midYearConvention !== undefined && typeof midYearConvention !== "boolean") || (stubPeriod !== undefined && typeof stubPeriod !== "boolean")) {
+      return res.status(400).json({ message: "midYearConvention and stubPeriod must be booleans" });
+    }
+    const { terminalValueMethod, exitMultiple, terminalBlendWeight } = req.body;
+    if (terminalValueMethod !== undefined && !["perpetuity", "exit_multiple", "blend"].includes(terminalValueMethod)) {
+      return res.status(400).json({ message: "terminalValueMethod must be 'perpetuity', 'exit_multiple', or 'blend'" });
+    }
+    if (exitMultiple !== undefined && (typeof exitMultiple !== "number" || exitMultiple < 0)) {
+      return res.status(400).json({ message: "exitMultiple must be a non-negative number" });
+    }
+    if (terminalBlendWeight !== undefined && (typeof terminalBlendWeight !== "number" || terminalBlendWeight < 0 || terminalBlendWeight > 1)) {
+      return res.status(400).json({ message: "terminalBlendWeight must be between 0 and 1" });
+    }
+    const { equityBridgeOverrides, dilutedShares } = req.body;
+    const bridgeKeys = EQUITY_BRIDGE_ITEMS.map(i => i.key as string);
+    if (equityBridgeOverrides != null && (typeof equityBridgeOverrides !== "object" || Array.isArray(equityBridgeOverrides)
+      || Object.entries(equityBridgeOverrides).some(([k, v]) => !bridgeKeys.includes(k) || (v !== null && (typeof v !== "number" || !isFinite(v)))))) {
+      return res.status(400).json({ message: `equityBridgeOverrides must map ${bridgeKeys.join(", ")} to numbers` });
+    }
+    if (dilutedShares != null && (typeof dilutedShares !== "number" || dilutedShares <= 0)) {
+      return res.status(400).json({ message: "dilutedShares must be a positive number" });
+    }
     const existing = await storage.getDcfValuation(req.params.modelId);
     if (existing) {
-      const updated = { ...existing, ...req.body };
+      const body = withoutOwnerKeys(req.body);
+      // A null override clears that item back to the balance sheet value.
+      if (equityBridgeOverrides) {
+        body.equityBridgeOverrides = Object.fromEntries(Object.entries(equityBridgeOverrides).filter(([, v]) => v !== null));
+      }
+      const updated = { ...existing, ...body } as InsertDcfValuation;
       const result = await storage.upsertDcfValuation(updated);
       res.json(result);
     } else {
@@ -752,6 +1046,132 @@ export async function registerRoutes(server: Server, app: Express) {
     }
   });
 
+  app.post("/api/models/:modelId/sensitivity", async (req: Request<Params>, res: Response) => {
+    const userId = (req as any).user?.claims?.sub as string;
+    if (!userId) return res.status(401).json({ message: "Unauthorized" });
+    const limit = await checkLimit(userId, "sensitivity_table");
+    if (!limit.allowed) return res.status(403).json({ message: limit.reason, requiredPlan: limit.requiredPlan });
+
+    const { rows, columns } = req.body || {};
+    for (const [name, axis] of [["rows", rows], ["columns", columns]] as const) {
+      if (!axis || !SENSITIVITY_DRIVERS.includes(axis.driver)) {
+        return res.status(400).json({ message: `${name}.driver must be one of ${SENSITIVITY_DRIVERS.join(", ")}` });
+      }
+      if (axis.values !== undefined && (!Array.isArray(axis.values) || axis.values.length > MAX_SENSITIVITY_STEPS
+        || axis.values.some((v: unknown) => typeof v !== "number" || !isFinite(v)))) {
+        return res.status(400).json({ message: `${name}.values must be a list of at most ${MAX_SENSITIVITY_STEPS} numbers` });
+      }
+    }
+    if (rows.driver === columns.driver) {
+      return res.status(400).json({ message: "rows and columns must use different drivers" });
+    }
+    if ([rows.driver, columns.driver].includes("wacc") && [rows.driver, columns.driver].includes("beta")) {
+      return res.status(400).json({ message: "wacc and beta can't be flexed together; beta only moves the grid through WACC" });
+    }
+    if (!(await storage.getDcfValuation(req.params.modelId))) {
+      return res.status(404).json({ message: "No DCF data found" });
+    }
+    try {
+      const grid = await generateSensitivityGrid(req.params.modelId, rows, columns);
+      res.json(grid);
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Sensitivity analysis failed" });
+    }
+  });
+
+  // Solves in memory; the caller decides whether to carry the solved value into the assumptions.
+  app.post("/api/models/:modelId/goal-seek", async (req: Request<Params>, res: Response) => {
+    const userId = (req as any).user?.claims?.sub as string;
+    const { input, output, target, year, lower, upper } = req.body || {};
+    if (!GOAL_SEEK_INPUTS.includes(input)) {
+      return res.status(400).json({ message: `input must be one of ${GOAL_SEEK_INPUTS.join(", ")}` });
+    }
+    if (!GOAL_SEEK_OUTPUTS.includes(output)) {
+      return res.status(400).json({ message: `output must be one of ${GOAL_SEEK_OUTPUTS.join(", ")}` });
+    }
+    if (typeof target !== "number" || !isFinite(target)) {
+      return res.status(400).json({ message: "target must be a number" });
+    }
+    if ((input === "wacc" || input === "longTermGrowth") && output !== "targetPrice") {
+      return res.status(400).json({ message: `${input} only moves the target price` });
+    }
+    for (const [name, bound] of [["lower", lower], ["upper", upper]] as const) {
+      if (bound !== undefined && (typeof bound !== "number" || !isFinite(bound))) {
+        return res.status(400).json({ message: `${name} must be a number` });
+      }
+    }
+    if (lower !== undefined && upper !== undefined && lower >= upper) {
+      return res.status(400).json({ message: "lower must be below upper" });
+    }
+    const model = await storage.getModel(req.params.modelId, userId);
+    if (!model) return res.status(404).json({ message: "Model not found" });
+    if (year !== undefined && (!Number.isInteger(year) || year < model.startYear || year > model.endYear)) {
+      return res.status(400).json({ message: `year must be between ${model.startYear} and ${model.endYear}` });
+    }
+    try {
+      res.json(await goalSeek(req.params.modelId, { input, output, target, year, lower, upper }));
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Goal seek failed" });
+    }
+  });
+
+  app.get("/api/models/:modelId/integrity", async (req: Request<Params>, res: Response) => {
+    try {
+      const report = await checkModelIntegrity(req.params.modelId);
+      res.json(report);
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Integrity check failed" });
+    }
+  });
+
+  app.get("/api/models/:modelId/ttm", async (req: Request<Params>, res: Response) => {
+    try {
+      res.json(await modelTrailingTwelveMonths(req.params.modelId));
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Failed to build trailing twelve months" });
+    }
+  });
+
+  app.get("/api/models/:modelId/calibration", async (req: Request<Params>, res: Response) => {
+    try {
+      const params = calibrationParams(req.query.method, req.query.years);
+      if ("error" in params) return res.status(400).json({ message: params.error });
+      res.json(await calibrateModelAssumptions(req.params.modelId, params.method, params.lookbackYears));
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Calibration failed" });
+    }
+  });
+
+  // Recomputes the proposal rather than trusting posted values, applies the chosen fields to the
+  // base case assumptions and recalculates.
+  app.post("/api/models/:modelId/calibration", async (req: Request<Params>, res: Response) => {
+    try {
+      const params = calibrationParams(req.body.method, req.body.years);
+      if ("error" in params) return res.status(400).json({ message: params.error });
+      const { fields } = req.body;
+      if (!Array.isArray(fields) || fields.length === 0 || !fields.every(f => typeof f === "string")) {
+        return res.status(400).json({ message: "fields must list the assumptions to apply" });
+      }
+
+      const modelId = req.params.modelId;
+      const { proposals } = await calibrateModelAssumptions(modelId, params.method, params.lookbackYears);
+      const applied = proposals.filter(p => fields.includes(p.field));
+      if (applied.length === 0) return res.status(400).json({ message: "None of the fields can be calibrated from actuals" });
+
+      const updates = Object.fromEntries(applied.map(p => [p.field, String(p.proposed)]));
+      const base = (await storage.getAssumptions(modelId)).find(a => !a.scenarioId);
+      if (base) {
+        await storage.updateAssumptions(base.id, updates);
+      } else {
+        await storage.createAssumptions({ ...updates, modelId });
+      }
+      const { integrity } = await recalculateModel(modelId);
+      res.json({ applied, integrity });
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Calibration failed" });
+    }
+  });
+
   app.post("/api/models/:modelId/recalculate", async (req: Request<Params>, res: Response) => {
     try {
       const result = await recalculateModel(req.params.modelId);
@@ -774,10 +1194,10 @@ export async function registerRoutes(server: Server, app: Express) {
     const allAssumptions = await storage.getAssumptions(req.params.modelId);
     const base = allAssumptions.find(a => !a.scenarioId);
     if (base) {
-      const updated = await storage.updateAssumptions(base.id, req.body);
+      const updated = await storage.updateAssumptions(base.id, withoutOwnerKeys(req.body));
       res.json(updated);
     } else {
-      const created = await storage.createAssumptions({ modelId: req.params.modelId, ...req.body });
+      const created = await storage.createAssumptions({ ...withoutOwnerKeys(req.body), modelId: req.params.modelId });
       res.json(created);
     }
   });
@@ -871,7 +1291,13 @@ export async function registerRoutes(server: Server, app: Express) {
 
   app.get("/api/sec/filings/:cik", async (req: Request<Params>, res: Response) => {
     try {
-      const filings = await getCompanyFilings(req.params.cik);
+      const forms = typeof req.query.forms === "string"
+        ? req.query.forms.split(",").map(f => f.trim().toUpperCase()).filter(Boolean)
+        : ["10-K"];
+      if (forms.length === 0 || forms.some(f => !(FILING_FORMS as readonly string[]).includes(f))) {
+        return res.status(400).json({ message: `forms must be a comma-separated list of ${FILING_FORMS.join(", ")}` });
+      }
+      const filings = await getCompanyFilings(req.params.cik, forms);
       res.json(filings);
     } catch (err: any) {
       res.status(500).json({ message: err.message || "Failed to fetch filings" });
@@ -880,17 +1306,71 @@ export async function registerRoutes(server: Server, app: Express) {
 
   app.post("/api/sec/parse-all-statements", async (req: Request<Params>, res: Response) => {
     try {
-      const { filingUrl } = req.body;
-      if (!filingUrl || typeof filingUrl !== "string") {
-        return res.status(400).json({ message: "filingUrl is required" });
+      const { filingUrl, cik } = req.body;
+      if (cik !== undefined && (typeof cik !== "string" || !/^\d{1,10}$/.test(cik))) {
+        return res.status(400).json({ message: "cik must be a numeric SEC CIK" });
       }
-      const result = await fetchAndParseAllStatements(filingUrl);
+      if (!cik && (!filingUrl || typeof filingUrl !== "string")) {
+        return res.status(400).json({ message: "filingUrl or cik is required" });
+      }
+      const result = cik ? await fetchHistoricalStatements(cik, filingUrl) : await fetchAndParseAllStatements(filingUrl);
       res.json(result);
     } catch (err: any) {
       res.status(500).json({ message: err.message || "Failed to parse SEC filing" });
     }
   });
 
+  app.get("/api/sec/tag-mappings/:cik", async (req: Request<Params>, res: Response) => {
+    try {
+      const userId = (req as any).user?.claims?.sub as string;
+      if (!userId) return res.status(401).json({ message: "Unauthorized" });
+      res.json(await storage.getGaapTagMappings(userId, normalizeCik(req.params.cik)));
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Failed to fetch tag mappings" });
+    }
+  });
+
+  app.put("/api/sec/tag-mappings/:cik", async (req: Request<Params>, res: Response) => {
+    try {
+      const userId = (req as any).user?.claims?.sub as string;
+      if (!userId) return res.status(401).json({ message: "Unauthorized" });
+      const cik = normalizeCik(req.params.cik);
+      if (!cik) return res.status(400).json({ message: "cik must be a numeric SEC CIK" });
+
+      const { tag, statement, field, customLabel } = req.body;
+      if (typeof tag !== "string" || !/^[\w-]+:\w+$/.test(tag)) {
+        return res.status(400).json({ message: "tag must be a prefixed XBRL name such as us-gaap:SellingAndMarketingExpense" });
+      }
+      const targets = MAPPING_TARGET_FIELDS[statement as keyof typeof MAPPING_TARGET_FIELDS];
+      if (!targets) return res.status(400).json({ message: "statement must be income-statement, balance-sheet or cash-flow" });
+      if (field !== undefined && field !== null) {
+        if (!targets.includes(field)) return res.status(400).json({ message: `${field} is not a mappable ${statement} field` });
+      } else if (typeof customLabel !== "string" || !customLabel.trim() || customLabel.trim().length > 80) {
+        return res.status(400).json({ message: "Map to a field, or give the custom line a label of up to 80 characters" });
+      }
+
+      const mapping = await storage.upsertGaapTagMapping({
+        userId, cik, tag, statement,
+        field: field ?? null,
+        customLabel: field ? null : customLabel.trim(),
+      });
+      res.json(mapping);
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Failed to save tag mapping" });
+    }
+  });
+
+  app.delete("/api/sec/tag-mappings/:id", async (req: Request<Params>, res: Response) => {
+    try {
+      const userId = (req as any).user?.claims?.sub as string;
+      if (!userId) return res.status(401).json({ message: "Unauthorized" });
+      await storage.deleteGaapTagMapping(req.params.id, userId);
+      res.json({ success: true });
+    } catch (err: any) {
+      res.status(500).json({ message: err.message || "Failed to delete tag mapping" });
+    }
+  });
+
   app.post("/api/models/:modelId/import-sec", async (req: Request<Params>, res: Response) => {
     try {
       const userId = (req as any).user?.claims?.sub as string;
@@ -901,11 +1381,24 @@ export async function registerRoutes(server: Server, app: Express) {
       const model = await storage.getModel(modelId, userId);
       if (!model) return res.status(404).json({ message: "Model not found" });
 
-      const { filingUrl, years: selectedYears } = req.body;
-      if (!filingUrl) return res.status(400).json({ message: "filingUrl is required" });
+      // With a CIK, the company's full annual history comes from the XBRL companyfacts API, with
+      // filingUrl as the iXBRL fallback; otherwise just the one filing is parsed.
+      const { filingUrl, cik, years: selectedYears } = req.body;
+      if (cik !== undefined && (typeof cik !== "string" || !/^\d{1,10}$/.test(cik))) {
+        return res.status(400).json({ message: "cik must be a numeric SEC CIK" });
+      }
+      if (!filingUrl && !cik) return res.status(400).json({ message: "filingUrl or cik is required" });
+      if (req.body.quarter !== undefined && req.body.quarter !== null && ![1, 2, 3].includes(Number(req.body.quarter))) {
+        return res.status(400).json({ message: "quarter must be 1, 2 or 3" });
+      }
+
+      const allData = cik ? await fetchHistoricalStatements(cik, filingUrl) : await fetchAndParseAllStatements(filingUrl);
+      const companyCik = normalizeCik(cik || String(filingUrl).match(/\/edgar\/data\/(\d+)\//)?.[1] || "");
+      const tagMappings = companyCik ? await storage.getGaapTagMappings(userId, companyCik) : [];
+      const filingQuarter = allData.incomeStatement.fiscalQuarter ?? allData.balanceSheet.fiscalQuarter ?? allData.cashFlow.fiscalQuarter;
+      // A 10-Q's columns are written as reported quarters of each fiscal year instead of annual rows.
+      const quarter: number | null = filingQuarter ? Number(req.body.quarter ?? filingQuarter) : null;
 
-      const allData = await fetchAndParseAllStatements(filingUrl);
-      
       const importedYears = selectedYears || Array.from(new Set([
         ...allData.incomeStatement.years,
         ...allData.balanceSheet.years,
@@ -923,77 +1416,26 @@ export async function registerRoutes(server: Server, app: Express) {
         await storage.updateModel(modelId, userId, { startYear: newStartYear, endYear: newEndYear });
       }
 
-      const existingLineItems = await storage.getRevenueLineItems(modelId);
-      let totalRevLineItem = existingLineItems.find(li => li.name === "Total Revenue");
-      if (!totalRevLineItem) {
-        totalRevLineItem = await storage.createRevenueLineItem({
-          modelId,
-          name: "Total Revenue",
-          sortOrder: 0,
-        });
-      }
-      
-      for (const year of importedYears) {
-        const isData = allData.incomeStatement.data[year];
-        const totalRevenue = isData?.totalRevenue || isData?.revenue || 0;
-        if (totalRevenue > 0) {
-          const perQuarter = totalRevenue / 4;
-          const periodsToUpsert = [];
-          for (let q = 1; q <= 4; q++) {
-            periodsToUpsert.push({
-              lineItemId: totalRevLineItem.id,
-              modelId,
-              year,
-              quarter: q,
-              amount: perQuarter,
-              isActual: true,
-            });
-          }
-          await storage.upsertRevenuePeriods(periodsToUpsert);
-        }
-      }
+      // Segments are annual figures; a 10-Q's quarters follow the segment mix of the nearest year.
+      const revenueSegments = quarter === null ? allData.incomeStatement.revenueSegments : [];
+      await importRevenueLines(modelId, revenueSegments, importedYears);
 
       for (const year of importedYears) {
         const isData = allData.incomeStatement.data[year];
         if (isData) {
-          const totalRevenue = isData.totalRevenue || isData.revenue || 0;
-          const cogs = Math.abs(isData.cogs || 0);
-          const grossProfit = isData.grossProfit || (totalRevenue - cogs);
-          const sgaExpense = Math.abs(isData.sgaExpense || 0);
-          const rdExpense = Math.abs(isData.rdExpense || 0);
-          const depreciation = Math.abs(isData.depreciation || 0);
-          const totalExpenses = cogs + sgaExpense + rdExpense + depreciation;
-          const operatingIncome = grossProfit - sgaExpense - rdExpense - depreciation;
-          const ebitda = operatingIncome + depreciation;
-          const otherIncome = isData.otherIncome || 0;
-          const interestExpense = Math.abs(isData.interestExpense || 0);
-          const preTaxIncome = operatingIncome + otherIncome - interestExpense;
-          const taxExpense = Math.abs(isData.taxExpense || 0);
-          const netIncome = isData.netIncome || (preTaxIncome - taxExpense);
-
+          const mapped = mappedValues(allData, tagMappings, "income-statement", year);
+          const lines = incomeStatementFromEdgar(isData, mapped.fields);
           await storage.upsertIncomeStatementLine({
             modelId,
             year,
+            quarter,
             isActual: true,
-            revenue: totalRevenue,
-            cogs,
-            grossProfit,
-            salesMarketing: sgaExpense,
-            researchDevelopment: rdExpense,
-            generalAdmin: 0,
-            depreciation,
-            totalExpenses,
-            operatingIncome,
-            ebitda,
-            otherIncome,
-            preTaxIncome,
-            incomeTax: taxExpense,
-            netIncome,
-            grossMargin: totalRevenue > 0 ? grossProfit / totalRevenue : 0,
-            operatingMargin: totalRevenue > 0 ? operatingIncome / totalRevenue : 0,
-            netMargin: totalRevenue > 0 ? netIncome / totalRevenue : 0,
-            effectiveTaxRate: preTaxIncome > 0 ? taxExpense / preTaxIncome : 0,
-            interestExpense,
+            ...lines,
+            customLines: customLinesOrNull(mapped.customLines),
+            grossMargin: lines.revenue > 0 ? lines.grossProfit / lines.revenue : 0,
+            operatingMargin: lines.revenue > 0 ? lines.operatingIncome / lines.revenue : 0,
+            netMargin: lines.revenue > 0 ? lines.netIncome / lines.revenue : 0,
+            effectiveTaxRate: lines.preTaxIncome > 0 ? lines.incomeTax / lines.preTaxIncome : 0,
           } as any);
         }
       }
@@ -1001,64 +1443,47 @@ export async function registerRoutes(server: Server, app: Express) {
       for (const year of importedYears) {
         const bsData = allData.balanceSheet.data[year];
         if (bsData) {
+          const mapped = mappedValues(allData, tagMappings, "balance-sheet", year);
           await storage.upsertBalanceSheetLine({
-            modelId,
-            year,
-            isActual: true,
-            cash: bsData.cashAndEquivalents || 0,
-            shortTermInvestments: bsData.shortTermInvestments || 0,
-            accountsReceivable: bsData.accountsReceivable || 0,
-            inventory: bsData.inventory || 0,
-            totalCurrentAssets: bsData.totalCurrentAssets || 0,
-            equipment: bsData.propertyPlantEquipment || 0,
-            depreciationAccum: 0,
-            capex: 0,
-            totalLongTermAssets: (bsData.totalAssets || 0) - (bsData.totalCurrentAssets || 0),
-            totalAssets: bsData.totalAssets || 0,
-            accountsPayable: bsData.accountsPayable || 0,
-            shortTermDebt: bsData.shortTermDebt || 0,
-            totalCurrentLiabilities: bsData.totalCurrentLiabilities || 0,
-            longTermDebt: bsData.longTermDebt || 0,
-            totalLongTermLiabilities: (bsData.totalLiabilities || 0) - (bsData.totalCurrentLiabilities || 0),
-            totalLiabilities: bsData.totalLiabilities || 0,
-            retainedEarnings: bsData.retainedEarnings || 0,
-            commonShares: (bsData.commonStock || 0) + (bsData.additionalPaidInCapital || 0),
-            totalEquity: bsData.totalEquity || 0,
-            totalLiabilitiesAndEquity: bsData.totalLiabilitiesAndEquity || bsData.totalAssets || 0,
+            modelId, year, quarter, isActual: true,
+            ...balanceSheetFromEdgar(bsData, mapped.fields),
+            customLines: customLinesOrNull(mapped.customLines),
           });
         }
       }
 
+      const storedCF = quarter !== null && quarter > 1 ? await storage.getCashFlowLines(modelId) : [];
       for (const year of importedYears) {
         const cfData = allData.cashFlow.data[year];
+        const ytdData = allData.cashFlow.ytdData[year];
         if (cfData) {
+          const mapped = mappedValues(allData, tagMappings, "cash-flow", year);
           await storage.upsertCashFlowLine({
-            modelId,
-            year,
-            isActual: true,
-            netIncome: cfData.netIncome || 0,
-            depreciationAdd: Math.abs(cfData.depreciationAdd || 0),
-            arChange: cfData.arChange || 0,
-            inventoryChange: cfData.inventoryChange || 0,
-            apChange: cfData.apChange || 0,
-            operatingCashFlow: cfData.operatingCashFlow || 0,
-            capex: Math.abs(cfData.capex || 0),
-            investingCashFlow: cfData.investingCashFlow || 0,
-            shortTermDebtChange: 0,
-            longTermDebtChange: cfData.longTermDebtChange || 0,
-            commonSharesChange: cfData.commonSharesChange || 0,
-            financingCashFlow: cfData.financingCashFlow || 0,
-            netCashChange: cfData.netCashChange || 0,
-            freeCashFlow: (cfData.operatingCashFlow || 0) - Math.abs(cfData.capex || 0),
+            modelId, year, quarter, isActual: true,
+            ...cashFlowFromEdgar(cfData, mapped.fields),
+            customLines: customLinesOrNull(mapped.customLines),
+          });
+        } else if (quarter !== null && ytdData) {
+          // Most 10-Q cash flow statements are year-to-date only: back out the quarters already imported.
+          const earlier = storedCF.filter(r => r.isActual && r.year === year && r.quarter && r.quarter < quarter);
+          if (earlier.length !== quarter - 1) continue;
+          await storage.upsertCashFlowLine({
+            modelId, year, quarter, isActual: true,
+            ...subtractFlows(cashFlowFromEdgar(ytdData), earlier, CF_FLOW_FIELDS),
           });
         }
       }
 
-      await recalculateModel(modelId);
+      await reconcileQuarterlyActuals(modelId);
+
+      const { integrity } = await recalculateModel(modelId);
 
       res.json({
         message: "SEC data imported successfully",
+        integrity,
         importedYears,
+        quarter,
+        source: allData.source,
         yearRangeExpanded: newStartYear !== model.startYear || newEndYear !== model.endYear,
         newStartYear,
         newEndYear,
@@ -1067,6 +1492,7 @@ export async function registerRoutes(server: Server, app: Express) {
           balanceSheet: allData.balanceSheet.matchedFields.length,
           cashFlow: allData.cashFlow.matchedFields.length,
         },
+        revenueSegments: revenueSegments.map(s => s.label),
       });
     } catch (err: any) {
       res.status(500).json({ message: err.message || "SEC import failed" });
@@ -1317,46 +1743,46 @@ export async function registerRoutes(server: Server, app: Express) {
     }
   });
 
-  app.get("/api/crypto/projects/:id/supply-schedules", async (req: Request<Params>, res: Response) => {
+  app.get("/api/crypto/projects/:id/supply-schedules", requireOwnership("cryptoProject"), async (req: Request<Params>, res: Response) => {
     const schedules = await storage.getTokenSupplySchedules(req.params.id);
     res.json(schedules);
   });
 
-  app.post("/api/crypto/supply-schedules", async (req: Request<Params>, res: Response) => {
+  app.post("/api/crypto/supply-schedules", requireBodyOwnership("cryptoProject", "projectId"), async (req: Request<Params>, res: Response) => {
     const parsed = insertTokenSupplyScheduleSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
     const schedule = await storage.createTokenSupplySchedule(parsed.data);
     res.json(schedule);
   });
 
-  app.patch("/api/crypto/supply-schedules/:id", async (req: Request<Params>, res: Response) => {
-    const schedule = await storage.updateTokenSupplySchedule(req.params.id, req.body);
+  app.patch("/api/crypto/supply-schedules/:id", requireOwnership("supplySchedule"), async (req: Request<Params>, res: Response) => {
+    const schedule = await storage.updateTokenSupplySchedule(req.params.id, withoutOwnerKeys(req.body));
     res.json(schedule);
   });
 
-  app.delete("/api/crypto/supply-schedules/:id", async (req: Request<Params>, res: Response) => {
+  app.delete("/api/crypto/supply-schedules/:id", requireOwnership("supplySchedule"), async (req: Request<Params>, res: Response) => {
     await storage.deleteTokenSupplySchedule(req.params.id);
     res.json({ success: true });
   });
 
-  app.get("/api/crypto/projects/:id/incentives", async (req: Request<Params>, res: Response) => {
+  app.get("/api/crypto/projects/:id/incentives", requireOwnership("cryptoProject"), async (req: Request<Params>, res: Response) => {
     const incentives = await storage.getTokenIncentives(req.params.id);
     res.json(incentives);
   });
 
-  app.post("/api/crypto/incentives", async (req: Request<Params>, res: Response) => {
+  app.post("/api/crypto/incentives", requireBodyOwnership("cryptoProject", "projectId"), async (req: Request<Params>, res: Response) => {
     const parsed = insertTokenIncentiveSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
     const incentive = await storage.createTokenIncentive(parsed.data);
     res.json(incentive);
   });
 
-  app.patch("/api/crypto/incentives/:id", async (req: Request<Params>, res: Response) => {
-    const incentive = await storage.updateTokenIncentive(req.params.id, req.body);
+  app.patch("/api/crypto/incentives/:id", requireOwnership("incentive"), async (req: Request<Params>, res: Response) => {
+    const incentive = await storage.updateTokenIncentive(req.params.id, withoutOwnerKeys(req.body));
     res.json(incentive);
   });
 
-  app.delete("/api/crypto/incentives/:id", async (req: Request<Params>, res: Response) => {
+  app.delete("/api/crypto/incentives/:id", requireOwnership("incentive"), async (req: Request<Params>, res: Response) => {
     await storage.deleteTokenIncentive(req.params.id);
     res.json({ success: true });
   });
@@ -1367,7 +1793,7 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(template || []);
   });
 
-  app.get("/api/crypto/projects/:id/protocol-metrics", async (req: Request<Params>, res: Response) => {
+  app.get("/api/crypto/projects/:id/protocol-metrics", requireOwnership("cryptoProject"), async (req: Request<Params>, res: Response) => {
     const metrics = await storage.getProtocolMetrics(req.params.id);
     res.json(metrics);
   });
@@ -1879,12 +2305,12 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json({ success: true });
   });
 
-  app.patch("/api/crypto/allocations/:id", async (req: Request, res: Response) => {
-    const allocation = await storage.updateTokenAllocation(req.params.id as string, req.body);
+  app.patch("/api/crypto/allocations/:id", requireOwnership("allocation"), async (req: Request, res: Response) => {
+    const allocation = await storage.updateTokenAllocation(req.params.id as string, withoutOwnerKeys(req.body));
     res.json(allocation);
   });
 
-  app.delete("/api/crypto/allocations/:id", async (req: Request, res: Response) => {
+  app.delete("/api/crypto/allocations/:id", requireOwnership("allocation"), async (req: Request, res: Response) => {
     await storage.deleteTokenAllocation(req.params.id as string);
     res.json({ success: true });
   });
@@ -1907,12 +2333,12 @@ export async function registerRoutes(server: Server, app: Express) {
     res.json(round);
   });
 
-  app.patch("/api/crypto/fundraising/:id", async (req: Request, res: Response) => {
-    const round = await storage.updateFundraisingRound(req.params.id as string, req.body);
+  app.patch("/api/crypto/fundraising/:id", requireOwnership("fundraisingRound"), async (req: Request, res: Response) => {
+    const round = await storage.updateFundraisingRound(req.params.id as string, withoutOwnerKeys(req.body));
     res.json(round);
   });
 
-  app.delete("/api/crypto/fundraising/:id", async (req: Request, res: Response) => {
+  app.delete("/api/crypto/fundraising/:id", requireOwnership("fundraisingRound"), async (req: Request, res: Response) => {
     await storage.deleteFundraisingRound(req.params.id as string);
     res.json({ success: true });
   });
@@ -0,0 +1,385 @@
+import { storage } from "./storage";
+import type { AllStatementsResult } from "./sec-search";
+import { nonGaapBridge } from "./recalculation-engine";
+import type {
+  IncomeStatementLine, BalanceSheetLine, CashFlowLine, InsertRevenuePeriod, TtmSummary,
+  GaapTagMapping, IntegrityStatement, CustomLines, RevenueSegment, RevenueLineItem, RevenuePeriod,
+} from "@shared/schema";
+
+type Flows = Record<string, number>;
+type EdgarValues = Record<string, number>;
+
+const TOTAL_REVENUE_LINE = "Total Revenue";
+
+// Statement fields a user can map an unrecognized tag to; derived totals are recomputed or
+// taken as reported, so they aren't offered.
+export const MAPPING_TARGET_FIELDS: Record<IntegrityStatement, readonly string[]> = {
+  "income-statement": [
+    "revenue", "cogs", "salesMarketing", "researchDevelopment", "generalAdmin", "depreciation",
+    "otherIncome", "interestExpense", "incomeTax", "netIncome", "stockCompensation", "intangibleAmortization",
+    "restructuring",
+  ],
+  "balance-sheet": [
+    "cash", "shortTermInvestments", "accountsReceivable", "inventory", "totalCurrentAssets", "equipment",
+    "totalAssets", "accountsPayable", "shortTermDebt", "totalCurrentLiabilities", "longTermDebt",
+    "deferredTaxLiability", "totalLiabilities", "retainedEarnings", "commonShares", "totalEquity", "nolBalance",
+  ],
+  "cash-flow": [
+    "netIncome", "depreciationAdd", "stockCompensationAdd", "deferredTaxes", "arChange", "inventoryChange", "apChange",
+    "operatingCashFlow", "capex", "investingCashFlow", "shortTermDebtChange", "longTermDebtChange", "commonSharesChange",
+    "dividendsPaid", "financingCashFlow", "netCashChange",
+  ],
+};
+
+export interface MappedValues {
+  fields: Flows;
+  customLines: CustomLines;
+}
+
+const PARSED_STATEMENT: Record<IntegrityStatement, keyof Omit<AllStatementsResult, "source">> = {
+  "income-statement": "incomeStatement",
+  "balance-sheet": "balanceSheet",
+  "cash-flow": "cashFlow",
+};
+
+// The user's mapped tags for one statement and year, summed per target field or custom line.
+// A tag is looked up in its own statement's parse first (the balance sheet parse holds instants).
+export function mappedValues(
+  allData: Omit<AllStatementsResult, "source">,
+  mappings: GaapTagMapping[],
+  statement: IntegrityStatement,
+  year: number,
+): MappedValues {
+  const result: MappedValues = { fields: {}, customLines: {} };
+  const parses = [allData[PARSED_STATEMENT[statement]], allData.incomeStatement, allData.balanceSheet, allData.cashFlow];
+  for (const mapping of mappings) {
+    if (mapping.statement !== statement) continue;
+    const value = parses
+      .map(parsed => parsed.unmatchedTags.find(t => t.tag === mapping.tag)?.values[year])
+      .find(v => v !== undefined);
+    if (value === undefined) continue;
+    const target = mapping.field ? result.fields : result.customLines;
+    const key = mapping.field || mapping.customLabel || mapping.tag;
+    target[key] = (target[key] || 0) + value;
+  }
+  return result;
+}
+
+export function customLinesOrNull(lines: CustomLines): CustomLines | null {
+  return Object.keys(lines).length > 0 ? lines : null;
+}
+
+export const IS_FLOW_FIELDS = [
+  "revenue", "cogs", "grossProfit", "salesMarketing", "researchDevelopment", "generalAdmin",
+  "depreciation", "totalExpenses", "operatingIncome", "ebitda", "otherIncome", "interestExpense",
+  "preTaxIncome", "incomeTax", "netIncome", "stockCompensation", "intangibleAmortization", "restructuring",
+  "nonGaapTaxEffect", "nonGaapNetIncome",
+] as const;
+
+export const CF_FLOW_FIELDS = [
+  "netIncome", "depreciationAdd", "stockCompensationAdd", "deferredTaxes", "arChange", "inventoryChange", "apChange",
+  "operatingCashFlow", "capex", "investingCashFlow", "shortTermDebtChange", "longTermDebtChange", "commonSharesChange",
+  "dividendsPaid", "financingCashFlow", "netCashChange", "freeCashFlow",
+] as const;
+
+// `mapped` holds user-mapped values by model field; they replace what the built-in tags gave.
+// Separately reported selling/marketing and G&A land in their own fields; a combined SG&A
+// figure fills whichever half is missing (all of it goes to S&M when neither is reported).
+export function incomeStatementFromEdgar(isData: EdgarValues, mapped: Flows = {}) {
+  const totalRevenue = mapped.revenue ?? (isData.totalRevenue || isData.revenue || 0);
+  const cogs = Math.abs(mapped.cogs ?? (isData.cogs || 0));
+  const grossProfit = mapped.revenue !== undefined || mapped.cogs !== undefined
+    ? totalRevenue - cogs
+    : isData.grossProfit || (totalRevenue - cogs);
+  const sgaExpense = isData.sgaExpense !== undefined ? Math.abs(isData.sgaExpense) : undefined;
+  let salesMarketing = mapped.salesMarketing ?? isData.smExpense;
+  let generalAdmin = mapped.generalAdmin ?? isData.gaExpense;
+  if (salesMarketing !== undefined) salesMarketing = Math.abs(salesMarketing);
+  if (generalAdmin !== undefined) generalAdmin = Math.abs(generalAdmin);
+  if (sgaExpense !== undefined) {
+    if (salesMarketing === undefined && generalAdmin === undefined) salesMarketing = sgaExpense;
+    else if (salesMarketing === undefined) salesMarketing = Math.max(0, sgaExpense - generalAdmin!);
+    else if (generalAdmin === undefined) generalAdmin = Math.max(0, sgaExpense - salesMarketing);
+  }
+  salesMarketing = salesMarketing ?? 0;
+  generalAdmin = generalAdmin ?? 0;
+  const rdExpense = Math.abs(mapped.researchDevelopment ?? (isData.rdExpense || 0));
+  const depreciation = Math.abs(mapped.depreciation ?? (isData.depreciation || 0));
+  const totalExpenses = cogs + salesMarketing + generalAdmin + rdExpense + depreciation;
+  const operatingIncome = grossProfit - salesMarketing - generalAdmin - rdExpense - depreciation;
+  const ebitda = operatingIncome + depreciation;
+  const otherIncome = mapped.otherIncome ?? (isData.otherIncome || 0);
+  const interestExpense = Math.abs(mapped.interestExpense ?? (isData.interestExpense || 0));
+  const preTaxIncome = operatingIncome + otherIncome - interestExpense;
+  const taxExpense = Math.abs(mapped.incomeTax ?? (isData.taxExpense || 0));
+  const netIncome = mapped.netIncome ?? (isData.netIncome || (preTaxIncome - taxExpense));
+  const addBacks = {
+    stockCompensation: Math.abs(mapped.stockCompensation ?? (isData.stockCompensation || 0)),
+    intangibleAmortization: Math.abs(mapped.intangibleAmortization ?? (isData.intangibleAmortization || 0)),
+    restructuring: mapped.restructuring ?? (isData.restructuring || 0),
+  };
+
+  return {
+    revenue: totalRevenue,
+    cogs,
+    grossProfit,
+    salesMarketing,
+    researchDevelopment: rdExpense,
+    generalAdmin,
+    depreciation,
+    totalExpenses,
+    operatingIncome,
+    ebitda,
+    otherIncome,
+    preTaxIncome,
+    incomeTax: taxExpense,
+    netIncome,
+    interestExpense,
+    ...addBacks,
+    ...nonGaapBridge({ netIncome, preTaxIncome, incomeTax: taxExpense, ...addBacks }),
+  };
+}
+
+export function balanceSheetFromEdgar(bsData: EdgarValues, mapped: Flows = {}) {
+  return {
+    cash: bsData.cashAndEquivalents || 0,
+    shortTermInvestments: bsData.shortTermInvestments || 0,
+    accountsReceivable: bsData.accountsReceivable || 0,
+    inventory: bsData.inventory || 0,
+    totalCurrentAssets: bsData.totalCurrentAssets || 0,
+    equipment: bsData.propertyPlantEquipment || 0,
+    depreciationAccum: 0,
+    capex: 0,
+    totalLongTermAssets: (bsData.totalAssets || 0) - (bsData.totalCurrentAssets || 0),
+    totalAssets: bsData.totalAssets || 0,
+    accountsPayable: bsData.accountsPayable || 0,
+    shortTermDebt: bsData.shortTermDebt || 0,
+    totalCurrentLiabilities: bsData.totalCurrentLiabilities || 0,
+    longTermDebt: bsData.longTermDebt || 0,
+    deferredTaxLiability: bsData.deferredTaxLiability || 0,
+    totalLongTermLiabilities: (bsData.totalLiabilities || 0) - (bsData.totalCurrentLiabilities || 0),
+    totalLiabilities: bsData.totalLiabilities || 0,
+    retainedEarnings: bsData.retainedEarnings || 0,
+    commonShares: (bsData.commonStock || 0) + (bsData.additionalPaidInCapital || 0),
+    totalEquity: bsData.totalEquity || 0,
+    totalLiabilitiesAndEquity: bsData.totalLiabilitiesAndEquity || bsData.totalAssets || 0,
+    nolBalance: bsData.nolBalance ?? null,
+    ...mapped,
+  };
+}
+
+export function cashFlowFromEdgar(cfData: EdgarValues, mapped: Flows = {}) {
+  const lines = {
+    netIncome: cfData.netIncome || 0,
+    depreciationAdd: Math.abs(cfData.depreciationAdd || 0),
+    stockCompensationAdd: Math.abs(cfData.stockCompensationAdd || 0),
+    deferredTaxes: cfData.deferredTaxes || 0,
+    arChange: cfData.arChange || 0,
+    inventoryChange: cfData.inventoryChange || 0,
+    apChange: cfData.apChange || 0,
+    operatingCashFlow: cfData.operatingCashFlow || 0,
+    capex: Math.abs(cfData.capex || 0),
+    investingCashFlow: cfData.investingCashFlow || 0,
+    shortTermDebtChange: 0,
+    longTermDebtChange: cfData.longTermDebtChange || 0,
+    commonSharesChange: cfData.commonSharesChange || 0,
+    dividendsPaid: cfData.dividendsPaid || 0,
+    financingCashFlow: cfData.financingCashFlow || 0,
+    netCashChange: cfData.netCashChange || 0,
+    ...mapped,
+  };
+  lines.capex = Math.abs(lines.capex);
+  // Filings report dividends paid as a positive payment; it's a financing outflow here.
+  lines.dividendsPaid = -Math.abs(lines.dividendsPaid);
+  return { ...lines, freeCashFlow: lines.operatingCashFlow - lines.capex };
+}
+
+function flowsOf(row: object, fields: readonly string[]): Flows {
+  const values = row as Record<string, unknown>;
+  return Object.fromEntries(fields.map(f => [f, typeof values[f] === "number" ? values[f] as number : 0]));
+}
+
+function sumFlows(rows: object[], fields: readonly string[]): Flows {
+  const result: Flows = Object.fromEntries(fields.map(f => [f, 0]));
+  for (const row of rows) {
+    const flows = flowsOf(row, fields);
+    for (const f of fields) result[f] += flows[f];
+  }
+  return result;
+}
+
+// total minus the sum of parts, field by field: FY less Q1-Q3, or year-to-date less earlier quarters.
+export function subtractFlows(total: object, parts: object[], fields: readonly string[]): Flows {
+  const result = flowsOf(total, fields);
+  const partsTotal = sumFlows(parts, fields);
+  for (const f of fields) result[f] -= partsTotal[f];
+  return result;
+}
+
+type QuarterRow = { year: number; quarter: number | null; isActual: boolean };
+
+function reportedQuarter<T extends QuarterRow>(rows: T[], year: number, quarter: number): T | undefined {
+  return rows.find(r => r.isActual && r.year === year && r.quarter === quarter);
+}
+
+function reportedAnnual<T extends QuarterRow>(rows: T[], year: number): T | undefined {
+  return rows.find(r => r.isActual && r.year === year && !r.quarter);
+}
+
+// The four quarters ending at (year, quarter), latest first.
+function trailingQuarters(year: number, quarter: number): Array<[number, number]> {
+  return [0, 1, 2, 3].map(back => {
+    const index = year * 4 + (quarter - 1) - back;
+    return [Math.floor(index / 4), (index % 4) + 1];
+  });
+}
+
+export function trailingTwelveMonths(
+  isRows: Array<QuarterRow & Partial<IncomeStatementLine>>,
+  cfRows: Array<QuarterRow & Partial<CashFlowLine>>,
+): TtmSummary | null {
+  const latestFirst = isRows
+    .filter(r => r.isActual && r.quarter)
+    .sort((a, b) => b.year - a.year || b.quarter! - a.quarter!);
+
+  for (const latest of latestFirst) {
+    const window = trailingQuarters(latest.year, latest.quarter!);
+    const isQuarters = window.map(([y, q]) => reportedQuarter(isRows, y, q));
+    if (isQuarters.some(r => !r)) continue;
+    const cfQuarters = window.map(([y, q]) => reportedQuarter(cfRows, y, q));
+    return {
+      asOfYear: latest.year,
+      asOfQuarter: latest.quarter!,
+      incomeStatement: sumFlows(isQuarters as object[], IS_FLOW_FIELDS),
+      cashFlow: cfQuarters.every(Boolean) ? sumFlows(cfQuarters as object[], CF_FLOW_FIELDS) : null,
+    };
+  }
+  return null;
+}
+
+export async function modelTrailingTwelveMonths(modelId: string): Promise<TtmSummary | null> {
+  const [isRows, cfRows] = await Promise.all([
+    storage.getIncomeStatementLines(modelId),
+    storage.getCashFlowLines(modelId),
+  ]);
+  return trailingTwelveMonths(isRows, cfRows);
+}
+
+// A filing that breaks revenue down by segment gets one revenue line item per member, holding
+// the reported annual figures, and those replace the single "Total Revenue" line; otherwise
+// revenue is imported into that line. Segment lines are matched on their member on re-import,
+// so renaming one keeps it.
+export async function importRevenueLines(modelId: string, segments: RevenueSegment[], years: number[]): Promise<void> {
+  const lineItems = await storage.getRevenueLineItems(modelId);
+  const totalLine = lineItems.find(li => li.name === TOTAL_REVENUE_LINE && !li.segmentMember);
+  if (segments.length === 0) {
+    if (!totalLine && !lineItems.some(li => li.segmentMember)) {
+      await storage.createRevenueLineItem({ modelId, name: TOTAL_REVENUE_LINE, sortOrder: 0 });
+    }
+    return;
+  }
+
+  if (totalLine) await storage.deleteRevenueLineItem(totalLine.id);
+  const periods: InsertRevenuePeriod[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const line = lineItems.find(li => li.segmentMember === segment.member)
+      || await storage.createRevenueLineItem({ modelId, name: segment.label, sortOrder: i, segmentMember: segment.member });
+    for (const year of years) {
+      const amount = segment.values[year];
+      if (amount !== undefined) periods.push({ lineItemId: line.id, modelId, year, quarter: null, amount, isActual: true });
+    }
+  }
+  await storage.upsertRevenuePeriods(periods);
+}
+
+// How a year's reported revenue divides among the revenue lines: by the segments' reported
+// annual figures, borrowing the nearest reported year's mix for years the filings don't break
+// down; without segment lines, all of it goes to "Total Revenue".
+function revenueSplit(lineItems: RevenueLineItem[], periods: RevenuePeriod[], year: number): Array<{ lineItemId: string; share: number }> {
+  const segmentIds = new Set(lineItems.filter(li => li.segmentMember).map(li => li.id));
+  if (segmentIds.size === 0) {
+    const totalLine = lineItems.find(li => li.name === TOTAL_REVENUE_LINE);
+    return totalLine ? [{ lineItemId: totalLine.id, share: 1 }] : [];
+  }
+  const reported = periods.filter(p => segmentIds.has(p.lineItemId) && p.quarter === null && p.isActual);
+  const years = Array.from(new Set(reported.map(p => p.year)))
+    .sort((a, b) => Math.abs(a - year) - Math.abs(b - year) || b - a);
+  if (years.length === 0) return [];
+  const mix = reported.filter(p => p.year === years[0]);
+  const total = mix.reduce((s, p) => s + p.amount, 0);
+  return total ? mix.map(p => ({ lineItemId: p.lineItemId, share: p.amount / total })) : [];
+}
+
+// Fills in what 10-K and 10-Q imports leave implicit, in whichever order they arrive:
+// Q4 as the fiscal year less Q1-Q3 (Q4's balance sheet is the year-end one), and actual
+// quarterly revenue periods from the reported quarters instead of an even split of the year.
+export async function reconcileQuarterlyActuals(modelId: string): Promise<void> {
+  const [isRows, bsRows, cfRows, lineItems, periods] = await Promise.all([
+    storage.getIncomeStatementLines(modelId),
+    storage.getBalanceSheetLines(modelId),
+    storage.getCashFlowLines(modelId),
+    storage.getRevenueLineItems(modelId),
+    storage.getRevenuePeriods(modelId),
+  ]);
+  const years = Array.from(new Set(isRows.filter(r => r.isActual).map(r => r.year))).sort((a, b) => a - b);
+
+  for (const year of years) {
+    const annualIS = reportedAnnual(isRows, year);
+    const firstThreeIS = [1, 2, 3].map(q => reportedQuarter(isRows, year, q));
+    let fourthQuarterIS: IncomeStatementLine | undefined = reportedQuarter(isRows, year, 4);
+
+    if (annualIS && !fourthQuarterIS && firstThreeIS.every(Boolean)) {
+      const flows = subtractFlows(annualIS, firstThreeIS as IncomeStatementLine[], IS_FLOW_FIELDS);
+      const shares = annualIS.sharesOutstanding || 0;
+      fourthQuarterIS = await storage.upsertIncomeStatementLine({
+        modelId, year, quarter: 4, isActual: true, ...flows,
+        sharesOutstanding: shares,
+        eps: shares > 0 ? Math.round(flows.netIncome / shares * 100) / 100 : 0,
+        nonGaapEps: shares > 0 ? Math.round(flows.nonGaapNetIncome / shares * 100) / 100 : 0,
+      });
+
+      const annualCF = reportedAnnual(cfRows, year);
+      const firstThreeCF = [1, 2, 3].map(q => reportedQuarter(cfRows, year, q));
+      if (annualCF && !reportedQuarter(cfRows, year, 4) && firstThreeCF.every(Boolean)) {
+        await storage.upsertCashFlowLine({
+          modelId, year, quarter: 4, isActual: true,
+          ...subtractFlows(annualCF, firstThreeCF as CashFlowLine[], CF_FLOW_FIELDS),
+          beginningCash: firstThreeCF[2]!.endingCash,
+          endingCash: annualCF.endingCash,
+        });
+      }
+
+      const annualBS = reportedAnnual(bsRows, year);
+      if (annualBS && !reportedQuarter(bsRows, year, 4)) {
+        const { id: _id, quarter: _quarter, ...balances } = annualBS as BalanceSheetLine;
+        await storage.upsertBalanceSheetLine({ ...balances, quarter: 4, customLines: balances.customLines as CustomLines | null });
+      }
+    }
+
+    const reportedRevenue = [1, 2, 3, 4].map(q =>
+      q === 4 ? fourthQuarterIS?.revenue ?? null : firstThreeIS[q - 1]?.revenue ?? null);
+    const updates: InsertRevenuePeriod[] = [];
+    const split = revenueSplit(lineItems, periods, year);
+    if (annualIS && (annualIS.revenue || 0) > 0) {
+      const known = reportedRevenue.filter((v): v is number => v !== null);
+      const remainder = known.length < 4 ? ((annualIS.revenue || 0) - known.reduce((s, v) => s + v, 0)) / (4 - known.length) : 0;
+      reportedRevenue.forEach((amount, i) => {
+        for (const { lineItemId, share } of split) {
+          updates.push({ lineItemId, modelId, year, quarter: i + 1, amount: (amount ?? remainder) * share, isActual: true });
+        }
+      });
+    } else {
+      // A fiscal year in progress keeps its forecast quarters; only the reported ones become actuals.
+      reportedRevenue.forEach((amount, i) => {
+        for (const { lineItemId, share } of split) {
+          const hasPeriod = periods.some(p => p.lineItemId === lineItemId && p.year === year && p.quarter === i + 1);
+          if (amount !== null && hasPeriod) {
+            updates.push({ lineItemId, modelId, year, quarter: i + 1, amount: amount * share, isActual: true });
+          }
+        }
+      });
+    }
+    if (updates.length > 0) await storage.upsertRevenuePeriods(updates);
+  }
+}
@@ -1,4 +1,5 @@
 import { fetchAndParseEdgar, type EdgarParsedData } from "./edgar-parser";
+import { fetchXbrlStatements, hasStatementData } from "./xbrl-facts";
 
 const SEC_USER_AGENT = "Kozo Financial App admin@kozo-app.com";
 
@@ -21,6 +22,8 @@ export interface AllStatementsResult {
   incomeStatement: EdgarParsedData;
   balanceSheet: EdgarParsedData;
   cashFlow: EdgarParsedData;
+  // "companyfacts" for the XBRL companyfacts API (full annual history), "ixbrl" for one filing document.
+  source: "companyfacts" | "ixbrl";
 }
 
 export async function searchCompanyByTicker(ticker: string): Promise<CompanySearchResult | null> {
@@ -49,7 +52,12 @@ export async function searchCompanyByTicker(ticker: string): Promise<CompanySear
   return null;
 }
 
-export async function getCompanyFilings(cik: string, formTypes: string[] = ["10-K"]): Promise<FilingEntry[]> {
+export const FILING_FORMS = ["10-K", "10-Q"] as const;
+
+// Enough 10-Qs to cover the quarters of the last two fiscal years alongside their 10-Ks.
+const FILINGS_PER_FORM: Record<string, number> = { "10-K": 5, "10-Q": 8 };
+
+export async function getCompanyFilings(cik: string, formTypes: string[] = [...FILING_FORMS]): Promise<FilingEntry[]> {
   const paddedCik = cik.padStart(10, "0");
 
   const response = await fetch(`https://data.sec.gov/submissions/CIK${paddedCik}.json`, {
@@ -110,7 +118,12 @@ export async function getCompanyFilings(cik: string, formTypes: string[] = ["10-
 
   entries.sort((a, b) => b.filingDate.localeCompare(a.filingDate));
 
-  return entries.slice(0, 5);
+  const kept: Record<string, number> = {};
+  return entries.filter(entry => {
+    const form = entry.form.toUpperCase();
+    kept[form] = (kept[form] || 0) + 1;
+    return kept[form] <= (FILINGS_PER_FORM[form] ?? 5);
+  });
 }
 
 export async function fetchAndParseAllStatements(filingUrl: string): Promise<AllStatementsResult> {
@@ -120,7 +133,20 @@ export async function fetchAndParseAllStatements(filingUrl: string): Promise<All
     fetchAndParseEdgar(filingUrl, "cash-flow"),
   ]);
 
-  return { incomeStatement, balanceSheet, cashFlow };
+  return { incomeStatement, balanceSheet, cashFlow, source: "ixbrl" };
+}
+
+// Every fiscal year the company has filed in XBRL, from the companyfacts API, falling back to
+// parsing one filing's iXBRL document when the API has nothing usable for the company.
+export async function fetchHistoricalStatements(cik: string, fallbackFilingUrl?: string): Promise<AllStatementsResult> {
+  try {
+    const statements = await fetchXbrlStatements(cik);
+    if (hasStatementData(statements)) return { ...statements, source: "companyfacts" };
+    if (!fallbackFilingUrl) throw new Error(`No annual XBRL financial data found for CIK ${cik}`);
+  } catch (err) {
+    if (!fallbackFilingUrl) throw err;
+  }
+  return fetchAndParseAllStatements(fallbackFilingUrl);
 }
 
 export type { EdgarParsedData };
@@ -0,0 +1,139 @@
+import { storage } from "./storage";
+import { recalculateModel } from "./recalculate";
+import { buildModelBundle, restoreModelBundle, modelBundleSchema, type ModelBundle } from "./model-bundle";
+import type { FinancialModel, Report } from "@shared/schema";
+
+export const SNAPSHOT_VERSION = 1;
+
+type ComputedModel = Awaited<ReturnType<typeof recalculateModel>>;
+
+export interface SnapshotData {
+  version: number;
+  computed: ComputedModel;
+  bundle: ModelBundle;
+}
+
+export interface SnapshotSummary {
+  id: string;
+  name: string;
+  createdAt: Date | null;
+  targetPrice: number;
+  weightedTarget: number;
+  wacc: number;
+  lastRevenue: number;
+}
+
+export interface YearChange {
+  year: number;
+  from: number | null;
+  to: number | null;
+  change: number | null;
+}
+
+export interface MetricChange {
+  key: string;
+  label: string;
+  format: "currency" | "percent" | "price";
+  from: number;
+  to: number;
+  change: number;
+}
+
+export interface SnapshotDiff {
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  revenue: YearChange[];
+  grossMargin: YearChange[];
+  operatingMargin: YearChange[];
+  netMargin: YearChange[];
+  freeCashFlow: YearChange[];
+  metrics: MetricChange[];
+}
+
+export async function createSnapshot(model: FinancialModel, name: string): Promise<Report> {
+  const computed = await recalculateModel(model.id);
+  const bundle = await buildModelBundle(model);
+  const snapshotData: SnapshotData = { version: SNAPSHOT_VERSION, computed, bundle };
+  return storage.createReport({ modelId: model.id, name, snapshotData });
+}
+
+function snapshotDataOf(report: Report): SnapshotData {
+  const data = report.snapshotData as SnapshotData | null;
+  if (!data || data.version !== SNAPSHOT_VERSION || !data.computed || !data.bundle) {
+    throw new Error(`Report "${report.name}" is not a model snapshot`);
+  }
+  return data;
+}
+
+export function isSnapshot(report: Report): boolean {
+  const data = report.snapshotData as SnapshotData | null;
+  return !!data && data.version === SNAPSHOT_VERSION && !!data.computed && !!data.bundle;
+}
+
+export function summarizeSnapshot(report: Report): SnapshotSummary {
+  const { computed } = snapshotDataOf(report);
+  const years = Object.keys(computed.revenue).map(Number).sort((a, b) => a - b);
+  return {
+    id: report.id,
+    name: report.name,
+    createdAt: report.createdAt,
+    targetPrice: computed.dcf.targetPricePerShare,
+    weightedTarget: computed.valuation.weightedTarget ?? 0,
+    wacc: computed.dcf.wacc,
+    lastRevenue: years.length > 0 ? computed.revenue[years[years.length - 1]] : 0,
+  };
+}
+
+function yearChanges(from: Record<number, number>, to: Record<number, number>): YearChange[] {
+  const years = Array.from(new Set([...Object.keys(from), ...Object.keys(to)].map(Number))).sort((a, b) => a - b);
+  return years.map(year => {
+    const a = from[year] ?? null;
+    const b = to[year] ?? null;
+    return { year, from: a, to: b, change: a !== null && b !== null ? b - a : null };
+  });
+}
+
+function byYear(rows: Array<Record<string, any>>, value: (row: Record<string, any>) => number | null): Record<number, number> {
+  const result: Record<number, number> = {};
+  for (const row of rows) {
+    const v = value(row);
+    if (v !== null) result[row.year] = v;
+  }
+  return result;
+}
+
+const margin = (key: string) => (row: Record<string, any>) =>
+  row.revenue ? (row[key] || 0) / row.revenue : null;
+
+export function diffSnapshots(fromReport: Report, toReport: Report): SnapshotDiff {
+  const a = snapshotDataOf(fromReport).computed;
+  const b = snapshotDataOf(toReport).computed;
+
+  const metric = (key: string, label: string, format: MetricChange["format"], from: number, to: number): MetricChange =>
+    ({ key, label, format, from, to, change: to - from });
+
+  return {
+    from: summarizeSnapshot(fromReport),
+    to: summarizeSnapshot(toReport),
+    revenue: yearChanges(a.revenue, b.revenue),
+    grossMargin: yearChanges(byYear(a.incomeStatement, margin("grossProfit")), byYear(b.incomeStatement, margin("grossProfit"))),
+    operatingMargin: yearChanges(byYear(a.incomeStatement, margin("operatingIncome")), byYear(b.incomeStatement, margin("operatingIncome"))),
+    netMargin: yearChanges(byYear(a.incomeStatement, margin("netIncome")), byYear(b.incomeStatement, margin("netIncome"))),
+    freeCashFlow: yearChanges(byYear(a.cashFlow, r => r.freeCashFlow ?? 0), byYear(b.cashFlow, r => r.freeCashFlow ?? 0)),
+    metrics: [
+      metric("wacc", "WACC", "percent", a.dcf.wacc, b.dcf.wacc),
+      metric("longTermGrowth", "Long-Term Growth", "percent", a.dcf.longTermGrowth, b.dcf.longTermGrowth),
+      metric("npv", "NPV of FCFs", "currency", a.dcf.npv, b.dcf.npv),
+      metric("terminalValue", "Terminal Value", "currency", a.dcf.terminalValue, b.dcf.terminalValue),
+      metric("targetPricePerShare", "DCF Target Price", "price", a.dcf.targetPricePerShare, b.dcf.targetPricePerShare),
+      metric("weightedTarget", "Probability-Weighted Target", "price", a.valuation.weightedTarget ?? 0, b.valuation.weightedTarget ?? 0),
+      metric("averageTarget", "Average Target", "price", a.valuation.averageTarget, b.valuation.averageTarget),
+    ],
+  };
+}
+
+export async function restoreSnapshot(model: FinancialModel, report: Report, userId: string): Promise<FinancialModel> {
+  const parsed = modelBundleSchema.safeParse(snapshotDataOf(report).bundle);
+  if (!parsed.success) throw new Error(`Snapshot bundle is invalid: ${parsed.error.message}`);
+  return restoreModelBundle(model, parsed.data, userId);
+}
@@ -1,11 +1,12 @@
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
 import { db } from "./db";
 import {
   financialModels, revenueLineItems, revenuePeriods,
   incomeStatementLines, balanceSheetLines, cashFlowLines,
   dcfValuations, valuationComparisons, portfolioPositions, portfolioLots,
   macroIndicators, marketIndices, portfolioRedFlags,
-  scenarios, assumptions, actuals, reports,
+  scenarios, assumptions, actuals, reports, debtTranches, gaapTagMappings,
   cryptoProjects, tokenSupplySchedules, tokenIncentives, protocolMetrics,
   protocolRevenueForecasts, tokenFlowEntries, tokenAllocations, fundraisingRounds,
   aiResearchCache,
@@ -23,9 +24,11 @@ import {
   type MarketIndex, type InsertMarketIndex,
   type PortfolioRedFlag, type InsertPortfolioRedFlag,
   type Scenario, type InsertScenario,
+  type DebtTranche, type InsertDebtTranche,
   type Assumptions, type InsertAssumptions,
   type Actual, type InsertActual,
   type Report, type InsertReport,
+  type GaapTagMapping, type InsertGaapTagMapping,
   type CryptoProject, type InsertCryptoProject,
   type TokenSupplySchedule, type InsertTokenSupplySchedule,
   type TokenIncentive, type InsertTokenIncentive,
@@ -37,7 +40,14 @@ import {
   type AiResearchCache, type InsertAiResearchCache,
 } from "@shared/schema";
 
+export type OwnedResource =
+  | "model" | "revenueLineItem" | "revenuePeriod" | "scenario" | "assumptions" | "actual" | "report" | "debtTranche"
+  | "portfolioPosition" | "portfolioLot"
+  | "cryptoProject" | "supplySchedule" | "incentive" | "allocation" | "fundraisingRound";
+
 export interface IStorage {
+  getResourceOwner(resource: OwnedResource, id: string): Promise<string | undefined>;
+
   getModels(userId: string): Promise<FinancialModel[]>;
   getModel(id: string, userId: string): Promise<FinancialModel | undefined>;
   createModel(data: InsertFinancialModel): Promise<FinancialModel>;
@@ -60,15 +70,15 @@ export interface IStorage {
 
   getBalanceSheetLines(modelId: string): Promise<BalanceSheetLine[]>;
   upsertBalanceSheetLine(data: InsertBalanceSheetLine): Promise<BalanceSheetLine>;
-  updateBalanceSheetLineByYear(modelId: string, year: number, data: Partial<InsertBalanceSheetLine>): Promise<BalanceSheetLine>;
+  updateBalanceSheetLineByYear(modelId: string, year: number, data: Partial<InsertBalanceSheetLine>, quarter?: number | null): Promise<BalanceSheetLine>;
   deleteBalanceSheetLines(modelId: string): Promise<void>;
 
   getCashFlowLines(modelId: string): Promise<CashFlowLine[]>;
   upsertCashFlowLine(data: InsertCashFlowLine): Promise<CashFlowLine>;
-  updateCashFlowLineByYear(modelId: string, year: number, data: Partial<InsertCashFlowLine>): Promise<CashFlowLine>;
+  updateCashFlowLineByYear(modelId: string, year: number, data: Partial<InsertCashFlowLine>, quarter?: number | null): Promise<CashFlowLine>;
   deleteCashFlowLines(modelId: string): Promise<void>;
 
-  updateIncomeStatementLineByYear(modelId: string, year: number, data: Partial<InsertIncomeStatementLine>): Promise<IncomeStatementLine>;
+  updateIncomeStatementLineByYear(modelId: string, year: number, data: Partial<InsertIncomeStatementLine>, quarter?: number | null): Promise<IncomeStatementLine>;
 
   getDcfValuation(modelId: string): Promise<DcfValuation | undefined>;
   upsertDcfValuation(data: InsertDcfValuation): Promise<DcfValuation>;
@@ -82,7 +92,8 @@ export interface IStorage {
   deletePortfolioPosition(id: string, userId: string): Promise<void>;
 
   getPortfolioLots(positionId: string): Promise<PortfolioLot[]>;
-  getAllPortfolioLots(): Promise<PortfolioLot[]>;
+  getPortfolioLot(id: string): Promise<PortfolioLot | undefined>;
+  getAllPortfolioLots(userId: string): Promise<PortfolioLot[]>;
   createPortfolioLot(data: InsertPortfolioLot): Promise<PortfolioLot>;
   updatePortfolioLot(id: string, data: Partial<InsertPortfolioLot>): Promise<PortfolioLot>;
   deletePortfolioLot(id: string): Promise<void>;
@@ -102,9 +113,16 @@ export interface IStorage {
   upsertPortfolioRedFlag(data: InsertPortfolioRedFlag): Promise<PortfolioRedFlag>;
 
   getScenarios(modelId: string): Promise<Scenario[]>;
+  getScenario(id: string): Promise<Scenario | undefined>;
   createScenario(data: InsertScenario): Promise<Scenario>;
+  updateScenario(id: string, data: Partial<InsertScenario>): Promise<Scenario>;
   deleteScenario(id: string): Promise<void>;
 
+  getDebtTranches(modelId: string): Promise<DebtTranche[]>;
+  createDebtTranche(data: InsertDebtTranche): Promise<DebtTranche>;
+  updateDebtTranche(id: string, data: Partial<InsertDebtTranche>): Promise<DebtTranche>;
+  deleteDebtTranche(id: string): Promise<void>;
+
   getAssumptions(modelId: string): Promise<Assumptions[]>;
   createAssumptions(data: InsertAssumptions): Promise<Assumptions>;
   updateAssumptions(id: string, data: Partial<InsertAssumptions>): Promise<Assumptions>;
@@ -114,9 +132,14 @@ export interface IStorage {
   deleteActual(id: string): Promise<void>;
 
   getReports(modelId: string): Promise<Report[]>;
+  getReport(id: string): Promise<Report | undefined>;
   createReport(data: InsertReport): Promise<Report>;
   deleteReport(id: string): Promise<void>;
 
+  getGaapTagMappings(userId: string, cik: string): Promise<GaapTagMapping[]>;
+  upsertGaapTagMapping(data: InsertGaapTagMapping): Promise<GaapTagMapping>;
+  deleteGaapTagMapping(id: string, userId: string): Promise<void>;
+
   getCryptoProjects(userId: string): Promise<CryptoProject[]>;
   getCryptoProject(id: string, userId: string): Promise<CryptoProject | undefined>;
   createCryptoProject(data: InsertCryptoProject): Promise<CryptoProject>;
@@ -164,7 +187,78 @@ export interface IStorage {
   setAiResearchCache(data: { coingeckoId: string; researchType: string; data: unknown; confidence?: string | null; notes?: string | null }): Promise<AiResearchCache>;
 }
 
+// Statement rows are keyed by (model, year, quarter); annual rows have no quarter.
+function samePeriod(column: PgColumn, quarter: number | null | undefined): SQL {
+  return quarter ? eq(column, quarter) : isNull(column);
+}
+
 export class DatabaseStorage implements IStorage {
+  async getResourceOwner(resource: OwnedResource, id: string) {
+    const modelOwner = { userId: financialModels.userId };
+    const projectOwner = { userId: cryptoProjects.userId };
+    let rows: { userId: string | null }[];
+    switch (resource) {
+      case "model":
+        rows = await db.select(modelOwner).from(financialModels).where(eq(financialModels.id, id));
+        break;
+      case "revenueLineItem":
+        rows = await db.select(modelOwner).from(revenueLineItems)
+          .innerJoin(financialModels, eq(revenueLineItems.modelId, financialModels.id)).where(eq(revenueLineItems.id, id));
+        break;
+      case "revenuePeriod":
+        rows = await db.select(modelOwner).from(revenuePeriods)
+          .innerJoin(financialModels, eq(revenuePeriods.modelId, financialModels.id)).where(eq(revenuePeriods.id, id));
+        break;
+      case "scenario":
+        rows = await db.select(modelOwner).from(scenarios)
+          .innerJoin(financialModels, eq(scenarios.modelId, financialModels.id)).where(eq(scenarios.id, id));
+        break;
+      case "assumptions":
+        rows = await db.select(modelOwner).from(assumptions)
+          .innerJoin(financialModels, eq(assumptions.modelId, financialModels.id)).where(eq(assumptions.id, id));
+        break;
+      case "actual":
+        rows = await db.select(modelOwner).from(actuals)
+          .innerJoin(financialModels, eq(actuals.modelId, financialModels.id)).where(eq(actuals.id, id));
+        break;
+      case "report":
+        rows = await db.select(modelOwner).from(reports)
+          .innerJoin(financialModels, eq(reports.modelId, financialModels.id)).where(eq(reports.id, id));
+        break;
+      case "debtTranche":
+        rows = await db.select(modelOwner).from(debtTranches)
+          .innerJoin(financialModels, eq(debtTranches.modelId, financialModels.id)).where(eq(debtTranches.id, id));
+        break;
+      case "portfolioPosition":
+        rows = await db.select({ userId: portfolioPositions.userId }).from(portfolioPositions).where(eq(portfolioPositions.id, id));
+        break;
+      case "portfolioLot":
+        rows = await db.select({ userId: portfolioPositions.userId }).from(portfolioLots)
+          .innerJoin(portfolioPositions, eq(portfolioLots.positionId, portfolioPositions.id)).where(eq(portfolioLots.id, id));
+        break;
+      case "cryptoProject":
+        rows = await db.select(projectOwner).from(cryptoProjects).where(eq(cryptoProjects.id, id));
+        break;
+      case "supplySchedule":
+        rows = await db.select(projectOwner).from(tokenSupplySchedules)
+          .innerJoin(cryptoProjects, eq(tokenSupplySchedules.projectId, cryptoProjects.id)).where(eq(tokenSupplySchedules.id, id));
+        break;
+      case "incentive":
+        rows = await db.select(projectOwner).from(tokenIncentives)
+          .innerJoin(cryptoProjects, eq(tokenIncentives.projectId, cryptoProjects.id)).where(eq(tokenIncentives.id, id));
+        break;
+      case "allocation":
+        rows = await db.select(projectOwner).from(tokenAllocations)
+          .innerJoin(cryptoProjects, eq(tokenAllocations.projectId, cryptoProjects.id)).where(eq(tokenAllocations.id, id));
+        break;
+      case "fundraisingRound":
+        rows = await db.select(projectOwner).from(fundraisingRounds)
+          .innerJoin(cryptoProjects, eq(fundraisingRounds.projectId, cryptoProjects.id)).where(eq(fundraisingRounds.id, id));
+        break;
+    }
+    return rows[0]?.userId ?? undefined;
+  }
+
   async getModels(userId: string) {
     return db.select().from(financialModels).where(eq(financialModels.userId, userId));
   }
@@ -247,7 +341,7 @@ export class DatabaseStorage implements IStorage {
 
   async upsertIncomeStatementLine(data: InsertIncomeStatementLine) {
     const existing = await db.select().from(incomeStatementLines).where(
-      and(eq(incomeStatementLines.modelId, data.modelId), eq(incomeStatementLines.year, data.year))
+      and(eq(incomeStatementLines.modelId, data.modelId), eq(incomeStatementLines.year, data.year), samePeriod(incomeStatementLines.quarter, data.quarter))
     );
     if (existing.length > 0) {
       const [updated] = await db.update(incomeStatementLines)
@@ -270,7 +364,7 @@ export class DatabaseStorage implements IStorage {
 
   async upsertBalanceSheetLine(data: InsertBalanceSheetLine) {
     const existing = await db.select().from(balanceSheetLines).where(
-      and(eq(balanceSheetLines.modelId, data.modelId), eq(balanceSheetLines.year, data.year))
+      and(eq(balanceSheetLines.modelId, data.modelId), eq(balanceSheetLines.year, data.year), samePeriod(balanceSheetLines.quarter, data.quarter))
     );
     if (existing.length > 0) {
       const [updated] = await db.update(balanceSheetLines)
@@ -283,9 +377,9 @@ export class DatabaseStorage implements IStorage {
     return line;
   }
 
-  async updateBalanceSheetLineByYear(modelId: string, year: number, data: Partial<InsertBalanceSheetLine>) {
+  async updateBalanceSheetLineByYear(modelId: string, year: number, data: Partial<InsertBalanceSheetLine>, quarter?: number | null) {
     const [line] = await db.update(balanceSheetLines).set(data)
-      .where(and(eq(balanceSheetLines.modelId, modelId), eq(balanceSheetLines.year, year)))
+      .where(and(eq(balanceSheetLines.modelId, modelId), eq(balanceSheetLines.year, year), samePeriod(balanceSheetLines.quarter, quarter)))
       .returning();
     return line;
   }
@@ -300,7 +394,7 @@ export class DatabaseStorage implements IStorage {
 
   async upsertCashFlowLine(data: InsertCashFlowLine) {
     const existing = await db.select().from(cashFlowLines).where(
-      and(eq(cashFlowLines.modelId, data.modelId), eq(cashFlowLines.year, data.year))
+      and(eq(cashFlowLines.modelId, data.modelId), eq(cashFlowLines.year, data.year), samePeriod(cashFlowLines.quarter, data.quarter))
     );
     if (existing.length > 0) {
       const [updated] = await db.update(cashFlowLines)
@@ -313,9 +407,9 @@ export class DatabaseStorage implements IStorage {
     return line;
   }
 
-  async updateCashFlowLineByYear(modelId: string, year: number, data: Partial<InsertCashFlowLine>) {
+  async updateCashFlowLineByYear(modelId: string, year: number, data: Partial<InsertCashFlowLine>, quarter?: number | null) {
     const [line] = await db.update(cashFlowLines).set(data)
-      .where(and(eq(cashFlowLines.modelId, modelId), eq(cashFlowLines.year, year)))
+      .where(and(eq(cashFlowLines.modelId, modelId), eq(cashFlowLines.year, year), samePeriod(cashFlowLines.quarter, quarter)))
       .returning();
     return line;
   }
@@ -324,9 +418,9 @@ export class DatabaseStorage implements IStorage {
     await db.delete(cashFlowLines).where(eq(cashFlowLines.modelId, modelId));
   }
 
-  async updateIncomeStatementLineByYear(modelId: string, year: number, data: Partial<InsertIncomeStatementLine>) {
+  async updateIncomeStatementLineByYear(modelId: string, year: number, data: Partial<InsertIncomeStatementLine>, quarter?: number | null) {
     const [line] = await db.update(incomeStatementLines).set(data)
-      .where(and(eq(incomeStatementLines.modelId, modelId), eq(incomeStatementLines.year, year)))
+      .where(and(eq(incomeStatementLines.modelId, modelId), eq(incomeStatementLines.year, year), samePeriod(incomeStatementLines.quarter, quarter)))
       .returning();
     return line;
   }
@@ -383,8 +477,16 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(portfolioLots).where(eq(portfolioLots.positionId, positionId));
   }
 
-  async getAllPortfolioLots() {
-    return db.select().from(portfolioLots);
+  async getPortfolioLot(id: string) {
+    const [lot] = await db.select().from(portfolioLots).where(eq(portfolioLots.id, id));
+    return lot;
+  }
+
+  async getAllPortfolioLots(userId: string) {
+    const rows = await db.select({ lot: portfolioLots }).from(portfolioLots)
+      .innerJoin(portfolioPositions, eq(portfolioLots.positionId, portfolioPositions.id))
+      .where(eq(portfolioPositions.userId, userId));
+    return rows.map(r => r.lot);
   }
 
   async createPortfolioLot(data: InsertPortfolioLot) {
@@ -479,15 +581,43 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(scenarios).where(eq(scenarios.modelId, modelId));
   }
 
+  async getScenario(id: string) {
+    const [s] = await db.select().from(scenarios).where(eq(scenarios.id, id));
+    return s;
+  }
+
   async createScenario(data: InsertScenario) {
     const [s] = await db.insert(scenarios).values(data).returning();
     return s;
   }
 
+  async updateScenario(id: string, data: Partial<InsertScenario>) {
+    const [s] = await db.update(scenarios).set(data).where(eq(scenarios.id, id)).returning();
+    return s;
+  }
+
   async deleteScenario(id: string) {
     await db.delete(scenarios).where(eq(scenarios.id, id));
   }
 
+  async getDebtTranches(modelId: string) {
+    return db.select().from(debtTranches).where(eq(debtTranches.modelId, modelId)).orderBy(debtTranches.sortOrder);
+  }
+
+  async createDebtTranche(data: InsertDebtTranche) {
+    const [t] = await db.insert(debtTranches).values(data).returning();
+    return t;
+  }
+
+  async updateDebtTranche(id: string, data: Partial<InsertDebtTranche>) {
+    const [t] = await db.update(debtTranches).set(data).where(eq(debtTranches.id, id)).returning();
+    return t;
+  }
+
+  async deleteDebtTranche(id: string) {
+    await db.delete(debtTranches).where(eq(debtTranches.id, id));
+  }
+
   async getAssumptions(modelId: string) {
     return db.select().from(assumptions).where(eq(assumptions.modelId, modelId));
   }
@@ -519,6 +649,11 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(reports).where(eq(reports.modelId, modelId));
   }
 
+  async getReport(id: string) {
+    const [r] = await db.select().from(reports).where(eq(reports.id, id));
+    return r;
+  }
+
   async createReport(data: InsertReport) {
     const [r] = await db.insert(reports).values(data).returning();
     return r;
@@ -528,6 +663,27 @@ export class DatabaseStorage implements IStorage {
     await db.delete(reports).where(eq(reports.id, id));
   }
 
+  async getGaapTagMappings(userId: string, cik: string) {
+    return db.select().from(gaapTagMappings)
+      .where(and(eq(gaapTagMappings.userId, userId), eq(gaapTagMappings.cik, cik)))
+      .orderBy(gaapTagMappings.tag);
+  }
+
+  async upsertGaapTagMapping(data: InsertGaapTagMapping) {
+    const [mapping] = await db.insert(gaapTagMappings)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [gaapTagMappings.userId, gaapTagMappings.cik, gaapTagMappings.tag],
+        set: { statement: data.statement, field: data.field ?? null, customLabel: data.customLabel ?? null, updatedAt: new Date() },
+      })
+      .returning();
+    return mapping;
+  }
+
+  async deleteGaapTagMapping(id: string, userId: string) {
+    await db.delete(gaapTagMappings).where(and(eq(gaapTagMappings.id, id), eq(gaapTagMappings.userId, userId)));
+  }
+
   async getCryptoProjects(userId: string) {
     return db.select().from(cryptoProjects).where(eq(cryptoProjects.userId, userId)).orderBy(cryptoProjects.sortOrder);
   }
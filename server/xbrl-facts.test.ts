@@ -0,0 +1,181 @@
+import { readFileSync } from "fs";
+import { parseCompanyFacts, parseCompanyConcepts, type CompanyFactsJson, type CompanyConceptJson } from "./xbrl-facts";
+import { fetchHistoricalStatements } from "./sec-search";
+import { fetchAndParseEdgar, segmentLabel } from "./edgar-parser";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    console.error(`  FAIL: ${message}`);
+    process.exitCode = 1;
+  } else {
+    console.log(`  PASS: ${message}`);
+  }
+}
+
+function fixture<T>(name: string): T {
+  return JSON.parse(readFileSync(new URL(`../test/data/${name}`, import.meta.url), "utf8")) as T;
+}
+
+const companyFacts = fixture<CompanyFactsJson>("companyfacts-sample.json");
+const revenueConcept = fixture<CompanyConceptJson>("companyconcept-revenue-sample.json");
+const netIncomeConcept = fixture<CompanyConceptJson>("companyconcept-netincome-sample.json");
+
+console.log("\n=== XBRL Company Facts Test Suite ===\n");
+
+console.log("--- Test 1: Full annual history in one document ---");
+{
+  const { incomeStatement, balanceSheet, cashFlow } = parseCompanyFacts(companyFacts);
+  assert(incomeStatement.years.length === 13, `13 fiscal years of income statement (got ${incomeStatement.years.length})`);
+  assert(incomeStatement.years[0] === 2012 && incomeStatement.years[12] === 2024, "Years run 2012-2024");
+  assert(incomeStatement.data[2014].totalRevenue === 1_300_000_000, "Pre-ASC 606 revenue read from SalesRevenueNet");
+  assert(incomeStatement.data[2024].totalRevenue === 2_800_000_000, "Later revenue read from RevenueFromContractWithCustomer");
+  assert(incomeStatement.data[2024].epsDiluted === 0.67, "Per-share facts read from USD/shares");
+  assert(cashFlow.years.length === 13, "Cash flow covers the same years");
+  assert(balanceSheet.years[0] === 2013, "Balance sheet history starts at the earliest 10-K's prior year-end");
+  assert(cashFlow.data[2018].operatingCashFlow === 342_000_000, "Operating cash flow from annual durations");
+  assert(incomeStatement.companyName === "Sample Industries Inc.", "Entity name carried through");
+  assert(incomeStatement.fiscalQuarter === null, "Company facts import is annual");
+}
+
+console.log("\n--- Test 2: History limit keeps the latest years ---");
+{
+  const { incomeStatement } = parseCompanyFacts(companyFacts, 10);
+  assert(incomeStatement.years.length === 10 && incomeStatement.years[0] === 2015, "Ten latest years kept");
+  assert(incomeStatement.data[2014] === undefined, "Older years dropped from data");
+}
+
+console.log("\n--- Test 3: Restated values prefer the latest filing ---");
+{
+  const { incomeStatement } = parseCompanyFacts(companyFacts);
+  assert(incomeStatement.data[2022].netIncome === 275_000_000, "FY2022 net income restated in the FY2024 10-K wins over the original");
+  assert(incomeStatement.data[2020].netIncome === 254_000_000, "FY2020 net income from the 10-K/A and later comparatives");
+  assert(incomeStatement.data[2023].netIncome === 318_000_000, "Unrestated year keeps its reported value");
+}
+
+console.log("\n--- Test 4: Quarterly and mid-year facts are not annual figures ---");
+{
+  const { incomeStatement, balanceSheet } = parseCompanyFacts(companyFacts);
+  assert(!incomeStatement.years.includes(2025), "10-Q facts don't create a fiscal year");
+  assert(balanceSheet.data[2024].totalAssets === 4_400_000_000, "Mid-year instant ignored for the year-end balance");
+  assert(balanceSheet.data[2024].cashAndEquivalents === 540_000_000, "Year-end cash balance");
+}
+
+console.log("\n--- Test 5: Unmapped tags reported from the latest filing ---");
+{
+  const { incomeStatement } = parseCompanyFacts(companyFacts);
+  assert(incomeStatement.unmatchedGaap.includes("BusinessCombinationAcquisitionRelatedCosts"), "Unmapped USD tag listed");
+  assert(!incomeStatement.unmatchedGaap.includes("NetIncomeLoss"), "Mapped tag not listed");
+  const acquisitionCosts = incomeStatement.unmatchedTags.find(t => t.tag === "us-gaap:BusinessCombinationAcquisitionRelatedCosts");
+  assert(!!acquisitionCosts && Object.keys(acquisitionCosts.values).every(y => incomeStatement.years.includes(Number(y))), "Unmapped tag values reported for kept years");
+  assert(incomeStatement.filingDate === "2024-11-02", "Filing date is the latest 10-K used");
+}
+
+console.log("\n--- Test 6: companyconcept documents parse like companyfacts ---");
+{
+  const fromConcepts = parseCompanyConcepts([revenueConcept, netIncomeConcept]).incomeStatement;
+  const fromFacts = parseCompanyFacts(companyFacts).incomeStatement;
+  assert(fromConcepts.data[2016].totalRevenue === undefined, "Only the fetched revenue tag's years have revenue");
+  assert(fromConcepts.data[2017].totalRevenue === fromFacts.data[2017].totalRevenue, "Earliest comparative year of the revenue tag included");
+  assert(fromConcepts.data[2022].totalRevenue === fromFacts.data[2022].totalRevenue, "Revenue matches companyfacts");
+  assert(fromConcepts.data[2022].netIncome === 275_000_000, "Restatement handled per concept");
+}
+
+console.log("\n--- Test 7: Fallbacks when companyfacts can't be used ---");
+{
+  const filingUrl = "https://www.sec.gov/Archives/edgar/data/1234567/000123456724000095/sample-20240930.htm";
+  const ixbrl = `<html><body>
+    <xbrli:context id="FY2024"><xbrli:period><xbrli:startDate>2023-10-01</xbrli:startDate><xbrli:endDate>2024-09-30</xbrli:endDate></xbrli:period></xbrli:context>
+    <ix:nonFraction name="us-gaap:Revenues" contextRef="FY2024" unitRef="usd" scale="6">2,800</ix:nonFraction>
+  </body></html>`;
+  const realFetch = globalThis.fetch;
+  const requested: string[] = [];
+  const stubFetch = (companyFactsStatus: number) => (async (input: string | URL | Request) => {
+    const url = String(input);
+    requested.push(url);
+    if (url.includes("/companyfacts/")) return new Response("", { status: companyFactsStatus });
+    if (url.endsWith("/RevenueFromContractWithCustomerExcludingAssessedTax.json")) return Response.json(revenueConcept);
+    if (url.endsWith("/NetIncomeLoss.json")) return Response.json(netIncomeConcept);
+    if (url.includes("/companyconcept/")) return new Response("", { status: 404 });
+    if (url === filingUrl) return new Response(ixbrl);
+    return new Response("", { status: 500 });
+  }) as typeof fetch;
+
+  try {
+    globalThis.fetch = stubFetch(404);
+    const noFacts = await fetchHistoricalStatements("1234567", filingUrl);
+    assert(noFacts.source === "ixbrl", "No company facts falls back to the iXBRL filing");
+    assert(noFacts.incomeStatement.data[2024]?.totalRevenue === 2_800_000_000, "iXBRL fallback parses the filing");
+    assert(!requested.some(u => u.includes("/companyconcept/")), "No per-concept requests when the company has no XBRL data");
+
+    requested.length = 0;
+    globalThis.fetch = stubFetch(503);
+    const byConcept = await fetchHistoricalStatements("1234567", filingUrl);
+    assert(byConcept.source === "companyfacts", "companyfacts outage served from companyconcept");
+    assert(byConcept.incomeStatement.data[2022]?.netIncome === 275_000_000, "Concept-by-concept import keeps restatements");
+    assert(requested.every(u => !u.includes("sample-20240930")), "Filing document not needed");
+
+    let failed = false;
+    globalThis.fetch = stubFetch(404);
+    try {
+      await fetchHistoricalStatements("1234567");
+    } catch {
+      failed = true;
+    }
+    assert(failed, "Without a filing to fall back to, missing company facts is an error");
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
+
+console.log("\n--- Test 8: Revenue segments from dimensional contexts ---");
+{
+  const filingUrl = "https://www.sec.gov/Archives/edgar/data/1234567/000123456724000095/sample-20240930.htm";
+  const context = (id: string, start: string, end: string, members: Array<[string, string]> = []) => `
+    <xbrli:context id="${id}">
+      <xbrli:entity><xbrli:identifier>1234567</xbrli:identifier>${members.length ? `<xbrli:segment>${members.map(([axis, member]) =>
+        `<xbrldi:explicitMember dimension="${axis}">${member}</xbrldi:explicitMember>`).join("")}</xbrli:segment>` : ""}</xbrli:entity>
+      <xbrli:period><xbrli:startDate>${start}</xbrli:startDate><xbrli:endDate>${end}</xbrli:endDate></xbrli:period>
+    </xbrli:context>`;
+  const revenue = (ctx: string, millions: number) =>
+    `<ix:nonFraction name="us-gaap:RevenueFromContractWithCustomerExcludingAssessedTax" contextRef="${ctx}" unitRef="usd" scale="6">${millions}</ix:nonFraction>`;
+  const product = "srt:ProductOrServiceAxis";
+  const segments = "us-gaap:StatementBusinessSegmentsAxis";
+  const ixbrl = `<html><body>
+    ${context("FY2024", "2023-10-01", "2024-09-30")}
+    ${context("FY2023", "2022-10-01", "2023-09-30")}
+    ${context("FY2024_Product", "2023-10-01", "2024-09-30", [[product, "us-gaap:ProductMember"]])}
+    ${context("FY2024_Service", "2023-10-01", "2024-09-30", [[product, "us-gaap:ServiceMember"]])}
+    ${context("FY2023_Product", "2022-10-01", "2023-09-30", [[product, "us-gaap:ProductMember"]])}
+    ${context("FY2023_Service", "2022-10-01", "2023-09-30", [[product, "us-gaap:ServiceMember"]])}
+    ${context("FY2024_Americas", "2023-10-01", "2024-09-30", [[segments, "smpl:AmericasSegmentMember"]])}
+    ${context("FY2024_Emea", "2023-10-01", "2024-09-30", [[segments, "smpl:EmeaSegmentMember"]])}
+    ${context("FY2024_Americas_Service", "2023-10-01", "2024-09-30", [[segments, "smpl:AmericasSegmentMember"], [product, "us-gaap:ServiceMember"]])}
+    ${revenue("FY2024_Product", 1900)}
+    ${revenue("FY2024", 2800)}
+    ${revenue("FY2023", 2500)}
+    ${revenue("FY2024_Service", 900)}
+    ${revenue("FY2023_Product", 1750)}
+    ${revenue("FY2023_Service", 750)}
+    ${revenue("FY2024_Americas", 1600)}
+    ${revenue("FY2024_Emea", 1000)}
+    ${revenue("FY2024_Americas_Service", 500)}
+  </body></html>`;
+  const realFetch = globalThis.fetch;
+  try {
+    globalThis.fetch = (async () => new Response(ixbrl)) as unknown as typeof fetch;
+    const parsed = await fetchAndParseEdgar(filingUrl, "income-statement");
+    assert(parsed.data[2024].totalRevenue === 2_800_000_000, "Segment values don't replace the consolidated total");
+    assert(parsed.revenueSegments.length === 2, `One line per member of the reconciling axis (got ${parsed.revenueSegments.length})`);
+    assert(parsed.revenueSegments.every(s => s.axis === product), "Business segments that don't add up to total revenue are skipped");
+    assert(parsed.revenueSegments[0].label === "Product" && parsed.revenueSegments[0].values[2023] === 1_750_000_000, "Largest segment first, with history");
+    assert(!parsed.revenueSegments.some(s => s.member.includes("Americas")), "Multi-axis contexts ignored");
+
+    const balanceSheet = await fetchAndParseEdgar(filingUrl, "balance-sheet");
+    assert(balanceSheet.revenueSegments.length === 0, "Segments only reported on the income statement");
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+  assert(segmentLabel("aapl:IPhoneMember") === "IPhone" && segmentLabel("acme:CloudAndAIMember") === "Cloud And AI", "Member names become line item labels");
+}
+
+console.log("\n=== Done ===\n");
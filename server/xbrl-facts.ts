@@ -0,0 +1,244 @@
+import { getStatementMap, sortUnmatchedTags, type EdgarParsedData } from "./edgar-parser";
+
+const SEC_USER_AGENT = "Kozo Financial App admin@kozo-app.com";
+
+// Company facts go back to the first XBRL filings (2009 for large filers); keep the latest years.
+export const DEFAULT_HISTORY_YEARS = 15;
+
+const ANNUAL_FORMS = ["10-K", "10-K/A", "10-KT", "10-KT/A"];
+const DAY_MS = 1000 * 60 * 60 * 24;
+const PERIOD_END_SLACK_DAYS = 10;
+const STATEMENT_TYPES = ["income-statement", "balance-sheet", "cash-flow"] as const;
+
+type StatementType = typeof STATEMENT_TYPES[number];
+
+export interface XbrlFact {
+  start?: string;
+  end: string;
+  val: number;
+  accn: string;
+  fy: number | null;
+  fp: string | null;
+  form: string;
+  filed: string;
+  frame?: string;
+}
+
+interface XbrlConcept {
+  label?: string | null;
+  description?: string | null;
+  units: Record<string, XbrlFact[]>;
+}
+
+// https://data.sec.gov/api/xbrl/companyfacts/CIK##########.json
+export interface CompanyFactsJson {
+  cik: number;
+  entityName: string;
+  facts: Record<string, Record<string, XbrlConcept>>;
+}
+
+// https://data.sec.gov/api/xbrl/companyconcept/CIK##########/{taxonomy}/{tag}.json
+export interface CompanyConceptJson extends XbrlConcept {
+  cik: number;
+  taxonomy: string;
+  tag: string;
+  entityName: string;
+}
+
+export interface XbrlStatements {
+  incomeStatement: EdgarParsedData;
+  balanceSheet: EdgarParsedData;
+  cashFlow: EdgarParsedData;
+}
+
+class SecNotFoundError extends Error {}
+
+function paddedCik(cik: string | number): string {
+  return String(cik).padStart(10, "0");
+}
+
+async function fetchSecJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { headers: { "User-Agent": SEC_USER_AGENT } });
+  if (response.status === 404) throw new SecNotFoundError(`No XBRL data at ${url}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch SEC XBRL data: ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as T;
+}
+
+export function fetchCompanyFacts(cik: string): Promise<CompanyFactsJson> {
+  return fetchSecJson(`https://data.sec.gov/api/xbrl/companyfacts/CIK${paddedCik(cik)}.json`);
+}
+
+export function fetchCompanyConcept(cik: string, tag: string, taxonomy = "us-gaap"): Promise<CompanyConceptJson> {
+  return fetchSecJson(`https://data.sec.gov/api/xbrl/companyconcept/CIK${paddedCik(cik)}/${taxonomy}/${tag}.json`);
+}
+
+// Monetary concepts report in USD, per-share ones in USD/shares.
+function conceptFacts(concept: XbrlConcept): { facts: XbrlFact[]; monetary: boolean } {
+  const unit = concept.units.USD ? "USD" : concept.units["USD/shares"] ? "USD/shares" : Object.keys(concept.units)[0];
+  return { facts: unit ? concept.units[unit] : [], monetary: unit === "USD" };
+}
+
+function durationDays(fact: XbrlFact): number {
+  return fact.start ? (Date.parse(fact.end) - Date.parse(fact.start)) / DAY_MS : 0;
+}
+
+function endYear(fact: XbrlFact): number {
+  return parseInt(fact.end.substring(0, 4));
+}
+
+// A filing restates earlier years in its comparatives; the latest filing's figure wins.
+function isNewer(fact: XbrlFact, than: XbrlFact): boolean {
+  return fact.filed > than.filed || (fact.filed === than.filed && fact.accn > than.accn);
+}
+
+// Fiscal year (keyed, like the iXBRL parser, by the calendar year the period ends in) -> latest annual fact.
+function annualFactsByYear(facts: XbrlFact[], instant: boolean, fiscalYearEnds: Record<number, string>): Record<number, XbrlFact> {
+  const byYear: Record<number, XbrlFact> = {};
+  for (const fact of facts) {
+    if (!ANNUAL_FORMS.includes(fact.form)) continue;
+    if (instant) {
+      if (fact.start) continue;
+      const yearEnd = fiscalYearEnds[endYear(fact)];
+      if (yearEnd && Math.abs(Date.parse(fact.end) - Date.parse(yearEnd)) > PERIOD_END_SLACK_DAYS * DAY_MS) continue;
+    } else {
+      const days = durationDays(fact);
+      if (days <= 300 || days >= 400) continue;
+    }
+    const year = endYear(fact);
+    if (!byYear[year] || isNewer(fact, byYear[year])) byYear[year] = fact;
+  }
+  return byYear;
+}
+
+// Year-end dates seen on annual duration facts, so balance sheet instants from
+// mid-year (e.g. equity roll-forward openings) don't stand in for the year end.
+function fiscalYearEndDates(concepts: Record<string, XbrlConcept>): Record<number, string> {
+  const counts: Record<number, Record<string, number>> = {};
+  for (const concept of Object.values(concepts)) {
+    for (const fact of conceptFacts(concept).facts) {
+      if (!ANNUAL_FORMS.includes(fact.form) || !fact.start) continue;
+      const days = durationDays(fact);
+      if (days <= 300 || days >= 400) continue;
+      const year = endYear(fact);
+      if (!counts[year]) counts[year] = {};
+      counts[year][fact.end] = (counts[year][fact.end] || 0) + 1;
+    }
+  }
+  const ends: Record<number, string> = {};
+  for (const [year, dates] of Object.entries(counts)) {
+    ends[Number(year)] = Object.entries(dates).sort((a, b) => b[1] - a[1])[0][0];
+  }
+  return ends;
+}
+
+function parseConcepts(
+  concepts: Record<string, XbrlConcept>,
+  statementType: StatementType,
+  entityName: string,
+  historyYears: number,
+): EdgarParsedData {
+  const fieldMap = getStatementMap(statementType);
+  const instant = statementType === "balance-sheet";
+  const fiscalYearEnds = fiscalYearEndDates(concepts);
+
+  const data: Record<number, Record<string, number>> = {};
+  const matchedFieldsSet = new Set<string>();
+  const unmatchedGaapSet = new Set<string>();
+  let latestFiled = "";
+
+  // Map order sets precedence when several tags feed one field, as document order does in the iXBRL parser.
+  for (const [tag, field] of Object.entries(fieldMap)) {
+    const concept = concepts[tag];
+    if (!concept) continue;
+    const byYear = annualFactsByYear(conceptFacts(concept).facts, instant, fiscalYearEnds);
+    for (const [year, fact] of Object.entries(byYear)) {
+      const y = Number(year);
+      if (!data[y]) data[y] = {};
+      if (data[y][field] !== undefined) continue;
+      data[y][field] = fact.val;
+      matchedFieldsSet.add(field);
+      if (fact.filed > latestFiled) latestFiled = fact.filed;
+    }
+  }
+
+  const years = Object.keys(data).map(Number).sort((a, b) => a - b).slice(-historyYears);
+  for (const year of Object.keys(data).map(Number)) {
+    if (!years.includes(year)) delete data[year];
+  }
+
+  // Only tags the latest filing still uses; companyfacts keeps every tag the company ever filed.
+  const unmatchedValues: Record<string, Record<number, number>> = {};
+  for (const [tag, concept] of Object.entries(concepts)) {
+    if (fieldMap[tag]) continue;
+    const { facts, monetary } = conceptFacts(concept);
+    if (!monetary || !facts.some(f => f.filed === latestFiled && ANNUAL_FORMS.includes(f.form))) continue;
+    unmatchedGaapSet.add(tag);
+    const byYear = annualFactsByYear(facts, instant, fiscalYearEnds);
+    const values: Record<number, number> = {};
+    for (const year of years) {
+      if (byYear[year]) values[year] = byYear[year].val;
+    }
+    if (Object.keys(values).length > 0) unmatchedValues[`us-gaap:${tag}`] = values;
+  }
+
+  return {
+    years,
+    statementType,
+    data,
+    companyName: entityName,
+    filingDate: latestFiled,
+    matchedFields: Array.from(matchedFieldsSet),
+    unmatchedGaap: Array.from(unmatchedGaapSet).slice(0, 30),
+    unmatchedTags: sortUnmatchedTags(unmatchedValues),
+    fiscalQuarter: null,
+    ytdData: {},
+    // companyfacts has no dimensional facts; segments only come from a filing's iXBRL.
+    revenueSegments: [],
+  };
+}
+
+function parseAllConcepts(concepts: Record<string, XbrlConcept>, entityName: string, historyYears: number): XbrlStatements {
+  const [incomeStatement, balanceSheet, cashFlow] = STATEMENT_TYPES.map(type =>
+    parseConcepts(concepts, type, entityName, historyYears));
+  return { incomeStatement, balanceSheet, cashFlow };
+}
+
+export function parseCompanyFacts(json: CompanyFactsJson, historyYears = DEFAULT_HISTORY_YEARS): XbrlStatements {
+  return parseAllConcepts(json.facts["us-gaap"] || {}, json.entityName, historyYears);
+}
+
+export function parseCompanyConcepts(concepts: CompanyConceptJson[], historyYears = DEFAULT_HISTORY_YEARS): XbrlStatements {
+  const byTag: Record<string, XbrlConcept> = {};
+  for (const concept of concepts) {
+    if (concept.taxonomy === "us-gaap") byTag[concept.tag] = concept;
+  }
+  return parseAllConcepts(byTag, concepts[0]?.entityName || "", historyYears);
+}
+
+export function hasStatementData(statements: XbrlStatements): boolean {
+  return [statements.incomeStatement, statements.balanceSheet, statements.cashFlow].some(s => s.years.length > 0);
+}
+
+// companyfacts is one large document per company (tens of MB for big filers); if it can't be
+// served, the mapped tags are fetched one concept at a time instead, skipping tags the company
+// never used. A 404 for companyfacts means the company has no XBRL financial data at all.
+export async function fetchXbrlStatements(cik: string, historyYears = DEFAULT_HISTORY_YEARS): Promise<XbrlStatements> {
+  try {
+    return parseCompanyFacts(await fetchCompanyFacts(cik), historyYears);
+  } catch (err) {
+    if (err instanceof SecNotFoundError) throw err;
+  }
+
+  const tags = Array.from(new Set(STATEMENT_TYPES.flatMap(type => Object.keys(getStatementMap(type)))));
+  const concepts: CompanyConceptJson[] = [];
+  for (const tag of tags) {
+    try {
+      concepts.push(await fetchCompanyConcept(cik, tag));
+    } catch (err) {
+      if (!(err instanceof SecNotFoundError)) throw err;
+    }
+  }
+  return parseCompanyConcepts(concepts, historyYears);
+}
@@ -19,6 +19,11 @@ export const financialModels = pgTable("financial_models", {
   scenarioBullMultiplier: real("scenario_bull_multiplier").default(1.2),
   scenarioBaseMultiplier: real("scenario_base_multiplier").default(1.0),
   scenarioBearMultiplier: real("scenario_bear_multiplier").default(0.8),
+  scenarioBaseWeight: real("scenario_base_weight").default(1),
+  minimumCash: real("minimum_cash").default(0),
+  revolverCapacity: real("revolver_capacity").default(0),
+  revolverRate: real("revolver_rate").default(0.07),
+  quarterlyProjections: boolean("quarterly_projections").notNull().default(false),
   displayUnit: text("display_unit").notNull().default("ones"),
   modelMode: text("model_mode").notNull().default("ipo"),
   userId: text("user_id"),
@@ -30,6 +35,8 @@ export const revenueLineItems = pgTable("revenue_line_items", {
   modelId: varchar("model_id").notNull().references(() => financialModels.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   sortOrder: integer("sort_order").notNull().default(0),
+  // XBRL axis member (e.g. us-gaap:ServiceMember) of a revenue segment imported from an SEC filing.
+  segmentMember: text("segment_member"),
 });
 
 export const revenuePeriods = pgTable("revenue_periods", {
@@ -59,9 +66,16 @@ export const incomeStatementLines = pgTable("income_statement_lines", {
   operatingIncome: real("operating_income").default(0),
   ebitda: real("ebitda").default(0),
   otherIncome: real("other_income").default(0),
+  interestExpense: real("interest_expense").default(0),
   preTaxIncome: real("pre_tax_income").default(0),
   incomeTax: real("income_tax").default(0),
   netIncome: real("net_income").default(0),
+  // Non-GAAP add-backs, already included in the expense lines above.
+  stockCompensation: real("stock_compensation").default(0),
+  intangibleAmortization: real("intangible_amortization").default(0),
+  restructuring: real("restructuring").default(0),
+  nonGaapTaxEffect: real("non_gaap_tax_effect").default(0),
+  nonGaapNetIncome: real("non_gaap_net_income").default(0),
   sharesOutstanding: real("shares_outstanding").default(0),
   eps: real("eps").default(0),
   nonGaapEps: real("non_gaap_eps").default(0),
@@ -71,6 +85,7 @@ export const incomeStatementLines = pgTable("income_statement_lines", {
   gaPercent: real("ga_percent").default(0),
   depreciationPercent: real("depreciation_percent").default(0),
   taxRate: real("tax_rate").default(0),
+  customLines: jsonb("custom_lines"),
 });
 
 export const balanceSheetLines = pgTable("balance_sheet_lines", {
@@ -93,6 +108,7 @@ export const balanceSheetLines = pgTable("balance_sheet_lines", {
   shortTermDebt: real("short_term_debt").default(0),
   totalCurrentLiabilities: real("total_current_liabilities").default(0),
   longTermDebt: real("long_term_debt").default(0),
+  deferredTaxLiability: real("deferred_tax_liability").default(0),
   totalLongTermLiabilities: real("total_long_term_liabilities").default(0),
   totalLiabilities: real("total_liabilities").default(0),
   retainedEarnings: real("retained_earnings").default(0),
@@ -103,6 +119,12 @@ export const balanceSheetLines = pgTable("balance_sheet_lines", {
   inventoryPercent: real("inventory_percent").default(0),
   apPercent: real("ap_percent").default(0),
   capexPercent: real("capex_percent").default(0),
+  dso: real("dso"),
+  dio: real("dio"),
+  dpo: real("dpo"),
+  // Memo: net operating loss carryforward at year end; null when not reported.
+  nolBalance: real("nol_balance"),
+  customLines: jsonb("custom_lines"),
 });
 
 export const cashFlowLines = pgTable("cash_flow_lines", {
@@ -113,6 +135,8 @@ export const cashFlowLines = pgTable("cash_flow_lines", {
   isActual: boolean("is_actual").notNull().default(false),
   netIncome: real("net_income").default(0),
   depreciationAdd: real("depreciation_add").default(0),
+  stockCompensationAdd: real("stock_compensation_add").default(0),
+  deferredTaxes: real("deferred_taxes").default(0),
   arChange: real("ar_change").default(0),
   inventoryChange: real("inventory_change").default(0),
   apChange: real("ap_change").default(0),
@@ -122,11 +146,13 @@ export const cashFlowLines = pgTable("cash_flow_lines", {
   shortTermDebtChange: real("short_term_debt_change").default(0),
   longTermDebtChange: real("long_term_debt_change").default(0),
   commonSharesChange: real("common_shares_change").default(0),
+  dividendsPaid: real("dividends_paid").default(0),
   financingCashFlow: real("financing_cash_flow").default(0),
   netCashChange: real("net_cash_change").default(0),
   beginningCash: real("beginning_cash").default(0),
   endingCash: real("ending_cash").default(0),
   freeCashFlow: real("free_cash_flow").default(0),
+  customLines: jsonb("custom_lines"),
 });
 
 export const dcfValuations = pgTable("dcf_valuations", {
@@ -152,6 +178,14 @@ export const dcfValuations = pgTable("dcf_valuations", {
   targetValue: real("target_value").default(0),
   targetPricePerShare: real("target_price_per_share").default(0),
   sensitivityData: jsonb("sensitivity_data"),
+  valuationDate: text("valuation_date"),
+  midYearConvention: boolean("mid_year_convention").notNull().default(false),
+  stubPeriod: boolean("stub_period").notNull().default(false),
+  terminalValueMethod: text("terminal_value_method").notNull().default("perpetuity"),
+  exitMultiple: real("exit_multiple").notNull().default(10),
+  terminalBlendWeight: real("terminal_blend_weight").notNull().default(0.5),
+  equityBridgeOverrides: jsonb("equity_bridge_overrides"),
+  dilutedShares: real("diluted_shares"),
 });
 
 export const valuationComparisons = pgTable("valuation_comparisons", {
@@ -174,6 +208,7 @@ export const valuationComparisons = pgTable("valuation_comparisons", {
   dcfBaseTarget: real("dcf_base_target").default(0),
   dcfBearTarget: real("dcf_bear_target").default(0),
   averageTarget: real("average_target").default(0),
+  weightedTarget: real("weighted_target").default(0),
   percentToTarget: real("percent_to_target").default(0),
   valuationData: jsonb("valuation_data"),
 });
@@ -272,6 +307,22 @@ export const scenarios = pgTable("scenarios", {
   name: text("name").notNull(),
   type: text("type").notNull().default("base"),
   color: text("color").notNull().default("#3b82f6"),
+  weight: real("weight").default(0),
+  results: jsonb("results"),
+});
+
+// Balance is the opening balance at the start of the first projected year;
+// amortizationRate is the share of that balance repaid each year until maturity.
+export const debtTranches = pgTable("debt_tranches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  modelId: varchar("model_id").notNull().references(() => financialModels.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  classification: text("classification").notNull().default("long_term"),
+  balance: real("balance").notNull().default(0),
+  interestRate: real("interest_rate").notNull().default(0.05),
+  amortizationRate: real("amortization_rate").notNull().default(0),
+  maturityYear: integer("maturity_year"),
+  sortOrder: integer("sort_order").notNull().default(0),
 });
 
 export const assumptions = pgTable("assumptions", {
@@ -291,6 +342,35 @@ export const assumptions = pgTable("assumptions", {
   capexPercent: numeric("capex_percent").notNull().default("0.05"),
   arPercent: numeric("ar_percent").notNull().default("0.15"),
   apPercent: numeric("ap_percent").notNull().default("0.15"),
+  // Days-based working capital; null seeds from the latest actual year.
+  dsoDays: numeric("dso_days"),
+  dioDays: numeric("dio_days"),
+  dpoDays: numeric("dpo_days"),
+  workingCapitalDays: jsonb("working_capital_days"),
+  // Fixed assets: capex depreciates by useful life or a percent of prior net PP&E; opening PP&E runs off separately.
+  depreciationMethod: text("depreciation_method").notNull().default("useful_life"),
+  usefulLifeYears: numeric("useful_life_years").notNull().default("7"),
+  depreciationRate: numeric("depreciation_rate").notNull().default("0.15"),
+  existingAssetLifeYears: numeric("existing_asset_life_years").notNull().default("5"),
+  // Capital returns: dividends as a payout of net income or a fixed amount per share; buybacks spend
+  // buybackAmount a year at buybackPrice (null uses the current share price). Cash earns cashInterestRate.
+  dividendMethod: text("dividend_method").notNull().default("payout_ratio"),
+  dividendPayoutRatio: numeric("dividend_payout_ratio").notNull().default("0"),
+  dividendPerShare: numeric("dividend_per_share").notNull().default("0"),
+  buybackAmount: numeric("buyback_amount").notNull().default("0"),
+  buybackPrice: numeric("buyback_price"),
+  cashInterestRate: numeric("cash_interest_rate").notNull().default("0.02"),
+  // Losses build an NOL balance (openingNol null = latest reported) that offsets up to nolAnnualLimit
+  // of each year's taxable income. Cash tax above or below book tax (cashTaxRate null = taxRate)
+  // builds a deferred tax liability.
+  openingNol: numeric("opening_nol"),
+  nolAnnualLimit: numeric("nol_annual_limit").notNull().default("0.80"),
+  cashTaxRate: numeric("cash_tax_rate"),
+  // Non-GAAP add-backs as a share of revenue. Null SBC and amortization seed from the latest
+  // actual year; restructuring is one-off, so it isn't carried forward.
+  sbcPercent: numeric("sbc_percent"),
+  intangibleAmortizationPercent: numeric("intangible_amortization_percent"),
+  restructuringPercent: numeric("restructuring_percent").notNull().default("0"),
   initialCash: numeric("initial_cash").notNull().default("100000"),
   monthlyBurnOverride: numeric("monthly_burn_override"),
 });
@@ -315,6 +395,22 @@ export const reports = pgTable("reports", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A user's choice of where an XBRL tag the importer doesn't know lands for one company (by CIK):
+// a statement field, or a custom line named customLabel when field is null. Reapplied on every
+// SEC import of that company.
+export const gaapTagMappings = pgTable("gaap_tag_mappings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: text("user_id").notNull(),
+  cik: text("cik").notNull(),
+  tag: text("tag").notNull(),
+  statement: text("statement").notNull(),
+  field: text("field"),
+  customLabel: text("custom_label"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("gaap_tag_mappings_user_cik_tag_idx").on(table.userId, table.cik, table.tag),
+]);
+
 export const cryptoProjects = pgTable("crypto_projects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   coingeckoId: text("coingecko_id").notNull(),
@@ -459,16 +555,32 @@ export const fundraisingRounds = pgTable("fundraising_rounds", {
   sortOrder: integer("sort_order").default(0),
 });
 
-export const insertFinancialModelSchema = createInsertSchema(financialModels, {
+// drizzle-zod caps real columns at float4's exact integer range, which rejects ordinary
+// financial figures. Postgres stores larger values rounded, so lift that cap alone.
+const REAL_COLUMN_MAX = 8388607;
+
+function unboundedReal(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional) return unboundedReal(schema.unwrap()).optional();
+  if (schema instanceof z.ZodNullable) return unboundedReal(schema.unwrap()).nullable();
+  if (schema instanceof z.ZodNumber && !schema.isInt && schema.maxValue === REAL_COLUMN_MAX) return z.number();
+  return schema;
+}
+
+function withUnboundedReals<T extends z.ZodRawShape>(schema: z.ZodObject<T>): z.ZodObject<T> {
+  const shape = Object.fromEntries(Object.entries(schema.shape).map(([key, field]) => [key, unboundedReal(field)]));
+  return z.object(shape) as unknown as z.ZodObject<T>;
+}
+
+export const insertFinancialModelSchema = withUnboundedReals(createInsertSchema(financialModels, {
   sharesOutstanding: z.number().min(0).max(100000000000).optional(),
-}).omit({ id: true, createdAt: true });
+}).omit({ id: true, createdAt: true }));
 export const insertRevenueLineItemSchema = createInsertSchema(revenueLineItems).omit({ id: true });
-export const insertRevenuePeriodSchema = createInsertSchema(revenuePeriods).omit({ id: true });
-export const insertIncomeStatementLineSchema = createInsertSchema(incomeStatementLines).omit({ id: true });
-export const insertBalanceSheetLineSchema = createInsertSchema(balanceSheetLines).omit({ id: true });
-export const insertCashFlowLineSchema = createInsertSchema(cashFlowLines).omit({ id: true });
-export const insertDcfValuationSchema = createInsertSchema(dcfValuations).omit({ id: true });
-export const insertValuationComparisonSchema = createInsertSchema(valuationComparisons).omit({ id: true });
+export const insertRevenuePeriodSchema = withUnboundedReals(createInsertSchema(revenuePeriods).omit({ id: true }));
+export const insertIncomeStatementLineSchema = withUnboundedReals(createInsertSchema(incomeStatementLines).omit({ id: true }));
+export const insertBalanceSheetLineSchema = withUnboundedReals(createInsertSchema(balanceSheetLines).omit({ id: true }));
+export const insertCashFlowLineSchema = withUnboundedReals(createInsertSchema(cashFlowLines).omit({ id: true }));
+export const insertDcfValuationSchema = withUnboundedReals(createInsertSchema(dcfValuations).omit({ id: true }));
+export const insertValuationComparisonSchema = withUnboundedReals(createInsertSchema(valuationComparisons).omit({ id: true }));
 export const insertPortfolioPositionSchema = createInsertSchema(portfolioPositions, {
   marketCap: z.number().optional(),
   volume: z.number().optional(),
@@ -481,10 +593,12 @@ export const insertPortfolioLotSchema = createInsertSchema(portfolioLots).omit({
 export const insertMacroIndicatorSchema = createInsertSchema(macroIndicators).omit({ id: true, updatedAt: true });
 export const insertMarketIndexSchema = createInsertSchema(marketIndices).omit({ id: true });
 export const insertPortfolioRedFlagSchema = createInsertSchema(portfolioRedFlags).omit({ id: true });
-export const insertAssumptionsSchema = createInsertSchema(assumptions).omit({ id: true });
-export const insertScenarioSchema = createInsertSchema(scenarios).omit({ id: true });
+export const insertAssumptionsSchema = withUnboundedReals(createInsertSchema(assumptions).omit({ id: true }));
+export const insertScenarioSchema = withUnboundedReals(createInsertSchema(scenarios).omit({ id: true }));
+export const insertDebtTrancheSchema = withUnboundedReals(createInsertSchema(debtTranches).omit({ id: true }));
 export const insertActualsSchema = createInsertSchema(actuals).omit({ id: true });
 export const insertReportSchema = createInsertSchema(reports).omit({ id: true, createdAt: true });
+export const insertGaapTagMappingSchema = createInsertSchema(gaapTagMappings).omit({ id: true, updatedAt: true });
 export const insertCryptoProjectSchema = createInsertSchema(cryptoProjects).omit({ id: true, updatedAt: true });
 export const insertTokenSupplyScheduleSchema = createInsertSchema(tokenSupplySchedules).omit({ id: true });
 export const insertTokenIncentiveSchema = createInsertSchema(tokenIncentives).omit({ id: true });
@@ -576,6 +690,159 @@ export type Assumptions = typeof assumptions.$inferSelect;
 export type InsertAssumptions = z.infer<typeof insertAssumptionsSchema>;
 export type Scenario = typeof scenarios.$inferSelect;
 export type InsertScenario = z.infer<typeof insertScenarioSchema>;
+export type DebtTranche = typeof debtTranches.$inferSelect;
+export type InsertDebtTranche = z.infer<typeof insertDebtTrancheSchema>;
+
+export type IntegrityStatement = "income-statement" | "balance-sheet" | "cash-flow";
+
+export interface IntegrityIssue {
+  year: number;
+  isActual: boolean;
+  statement: IntegrityStatement;
+  kind: "imbalance" | "tie_out" | "sign";
+  severity: "error" | "warning";
+  field: string;
+  message: string;
+  difference?: number;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  issues: IntegrityIssue[];
+}
+
+export type DepreciationMethod = "useful_life" | "percent_of_ppe";
+
+export type DividendMethod = "payout_ratio" | "per_share";
+
+export type GaapTagMapping = typeof gaapTagMappings.$inferSelect;
+export type InsertGaapTagMapping = z.infer<typeof insertGaapTagMappingSchema>;
+
+// An imported tag with no built-in or user mapping, with its value by fiscal year.
+export interface UnmatchedTag {
+  tag: string;
+  values: Record<number, number>;
+}
+
+// Stored on statement rows' customLines: mapped tags with no matching column, by label.
+export type CustomLines = Record<string, number>;
+
+export interface RevenueSegment {
+  axis: string;
+  member: string;
+  label: string;
+  values: Record<number, number>;
+}
+
+// Trailing twelve months summed from the four reported quarters ending at asOf.
+export interface TtmSummary {
+  asOfYear: number;
+  asOfQuarter: number;
+  incomeStatement: Record<string, number>;
+  cashFlow: Record<string, number> | null;
+}
+
+export type WorkingCapitalDayKey = "dso" | "dio" | "dpo";
+
+// Per-year overrides stored in assumptions.workingCapitalDays, keyed by year.
+export type WorkingCapitalDaysByYear = Record<string, Partial<Record<WorkingCapitalDayKey, number>>>;
+
+export type CalibrationMethod = "average" | "median" | "last";
+
+// A projection assumption re-derived from actual statements; `current` is the base case value.
+export interface CalibrationProposal {
+  field: string;
+  label: string;
+  unit: "percent" | "days";
+  current: number | null;
+  proposed: number;
+  years: number[];
+}
+
+export interface CalibrationResult {
+  method: CalibrationMethod;
+  lookbackYears: number;
+  proposals: CalibrationProposal[];
+}
+
+// One row per tranche per projected year; the revolver has a null trancheId.
+export interface DebtScheduleRow {
+  year: number;
+  trancheId: string | null;
+  name: string;
+  classification: "short_term" | "long_term";
+  opening: number;
+  drawdown: number;
+  repayment: number;
+  closing: number;
+  interest: number;
+}
+
+export interface ScenarioResults {
+  revenue: Record<number, number>;
+  incomeStatement: Array<Pick<IncomeStatementLine, "year" | "isActual" | "revenue" | "grossProfit" | "operatingIncome" | "ebitda" | "netIncome" | "eps">>;
+  balanceSheet: Array<Pick<BalanceSheetLine, "year" | "isActual" | "cash" | "totalAssets" | "totalLiabilities" | "totalEquity">>;
+  cashFlow: Array<Pick<CashFlowLine, "year" | "isActual" | "operatingCashFlow" | "capex" | "freeCashFlow" | "endingCash">>;
+  dcf: { npv: number; terminalValue: number; terminalValueDiscounted: number; targetEquityValue: number; targetPricePerShare: number };
+  calculatedAt: string;
+}
+
+export type SensitivityDriver = "wacc" | "longTermGrowth" | "revenueGrowth" | "targetNetMargin" | "exitMultiple" | "beta";
+
+// Stored on dcfValuations.sensitivityData by POST /api/models/:modelId/sensitivity.
+// values[i][j] is the target price at rowValues[i] x columnValues[j]; null where the DCF is undefined.
+export interface SensitivityGrid {
+  rowDriver: SensitivityDriver;
+  columnDriver: SensitivityDriver;
+  rowValues: number[];
+  columnValues: number[];
+  values: Array<Array<number | null>>;
+  baseValues: Record<SensitivityDriver, number>;
+  baseTargetPrice: number;
+  currentSharePrice: number;
+  generatedAt: string;
+}
+
+export type GoalSeekInput =
+  | "revenueGrowth" | "targetNetMargin" | "wacc" | "longTermGrowth"
+  | "cogsPercent" | "salesMarketingPercent" | "rdPercent" | "gaPercent";
+
+export type GoalSeekOutput = "targetPrice" | "eps" | "fcfMargin";
+
+// Returned by POST /api/models/:modelId/goal-seek; nothing is saved. When no value in the search
+// range reaches the target, solvedValue is the closest one tried and converged is false.
+export interface GoalSeekResult {
+  input: GoalSeekInput;
+  output: GoalSeekOutput;
+  year: number | null;
+  target: number;
+  lower: number;
+  upper: number;
+  baseValue: number;
+  baseOutput: number | null;
+  solvedValue: number | null;
+  achievedOutput: number | null;
+  converged: boolean;
+  evaluations: number;
+}
+
+export type EquityBridgeKey =
+  | "cash" | "shortTermInvestments" | "shortTermDebt" | "longTermDebt"
+  | "leases" | "minorityInterest" | "preferredStock" | "otherClaims";
+
+// Stored on dcfValuations.equityBridgeOverrides; a missing key falls back to the balance sheet (or 0).
+export type EquityBridgeOverrides = Partial<Record<EquityBridgeKey, number>>;
+
+export const EQUITY_BRIDGE_ITEMS: Array<{ key: EquityBridgeKey; label: string; sign: 1 | -1; balanceSheetField?: keyof BalanceSheetLine }> = [
+  { key: "cash", label: "Cash", sign: 1, balanceSheetField: "cash" },
+  { key: "shortTermInvestments", label: "Short-Term Investments", sign: 1, balanceSheetField: "shortTermInvestments" },
+  { key: "shortTermDebt", label: "Short-Term Debt", sign: -1, balanceSheetField: "shortTermDebt" },
+  { key: "longTermDebt", label: "Long-Term Debt", sign: -1, balanceSheetField: "longTermDebt" },
+  { key: "leases", label: "Lease Liabilities", sign: -1 },
+  { key: "minorityInterest", label: "Minority Interest", sign: -1 },
+  { key: "preferredStock", label: "Preferred Stock", sign: -1 },
+  { key: "otherClaims", label: "Other Claims", sign: -1 },
+];
 export type Actual = typeof actuals.$inferSelect;
 export type InsertActual = z.infer<typeof insertActualsSchema>;
 export type Report = typeof reports.$inferSelect;
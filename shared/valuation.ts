@@ -0,0 +1,145 @@
+import { EQUITY_BRIDGE_ITEMS, type EquityBridgeKey, type EquityBridgeOverrides } from "./schema";
+
+// Valuation logic shared by the recalculation engine and the pages that preview unsaved edits,
+// so both compute the same figures.
+
+export interface DcfTiming {
+  valuationDate: string | null;
+  midYearConvention: boolean;
+  stubPeriod: boolean;
+}
+
+export interface DcfPeriod {
+  year: number;
+  fcf: number;
+  fraction: number;
+  periodEnd: number;
+  discountPeriod: number;
+}
+
+// Fiscal years are treated as calendar years. Without a valuation date the model is valued at the
+// start of its first projected year; without a stub the valuation year counts as a full period.
+export function dcfPeriodsFor(cfRows: Array<Record<string, any>>, timing: DcfTiming): DcfPeriod[] {
+  const projected = cfRows.filter(r => !r.isActual).sort((a, b) => a.year - b.year);
+  if (projected.length === 0) return [];
+  const valDate = timing.valuationDate ? new Date(`${timing.valuationDate}T00:00:00Z`) : new Date(Date.UTC(projected[0].year, 0, 1));
+  if (isNaN(valDate.getTime())) return dcfPeriodsFor(cfRows, { ...timing, valuationDate: null });
+  const valYear = valDate.getUTCFullYear();
+  const yearStart = Date.UTC(valYear, 0, 1);
+  const yearEnd = Date.UTC(valYear + 1, 0, 1);
+  const firstFraction = timing.stubPeriod ? (yearEnd - valDate.getTime()) / (yearEnd - yearStart) : 1;
+
+  return projected
+    .filter(r => r.year >= valYear)
+    .map(r => {
+      const fraction = r.year === valYear ? firstFraction : 1;
+      const periodEnd = firstFraction + (r.year - valYear);
+      const full = r.freeCashFlow || 0;
+      return {
+        year: r.year,
+        fcf: full * fraction,
+        fraction,
+        periodEnd,
+        discountPeriod: timing.midYearConvention ? periodEnd - fraction / 2 : periodEnd,
+      };
+    })
+    .filter(p => p.fraction > 0);
+}
+
+export type TerminalValueMethod = "perpetuity" | "exit_multiple" | "blend";
+
+export interface TerminalValueOptions {
+  method: TerminalValueMethod;
+  exitMultiple: number;
+  blendWeight: number;
+  finalEbitda: number;
+}
+
+// The perpetuity value is undefined when WACC doesn't exceed long-term growth; it counts as zero
+// and the implied exit multiple is left blank.
+export function computeDcf(
+  periods: DcfPeriod[], wacc: number, longTermGrowth: number, netDebt: number, sharesOut: number,
+  terminal?: TerminalValueOptions,
+) {
+  let npv = 0;
+  for (const p of periods) {
+    npv += p.fcf / Math.pow(1 + wacc, p.discountPeriod);
+  }
+  const last = periods[periods.length - 1];
+  const lastFCF = last ? last.fcf / last.fraction : 0;
+  const perpetuityDefined = wacc > longTermGrowth;
+  const perpetuityTv = perpetuityDefined ? (lastFCF * (1 + longTermGrowth)) / (wacc - longTermGrowth) : 0;
+  const exitTv = terminal ? terminal.finalEbitda * terminal.exitMultiple : 0;
+  const method = terminal?.method ?? "perpetuity";
+  // blendWeight is the share given to the perpetuity method.
+  const tv = method === "exit_multiple" ? exitTv
+    : method === "blend" ? terminal!.blendWeight * perpetuityTv + (1 - terminal!.blendWeight) * exitTv
+    : perpetuityTv;
+  const tvDisc = last ? tv / Math.pow(1 + wacc, last.periodEnd) : 0;
+  const targetEV = npv + tvDisc - netDebt;
+  const targetPrice = sharesOut > 0 ? targetEV / sharesOut : 0;
+
+  const finalEbitda = terminal?.finalEbitda ?? 0;
+  const impliedExitMultiple = finalEbitda > 0 && perpetuityDefined ? perpetuityTv / finalEbitda : null;
+  const impliedPerpetuityGrowth = finalEbitda > 0 && exitTv + lastFCF !== 0
+    ? (exitTv * wacc - lastFCF) / (exitTv + lastFCF)
+    : null;
+  return { npv, tv, tvDisc, targetEV, targetPrice, perpetuityTv, exitTv, impliedExitMultiple, impliedPerpetuityGrowth };
+}
+
+export interface EquityBridgeItem {
+  key: EquityBridgeKey;
+  label: string;
+  sign: 1 | -1;
+  // Signed contribution to equity value: claims are negative, cash is positive.
+  value: number;
+  source: "override" | "balance_sheet" | "default";
+}
+
+export interface EquityBridge {
+  asOfYear: number | null;
+  items: EquityBridgeItem[];
+  totalDebt: number;
+  netDebt: number;
+}
+
+// The bridge uses the balance sheet at the valuation date: the latest annual row
+// before the first discounted year, or the earliest row when none precedes it.
+export function bridgeBalanceSheetRow<T extends Record<string, any>>(
+  bsRows: T[], periods: Array<{ year: number }>,
+): T | undefined {
+  const annual = bsRows.filter(r => !r.quarter).sort((a, b) => a.year - b.year);
+  const firstYear = periods[0]?.year;
+  const prior = firstYear === undefined ? annual : annual.filter(r => r.year < firstYear);
+  return prior.length > 0 ? prior[prior.length - 1] : annual[0];
+}
+
+export function equityBridgeFor(
+  bsRow: Record<string, any> | undefined, overrides: EquityBridgeOverrides | null | undefined,
+): EquityBridge {
+  const items = EQUITY_BRIDGE_ITEMS.map(def => {
+    const override = overrides?.[def.key];
+    if (typeof override === "number") {
+      return { key: def.key, label: def.label, sign: def.sign, value: def.sign * override, source: "override" as const };
+    }
+    if (def.balanceSheetField && bsRow) {
+      return { key: def.key, label: def.label, sign: def.sign, value: def.sign * (Number(bsRow[def.balanceSheetField]) || 0), source: "balance_sheet" as const };
+    }
+    return { key: def.key, label: def.label, sign: def.sign, value: 0, source: "default" as const };
+  });
+  const value = (key: EquityBridgeKey) => items.find(i => i.key === key)!.value;
+  return {
+    asOfYear: bsRow?.year ?? null,
+    items,
+    totalDebt: -(value("shortTermDebt") + value("longTermDebt")),
+    netDebt: -items.reduce((sum, i) => sum + i.value, 0),
+  };
+}
+
+// Per-share value divides by the share count at the equity bridge's balance sheet date: buybacks
+// after the valuation date are paid from free cash flow that is already in the value.
+export function valuationShareCount(
+  shareCounts: Record<number, { closing: number }>, bridgeRow: Record<string, any> | undefined, sharesOut: number,
+): number {
+  return (bridgeRow && shareCounts[bridgeRow.year]?.closing) || sharesOut;
+}